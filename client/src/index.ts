@@ -2,10 +2,17 @@
 
 import { initializeRenderer } from './modules/rendering/renderer';
 import { initializeGameLogic } from './modules/game/game';
-import { setupNetworking } from './modules/network/network';
+import { setupNetworking, getServerTime } from './modules/network/network';
 import { initializeAdEngine } from './modules/ads/adEngine';
 import { detectMobileDevice, setupControls } from './modules/game/controls';
+import { createAccountPanel } from './modules/game/accountPanel';
+import { createLeaderboardPanel } from './modules/game/leaderboardPanel';
 import { AppState, RendererInstance, NetworkManager, GameModule } from './types';
+import { WEAPONS, DEFAULT_WEAPON, createAmmo } from '../../shared/combat/weapons';
+import { MAX_HEAT, MAX_ENERGY, isOverheated } from '../../shared/combat/resources';
+import { FLARE_COUNT } from '../../shared/combat/missiles';
+import { MAX_HEALTH, MAX_SHIELD } from '../../shared/combat/damage';
+import { POWER_UPS, POWER_UP_TYPES, hasPowerUp } from '../../shared/combat/powerups';
 
 // Performance debugging
 const debugPerformance = true;
@@ -23,11 +30,25 @@ function debugTime(label: string) {
 let appState: AppState = {
   loading: true,
   playerStats: {
-    health: 100,
+    health: MAX_HEALTH,
+    shield: MAX_SHIELD,
     position: { x: 100, y: 200, z: 100 }, // Starting position
     rotation: { x: 0, y: 0, z: 0 },
     velocity: { x: 0, y: 0, z: 0 },
-    boost: false
+    boost: false,
+    weapon: DEFAULT_WEAPON,
+    ammo: createAmmo(),
+    heat: 0,
+    overheatedUntil: 0,
+    energy: MAX_ENERGY,
+    flares: FLARE_COUNT,
+    lockTargetId: null,
+    lockProgress: 0,
+    incomingMissiles: 0,
+    powerUps: {},
+    isAlive: true,
+    respawnTime: 0,
+    spawnProtectedUntil: 0
   },
   otherPlayers: {},
   gameOptions: {
@@ -44,6 +65,15 @@ const loadingElement = document.getElementById('loading') as HTMLDivElement;
 const progressBar = document.getElementById('progress-bar') as HTMLDivElement;
 const hudElement = document.getElementById('hud') as HTMLDivElement;
 const healthBar = document.getElementById('health') as HTMLDivElement;
+const shieldBar = document.getElementById('shield') as HTMLDivElement;
+const weaponLabel = document.getElementById('weapon') as HTMLDivElement;
+const heatGauge = document.getElementById('heat-gauge') as HTMLDivElement;
+const heatBar = document.getElementById('heat') as HTMLDivElement;
+const energyBar = document.getElementById('energy') as HTMLDivElement;
+const missileWarning = document.getElementById('missile-warning') as HTMLDivElement;
+const powerUpTimers = document.getElementById('powerups') as HTMLDivElement;
+const deathScreen = document.getElementById('death-screen') as HTMLDivElement;
+const spawnProtection = document.getElementById('spawn-protection') as HTMLDivElement;
 const mobileControls = document.querySelector('.mobile-controls') as HTMLDivElement;
 
 // Sound toggle button
@@ -105,6 +135,12 @@ async function initializeGame(): Promise<void> {
     // Create performance settings button
     createPerformanceButton(game);
     
+    // Create account button and profile panel
+    createAccountPanel(networkManager);
+    
+    // Create leaderboards button and panel
+    createLeaderboardPanel(networkManager);
+    
     // Complete loading and show game
     updateLoadingProgress(100, 'Ready!');
     debugTime('Game fully initialized');
@@ -116,9 +152,46 @@ async function initializeGame(): Promise<void> {
       game.start();
     }, 500);
     
-    // Update health bar when player health changes
+    // Update health and shield bars, gauges, weapon readout, power-up timers and respawn countdowns when they change
     setInterval(() => {
-      healthBar.style.width = `${appState.playerStats.health}%`;
+      healthBar.style.width = `${appState.playerStats.health / MAX_HEALTH * 100}%`;
+      shieldBar.style.width = `${appState.playerStats.shield / MAX_SHIELD * 100}%`;
+      heatBar.style.width = `${appState.playerStats.heat / MAX_HEAT * 100}%`;
+      heatGauge.classList.toggle('overheated', isOverheated(appState.playerStats, Date.now()));
+      energyBar.style.width = `${appState.playerStats.energy / MAX_ENERGY * 100}%`;
+      
+      const weapon = WEAPONS[appState.playerStats.weapon];
+      const ammo = appState.playerStats.ammo[weapon.id];
+      let weaponText = ammo === undefined ? weapon.name : `${weapon.name}  ${ammo}`;
+      if (appState.playerStats.lockTargetId) {
+        const lockProgress = appState.playerStats.lockProgress;
+        weaponText += lockProgress >= 1 ? '  LOCKED' : `  LOCKING ${Math.floor(lockProgress * 100)}%`;
+      }
+      weaponLabel.textContent = weaponText;
+      weaponLabel.style.color = weapon.color;
+      
+      // Warn about missiles homing in on us
+      missileWarning.style.display = appState.playerStats.incomingMissiles > 0 ? 'block' : 'none';
+      missileWarning.textContent = `MISSILE INCOMING - FLARES: ${appState.playerStats.flares}`;
+      
+      // Count down the timed power-ups we have running
+      const serverTime = getServerTime();
+      const powerUps = appState.playerStats.powerUps;
+      powerUpTimers.innerHTML = POWER_UP_TYPES
+        .filter(type => hasPowerUp(powerUps, type, serverTime))
+        .map(type => {
+          const seconds = Math.ceil((powerUps[type]! - serverTime) / 1000);
+          return `<div style="color: ${POWER_UPS[type].color}">${POWER_UPS[type].name} ${seconds}s</div>`;
+        })
+        .join('');
+      
+      // Count down to our respawn, then through our spawn protection
+      const stats = appState.playerStats;
+      deathScreen.style.display = stats.isAlive ? 'none' : 'block';
+      deathScreen.textContent = `DESTROYED - RESPAWN IN ${Math.max(0, Math.ceil((stats.respawnTime - serverTime) / 1000))}`;
+      const protectedFor = stats.spawnProtectedUntil - serverTime;
+      spawnProtection.style.display = stats.isAlive && protectedFor > 0 ? 'block' : 'none';
+      spawnProtection.textContent = `SPAWN PROTECTION ${Math.ceil(protectedFor / 1000)}s`;
     }, 100);
   } catch (error:any) {
     console.error('Error during game initialization:', error);
@@ -1,5 +1,5 @@
 import * as BABYLON from '@babylonjs/core';
-import { getSocket } from '../network/network';
+import { onGameState } from '../network/network';
 
 // Active billboards
 interface Billboard {
@@ -41,15 +41,11 @@ const billboards: Record<string, Billboard> = {};
  */
 export async function initializeAdEngine(scene: BABYLON.Scene) {
   // Setup event listener for ad updates from server
-  const socket = getSocket();
-  
-  if (socket) {
-    socket.on('game:state', (state: any) => {
-      if (state.ads) {
-        updateAdsFromServer(state.ads, scene);
-      }
-    });
-  }
+  onGameState(state => {
+    if (state.ads) {
+      updateAdsFromServer(state.ads, scene);
+    }
+  });
   
   return {
     updateBillboard,
@@ -0,0 +1,254 @@
+/**
+ * Account panel - shows who we are playing as, lets us change our display
+ * name and car color, and register, log in or log out
+ */
+import { onProfile, onAccountError } from '../network/network';
+import { DEFAULT_BODY_COLOR } from '../rendering/car';
+import { formatStat } from './leaderboardPanel';
+import { NetworkManager, Profile, AccountErrorReason } from '../../types';
+
+// Panel elements
+let toggleButton: HTMLDivElement | null = null;
+let panelElement: HTMLDivElement | null = null;
+let nameInput: HTMLInputElement | null = null;
+let colorInput: HTMLInputElement | null = null;
+let statsElement: HTMLDivElement | null = null;
+let accountElement: HTMLDivElement | null = null;
+let usernameInput: HTMLInputElement | null = null;
+let passwordInput: HTMLInputElement | null = null;
+let registerButton: HTMLButtonElement | null = null;
+let messageElement: HTMLDivElement | null = null;
+
+const RECENT_MATCHES_SHOWN = 5; // Matches listed under the lifetime stats
+
+// What to tell the player when the server refuses something
+const ERROR_MESSAGES: Record<AccountErrorReason, string> = {
+  invalid_token: 'Your session expired - playing as a new guest',
+  invalid_credentials: 'Wrong username or password',
+  already_registered: 'This account is already registered',
+  username_taken: 'That username is taken',
+  invalid_username: 'Usernames are 3-16 letters, digits, - or _',
+  invalid_password: 'Passwords need at least 8 characters',
+  invalid_display_name: 'Names are 1-16 characters',
+  invalid_color: 'Pick another color',
+  too_many_guests: 'Too many new guests from your network - log in or try again later',
+  server_error: 'Something went wrong on the server - try again'
+};
+
+/**
+ * Create the account button and its panel
+ * @param {NetworkManager} networkManager - Sends profile changes and logins
+ */
+export function createAccountPanel(networkManager: NetworkManager): void {
+  // Button showing our name, next to the performance button
+  toggleButton = document.createElement('div');
+  toggleButton.style.position = 'absolute';
+  toggleButton.style.top = '20px';
+  toggleButton.style.right = '260px';
+  toggleButton.style.padding = '5px 10px';
+  toggleButton.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+  toggleButton.style.border = '2px solid #0ff';
+  toggleButton.style.borderRadius = '4px';
+  toggleButton.style.color = '#0ff';
+  toggleButton.style.cursor = 'pointer';
+  toggleButton.style.zIndex = '1001';
+  toggleButton.style.fontFamily = 'monospace';
+  toggleButton.style.fontSize = '12px';
+  toggleButton.textContent = 'CONNECTING...';
+  toggleButton.addEventListener('click', () => {
+    if (panelElement) {
+      panelElement.style.display = panelElement.style.display === 'none' ? 'block' : 'none';
+    }
+  });
+  document.body.appendChild(toggleButton);
+
+  panelElement = document.createElement('div');
+  panelElement.style.display = 'none';
+  panelElement.style.position = 'absolute';
+  panelElement.style.top = '60px';
+  panelElement.style.right = '20px';
+  panelElement.style.width = '260px';
+  panelElement.style.padding = '12px';
+  panelElement.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+  panelElement.style.border = '2px solid #0ff';
+  panelElement.style.borderRadius = '10px';
+  panelElement.style.color = '#0ff';
+  panelElement.style.fontFamily = 'monospace';
+  panelElement.style.fontSize = '12px';
+  panelElement.style.zIndex = '1002';
+
+  // Typing in the panel mustn't fly the car
+  panelElement.addEventListener('keydown', event => event.stopPropagation());
+  panelElement.addEventListener('keyup', event => event.stopPropagation());
+
+  // Profile
+  panelElement.appendChild(createHeading('PROFILE'));
+  nameInput = createInput('text', 'Display name');
+  colorInput = createInput('color', 'Car color');
+  panelElement.appendChild(nameInput);
+  panelElement.appendChild(colorInput);
+  panelElement.appendChild(createButton('SAVE', () => {
+    networkManager.updateProfile?.({
+      displayName: nameInput ? nameInput.value : undefined,
+      carColor: colorInput ? colorInput.value : undefined
+    });
+  }));
+  statsElement = document.createElement('div');
+  statsElement.style.margin = '8px 0';
+  statsElement.style.whiteSpace = 'pre-line';
+  panelElement.appendChild(statsElement);
+
+  // Account
+  panelElement.appendChild(createHeading('ACCOUNT'));
+  accountElement = document.createElement('div');
+  accountElement.style.marginBottom = '6px';
+  panelElement.appendChild(accountElement);
+  usernameInput = createInput('text', 'Username');
+  passwordInput = createInput('password', 'Password');
+  panelElement.appendChild(usernameInput);
+  panelElement.appendChild(passwordInput);
+  registerButton = createButton('REGISTER', () => {
+    if (usernameInput && passwordInput) {
+      networkManager.register?.(usernameInput.value, passwordInput.value);
+    }
+  });
+  panelElement.appendChild(registerButton);
+  panelElement.appendChild(createButton('LOG IN', () => {
+    if (usernameInput && passwordInput) {
+      networkManager.login?.(usernameInput.value, passwordInput.value);
+    }
+  }));
+  panelElement.appendChild(createButton('LOG OUT', () => networkManager.logout?.()));
+
+  messageElement = document.createElement('div');
+  messageElement.style.marginTop = '8px';
+  messageElement.style.color = '#f33';
+  panelElement.appendChild(messageElement);
+
+  document.body.appendChild(panelElement);
+
+  onProfile(showProfile);
+  onAccountError(reason => {
+    if (messageElement) {
+      messageElement.textContent = ERROR_MESSAGES[reason];
+    }
+  });
+
+  // We may have logged in before the panel was created
+  const profile = networkManager.getProfile?.();
+  if (profile) {
+    showProfile(profile);
+  }
+}
+
+/**
+ * Fill the panel in from our profile
+ * @param {Profile} profile - Our profile
+ */
+function showProfile(profile: Profile): void {
+  if (toggleButton) {
+    toggleButton.textContent = profile.displayName;
+  }
+  if (nameInput) {
+    nameInput.value = profile.displayName;
+  }
+  if (colorInput) {
+    colorInput.value = (profile.carColor || DEFAULT_BODY_COLOR).toLowerCase();
+  }
+
+  const stats = profile.stats;
+  if (statsElement) {
+    const accuracy = stats.shotsFired > 0 ? formatStat('accuracy', stats.shotsHit / stats.shotsFired) : '-';
+    const lines = [
+      `K / D / A  ${stats.kills} / ${stats.deaths} / ${stats.assists}`,
+      `MATCHES ${stats.matchesPlayed} (${stats.matchesWon} WON)`,
+      `ACCURACY ${accuracy}  DAMAGE ${formatStat('damageDealt', stats.damageDealt)}`,
+      `FLOWN ${formatStat('distanceFlown', stats.distanceFlown)}  ALIVE ${formatStat('timeAlive', stats.timeAlive)}`,
+      `BEST LAP ${stats.bestLapTime !== undefined ? formatStat('bestLapTime', stats.bestLapTime) : '-'}`
+    ];
+
+    // Last few matches, newest first
+    profile.recentMatches.slice(0, RECENT_MATCHES_SHOWN).forEach((match, index) => {
+      if (index === 0) {
+        lines.push('RECENT MATCHES');
+      }
+      lines.push(`${match.won ? 'WON ' : 'LOST'}  ${match.kills} / ${match.deaths} / ${match.assists}  ` +
+        `${formatStat('damageDealt', match.damageDealt)} DMG`);
+    });
+
+    statsElement.textContent = lines.join('\n');
+  }
+
+  // Guests can register; registered players only log in and out
+  if (accountElement) {
+    accountElement.textContent = profile.username
+      ? `Logged in as ${profile.username}`
+      : 'Guest - register to keep this account on other devices';
+  }
+  if (registerButton) {
+    registerButton.style.display = profile.username ? 'none' : 'inline-block';
+  }
+  if (passwordInput) {
+    passwordInput.value = '';
+  }
+}
+
+/**
+ * Create a section heading
+ * @param {string} text - The heading
+ * @returns {HTMLDivElement} - The heading element
+ */
+function createHeading(text: string): HTMLDivElement {
+  const heading = document.createElement('div');
+  heading.style.margin = '4px 0 6px';
+  heading.style.fontSize = '14px';
+  heading.textContent = text;
+  return heading;
+}
+
+/**
+ * Create a full-width input
+ * @param {string} type - Input type, e.g. 'text' or 'color'
+ * @param {string} placeholder - Hint shown while empty
+ * @returns {HTMLInputElement} - The input
+ */
+function createInput(type: string, placeholder: string): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = type;
+  input.placeholder = placeholder;
+  input.title = placeholder;
+  input.style.display = 'block';
+  input.style.width = '100%';
+  input.style.boxSizing = 'border-box';
+  input.style.marginBottom = '6px';
+  input.style.backgroundColor = '#111';
+  input.style.border = '1px solid #0ff';
+  input.style.color = '#fff';
+  input.style.fontFamily = 'monospace';
+  return input;
+}
+
+/**
+ * Create a button
+ * @param {string} text - The label
+ * @param {Function} onClick - Called when it is clicked
+ * @returns {HTMLButtonElement} - The button
+ */
+function createButton(text: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.textContent = text;
+  button.style.marginRight = '6px';
+  button.style.backgroundColor = 'rgba(0, 255, 255, 0.2)';
+  button.style.border = '1px solid #0ff';
+  button.style.color = '#0ff';
+  button.style.fontFamily = 'monospace';
+  button.style.cursor = 'pointer';
+  button.addEventListener('click', () => {
+    // A new request gets a fresh answer
+    if (messageElement) {
+      messageElement.textContent = '';
+    }
+    onClick();
+  });
+  return button;
+}
@@ -2,6 +2,7 @@
  * Controls module - handles user input for controlling the flying car
  */
 import { AppState, GameModule, RendererInstance } from '../../types';
+import { WEAPON_IDS } from '../../../../shared/combat/weapons';
 
 interface KeyState {
   forward: boolean;
@@ -77,6 +78,8 @@ let rightJoystickElement: HTMLElement | null = null;
 let rightJoystickKnob: HTMLElement | null = null;
 let shootButton: HTMLElement | null = null;
 let boostButton: HTMLElement | null = null;
+let weaponButton: HTMLElement | null = null;
+let flareButton: HTMLElement | null = null;
 
 // Keep track of any intervals we start
 let keyInputInterval: number | null = null;
@@ -162,6 +165,19 @@ function setupKeyboardControls(game: GameModule): void {
     // Update key state
     updateKeyState(event.code, true);
     
+    // Number keys pick a weapon
+    if (event.code.indexOf('Digit') === 0) {
+      const slot = parseInt(event.code.substr(5), 10) - 1;
+      if (slot >= 0 && slot < WEAPON_IDS.length) {
+        game.selectWeapon(WEAPON_IDS[slot]);
+      }
+    }
+    
+    // C drops a flare
+    if (event.code === 'KeyC' && !event.repeat) {
+      game.deployFlare();
+    }
+    
     // Prevent default for certain keys
     if ([
       'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 
@@ -394,6 +410,13 @@ function setupMouseControls(game: GameModule, renderer: RendererInstance): void
     }
   });
   
+  // Mouse wheel to cycle weapons
+  canvas.addEventListener('wheel', (event) => {
+    if (mouseState.isLocked) {
+      game.cycleWeapon(event.deltaY > 0 ? 1 : -1);
+    }
+  });
+  
   // Request pointer lock on click
   function requestPointerLock(): void {
     if (!mouseState.isLocked) {
@@ -497,6 +520,18 @@ function setupMobileControls(appState: AppState, game: GameModule, performanceLe
   boostButton.innerHTML = 'BOOST';
   mobileUI.appendChild(boostButton);
   
+  // Create weapon button
+  weaponButton = document.createElement('div');
+  weaponButton.className = 'control-button weapon-button';
+  weaponButton.innerHTML = 'WPN';
+  mobileUI.appendChild(weaponButton);
+  
+  // Create flare button
+  flareButton = document.createElement('div');
+  flareButton.className = 'control-button flare-button';
+  flareButton.innerHTML = 'FLR';
+  mobileUI.appendChild(flareButton);
+  
   // Add mobile UI to document
   document.body.appendChild(mobileUI);
   
@@ -515,6 +550,16 @@ function setupMobileControls(appState: AppState, game: GameModule, performanceLe
     () => { keyState.boost = false; }
   );
   
+  setupButtonEvents(weaponButton,
+    () => { game.cycleWeapon(1); },
+    () => {}
+  );
+  
+  setupButtonEvents(flareButton,
+    () => { game.deployFlare(); },
+    () => {}
+  );
+  
   // Add CSS for mobile UI
   const mobileStyles = document.createElement('style');
   mobileStyles.innerHTML = `
@@ -582,6 +627,18 @@ function setupMobileControls(appState: AppState, game: GameModule, performanceLe
       top: 150px;
       background-color: rgba(50, 100, 200, 0.7);
     }
+    
+    .weapon-button {
+      right: 30px;
+      top: 200px;
+      background-color: rgba(50, 200, 200, 0.7);
+    }
+    
+    .flare-button {
+      right: 130px;
+      top: 250px;
+      background-color: rgba(220, 160, 40, 0.7);
+    }
   `;
   
   document.head.appendChild(mobileStyles);
@@ -2,7 +2,17 @@ import { updateBillboard } from '../rendering/billboard';
 import { checkCollisions, setDebugMode } from './collisionSystem';
 import { initSoundManager, playSound, playMusic, startEngineSound, updateEngineSound } from '../audio/soundManager';
 import { Scene, Vector3 } from '@babylonjs/core';
-import { AppState, RendererInstance, NetworkManager, GameModule } from '../../types';
+import { getServerTime } from '../network/network';
+import { INTERPOLATION_DELAY } from '../rendering/interpolation';
+import { getForwardVector } from '../rendering/renderer';
+import { quantizeInput } from '../../../../shared/protocol/binary';
+import { WEAPONS, WEAPON_IDS, WEAPON_SWITCH_TIME, getWeaponRange } from '../../../../shared/combat/weapons';
+import { MAX_ENERGY, OVERHEAT_LOCK_TIME, isOverheated, addWeaponHeat, coolWeapons, updateEnergy } from '../../../../shared/combat/resources';
+import { LOCK_ANGLE, LOCK_RANGE, FLARE_COUNT, FLARE_COOLDOWN } from '../../../../shared/combat/missiles';
+import { MAX_HEALTH, MAX_SHIELD } from '../../../../shared/combat/damage';
+import { OVERDRIVE_MULTIPLIER, hasPowerUp } from '../../../../shared/combat/powerups';
+import { showMatchPhase, showMatchEnd, showFlagUpdate, showZoneScores, showRaceProgress, showLapComplete, showPickupTaken, showKill, resetMatchHud, setPlayerName } from './matchHud';
+import { AppState, RendererInstance, NetworkManager, GameModule, PlayerInput, PlayerData, GameStateUpdate, WeaponId, PlayerDiedEvent, PlayerRespawnEvent, SessionResumed } from '../../types';
 
 
 // Game state
@@ -11,11 +21,41 @@ let renderer: RendererInstance;
 let networkManager: NetworkManager | null = null;
 let gameLoop: number | null = null;
 let lastUpdateTime = 0;
-let laserCooldown = 0;
+let weaponReadyTimes: Partial<Record<WeaponId, number>> = {}; // When each weapon can fire again (ms)
+let weaponCharge = 0; // Seconds the trigger has been held on a charged weapon
+let flareReadyTime = 0; // When the next flare can be dropped (ms)
+let shotSequence = 0; // Number of the last shot sent, which its hit claim names
 let cityManager: any;
 let soundManager: any;
 let isFireButtonHeld = false; // Track if fire button is being held
 
+// Input sampling state
+const MOVEMENT_HOLD_TIME = 50; // ms a movement request stays active without being repeated
+const INPUT_SEND_INTERVAL = 0.05; // seconds between input batches sent to the server
+let inputSequence = 0;
+let unsentInputs: PlayerInput[] = [];
+let movementAxes = { throttle: 0, strafe: 0, vertical: 0, boost: false };
+let movementAxesTime = 0;
+let pendingRotation = { yaw: 0, pitch: 0, roll: 0 };
+
+// Client-side prediction state
+const INPUT_BUFFER_SIZE = 256; // Unacknowledged inputs kept for replay (~4 seconds at 60fps)
+const CORRECTION_DECAY = 10; // Rate at which visual prediction error is smoothed out (1/s)
+const CORRECTION_SNAP_DISTANCE = 50; // Larger corrections (spawns, teleports) are applied instantly
+const inputBuffer: (PlayerInput | null)[] = new Array(INPUT_BUFFER_SIZE).fill(null);
+const correctionOffset = { x: 0, y: 0, z: 0 };
+
+// Flight physics - must match the server simulation in server/src/modules/game/gameState.ts
+const DRAG_COEFFICIENT = 3;
+const MAX_VELOCITY = 200;
+const THRUST_ACCELERATION = 60;
+const BOOST_MULTIPLIER = 2;
+const MAX_CRUISE_SPEED = 50;
+const MAX_TURN_RATE = 6;
+const MAX_PITCH = 0.4;
+const MAX_ROLL = 0.3;
+const WORLD_BOUNDS = { minX: -1000, maxX: 1000, minY: 0, maxY: 1000, minZ: -1000, maxZ: 1000 };
+
 /**
  * Initialize the game logic
  * @param {AppState} state - The application state
@@ -49,18 +89,33 @@ export async function initializeGameLogic(state: AppState, rendererModule: Rende
   
   // Return game module
   return {
+    renderer,
     start,
     stop,
     update,
     updatePlayerVelocity,
     updatePlayerRotation,
-    fireLaser,
-    resetPlayer,
+    fireWeapon,
+    selectWeapon,
+    cycleWeapon,
+    deployFlare,
+    respawnPlayer,
+    resumePlayer,
     setNetworkManager: (nm: NetworkManager) => {
       networkManager = nm;
     },
+    applyServerState,
     showHitEffect,
-    showRespawnEffect,
+    showDeath,
+    showMatchPhase,
+    showMatchEnd,
+    showFlagUpdate,
+    showZoneScores,
+    showRaceProgress,
+    showLapComplete,
+    showPickupTaken,
+    showKill,
+    resetMatchHud,
     setFireButtonState,
     toggleSound: () => {
       if (soundManager) {
@@ -134,8 +189,38 @@ function update(deltaTime: number): void {
   // Limit delta time to avoid large jumps
   const limitedDelta = Math.min(deltaTime, 0.1);
   
-  // Update player position and physics
-  updatePlayerPosition(limitedDelta);
+  // A wreck doesn't fly or shoot; the renderer shows the death cam until we respawn
+  if (!appState.playerStats.isAlive) {
+    if (renderer.updatePlayerPosition) {
+      renderer.updatePlayerPosition(appState.playerStats);
+    }
+    updateBillboards(limitedDelta);
+    return;
+  }
+  
+  // Sample this frame's input, predict its result and keep it for replay
+  const input = sampleInput(limitedDelta);
+  inputBuffer[input.seq % INPUT_BUFFER_SIZE] = input;
+  unsentInputs.push(input);
+  predictInput(input);
+  
+  // Smooth out any correction from the last server reconciliation
+  const decay = Math.exp(-CORRECTION_DECAY * limitedDelta);
+  correctionOffset.x *= decay;
+  correctionOffset.y *= decay;
+  correctionOffset.z *= decay;
+  
+  // Update renderer with the predicted position
+  if (renderer.updatePlayerPosition) {
+    renderer.updatePlayerPosition({
+      ...appState.playerStats,
+      position: {
+        x: appState.playerStats.position.x + correctionOffset.x,
+        y: appState.playerStats.position.y + correctionOffset.y,
+        z: appState.playerStats.position.z + correctionOffset.z
+      }
+    });
+  }
   
   // Check for collisions
   if (renderer.scene && renderer.playerCar) {
@@ -161,20 +246,175 @@ function update(deltaTime: number): void {
   
   updateEngineSound(speed / 10, appState.playerStats.boosting);
   
-  // Decrement laser cooldown
-  if (laserCooldown > 0) {
-    laserCooldown -= limitedDelta;
+  // Weapons cool down in real time, as on the server
+  coolWeapons(appState.playerStats, limitedDelta);
+  
+  // Lock missiles on and fire the selected weapon from the trigger
+  updateLock(limitedDelta);
+  updateTrigger(limitedDelta);
+  
+  // Send inputs to server if connected
+  if (networkManager && lastUpdateTime + INPUT_SEND_INTERVAL < Date.now() / 1000) {
+    networkManager.sendPlayerInput(unsentInputs);
+    unsentInputs = [];
+    lastUpdateTime = Date.now() / 1000;
+  }
+}
+
+/**
+ * Build the input frame for this update from the current control state
+ * @param {number} deltaTime - Frame duration in seconds
+ * @returns {PlayerInput} - The sequenced input frame
+ */
+function sampleInput(deltaTime: number): PlayerInput {
+  // Movement requests expire if controls stop repeating them
+  const movementActive = Date.now() - movementAxesTime <= MOVEMENT_HOLD_TIME;
+  
+  // Turn rates are limited the same way the server limits them
+  const maxTurn = MAX_TURN_RATE * deltaTime;
+  
+  // Rounded to wire precision so prediction matches the server's replay
+  const input: PlayerInput = quantizeInput({
+    seq: ++inputSequence,
+    dt: deltaTime,
+    throttle: movementActive ? movementAxes.throttle : 0,
+    strafe: movementActive ? movementAxes.strafe : 0,
+    vertical: movementActive ? movementAxes.vertical : 0,
+    yaw: clamp(pendingRotation.yaw, -maxTurn, maxTurn),
+    pitch: clamp(pendingRotation.pitch, -maxTurn, maxTurn),
+    roll: clamp(pendingRotation.roll, -maxTurn, maxTurn),
+    boost: movementActive && movementAxes.boost
+  });
+  
+  // Rotation is accumulated between frames, so start fresh
+  pendingRotation = { yaw: 0, pitch: 0, roll: 0 };
+  
+  return input;
+}
+
+/**
+ * Predict the result of an input frame locally
+ * @param {PlayerInput} input - The input frame to apply
+ */
+function predictInput(input: PlayerInput): void {
+  applyInputToVelocity(input);
+  updatePlayerPosition(input.dt);
+}
+
+/**
+ * Apply an authoritative snapshot from the server.
+ * The local car is rewound to the server's state and all inputs the server
+ * has not processed yet are replayed on top; other players are forwarded
+ * to the renderer.
+ * @param {GameStateUpdate} state - The snapshot from the server
+ * @param {string} localPlayerId - Our socket ID
+ */
+function applyServerState(state: GameStateUpdate, localPlayerId: string): void {
+  Object.keys(state.players).forEach(playerId => {
+    const playerData = state.players[playerId];
+    
+    if (playerId === localPlayerId) {
+      reconcileLocalPlayer(playerData);
+      return;
+    }
+    
+    appState.otherPlayers[playerId] = playerData;
+    renderer.updatePlayer(playerId, playerData, state.timestamp);
+    if (playerData.username) {
+      setPlayerName(playerId, playerData.username);
+    }
+  });
+  
+  // Remove players that are no longer in the game
+  Object.keys(appState.otherPlayers).forEach(playerId => {
+    if (!state.players[playerId]) {
+      delete appState.otherPlayers[playerId];
+      renderer.removePlayer(playerId);
+    }
+  });
+}
+
+/**
+ * Rewind the local car to the server's state and replay unacknowledged inputs
+ * @param {PlayerData} serverState - The server's view of our car
+ */
+function reconcileLocalPlayer(serverState: PlayerData): void {
+  const stats = appState.playerStats;
+  const predictedPosition = { ...stats.position };
+  
+  // Health, shield, ammo and power-ups are always the server's; the selected weapon is ours
+  stats.health = serverState.health;
+  if (serverState.shield !== undefined) {
+    stats.shield = serverState.shield;
+  }
+  if (serverState.ammo) {
+    stats.ammo = { ...serverState.ammo };
+  }
+  if (serverState.flares !== undefined) {
+    stats.flares = serverState.flares;
+  }
+  stats.powerUps = { ...serverState.powerUps };
+  
+  // Heat from shots the server hasn't seen yet is kept, and a lock the
+  // server applied that we didn't predict is adopted
+  if (serverState.heat !== undefined) {
+    stats.heat = Math.max(stats.heat, serverState.heat);
+  }
+  const now = Date.now();
+  if (serverState.overheated && !isOverheated(stats, now)) {
+    stats.overheatedUntil = now + OVERHEAT_LOCK_TIME;
   }
   
-  // Auto-fire laser if button held
-  if (isFireButtonHeld && laserCooldown <= 0) {
-    fireLaser();
+  // Teams can be reshuffled between matches, and we can repaint our car
+  if (renderer.setLocalTeam) {
+    renderer.setLocalTeam(serverState.team);
+  }
+  if (renderer.setLocalColor) {
+    renderer.setLocalColor(serverState.color);
   }
   
-  // Send updates to server if connected
-  if (networkManager && lastUpdateTime + 0.05 < Date.now() / 1000) {
-    networkManager.sendPlayerUpdate(appState.playerStats);
-    lastUpdateTime = Date.now() / 1000;
+  // Accept the authoritative state
+  stats.position = { ...serverState.position };
+  stats.rotation = { ...serverState.rotation };
+  if (serverState.velocity) {
+    stats.velocity = { ...serverState.velocity };
+  }
+  if (serverState.energy !== undefined) {
+    stats.energy = serverState.energy;
+  }
+  
+  // Inputs from before we died are never replayed onto the wreck
+  if (!stats.isAlive) {
+    correctionOffset.x = 0;
+    correctionOffset.y = 0;
+    correctionOffset.z = 0;
+    return;
+  }
+  
+  // Replay every input the server hasn't seen yet
+  const lastProcessed = serverState.lastProcessedInput || 0;
+  for (let seq = Math.max(lastProcessed + 1, inputSequence - INPUT_BUFFER_SIZE + 1); seq <= inputSequence; seq++) {
+    const input = inputBuffer[seq % INPUT_BUFFER_SIZE];
+    if (input && input.seq === seq) {
+      predictInput(input);
+    }
+  }
+  
+  // Blend away the difference between what we showed and the corrected result
+  correctionOffset.x += predictedPosition.x - stats.position.x;
+  correctionOffset.y += predictedPosition.y - stats.position.y;
+  correctionOffset.z += predictedPosition.z - stats.position.z;
+  
+  const correctionDistance = Math.sqrt(
+    correctionOffset.x * correctionOffset.x +
+    correctionOffset.y * correctionOffset.y +
+    correctionOffset.z * correctionOffset.z
+  );
+  
+  if (correctionDistance > CORRECTION_SNAP_DISTANCE) {
+    correctionOffset.x = 0;
+    correctionOffset.y = 0;
+    correctionOffset.z = 0;
   }
 }
 
@@ -197,12 +437,10 @@ function handleCollision(collisionObject: any): void {
   appState.playerStats.velocity.x *= -0.5;
   appState.playerStats.velocity.z *= -0.5;
   
-  // Apply damage based on collision velocity
+  // Damage is applied by the server; only show the impact here
   const damage = Math.floor(velocityMagnitude * 5);
   
   if (damage > 0) {
-    appState.playerStats.health -= damage;
-    
     // Play collision sound
     playSound('collision', {
       volume: Math.min(1.0, velocityMagnitude / 10),
@@ -217,12 +455,6 @@ function handleCollision(collisionObject: any): void {
         z: appState.playerStats.position.z
       }, 0.5);
     }
-    
-    // Check for death
-    if (appState.playerStats.health <= 0) {
-      // Reset player
-      resetPlayer();
-    }
   }
 }
 
@@ -231,29 +463,39 @@ function handleCollision(collisionObject: any): void {
  * @param {number} deltaTime - Time since last update in seconds
  */
 function updatePlayerPosition(deltaTime: number): void {
-  // Apply gravity
-  appState.playerStats.velocity.y -= 9.8 * deltaTime;
+  const { position, velocity } = appState.playerStats;
   
   // Apply drag/air resistance
-  const drag = 0.95;
-  appState.playerStats.velocity.x *= drag;
-  appState.playerStats.velocity.z *= drag;
+  velocity.x *= (1 - DRAG_COEFFICIENT * deltaTime);
+  velocity.y *= (1 - DRAG_COEFFICIENT * deltaTime);
+  velocity.z *= (1 - DRAG_COEFFICIENT * deltaTime);
+  
+  // Limit velocity
+  const speed = Math.sqrt(velocity.x * velocity.x + velocity.y * velocity.y + velocity.z * velocity.z);
+  if (speed > MAX_VELOCITY) {
+    const scale = MAX_VELOCITY / speed;
+    velocity.x *= scale;
+    velocity.y *= scale;
+    velocity.z *= scale;
+  }
   
   // Apply velocity to position
-  appState.playerStats.position.x += appState.playerStats.velocity.x * deltaTime;
-  appState.playerStats.position.y += appState.playerStats.velocity.y * deltaTime;
-  appState.playerStats.position.z += appState.playerStats.velocity.z * deltaTime;
-  
-  // Minimum height above ground
-  const MIN_HEIGHT = 5;
-  if (appState.playerStats.position.y < MIN_HEIGHT) {
-    appState.playerStats.position.y = MIN_HEIGHT;
-    appState.playerStats.velocity.y = 0;
+  position.x += velocity.x * deltaTime;
+  position.y += velocity.y * deltaTime;
+  position.z += velocity.z * deltaTime;
+  
+  // Keep player within world bounds
+  if (position.x < WORLD_BOUNDS.minX || position.x > WORLD_BOUNDS.maxX) {
+    position.x = clamp(position.x, WORLD_BOUNDS.minX, WORLD_BOUNDS.maxX);
+    velocity.x = 0;
   }
-  
-  // Update renderer with new position
-  if (renderer.updatePlayerPosition) {
-    renderer.updatePlayerPosition(appState.playerStats);
+  if (position.y < WORLD_BOUNDS.minY || position.y > WORLD_BOUNDS.maxY) {
+    position.y = clamp(position.y, WORLD_BOUNDS.minY, WORLD_BOUNDS.maxY);
+    velocity.y = 0;
+  }
+  if (position.z < WORLD_BOUNDS.minZ || position.z > WORLD_BOUNDS.maxZ) {
+    position.z = clamp(position.z, WORLD_BOUNDS.minZ, WORLD_BOUNDS.maxZ);
+    velocity.z = 0;
   }
 }
 
@@ -276,7 +518,8 @@ function updateBillboards(deltaTime: number): void {
 }
 
 /**
- * Update the player's velocity
+ * Update the player's requested velocity change.
+ * Movement is applied through input frames on the next update.
  * @param {Object} velocityChange - The velocity change object
  * @param {number} [velocityChange.x] - X velocity change
  * @param {number} [velocityChange.y] - Y velocity change
@@ -284,115 +527,179 @@ function updateBillboards(deltaTime: number): void {
  * @param {boolean} [velocityChange.boost] - Boost flag
  */
 function updatePlayerVelocity(velocityChange: {x?: number, y?: number, z?: number, boost?: boolean}): void {
-  // Get forward direction based on rotation
-  const forwardX = Math.sin(appState.playerStats.rotation.y);
-  const forwardZ = Math.cos(appState.playerStats.rotation.y);
-  
-  // Get right direction (perpendicular to forward)
-  const rightX = Math.sin(appState.playerStats.rotation.y + Math.PI / 2);
-  const rightZ = Math.cos(appState.playerStats.rotation.y + Math.PI / 2);
+  // Remember the requested axes for the next input frame
+  movementAxes = {
+    throttle: Math.sign(velocityChange.z || 0),
+    strafe: Math.sign(velocityChange.x || 0),
+    vertical: Math.sign(velocityChange.y || 0),
+    boost: !!velocityChange.boost
+  };
+  movementAxesTime = Date.now();
+}
+
+/**
+ * Update player rotation.
+ * Rotation is applied through input frames on the next update.
+ * @param {Object} rotationChange - Changes to apply to rotation
+ */
+function updatePlayerRotation(rotationChange: {x?: number, y?: number, z?: number}): void {
+  // Accumulate rotation for the next input frame
+  pendingRotation.yaw += rotationChange.y || 0;
+  pendingRotation.pitch += rotationChange.x || 0;
+  pendingRotation.roll += rotationChange.z || 0;
+}
+
+/**
+ * Apply an input frame's steering and thrust to the player's rotation and velocity
+ * @param {PlayerInput} input - The input frame
+ */
+function applyInputToVelocity(input: PlayerInput): void {
+  const { rotation, velocity } = appState.playerStats;
   
-  // Default acceleration
-  let acceleration = 20;
+  // Orientation
+  rotation.y += input.yaw;
+  rotation.x = clamp(rotation.x + input.pitch, -MAX_PITCH, MAX_PITCH);
+  rotation.z = clamp(rotation.z + input.roll, -MAX_ROLL, MAX_ROLL);
   
-  // Check if boosting
-  if (velocityChange.boost) {
-    acceleration *= 2;
-    appState.playerStats.boosting = true;
-  } else {
-    appState.playerStats.boosting = false;
+  // Auto-return to level flight when not rolling
+  if (input.roll === 0) {
+    rotation.z *= Math.max(0, 1 - 6 * input.dt);
   }
   
-  // Apply forward/backward movement (Z axis)
-  if (velocityChange.z !== undefined) {
-    appState.playerStats.velocity.x += forwardX * velocityChange.z * acceleration;
-    appState.playerStats.velocity.z += forwardZ * velocityChange.z * acceleration;
+  // Boost only while there is energy for it
+  const boosting = updateEnergy(appState.playerStats, input.boost, input.dt);
+  appState.playerStats.boosting = boosting;
+  const overdrive = hasPowerUp(appState.playerStats.powerUps, 'overdrive', getServerTime()) ? OVERDRIVE_MULTIPLIER : 1;
+  
+  // Thrust along the car's heading
+  const acceleration = THRUST_ACCELERATION * (boosting ? BOOST_MULTIPLIER : 1) * overdrive * input.dt;
+  const forwardX = Math.sin(rotation.y);
+  const forwardZ = Math.cos(rotation.y);
+  const rightX = Math.sin(rotation.y + Math.PI / 2);
+  const rightZ = Math.cos(rotation.y + Math.PI / 2);
+  
+  velocity.x += (forwardX * input.throttle + rightX * input.strafe) * acceleration;
+  velocity.z += (forwardZ * input.throttle + rightZ * input.strafe) * acceleration;
+  velocity.y += input.vertical * acceleration;
+  
+  // Limit horizontal cruise speed
+  const maxSpeed = MAX_CRUISE_SPEED * (boosting ? BOOST_MULTIPLIER : 1) * overdrive;
+  const horizontalSpeed = Math.sqrt(velocity.x * velocity.x + velocity.z * velocity.z);
+  
+  if (horizontalSpeed > maxSpeed) {
+    const scale = maxSpeed / horizontalSpeed;
+    velocity.x *= scale;
+    velocity.z *= scale;
   }
-  
-  // Apply left/right movement (X axis)
-  if (velocityChange.x !== undefined) {
-    appState.playerStats.velocity.x += rightX * velocityChange.x * acceleration;
-    appState.playerStats.velocity.z += rightZ * velocityChange.x * acceleration;
+}
+
+/**
+ * Track the missile seeker's lock. A target has to stay inside the lock
+ * cone for the weapon's lock time; losing it or switching targets starts over.
+ * @param {number} deltaTime - Frame duration in seconds
+ */
+function updateLock(deltaTime: number): void {
+  const stats = appState.playerStats;
+  const weapon = WEAPONS[stats.weapon];
+  
+  if (weapon.kind !== 'missile' || !renderer.findLockTarget) {
+    stats.lockTargetId = null;
+    stats.lockProgress = 0;
+    return;
   }
   
-  // Apply up/down movement (Y axis)
-  if (velocityChange.y !== undefined) {
-    // Vertical movement is direct
-    appState.playerStats.velocity.y += velocityChange.y * acceleration;
+  const targetId = renderer.findLockTarget(stats.position, getForwardVector(stats.rotation), LOCK_ANGLE, LOCK_RANGE);
+  if (targetId !== stats.lockTargetId) {
+    stats.lockTargetId = targetId;
+    stats.lockProgress = 0;
   }
   
-  // Limit maximum velocity
-  const maxSpeed = appState.playerStats.boosting ? 100 : 50;
-  const currentSpeed = Math.sqrt(
-    appState.playerStats.velocity.x * appState.playerStats.velocity.x +
-    appState.playerStats.velocity.z * appState.playerStats.velocity.z
-  );
-  
-  if (currentSpeed > maxSpeed) {
-    const scale = maxSpeed / currentSpeed;
-    appState.playerStats.velocity.x *= scale;
-    appState.playerStats.velocity.z *= scale;
+  if (targetId) {
+    stats.lockProgress = Math.min(1, stats.lockProgress + deltaTime * 1000 / weapon.lockTime);
   }
 }
 
 /**
- * Update player rotation
- * @param {Object} rotationChange - Changes to apply to rotation
+ * Fire the selected weapon from the trigger state. Most weapons fire whenever
+ * they are ready while the button is held; charged weapons charge while it is
+ * held and fire when it is released.
+ * @param {number} deltaTime - Frame duration in seconds
  */
-function updatePlayerRotation(rotationChange: {x?: number, y?: number, z?: number}): void {
-  // Apply rotation changes
-  if (rotationChange.y !== undefined) {
-    appState.playerStats.rotation.y += rotationChange.y;
-  }
+function updateTrigger(deltaTime: number): void {
+  const weapon = WEAPONS[appState.playerStats.weapon];
   
-  if (rotationChange.x !== undefined) {
-    appState.playerStats.rotation.x += rotationChange.x;
-    
-    // Limit pitch rotation
-    const MAX_PITCH = 0.4;
-    appState.playerStats.rotation.x = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, appState.playerStats.rotation.x));
+  if (weapon.chargeTime === 0) {
+    if (isFireButtonHeld) {
+      fireWeapon();
+    }
+    return;
   }
   
-  if (rotationChange.z !== undefined) {
-    appState.playerStats.rotation.z += rotationChange.z;
-    
-    // Limit roll rotation
-    const MAX_ROLL = 0.3;
-    appState.playerStats.rotation.z = Math.max(-MAX_ROLL, Math.min(MAX_ROLL, appState.playerStats.rotation.z));
-    
-    // Auto-return to level flight
-    if (Math.abs(rotationChange.z) < 0.01) {
-      appState.playerStats.rotation.z *= 0.9;
+  if (isFireButtonHeld) {
+    if (isWeaponReady(weapon.id)) {
+      weaponCharge += deltaTime;
+    }
+  } else {
+    if (weaponCharge >= weapon.chargeTime / 1000) {
+      fireWeapon();
     }
+    weaponCharge = 0;
   }
 }
 
 /**
- * Fire laser from player vehicle
+ * Check whether a weapon's cooldown, any weapon switch and any overheat lock are over
+ * @param {WeaponId} weapon - The weapon
+ * @returns {boolean} - Whether it can fire
  */
-function fireLaser(): void {
-  // Check cooldown
-  if (laserCooldown > 0) return;
+function isWeaponReady(weapon: WeaponId): boolean {
+  const now = Date.now();
+  return now >= (weaponReadyTimes[weapon] || 0) && !isOverheated(appState.playerStats, now);
+}
+
+/**
+ * Fire the selected weapon from the player vehicle.
+ * Cooldowns, heat and ammo follow the shared weapon rules, which the server enforces.
+ */
+function fireWeapon(): void {
+  const stats = appState.playerStats;
+  const weapon = WEAPONS[stats.weapon];
+  
+  // Check cooldown, heat and ammo
+  if (!stats.isAlive || !isWeaponReady(weapon.id)) return;
   
-  // Get player position and rotation
+  const ammo = stats.ammo[weapon.id];
+  if (ammo !== undefined && ammo <= 0) return;
+  
+  // Missiles need a full lock
+  const targetId = weapon.kind === 'missile' ? stats.lockTargetId : null;
+  if (weapon.kind === 'missile' && (!targetId || stats.lockProgress < 1)) return;
+  
+  // Get player position and rotation, with the weapon's random spread
   const position = {
-    x: appState.playerStats.position.x,
-    y: appState.playerStats.position.y,
-    z: appState.playerStats.position.z
+    x: stats.position.x,
+    y: stats.position.y,
+    z: stats.position.z
   };
   
   const rotation = {
-    x: appState.playerStats.rotation.x,
-    y: appState.playerStats.rotation.y,
-    z: appState.playerStats.rotation.z
+    x: stats.rotation.x + (Math.random() * 2 - 1) * weapon.spread,
+    y: stats.rotation.y + (Math.random() * 2 - 1) * weapon.spread,
+    z: stats.rotation.z
   };
   
-  // Create laser effect
-  if (renderer.fireLaser) {
+  // Show the shot (missiles are drawn once the server launches them)
+  if (weapon.kind === 'burst') {
+    if (renderer.createExplosion) {
+      renderer.createExplosion(position, weapon.radius / 20);
+    }
+  } else if (weapon.kind === 'projectile' && renderer.fireLaser) {
     renderer.fireLaser({
       position,
       rotation,
-      color: '#ff0000'
+      color: weapon.color,
+      speed: weapon.speed,
+      duration: weapon.lifetime / 1000
     });
   }
   
@@ -402,23 +709,88 @@ function fireLaser(): void {
     playbackRate: 1 + Math.random() * 0.2
   });
   
-  // Set cooldown (0.2 seconds)
-  laserCooldown = 0.2;
+  // Start the cooldown, use up ammo and heat the weapons
+  weaponReadyTimes[weapon.id] = Date.now() + weapon.cooldown;
+  if (ammo !== undefined) {
+    stats.ammo[weapon.id] = ammo - 1;
+  }
+  addWeaponHeat(stats, weapon, Date.now());
+  stats.lockProgress = 0;
+  
+  // Firing ends spawn protection, as on the server
+  stats.spawnProtectedUntil = 0;
   
   // Send to server if connected
+  const shotId = ++shotSequence;
   if (networkManager && networkManager.sendLaserShot) {
-    networkManager.sendLaserShot({
-      position,
-      rotation
+    networkManager.sendLaserShot(targetId ? { id: shotId, position, rotation, targetId } : { id: shotId, position, rotation });
+  }
+  
+  // Bursts and missiles are resolved by the server
+  if (weapon.kind !== 'projectile') return;
+  
+  // Claim a hit if the shot is lined up with another car as we see it;
+  // the server rewinds to our view time to check the claim
+  const target = renderer.findLaserTarget?.(position, getForwardVector(rotation), getWeaponRange(weapon));
+  if (target && networkManager && networkManager.sendLaserHit) {
+    networkManager.sendLaserHit({
+      shotId,
+      targetId: target.id,
+      position: target.position,
+      viewTime: getServerTime() - INTERPOLATION_DELAY
     });
   }
 }
 
+/**
+ * Drop a flare to pull incoming missiles away. Like on the server, flares
+ * are limited per life and need a moment between drops.
+ */
+function deployFlare(): void {
+  const stats = appState.playerStats;
+  if (!stats.isAlive || stats.flares <= 0 || Date.now() < flareReadyTime) return;
+  
+  stats.flares -= 1;
+  flareReadyTime = Date.now() + FLARE_COOLDOWN;
+  
+  if (networkManager && networkManager.sendFlareDeploy) {
+    networkManager.sendFlareDeploy();
+  }
+}
+
+/**
+ * Select a weapon. Like on the server, it can't fire until the switch is done.
+ * @param {WeaponId} weapon - The weapon to select
+ */
+function selectWeapon(weapon: WeaponId): void {
+  if (appState.playerStats.weapon === weapon) return;
+  
+  appState.playerStats.weapon = weapon;
+  weaponReadyTimes[weapon] = Math.max(weaponReadyTimes[weapon] || 0, Date.now() + WEAPON_SWITCH_TIME);
+  weaponCharge = 0;
+  playSound('select', { volume: 0.3 });
+  
+  if (networkManager && networkManager.sendWeaponSelect) {
+    networkManager.sendWeaponSelect(weapon);
+  }
+}
+
+/**
+ * Select the next or previous weapon
+ * @param {number} step - 1 for the next weapon, -1 for the previous one
+ */
+function cycleWeapon(step: number): void {
+  const index = WEAPON_IDS.indexOf(appState.playerStats.weapon);
+  const next = (index + step + WEAPON_IDS.length) % WEAPON_IDS.length;
+  selectWeapon(WEAPON_IDS[next]);
+}
+
 /**
  * Show hit effect when player is hit
  * @param {Object} fromDirection - Direction of the hit
+ * @param {boolean} [shieldOnly] - Whether the shield took the whole hit
  */
-function showHitEffect(fromDirection: {x: number, y: number, z: number}): void {
+function showHitEffect(fromDirection: {x: number, y: number, z: number}, shieldOnly: boolean = false): void {
   // Calculate impact direction relative to player
   const playerRotationY = appState.playerStats.rotation.y;
   
@@ -467,9 +839,9 @@ function showHitEffect(fromDirection: {x: number, y: number, z: number}): void {
     hitIndicator.remove();
   }, 1000);
   
-  // Red flash effect on screen
+  // Red flash effect on screen, or blue if only the shield was hit
   const flashOverlay = document.createElement('div');
-  flashOverlay.className = 'damage-flash';
+  flashOverlay.className = shieldOnly ? 'shield-flash' : 'damage-flash';
   document.body.appendChild(flashOverlay);
   
   // Fade out and remove
@@ -485,32 +857,79 @@ function showHitEffect(fromDirection: {x: number, y: number, z: number}): void {
 }
 
 /**
- * Reset player after death
+ * Turn our car into a wreck and point the death cam at whoever killed us
+ * until the server respawns us
+ * @param {PlayerDiedEvent} kill - Our death
  */
-function resetPlayer(): void {
-  // Set health back to full
-  appState.playerStats.health = 100;
-  
-  // Reset velocity
-  appState.playerStats.velocity = { x: 0, y: 0, z: 0 };
-  
-  // Choose a random spawn point (or a fixed point if no spawn points)
-  const spawnPoint = {
-    x: 0, 
-    y: 50, 
-    z: 0
-  };
+function showDeath(kill: PlayerDiedEvent): void {
+  const stats = appState.playerStats;
+  stats.isAlive = false;
+  stats.respawnTime = kill.respawnTime;
+  stats.health = 0;
+  stats.velocity = { x: 0, y: 0, z: 0 };
+  stats.lockTargetId = null;
+  stats.lockProgress = 0;
+  weaponCharge = 0;
   
-  // Set position to spawn point
-  appState.playerStats.position = { ...spawnPoint };
-  
-  // Reset rotation
-  appState.playerStats.rotation = { x: 0, y: 0, z: 0 };
+  if (renderer.createExplosion) {
+    renderer.createExplosion({ ...stats.position }, 2.0);
+  }
+  if (renderer.setDeathCam) {
+    renderer.setDeathCam(kill.killedBy);
+  }
+}
+
+/**
+ * Bring our car back where the server respawned it
+ * @param {PlayerRespawnEvent} respawn - The spawn point and spawn protection
+ */
+function respawnPlayer(respawn: PlayerRespawnEvent): void {
+  const stats = appState.playerStats;
+  
+  // Restore health, shield, energy and flares and clear weapon heat and power-ups
+  stats.health = MAX_HEALTH;
+  stats.shield = MAX_SHIELD;
+  stats.heat = 0;
+  stats.overheatedUntil = 0;
+  stats.energy = MAX_ENERGY;
+  stats.flares = FLARE_COUNT;
+  stats.powerUps = {};
+  stats.isAlive = true;
+  stats.spawnProtectedUntil = respawn.spawnProtectedUntil;
+  
+  // Move to the server's spawn point, at rest
+  stats.position = { ...respawn.position };
+  stats.rotation = { ...respawn.rotation };
+  stats.velocity = { x: 0, y: 0, z: 0 };
+  correctionOffset.x = 0;
+  correctionOffset.y = 0;
+  correctionOffset.z = 0;
   
   // Play respawn effect
   showRespawnEffect();
 }
 
+/**
+ * Pick our car up where the server kept it while our connection was down.
+ * The next snapshot is a keyframe, so reconciliation moves us to the
+ * car's position; only the life state isn't in snapshots.
+ * @param {SessionResumed} resumed - Our car's life state
+ */
+function resumePlayer(resumed: SessionResumed): void {
+  const stats = appState.playerStats;
+  stats.isAlive = resumed.isAlive;
+  stats.respawnTime = resumed.respawnTime;
+  stats.spawnProtectedUntil = resumed.spawnProtectedUntil;
+  correctionOffset.x = 0;
+  correctionOffset.y = 0;
+  correctionOffset.z = 0;
+  
+  // We don't know who killed us while we were away, so the death cam stays on our wreck
+  if (renderer.setDeathCam) {
+    renderer.setDeathCam(null);
+  }
+}
+
 /**
  * Show respawn effect
  */
@@ -548,4 +967,15 @@ function showRespawnEffect(): void {
  */
 function setFireButtonState(isHeld: boolean): void {
   isFireButtonHeld = isHeld;
-} 
\ No newline at end of file
+}
+
+/**
+ * Clamp a number to a range
+ * @param {number} value - The value to clamp
+ * @param {number} min - Lower bound
+ * @param {number} max - Upper bound
+ * @returns {number} - The clamped value
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
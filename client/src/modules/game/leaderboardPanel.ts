@@ -0,0 +1,216 @@
+/**
+ * Leaderboard panel - the top players today, over the last week or of all
+ * time, ranked by one stat at a time, as served by the server's REST API
+ */
+import { formatLapTime } from './matchHud';
+import { NetworkManager, Leaderboard, LeaderboardPeriod, LeaderboardStat } from '../../types';
+
+// Panel elements
+let toggleButton: HTMLDivElement | null = null;
+let panelElement: HTMLDivElement | null = null;
+let periodButtons: Partial<Record<LeaderboardPeriod, HTMLButtonElement>> = {};
+let statSelect: HTMLSelectElement | null = null;
+let listElement: HTMLDivElement | null = null;
+
+// What the panel shows
+let period: LeaderboardPeriod = 'daily';
+let stat: LeaderboardStat = 'kills';
+let request = 0; // Only the latest request's answer is shown
+
+const PERIOD_NAMES: Record<LeaderboardPeriod, string> = {
+  daily: 'TODAY',
+  weekly: 'WEEK',
+  all_time: 'ALL TIME'
+};
+
+const STAT_NAMES: Record<LeaderboardStat, string> = {
+  kills: 'Kills',
+  assists: 'Assists',
+  damageDealt: 'Damage dealt',
+  accuracy: 'Accuracy',
+  distanceFlown: 'Distance flown',
+  timeAlive: 'Time alive',
+  matchesWon: 'Matches won',
+  bestLapTime: 'Best lap'
+};
+
+const OWN_COLOR = '#ff0';
+
+/**
+ * Create the leaderboard button and its panel
+ * @param {NetworkManager} networkManager - Fetches the leaderboards
+ */
+export function createLeaderboardPanel(networkManager: NetworkManager): void {
+  // Button left of the account button
+  toggleButton = document.createElement('div');
+  toggleButton.style.position = 'absolute';
+  toggleButton.style.top = '20px';
+  toggleButton.style.right = '430px';
+  toggleButton.style.padding = '5px 10px';
+  toggleButton.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+  toggleButton.style.border = '2px solid #0ff';
+  toggleButton.style.borderRadius = '4px';
+  toggleButton.style.color = '#0ff';
+  toggleButton.style.cursor = 'pointer';
+  toggleButton.style.zIndex = '1001';
+  toggleButton.style.fontFamily = 'monospace';
+  toggleButton.style.fontSize = '12px';
+  toggleButton.textContent = 'LEADERBOARDS';
+  toggleButton.addEventListener('click', () => {
+    if (!panelElement) return;
+
+    const opening = panelElement.style.display === 'none';
+    panelElement.style.display = opening ? 'block' : 'none';
+    if (opening) {
+      refresh(networkManager);
+    }
+  });
+  document.body.appendChild(toggleButton);
+
+  panelElement = document.createElement('div');
+  panelElement.style.display = 'none';
+  panelElement.style.position = 'absolute';
+  panelElement.style.top = '60px';
+  panelElement.style.right = '300px';
+  panelElement.style.width = '300px';
+  panelElement.style.padding = '12px';
+  panelElement.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+  panelElement.style.border = '2px solid #0ff';
+  panelElement.style.borderRadius = '10px';
+  panelElement.style.color = '#0ff';
+  panelElement.style.fontFamily = 'monospace';
+  panelElement.style.fontSize = '12px';
+  panelElement.style.zIndex = '1002';
+
+  // Picking a stat with the arrow keys mustn't fly the car
+  panelElement.addEventListener('keydown', event => event.stopPropagation());
+  panelElement.addEventListener('keyup', event => event.stopPropagation());
+
+  // Period tabs
+  const tabs = document.createElement('div');
+  tabs.style.marginBottom = '6px';
+  (Object.keys(PERIOD_NAMES) as LeaderboardPeriod[]).forEach(option => {
+    const button = document.createElement('button');
+    button.textContent = PERIOD_NAMES[option];
+    button.style.marginRight = '6px';
+    button.style.border = '1px solid #0ff';
+    button.style.color = '#0ff';
+    button.style.fontFamily = 'monospace';
+    button.style.cursor = 'pointer';
+    button.addEventListener('click', () => {
+      period = option;
+      refresh(networkManager);
+    });
+    periodButtons[option] = button;
+    tabs.appendChild(button);
+  });
+  panelElement.appendChild(tabs);
+
+  // Stat picker
+  statSelect = document.createElement('select');
+  statSelect.style.display = 'block';
+  statSelect.style.width = '100%';
+  statSelect.style.marginBottom = '8px';
+  statSelect.style.backgroundColor = '#111';
+  statSelect.style.border = '1px solid #0ff';
+  statSelect.style.color = '#fff';
+  statSelect.style.fontFamily = 'monospace';
+  (Object.keys(STAT_NAMES) as LeaderboardStat[]).forEach(option => {
+    const item = document.createElement('option');
+    item.value = option;
+    item.textContent = STAT_NAMES[option];
+    statSelect?.appendChild(item);
+  });
+  statSelect.addEventListener('change', () => {
+    if (statSelect) {
+      stat = statSelect.value as LeaderboardStat;
+      refresh(networkManager);
+    }
+  });
+  panelElement.appendChild(statSelect);
+
+  listElement = document.createElement('div');
+  panelElement.appendChild(listElement);
+
+  document.body.appendChild(panelElement);
+}
+
+/**
+ * Format a stat's value for display
+ * @param {LeaderboardStat} stat - The stat
+ * @param {number} value - Its value
+ * @returns {string} - The formatted value
+ */
+export function formatStat(stat: LeaderboardStat, value: number): string {
+  switch (stat) {
+    case 'accuracy':
+      return `${(value * 100).toFixed(1)}%`;
+    case 'distanceFlown':
+      return `${(value / 1000).toFixed(1)} km`;
+    case 'timeAlive': {
+      const minutes = Math.floor(value / 60000);
+      return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+    }
+    case 'bestLapTime':
+      return formatLapTime(value);
+    default:
+      return `${Math.round(value)}`;
+  }
+}
+
+/**
+ * Load the chosen leaderboard and show it
+ * @param {NetworkManager} networkManager - Fetches the leaderboard
+ */
+async function refresh(networkManager: NetworkManager): Promise<void> {
+  (Object.keys(periodButtons) as LeaderboardPeriod[]).forEach(option => {
+    const button = periodButtons[option];
+    if (button) {
+      button.style.backgroundColor = option === period ? 'rgba(0, 255, 255, 0.5)' : 'rgba(0, 255, 255, 0.1)';
+    }
+  });
+
+  if (!listElement || !networkManager.getLeaderboard) return;
+  listElement.textContent = 'Loading...';
+
+  const current = ++request;
+  const leaderboard = await networkManager.getLeaderboard(period, stat);
+  if (current !== request) return;
+
+  showLeaderboard(leaderboard, networkManager.getProfile?.()?.accountId);
+}
+
+/**
+ * Fill the list in from a leaderboard
+ * @param {Leaderboard | null} leaderboard - The leaderboard, or null if it couldn't be loaded
+ * @param {string} [accountId] - Our account, to pick out our own line
+ */
+function showLeaderboard(leaderboard: Leaderboard | null, accountId?: string): void {
+  if (!listElement) return;
+
+  if (!leaderboard) {
+    listElement.textContent = 'Leaderboards are unavailable right now';
+    return;
+  }
+  if (leaderboard.entries.length === 0) {
+    listElement.textContent = 'Nobody has made it onto this board yet';
+    return;
+  }
+
+  listElement.textContent = '';
+  leaderboard.entries.forEach(entry => {
+    const line = document.createElement('div');
+    line.style.display = 'flex';
+    line.style.justifyContent = 'space-between';
+    line.style.color = entry.accountId === accountId ? OWN_COLOR : '#fff';
+
+    const name = document.createElement('span');
+    name.textContent = `${entry.rank}. ${entry.displayName}`;
+    const value = document.createElement('span');
+    value.textContent = formatStat(leaderboard.stat, entry.value);
+
+    line.appendChild(name);
+    line.appendChild(value);
+    listElement?.appendChild(line);
+  });
+}
@@ -0,0 +1,526 @@
+/**
+ * Match HUD - match and lap timers, objective and power-up messages, kill feed, zone scores and end-of-match scoreboard
+ */
+import { getServerTime } from '../network/network';
+import { TEAM_COLORS } from '../rendering/car';
+import { POWER_UPS } from '../../../../shared/combat/powerups';
+import { WEAPONS } from '../../../../shared/combat/weapons';
+import { MatchState, MatchPhase, MatchEnd, GameModeId, TeamId, FlagUpdate, ZoneUpdate, RaceProgress, LapComplete, PickupUpdate, PlayerDiedEvent } from '../../types';
+
+// HUD elements
+let timerElement: HTMLDivElement | null = null;
+let timerInterval: ReturnType<typeof setInterval> | null = null;
+let scoreboardElement: HTMLDivElement | null = null;
+let lapTimerElement: HTMLDivElement | null = null;
+let lapTimerInterval: ReturnType<typeof setInterval> | null = null;
+let zoneScoreElement: HTMLDivElement | null = null;
+let killFeedElement: HTMLDivElement | null = null;
+
+// Display names of the players we have seen, by player ID
+let playerNames: Record<string, string> = {};
+
+// Display names
+const MODE_NAMES: Record<GameModeId, string> = {
+  free_for_all: 'FREE FOR ALL',
+  team_deathmatch: 'TEAM DEATHMATCH',
+  capture_the_flag: 'CAPTURE THE FLAG',
+  air_race: 'AIR RACE',
+  king_of_the_hill: 'KING OF THE HILL',
+  team_king_of_the_hill: 'TEAM KING OF THE HILL'
+};
+
+// Split colors
+const AHEAD_COLOR = '#0f0';
+const BEHIND_COLOR = '#f33';
+
+// Kill feed
+const KILL_FEED_LENGTH = 5; // Lines shown at once
+const KILL_FEED_DURATION = 6000; // How long a line stays up (ms)
+
+/**
+ * Update the match timer and announce the match's new phase
+ * @param {MatchState} match - The match
+ */
+export function showMatchPhase(match: MatchState): void {
+  // The results stay up until the next match is on its way
+  if (match.phase === 'results') {
+    hideMatchTimer();
+    return;
+  }
+  hideScoreboard();
+
+  // Match timer, top center
+  if (!timerElement) {
+    timerElement = document.createElement('div');
+    timerElement.style.position = 'absolute';
+    timerElement.style.top = '20px';
+    timerElement.style.left = '50%';
+    timerElement.style.transform = 'translateX(-50%)';
+    timerElement.style.padding = '6px 16px';
+    timerElement.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    timerElement.style.border = '2px solid #0ff';
+    timerElement.style.borderRadius = '10px';
+    timerElement.style.color = '#0ff';
+    timerElement.style.fontSize = '20px';
+    timerElement.style.zIndex = '1001';
+    timerElement.style.pointerEvents = 'none';
+    document.body.appendChild(timerElement);
+  }
+
+  const labels: Record<MatchPhase, string> = {
+    warmup: 'WAITING FOR PLAYERS',
+    countdown: 'MATCH STARTS IN',
+    live: MODE_NAMES[match.mode],
+    overtime: 'OVERTIME',
+    results: ''
+  };
+
+  const updateTimer = () => {
+    if (!timerElement) return;
+    if (match.phaseEndTime === null) {
+      timerElement.textContent = labels[match.phase];
+      return;
+    }
+    const remaining = Math.max(0, match.phaseEndTime - getServerTime());
+    timerElement.textContent = `${labels[match.phase]} ${formatTime(remaining)}`;
+  };
+
+  updateTimer();
+  if (timerInterval) clearInterval(timerInterval);
+  timerInterval = setInterval(updateTimer, 250);
+
+  switch (match.phase) {
+    case 'warmup':
+      showBanner(`WAITING FOR ${match.minPlayers} PLAYERS`);
+      break;
+    case 'countdown':
+      showBanner('GET READY');
+      break;
+    case 'live':
+      showBanner(`${MODE_NAMES[match.mode]} - FIRST TO ${match.scoreLimit}`);
+      break;
+    case 'overtime':
+      showBanner('OVERTIME - NEXT SCORE WINS', '#f0f');
+      break;
+  }
+}
+
+/**
+ * Stop the match timer and show the final standings
+ * @param {MatchEnd} result - The match's result
+ * @param {string} [localPlayerId] - Our socket ID, to highlight our line
+ */
+export function showMatchEnd(result: MatchEnd, localPlayerId?: string): void {
+  hideMatchTimer();
+  hideScoreboard();
+
+  scoreboardElement = document.createElement('div');
+  scoreboardElement.style.position = 'absolute';
+  scoreboardElement.style.top = '50%';
+  scoreboardElement.style.left = '50%';
+  scoreboardElement.style.transform = 'translate(-50%, -50%)';
+  scoreboardElement.style.minWidth = '320px';
+  scoreboardElement.style.padding = '20px';
+  scoreboardElement.style.backgroundColor = 'rgba(0, 0, 0, 0.8)';
+  scoreboardElement.style.border = '2px solid #0ff';
+  scoreboardElement.style.borderRadius = '10px';
+  scoreboardElement.style.color = '#fff';
+  scoreboardElement.style.fontSize = '16px';
+  scoreboardElement.style.zIndex = '1002';
+  scoreboardElement.style.pointerEvents = 'none';
+
+  // Headline
+  const title = document.createElement('div');
+  title.style.fontSize = '24px';
+  title.style.textAlign = 'center';
+  title.style.marginBottom = '12px';
+  if (result.winner && isTeam(result.winner)) {
+    title.style.color = TEAM_COLORS[result.winner];
+    title.textContent = `${result.winner.toUpperCase()} TEAM WINS`;
+  } else if (result.winner) {
+    title.style.color = '#0ff';
+    title.textContent = result.winner === localPlayerId ? 'YOU WIN' : `${shortName(result.winner)} WINS`;
+  } else {
+    title.style.color = '#0ff';
+    title.textContent = 'DRAW';
+  }
+  scoreboardElement.appendChild(title);
+
+  // Team scores
+  if (result.teams.length > 0) {
+    const teams = document.createElement('div');
+    teams.style.textAlign = 'center';
+    teams.style.marginBottom = '12px';
+    result.teams.forEach(standing => {
+      const team = document.createElement('span');
+      team.style.color = TEAM_COLORS[standing.team];
+      team.style.margin = '0 12px';
+      team.textContent = `${standing.team.toUpperCase()} ${standing.score}`;
+      teams.appendChild(team);
+    });
+    scoreboardElement.appendChild(teams);
+  }
+
+  // Player lines
+  result.players.forEach(standing => {
+    const line = document.createElement('div');
+    line.style.display = 'flex';
+    line.style.justifyContent = 'space-between';
+    line.style.color = standing.team ? TEAM_COLORS[standing.team] : '#fff';
+    line.style.fontWeight = standing.playerId === localPlayerId ? 'bold' : 'normal';
+    const captures = standing.captures !== undefined ? `  ${standing.captures} caps` : '';
+    line.textContent = `${shortName(standing.playerId)}  ${standing.kills} / ${standing.deaths} / ${standing.assists}${captures}`;
+    scoreboardElement?.appendChild(line);
+  });
+
+  // How we did beyond the scoreboard
+  const own = result.players.find(standing => standing.playerId === localPlayerId);
+  if (own && own.stats) {
+    const stats = own.stats;
+    const accuracy = stats.shotsFired > 0 ? Math.round(stats.shotsHit / stats.shotsFired * 100) : 0;
+    const summary = document.createElement('div');
+    summary.style.marginTop = '12px';
+    summary.style.textAlign = 'center';
+    summary.style.fontSize = '13px';
+    summary.style.color = '#0ff';
+    summary.textContent = `ACCURACY ${accuracy}%  DAMAGE ${Math.round(stats.damageDealt)}  ` +
+      `FLOWN ${(stats.distanceFlown / 1000).toFixed(1)} KM  ALIVE ${formatTime(stats.timeAlive)}`;
+    scoreboardElement.appendChild(summary);
+  }
+
+  document.body.appendChild(scoreboardElement);
+}
+
+/**
+ * Announce a Capture the Flag flag being taken, dropped, returned or captured
+ * @param {FlagUpdate} update - What happened to the flag
+ * @param {string} [localPlayerId] - Our socket ID, to tell our own actions apart
+ */
+export function showFlagUpdate(update: FlagUpdate, localPlayerId?: string): void {
+  const flagName = `${update.flag.team.toUpperCase()} FLAG`;
+  const byUs = update.playerId !== undefined && update.playerId === localPlayerId;
+  let text: string;
+
+  switch (update.action) {
+    case 'taken':
+      text = byUs ? `YOU HAVE THE ${flagName}` : `${flagName} TAKEN`;
+      break;
+    case 'dropped':
+      text = `${flagName} DROPPED`;
+      break;
+    case 'returned':
+      text = `${flagName} RETURNED`;
+      break;
+    case 'captured':
+      text = byUs ? `YOU CAPTURED THE ${flagName}` : `${flagName} CAPTURED`;
+      break;
+  }
+
+  showBanner(text, TEAM_COLORS[update.flag.team]);
+}
+
+/**
+ * Show King of the Hill scores under the match timer
+ * @param {ZoneUpdate} update - The zones and scores
+ * @param {string} [localPlayerId] - Our socket ID, for our own score in free-for-all
+ */
+export function showZoneScores(update: ZoneUpdate, localPlayerId?: string): void {
+  if (!zoneScoreElement) {
+    zoneScoreElement = document.createElement('div');
+    zoneScoreElement.style.position = 'absolute';
+    zoneScoreElement.style.top = '60px';
+    zoneScoreElement.style.left = '50%';
+    zoneScoreElement.style.transform = 'translateX(-50%)';
+    zoneScoreElement.style.color = '#0ff';
+    zoneScoreElement.style.fontSize = '18px';
+    zoneScoreElement.style.textShadow = '0 0 6px #000';
+    zoneScoreElement.style.zIndex = '1001';
+    zoneScoreElement.style.pointerEvents = 'none';
+    document.body.appendChild(zoneScoreElement);
+  }
+
+  const element = zoneScoreElement;
+  element.innerHTML = '';
+
+  const holders = Object.keys(update.scores);
+  const teamPlay = holders.some(isTeam);
+
+  const addScore = (label: string, score: number, color: string) => {
+    const span = document.createElement('span');
+    span.style.color = color;
+    span.style.margin = '0 10px';
+    span.textContent = `${label} ${score}`;
+    element.appendChild(span);
+  };
+
+  if (teamPlay) {
+    (['red', 'blue'] as TeamId[]).forEach(team => {
+      addScore(team.toUpperCase(), update.scores[team] || 0, TEAM_COLORS[team]);
+    });
+  } else {
+    const leader = holders.reduce<string | null>((best, holder) =>
+      best === null || update.scores[holder] > update.scores[best] ? holder : best, null);
+
+    addScore('YOU', localPlayerId ? update.scores[localPlayerId] || 0 : 0, '#0f0');
+    if (leader && leader !== localPlayerId) {
+      addScore('LEADER', update.scores[leader], '#f0f');
+    }
+  }
+}
+
+/**
+ * Run the lap timer and compare each split with our best lap
+ * @param {RaceProgress} progress - Our race progress
+ */
+export function showRaceProgress(progress: RaceProgress): void {
+  const lapStartTime = progress.lapStartTime;
+
+  // Lap abandoned (we crashed or took too long)
+  if (lapStartTime === null) {
+    if (lapTimerElement) {
+      showBanner('LAP ABANDONED', BEHIND_COLOR);
+    }
+    hideLapTimer();
+    return;
+  }
+
+  // Lap timer, top right
+  if (!lapTimerElement) {
+    lapTimerElement = document.createElement('div');
+    lapTimerElement.style.position = 'absolute';
+    lapTimerElement.style.top = '20px';
+    lapTimerElement.style.right = '20px';
+    lapTimerElement.style.padding = '6px 16px';
+    lapTimerElement.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+    lapTimerElement.style.border = '2px solid #0ff';
+    lapTimerElement.style.borderRadius = '10px';
+    lapTimerElement.style.color = '#0ff';
+    lapTimerElement.style.fontSize = '20px';
+    lapTimerElement.style.zIndex = '1001';
+    lapTimerElement.style.pointerEvents = 'none';
+    document.body.appendChild(lapTimerElement);
+  }
+
+  const updateLapTimer = () => {
+    if (!lapTimerElement) return;
+    lapTimerElement.textContent = `LAP ${progress.lap}  ${formatLapTime(getServerTime() - lapStartTime)}`;
+  };
+
+  updateLapTimer();
+  if (lapTimerInterval) clearInterval(lapTimerInterval);
+  lapTimerInterval = setInterval(updateLapTimer, 50);
+
+  // Split against our best lap
+  if (progress.split !== null && progress.bestSplit !== null) {
+    const delta = progress.split - progress.bestSplit;
+    const sign = delta > 0 ? '+' : '-';
+    showBanner(`${sign}${(Math.abs(delta) / 1000).toFixed(2)}`, delta > 0 ? BEHIND_COLOR : AHEAD_COLOR);
+  }
+}
+
+/**
+ * Announce our finished laps
+ * @param {LapComplete} lap - The finished lap
+ * @param {string} [localPlayerId] - Our socket ID; other racers' laps aren't shown
+ */
+export function showLapComplete(lap: LapComplete, localPlayerId?: string): void {
+  if (lap.playerId !== localPlayerId) return;
+
+  const text = `LAP ${lap.lap}  ${formatLapTime(lap.time)}${lap.best ? '  BEST' : ''}`;
+  showBanner(text, lap.best ? AHEAD_COLOR : '#0ff');
+}
+
+/**
+ * Announce a power-up we collected
+ * @param {PickupUpdate} update - The pickup that was taken
+ * @param {string} [localPlayerId] - Our socket ID, to leave out pickups other players took
+ */
+export function showPickupTaken(update: PickupUpdate, localPlayerId?: string): void {
+  if (update.playerId !== localPlayerId) return;
+
+  const powerUp = POWER_UPS[update.pickup.type];
+  showBanner(powerUp.name, powerUp.color);
+}
+
+/**
+ * Add a death to the kill feed in the top right corner
+ * @param {PlayerDiedEvent} kill - The death
+ * @param {string} [localPlayerId] - Our socket ID, to pick out our own kills and deaths
+ */
+export function showKill(kill: PlayerDiedEvent, localPlayerId?: string): void {
+  if (!killFeedElement) {
+    killFeedElement = document.createElement('div');
+    killFeedElement.style.position = 'absolute';
+    killFeedElement.style.top = '80px';
+    killFeedElement.style.right = '20px';
+    killFeedElement.style.textAlign = 'right';
+    killFeedElement.style.fontSize = '14px';
+    killFeedElement.style.zIndex = '1001';
+    killFeedElement.style.pointerEvents = 'none';
+    document.body.appendChild(killFeedElement);
+  }
+
+  const name = (playerId: string) => playerId === localPlayerId ? 'YOU' : shortName(playerId);
+  const cause = kill.weapon ? WEAPONS[kill.weapon].name : 'CRASH';
+  const assists = kill.assistedBy.map(playerId => ` + ${name(playerId)}`).join('');
+
+  const line = document.createElement('div');
+  line.style.marginBottom = '4px';
+  line.style.padding = '2px 8px';
+  line.style.backgroundColor = 'rgba(0, 0, 0, 0.5)';
+  line.style.color = '#fff';
+  line.textContent = kill.killedBy
+    ? `${name(kill.killedBy)}${assists}  [${cause}]  ${name(kill.playerId)}`
+    : `${name(kill.playerId)} CRASHED`;
+
+  // Mark the lines we are in: green for our kills and assists, red for our deaths
+  if (kill.playerId === localPlayerId) {
+    line.style.borderRight = `3px solid ${BEHIND_COLOR}`;
+  } else if (kill.killedBy === localPlayerId || (localPlayerId && kill.assistedBy.indexOf(localPlayerId) !== -1)) {
+    line.style.borderRight = `3px solid ${AHEAD_COLOR}`;
+  }
+
+  killFeedElement.appendChild(line);
+  while (killFeedElement.childNodes.length > KILL_FEED_LENGTH) {
+    killFeedElement.removeChild(killFeedElement.childNodes[0]);
+  }
+
+  setTimeout(() => {
+    line.remove();
+  }, KILL_FEED_DURATION);
+}
+
+/**
+ * Remember a player's display name for the kill feed and scoreboard
+ * @param {string} playerId - The player's ID
+ * @param {string} name - Their display name
+ */
+export function setPlayerName(playerId: string, name: string): void {
+  playerNames[playerId] = name;
+}
+
+/**
+ * Clear everything the HUD shows, e.g. when switching rooms
+ */
+export function resetMatchHud(): void {
+  hideMatchTimer();
+  if (zoneScoreElement) {
+    zoneScoreElement.remove();
+    zoneScoreElement = null;
+  }
+  if (killFeedElement) {
+    killFeedElement.remove();
+    killFeedElement = null;
+  }
+  playerNames = {};
+  hideLapTimer();
+  hideScoreboard();
+}
+
+/**
+ * Remove the match timer if it is showing
+ */
+function hideMatchTimer(): void {
+  if (timerInterval) {
+    clearInterval(timerInterval);
+    timerInterval = null;
+  }
+  if (timerElement) {
+    timerElement.remove();
+    timerElement = null;
+  }
+}
+
+/**
+ * Remove the lap timer if it is showing
+ */
+function hideLapTimer(): void {
+  if (lapTimerInterval) {
+    clearInterval(lapTimerInterval);
+    lapTimerInterval = null;
+  }
+  if (lapTimerElement) {
+    lapTimerElement.remove();
+    lapTimerElement = null;
+  }
+}
+
+/**
+ * Remove the scoreboard if it is showing
+ */
+function hideScoreboard(): void {
+  if (scoreboardElement) {
+    scoreboardElement.remove();
+    scoreboardElement = null;
+  }
+}
+
+/**
+ * Flash a message in the middle of the screen
+ * @param {string} text - The message
+ * @param {string} [color] - Text color
+ */
+function showBanner(text: string, color: string = '#0ff'): void {
+  const banner = document.createElement('div');
+  banner.style.position = 'absolute';
+  banner.style.top = '30%';
+  banner.style.left = '50%';
+  banner.style.transform = 'translateX(-50%)';
+  banner.style.color = color;
+  banner.style.fontSize = '32px';
+  banner.style.textShadow = `0 0 10px ${color}`;
+  banner.style.transition = 'opacity 0.5s';
+  banner.style.zIndex = '1001';
+  banner.style.pointerEvents = 'none';
+  banner.textContent = text;
+  document.body.appendChild(banner);
+
+  // Fade out and remove
+  setTimeout(() => {
+    banner.style.opacity = '0';
+    setTimeout(() => {
+      banner.remove();
+    }, 500);
+  }, 3000);
+}
+
+/**
+ * Format milliseconds as m:ss
+ * @param {number} ms - Time in milliseconds
+ * @returns {string} - The formatted time
+ */
+function formatTime(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest < 10 ? '0' : ''}${rest}`;
+}
+
+/**
+ * Format milliseconds as m:ss.mmm
+ * @param {number} ms - Time in milliseconds
+ * @returns {string} - The formatted time
+ */
+export function formatLapTime(ms: number): string {
+  const millis = Math.floor(ms % 1000);
+  const padded = millis < 10 ? `00${millis}` : millis < 100 ? `0${millis}` : `${millis}`;
+  return `${formatTime(ms - millis)}.${padded}`;
+}
+
+/**
+ * Check whether a winner is a team rather than a player
+ * @param {string} winner - The winner from the result
+ * @returns {boolean} - Whether it is a team
+ */
+function isTeam(winner: string): winner is TeamId {
+  return winner === 'red' || winner === 'blue';
+}
+
+/**
+ * Display name for a player, falling back to a short ID before we know it
+ * @param {string} playerId - The player's ID
+ * @returns {string} - The name
+ */
+function shortName(playerId: string): string {
+  return playerNames[playerId] || `Player ${playerId.substr(0, 5)}`;
+}
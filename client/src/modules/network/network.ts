@@ -1,4 +1,52 @@
 import { io, Socket } from 'socket.io-client';
+import {
+  PlayerInput,
+  PlayerData,
+  GameStateUpdate,
+  StateSnapshot,
+  LaserData,
+  HitData,
+  RoomSummary,
+  RoomOptions,
+  WeaponId,
+  MatchState,
+  MatchEnd,
+  FlagState,
+  FlagUpdate,
+  ZoneUpdate,
+  RaceCourse,
+  RaceProgress,
+  LapComplete,
+  GhostLap,
+  MissileLaunch,
+  MissileDestroyed,
+  FlareDeploy,
+  ActivePowerUps,
+  PickupState,
+  PickupUpdate,
+  PlayerDiedEvent,
+  PlayerRespawnEvent,
+  SessionResumed,
+  AccountAuth,
+  AccountErrorReason,
+  Profile,
+  ProfileUpdate,
+  Leaderboard,
+  LeaderboardPeriod,
+  LeaderboardStat
+} from '../../types';
+import { ServerToClientEvents, ClientToServerEvents } from '../../../../shared/protocol/events';
+import { isStateSnapshot, isLaserShot } from '../../../../shared/protocol/validation';
+import { createSnapshotHistory, decodeSnapshot } from './snapshots';
+import {
+  WireFormat,
+  createWireContext,
+  isBinaryMessage,
+  encodePlayerInputs,
+  decodeStateSnapshot,
+  decodeLaserShot
+} from '../../../../shared/protocol/binary';
+import { WEAPONS } from '../../../../shared/combat/weapons';
 
 // Define types
 interface PlayerStats {
@@ -19,86 +67,123 @@ interface PlayerStats {
     z: number;
   };
   health: number;
-}
-
-interface Player {
-  id: string;
-  position: {
-    x: number;
-    y: number;
-    z: number;
-  };
-  rotation: {
-    x: number;
-    y: number;
-    z: number;
-    w?: number;
-  };
-  velocity?: {
-    x: number;
-    y: number;
-    z: number;
-  };
-  health: number;
+  shield: number;
+  weapon: WeaponId;
+  heat: number;
+  overheatedUntil: number;
+  energy: number;
+  flares: number;
+  incomingMissiles: number;
+  powerUps: ActivePowerUps;
 }
 
 interface AppState {
   playerStats: PlayerStats;
-  otherPlayers: Record<string, Player>;
+  otherPlayers: Record<string, PlayerData>;
 }
 
 interface Game {
   renderer?: {
-    updateOtherPlayers: (players: Record<string, Player>) => void;
-    fireLaser?: (data: LaserData) => void;
+    fireLaser?: (data: LaserEffect) => void;
     createExplosion?: (position: {x: number, y: number, z: number}, size: number) => void;
+    setFlags?: (flags: FlagState[], localPlayerId?: string) => void;
+    updateFlag?: (flag: FlagState, localPlayerId?: string) => void;
+    setZones?: (update: ZoneUpdate | null, localPlayerId?: string) => void;
+    setRaceCourse?: (course: RaceCourse | null) => void;
+    setRaceProgress?: (progress: RaceProgress) => void;
+    setGhostLap?: (ghost: GhostLap | null) => void;
+    launchMissile?: (missile: MissileLaunch, localPlayerId?: string) => void;
+    destroyMissile?: (data: MissileDestroyed) => void;
+    dropFlare?: (flare: FlareDeploy) => void;
+    showShieldHit?: (targetId: string, shieldDamage: number, localPlayerId?: string) => void;
+    setPickups?: (pickups: PickupState[]) => void;
+    updatePickup?: (pickup: PickupState) => void;
   };
-  showHitEffect?: (fromDirection: {x: number, y: number, z: number}) => void;
-  showRespawnEffect?: () => void;
+  applyServerState?: (state: GameStateUpdate, localPlayerId: string) => void;
+  showHitEffect?: (fromDirection: {x: number, y: number, z: number}, shieldOnly?: boolean) => void;
+  respawnPlayer?: (respawn: PlayerRespawnEvent) => void;
+  resumePlayer?: (resumed: SessionResumed) => void;
+  showDeath?: (kill: PlayerDiedEvent) => void;
+  showMatchPhase?: (match: MatchState) => void;
+  showMatchEnd?: (result: MatchEnd, localPlayerId?: string) => void;
+  showFlagUpdate?: (update: FlagUpdate, localPlayerId?: string) => void;
+  showZoneScores?: (update: ZoneUpdate, localPlayerId?: string) => void;
+  showRaceProgress?: (progress: RaceProgress) => void;
+  showLapComplete?: (lap: LapComplete, localPlayerId?: string) => void;
+  showPickupTaken?: (update: PickupUpdate, localPlayerId?: string) => void;
+  showKill?: (kill: PlayerDiedEvent, localPlayerId?: string) => void;
+  resetMatchHud?: () => void;
 }
 
-interface LaserData {
-  position: {
-    x: number;
-    y: number;
-    z: number;
-  };
-  rotation: {
-    x: number;
-    y: number;
-    z: number;
-    w?: number;
-  };
+// A laser handed to the renderer
+interface LaserEffect extends LaserData {
   isRemoteLaser?: boolean;
   playerId?: string;
-}
-
-interface HitData {
-  targetId: string;
-  position: {
-    x: number;
-    y: number;
-    z: number;
-  };
+  color?: string;
+  speed?: number;
+  duration?: number;
 }
 
 interface NetworkManager {
-  sendPlayerUpdate: (playerData: PlayerStats) => void;
+  sendPlayerInput: (inputs: PlayerInput[]) => void;
+  sendWeaponSelect: (weapon: WeaponId) => void;
   sendLaserShot: (laserData: LaserData) => void;
   sendLaserHit: (hitData: HitData) => void;
+  sendFlareDeploy: () => void;
   getLatency: () => number;
   getPlayerCount: () => number;
+  listRooms: () => Promise<RoomSummary[]>;
+  getLeaderboard: (period: LeaderboardPeriod, stat: LeaderboardStat) => Promise<Leaderboard | null>;
+  createRoom: (options: RoomOptions) => void;
+  joinRoom: (roomId: string) => void;
+  leaveRoom: () => void;
+  getRoom: () => RoomSummary | null;
   disconnect: () => void;
   reconnect: () => void;
+  getProfile: () => Profile | null;
+  updateProfile: (update: ProfileUpdate) => void;
+  register: (username: string, password: string) => void;
+  login: (username: string, password: string) => void;
+  logout: () => void;
 }
 
-// WebSocket connection
-let socket: Socket | null = null;
+// WebSocket connection, and the same server's REST API
+let serverUrl = '';
+let socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
 
 // Network state
 let pingInterval: NodeJS.Timeout | null = null;
 let lastPingTime = 0;
 let latency = 0;
+let serverTimeOffset: number | null = null; // Estimated server clock minus local clock (ms)
+let snapshotHistory = createSnapshotHistory();
+let incomingMissiles: Record<string, boolean> = {}; // Missiles homing in on us
+
+// Room - add ?room=<id> to the page URL to join a room other than the default one
+const DEFAULT_ROOM_ID = 'main';
+let requestedRoomId = new URLSearchParams(window.location.search).get('room') || DEFAULT_ROOM_ID;
+let currentRoom: RoomSummary | null = null;
+
+// Reconnecting to our car; the token is only good for the connection it was issued on
+let resumeToken: string | null = null;
+let playerId: string | null = null; // Our car's ID, which outlives the socket it was created on
+
+// Wire protocol - add ?wire=json to the page URL to send and receive readable JSON
+const wireFormat: WireFormat = new URLSearchParams(window.location.search).get('wire') === 'json' ? 'json' : 'binary';
+let wire = createWireContext(wireFormat);
+
+// Other modules interested in decoded snapshots (e.g. billboard ads)
+const stateListeners: ((snapshot: StateSnapshot) => void)[] = [];
+
+// Account - the session token is kept in local storage so we log back in as the same player
+const ACCOUNT_TOKEN_KEY = 'accountToken';
+let accountToken: string | null = window.localStorage.getItem(ACCOUNT_TOKEN_KEY);
+let pendingLogin: AccountAuth | null = null; // Username and password for the next handshake
+let profile: Profile | null = null;
+
+// Other modules interested in our profile (e.g. the account panel)
+const profileListeners: ((profile: Profile) => void)[] = [];
+const accountErrorListeners: ((reason: AccountErrorReason) => void)[] = [];
 
 /**
  * Set up networking with WebSockets for real-time multiplayer
@@ -111,6 +196,7 @@ export async function setupNetworking(appState: AppState, game: Game): Promise<N
   // Use proper port handling - use 5000 for server
   const wsPort = process.env.NODE_ENV === 'production' ? window.location.port : '5000';
   const wsUrl = `${window.location.protocol}//${window.location.hostname}:${wsPort}`;
+  serverUrl = wsUrl;
   
   console.log('Connecting to WebSocket server at:', wsUrl);
   
@@ -119,7 +205,11 @@ export async function setupNetworking(appState: AppState, game: Game): Promise<N
     reconnection: true,
     reconnectionAttempts: 5,
     reconnectionDelay: 1000,
-    transports: ['websocket', 'polling']
+    transports: ['websocket', 'polling'],
+    query: { wire: wireFormat },
+    // Log in on every (re)connect: with a username and password when asked to,
+    // else with our session token, else as a new guest
+    auth: (callback) => callback(pendingLogin || (accountToken ? { token: accountToken } : {}))
   });
   
   // Setup event listeners
@@ -127,18 +217,31 @@ export async function setupNetworking(appState: AppState, game: Game): Promise<N
   
   // Create network manager
   const networkManager: NetworkManager = {
-    sendPlayerUpdate,
+    sendPlayerInput,
+    sendWeaponSelect,
     sendLaserShot,
     sendLaserHit,
+    sendFlareDeploy,
     getLatency: () => latency,
     getPlayerCount: () => Object.keys(appState.otherPlayers).length + 1,
+    listRooms,
+    getLeaderboard,
+    createRoom: (options: RoomOptions) => socket?.emit('room:create', options),
+    joinRoom: (roomId: string) => socket?.emit('room:join', roomId),
+    leaveRoom: () => socket?.emit('room:leave'),
+    getRoom: () => currentRoom,
     disconnect: () => socket?.disconnect(),
     reconnect: () => {
       if (socket?.disconnected) {
         console.log('Attempting to reconnect...');
         socket.connect();
       }
-    }
+    },
+    getProfile: () => profile,
+    updateProfile: (update: ProfileUpdate) => socket?.emit('profile:update', update),
+    register: (username: string, password: string) => socket?.emit('account:register', { username, password }),
+    login,
+    logout
   };
   
   return networkManager;
@@ -156,20 +259,210 @@ function setupSocketListeners(appState: AppState, game: Game): void {
   socket.on('connect', () => {
     console.log('Connected to server with ID:', socket?.id);
     
-    // Send initial player data
-    const initialData = {
-      position: appState.playerStats.position,
-      rotation: appState.playerStats.rotation,
-      velocity: appState.playerStats.velocity,
-      health: appState.playerStats.health
-    };
+    // Entity IDs from a previous connection no longer apply
+    wire = createWireContext(wireFormat);
     
-    socket?.emit('player:join', initialData);
+    // Take our car back after a dropped connection, or enter our room;
+    // we join the game once the server confirms it
+    if (resumeToken) {
+      socket?.emit('session:resume', resumeToken);
+    } else {
+      socket?.emit('room:join', requestedRoomId);
+    }
     
     // Start ping interval to measure latency
     startPingInterval();
   });
   
+  // Server moved us into a room
+  socket.on('room:joined', (room) => {
+    console.log(`Joined room ${room.name} (${room.playerCount}/${room.maxPlayers} players)`);
+    
+    // Snapshots and missiles from another room don't apply here
+    currentRoom = room;
+    requestedRoomId = room.id;
+    snapshotHistory = createSnapshotHistory();
+    setIncomingMissiles(appState, {});
+    updateRoomInUrl(room.id);
+    
+    // Flags, zones, race courses and pickups belong to the old room; the new room sends its own
+    if (game.renderer && game.renderer.setFlags) {
+      game.renderer.setFlags([]);
+    }
+    if (game.renderer && game.renderer.setZones) {
+      game.renderer.setZones(null);
+    }
+    if (game.renderer && game.renderer.setRaceCourse) {
+      game.renderer.setRaceCourse(null);
+    }
+    if (game.renderer && game.renderer.setPickups) {
+      game.renderer.setPickups([]);
+    }
+    if (game.resetMatchHud) {
+      game.resetMatchHud();
+    }
+    
+    // Join the game; the server chooses our spawn point
+    socket?.emit('player:join');
+    
+    // Keep our weapon (new players start with the default one)
+    socket?.emit('weapon:select', appState.playerStats.weapon);
+  });
+  
+  // Server took us out of our room
+  socket.on('room:left', () => {
+    currentRoom = null;
+    snapshotHistory = createSnapshotHistory();
+    resumeToken = null;
+  });
+  
+  // Server will hold our car for us if the connection drops
+  socket.on('session:ticket', (ticket) => {
+    resumeToken = ticket.token;
+    playerId = ticket.playerId;
+  });
+  
+  // We got our car back after reconnecting
+  socket.on('session:resumed', (resumed) => {
+    console.log(`Resumed as ${resumed.playerId} in room ${resumed.room.name}`);
+    
+    // Snapshots from the old connection don't apply; the server starts over with a keyframe
+    currentRoom = resumed.room;
+    requestedRoomId = resumed.room.id;
+    snapshotHistory = createSnapshotHistory();
+    setIncomingMissiles(appState, {});
+    
+    if (game.resumePlayer) {
+      game.resumePlayer(resumed);
+    }
+    
+    // Keep our weapon, in case we changed it while the connection was down
+    socket?.emit('weapon:select', appState.playerStats.weapon);
+  });
+  
+  // Our car is gone; join our room again as a new player
+  socket.on('session:expired', () => {
+    resumeToken = null;
+    playerId = null;
+    socket?.emit('room:join', requestedRoomId);
+  });
+  
+  // Our room's match moved to a new phase
+  socket.on('match:phase', (match) => {
+    if (game.showMatchPhase) {
+      game.showMatchPhase(match);
+    }
+  });
+  
+  // A match finished
+  socket.on('match:end', (result) => {
+    if (game.showMatchEnd) {
+      game.showMatchEnd(result, localPlayerId());
+    }
+  });
+  
+  // Where the flags are when we join a Capture the Flag room
+  socket.on('flag:state', (flags) => {
+    if (game.renderer && game.renderer.setFlags) {
+      game.renderer.setFlags(flags, localPlayerId());
+    }
+  });
+  
+  // A flag was taken, dropped, returned or captured
+  socket.on('flag:update', (update) => {
+    if (game.renderer && game.renderer.updateFlag) {
+      game.renderer.updateFlag(update.flag, localPlayerId());
+    }
+    if (game.showFlagUpdate) {
+      game.showFlagUpdate(update, localPlayerId());
+    }
+  });
+  
+  // King of the Hill zones moved, changed hands or scored
+  socket.on('zone:state', (update) => {
+    if (game.renderer && game.renderer.setZones) {
+      game.renderer.setZones(update, localPlayerId());
+    }
+    if (game.showZoneScores) {
+      game.showZoneScores(update, localPlayerId());
+    }
+  });
+  
+  // The rings of an Air Race room
+  socket.on('race:course', (course) => {
+    if (game.renderer && game.renderer.setRaceCourse) {
+      game.renderer.setRaceCourse(course);
+    }
+  });
+  
+  // We flew through a ring, or our lap was abandoned
+  socket.on('race:progress', (progress) => {
+    if (game.renderer && game.renderer.setRaceProgress) {
+      game.renderer.setRaceProgress(progress);
+    }
+    if (game.showRaceProgress) {
+      game.showRaceProgress(progress);
+    }
+  });
+  
+  // Someone in the room finished a lap
+  socket.on('race:lap', (lap) => {
+    if (game.showLapComplete) {
+      game.showLapComplete(lap, localPlayerId());
+    }
+  });
+  
+  // Our new best lap, to race against
+  socket.on('race:ghost', (ghost) => {
+    if (game.renderer && game.renderer.setGhostLap) {
+      game.renderer.setGhostLap(ghost);
+    }
+  });
+  
+  // Where the power-ups are when we join a room
+  socket.on('pickup:state', (pickups) => {
+    if (game.renderer && game.renderer.setPickups) {
+      game.renderer.setPickups(pickups);
+    }
+  });
+  
+  // A power-up was taken or came back
+  socket.on('pickup:update', (update) => {
+    if (game.renderer && game.renderer.updatePickup) {
+      game.renderer.updatePickup(update.pickup);
+    }
+    if (update.playerId && game.showPickupTaken) {
+      game.showPickupTaken(update, localPlayerId());
+    }
+  });
+  
+  // The handshake logged us in
+  socket.on('account:session', (session) => {
+    pendingLogin = null;
+    setAccountToken(session.token);
+    setProfile(session.profile);
+  });
+  
+  // Our profile changed, or we registered
+  socket.on('account:profile', setProfile);
+  
+  // A registration or profile change was refused
+  socket.on('account:error', (error) => {
+    console.warn('Account error:', error.reason);
+    accountErrorListeners.forEach(listener => listener(error.reason));
+  });
+  
+  // Room couldn't be created or joined
+  socket.on('room:error', (error) => {
+    console.warn('Room error:', error.reason, error.roomId || '');
+    
+    // Fall back to the default room rather than sitting outside the game
+    if (!currentRoom && error.roomId && error.roomId !== DEFAULT_ROOM_ID) {
+      requestedRoomId = DEFAULT_ROOM_ID;
+      socket?.emit('room:join', DEFAULT_ROOM_ID);
+    }
+  });
+  
   // Disconnection
   socket.on('disconnect', () => {
     console.log('Disconnected from server');
@@ -182,61 +475,147 @@ function setupSocketListeners(appState: AppState, game: Game): void {
   // Error handling
   socket.on('connect_error', (error) => {
     console.error('Connection error:', error);
+    
+    // A refused login doesn't retry by itself: fall back to the account we had,
+    // or to a new guest if the server no longer knows our token. Without any
+    // account we wait for the player to log in.
+    if (pendingLogin && error.message === 'invalid_credentials') {
+      pendingLogin = null;
+      accountErrorListeners.forEach(listener => listener('invalid_credentials'));
+      socket?.connect();
+    } else if (error.message === 'invalid_token') {
+      setAccountToken(null);
+      socket?.connect();
+    } else if (error.message === 'too_many_guests') {
+      accountErrorListeners.forEach(listener => listener('too_many_guests'));
+    }
   });
   
-  // Game state update from server
-  socket.on('game:state', (gameState: {players: Record<string, Player>}) => {
-    // Update other players
-    if (game.renderer) {
-      game.renderer.updateOtherPlayers(gameState.players);
+  // Authoritative game state from server, as a delta against a snapshot we acknowledged
+  socket.on('game:state', (data) => {
+    const snapshot = isBinaryMessage(data) ? decodeStateSnapshot(wire, data) : data;
+    if (!isStateSnapshot(snapshot)) {
+      console.warn('Malformed game:state packet');
+      return;
+    }
+    
+    updateServerClock(snapshot.timestamp);
+    stateListeners.forEach(listener => listener(snapshot));
+    
+    const players = decodeSnapshot(snapshotHistory, snapshot);
+    if (!players) return; // Baseline is gone - the server will fall back to a keyframe
+    
+    socket?.emit('snapshot:ack', snapshot.sequence);
+    
+    // Reconcile our car and update other players
+    const localId = localPlayerId();
+    if (game.applyServerState && localId) {
+      const gameState: GameStateUpdate = {
+        timestamp: snapshot.timestamp,
+        players
+      };
+      game.applyServerState(gameState, localId);
     }
   });
   
   // Player hit by laser
-  socket.on('player:hit', (data: {health: number, fromDirection: {x: number, y: number, z: number}}) => {
-    // Update player health
+  socket.on('player:hit', (data) => {
+    // Update player health and shield
     appState.playerStats.health = data.health;
+    appState.playerStats.shield = data.shield;
     
     // Show hit effect
     if (game.showHitEffect) {
-      game.showHitEffect(data.fromDirection);
+      game.showHitEffect(data.fromDirection, data.hullDamage === 0);
     }
   });
   
-  // Respawn player
-  socket.on('player:respawn', (data: {position: {x: number, y: number, z: number}}) => {
-    // Update player position and health
-    appState.playerStats.position = data.position;
-    appState.playerStats.health = 100;
-    
-    // Show respawn effect
-    if (game.showRespawnEffect) {
-      game.showRespawnEffect();
+  // The server brought our car back at a spawn point of its choosing
+  socket.on('player:respawn', (data) => {
+    if (game.respawnPlayer) {
+      game.respawnPlayer(data);
     }
   });
   
   // Laser shot from another player
-  socket.on('laser:shot', (data: LaserData & {playerId: string}) => {
-    // Show laser effect from another player
-    if (game.renderer && game.renderer.fireLaser) {
+  socket.on('laser:shot', (message) => {
+    const data = isBinaryMessage(message) ? decodeLaserShot(wire, message) : message;
+    if (!isLaserShot(data)) {
+      console.warn('Malformed laser:shot packet');
+      return;
+    }
+    
+    // Our own shots were drawn when we fired them
+    if (data.playerId === localPlayerId()) return;
+    
+    const weapon = WEAPONS[data.weapon];
+    
+    // Show the burst or laser effect from another player
+    if (weapon.kind === 'burst') {
+      if (game.renderer && game.renderer.createExplosion) {
+        game.renderer.createExplosion(data.position, weapon.radius / 20);
+      }
+    } else if (game.renderer && game.renderer.fireLaser) {
       // Enhanced logging to debug multiplayer laser issues
       console.log(`Received laser from player ${data.playerId}`, data);
       
       // Create the laser with the correct position and rotation
       game.renderer.fireLaser({
+        id: data.id,
         position: data.position,
         rotation: data.rotation,
+        color: weapon.color,
+        speed: weapon.speed,
+        duration: weapon.lifetime / 1000,
         isRemoteLaser: true // Flag to identify this as another player's laser
       });
     }
   });
   
+  // A missile was launched; everyone draws it homing in
+  socket.on('missile:launched', (missile) => {
+    if (missile.targetId === localPlayerId()) {
+      setIncomingMissiles(appState, { ...incomingMissiles, [missile.id]: true });
+    }
+    
+    if (game.renderer && game.renderer.launchMissile) {
+      game.renderer.launchMissile(missile, localPlayerId());
+    }
+  });
+  
+  // A missile hit something, was decoyed into a flare or burnt out
+  socket.on('missile:destroyed', (data) => {
+    const stillIncoming = { ...incomingMissiles };
+    delete stillIncoming[data.id];
+    setIncomingMissiles(appState, stillIncoming);
+    
+    if (game.renderer && game.renderer.destroyMissile) {
+      game.renderer.destroyMissile(data);
+    }
+  });
+  
+  // Someone dropped a flare; missiles it decoyed no longer threaten them
+  socket.on('flare:deployed', (flare) => {
+    const stillIncoming = { ...incomingMissiles };
+    flare.decoyed.forEach(id => { delete stillIncoming[id]; });
+    setIncomingMissiles(appState, stillIncoming);
+    
+    if (game.renderer && game.renderer.dropFlare) {
+      game.renderer.dropFlare(flare);
+    }
+  });
+  
   // Laser impact/hit notification
-  socket.on('laser:impact', (data: {position: {x: number, y: number, z: number}}) => {
+  socket.on('laser:impact', (data) => {
     console.log('Laser impact received:', data);
     
-    // Create explosion effect at impact position
-    if (game.renderer && game.renderer.createExplosion) {
+    // Damage the shield soaked up flashes the shield bubble
+    if (data.shieldDamage > 0 && game.renderer && game.renderer.showShieldHit) {
+      game.renderer.showShieldHit(data.targetId, data.shieldDamage, localPlayerId());
+    }
+    
+    // Create explosion effect where damage reached the hull
+    if (data.hullDamage > 0 && game.renderer && game.renderer.createExplosion) {
       const { position } = data;
       
       // Make sure position is valid
@@ -250,8 +629,13 @@ function setupSocketListeners(appState: AppState, game: Game): void {
     }
   });
   
+  // Server didn't accept one of our hit claims
+  socket.on('laser:rejected', (data) => {
+    console.log(`Hit on ${data.targetId} rejected: ${data.reason}`);
+  });
+  
   // Player died notification
-  socket.on('player:died', (data: {playerId: string}) => {
+  socket.on('player:died', (data) => {
     // Show death effect for the player who died
     if (game.renderer && game.renderer.createExplosion && appState.otherPlayers[data.playerId]) {
       const pos = appState.otherPlayers[data.playerId].position;
@@ -261,6 +645,14 @@ function setupSocketListeners(appState: AppState, game: Game): void {
         z: pos.z
       }, 2.0); // Even larger explosion for death
     }
+    
+    if (data.playerId === localPlayerId() && game.showDeath) {
+      game.showDeath(data);
+    }
+    
+    if (game.showKill) {
+      game.showKill(data, localPlayerId());
+    }
   });
   
   // Ping response for latency calculation
@@ -270,18 +662,42 @@ function setupSocketListeners(appState: AppState, game: Game): void {
 }
 
 /**
- * Send player position update to server
- * @param {PlayerStats} playerData - The player position data
+ * Send a batch of input frames to the server
+ * @param {PlayerInput[]} inputs - Input frames in sequence order
+ */
+function sendPlayerInput(inputs: PlayerInput[]): void {
+  if (!socket || !socket.connected || inputs.length === 0) return;
+  
+  socket.emit('player:input', wire.format === 'binary' ? encodePlayerInputs(inputs) : inputs);
+}
+
+/**
+ * Tell the server which weapon we selected
+ * @param {WeaponId} weapon - The weapon
  */
-function sendPlayerUpdate(playerData: PlayerStats): void {
+function sendWeaponSelect(weapon: WeaponId): void {
   if (!socket || !socket.connected) return;
   
-  socket.emit('player:update', {
-    position: playerData.position,
-    rotation: playerData.rotation,
-    velocity: playerData.velocity,
-    health: playerData.health
-  });
+  socket.emit('weapon:select', weapon);
+}
+
+/**
+ * Track the missiles homing in on us, for the HUD warning
+ * @param {AppState} appState - The application state
+ * @param {Record<string, boolean>} missiles - IDs of the incoming missiles
+ */
+function setIncomingMissiles(appState: AppState, missiles: Record<string, boolean>): void {
+  incomingMissiles = missiles;
+  appState.playerStats.incomingMissiles = Object.keys(missiles).length;
+}
+
+/**
+ * Drop a flare against incoming missiles
+ */
+function sendFlareDeploy(): void {
+  if (!socket || !socket.connected) return;
+  
+  socket.emit('flare:deploy');
 }
 
 /**
@@ -305,6 +721,126 @@ function sendLaserHit(hitData: HitData): void {
   socket.emit('laser:hit', hitData);
 }
 
+/**
+ * Ask the server for the open rooms
+ * @returns {Promise<RoomSummary[]>} - The lobby's rooms
+ */
+function listRooms(): Promise<RoomSummary[]> {
+  return new Promise(resolve => {
+    if (!socket || !socket.connected) {
+      resolve([]);
+      return;
+    }
+    
+    socket.once('room:list', resolve);
+    socket.emit('room:list');
+  });
+}
+
+/**
+ * Fetch a leaderboard from the server
+ * @param {LeaderboardPeriod} period - Today, the last week or all time
+ * @param {LeaderboardStat} stat - The stat players are ranked by
+ * @returns {Promise<Leaderboard | null>} - The leaderboard, or null if the server couldn't be reached
+ */
+async function getLeaderboard(period: LeaderboardPeriod, stat: LeaderboardStat): Promise<Leaderboard | null> {
+  try {
+    const response = await fetch(`${serverUrl}/api/leaderboards/${period}?stat=${stat}`);
+    return response.ok ? await response.json() : null;
+  } catch (error) {
+    console.warn('Failed to load leaderboard:', error);
+    return null;
+  }
+}
+
+/**
+ * Keep the page URL pointing at our room so it can be reloaded or shared
+ * @param {string} roomId - The room we're in
+ */
+function updateRoomInUrl(roomId: string): void {
+  const params = new URLSearchParams(window.location.search);
+  if (roomId === DEFAULT_ROOM_ID) {
+    params.delete('room');
+  } else {
+    params.set('room', roomId);
+  }
+  
+  const query = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+}
+
+/**
+ * Log in as a registered player. The socket reconnects so the handshake
+ * checks the password; we stay on the current account if it is wrong.
+ * @param {string} username - The account's username
+ * @param {string} password - The account's password
+ */
+function login(username: string, password: string): void {
+  pendingLogin = { username, password };
+  forgetCar();
+  socket?.disconnect().connect();
+}
+
+/**
+ * Forget our session and carry on as a new guest
+ */
+function logout(): void {
+  setAccountToken(null);
+  forgetCar();
+  socket?.disconnect().connect();
+}
+
+/**
+ * Stop trying to take our car back, e.g. when we switch accounts
+ */
+function forgetCar(): void {
+  resumeToken = null;
+  playerId = null;
+}
+
+/**
+ * Get our car's ID
+ * @returns {string | undefined} - The ID, or undefined while not connected
+ */
+function localPlayerId(): string | undefined {
+  return playerId || socket?.id;
+}
+
+/**
+ * Remember the session token we log in with
+ * @param {string | null} token - The token, or null to forget it
+ */
+function setAccountToken(token: string | null): void {
+  accountToken = token;
+  if (token) {
+    window.localStorage.setItem(ACCOUNT_TOKEN_KEY, token);
+  } else {
+    window.localStorage.removeItem(ACCOUNT_TOKEN_KEY);
+  }
+}
+
+/**
+ * Keep our latest profile and pass it on
+ * @param {Profile} update - The profile from the server
+ */
+function setProfile(update: Profile): void {
+  profile = update;
+  profileListeners.forEach(listener => listener(update));
+}
+
+/**
+ * Update the server clock estimate from a snapshot timestamp
+ * @param {number} serverTimestamp - The snapshot's server time (ms)
+ */
+function updateServerClock(serverTimestamp: number): void {
+  const sample = serverTimestamp - Date.now();
+  
+  // Smooth out arrival jitter
+  serverTimeOffset = serverTimeOffset === null
+    ? sample
+    : serverTimeOffset + (sample - serverTimeOffset) * 0.1;
+}
+
 /**
  * Start ping interval for latency measurement
  */
@@ -321,10 +857,42 @@ function startPingInterval(): void {
   }, 2000);
 }
 
+/**
+ * Listen for decoded state snapshots
+ * @param {Function} listener - Called with every snapshot from the server
+ */
+export function onGameState(listener: (snapshot: StateSnapshot) => void): void {
+  stateListeners.push(listener);
+}
+
+/**
+ * Listen for changes to our profile
+ * @param {Function} listener - Called with the profile after logging in and after every change
+ */
+export function onProfile(listener: (profile: Profile) => void): void {
+  profileListeners.push(listener);
+}
+
+/**
+ * Listen for refused logins, registrations and profile changes
+ * @param {Function} listener - Called with the reason
+ */
+export function onAccountError(listener: (reason: AccountErrorReason) => void): void {
+  accountErrorListeners.push(listener);
+}
+
 /**
  * Get WebSocket instance
  * @returns {Socket|null} - The socket.io instance
  */
-export function getSocket(): Socket | null {
+export function getSocket(): Socket<ServerToClientEvents, ClientToServerEvents> | null {
   return socket;
-} 
\ No newline at end of file
+}
+
+/**
+ * Get the estimated current server time
+ * @returns {number} - Server time in milliseconds
+ */
+export function getServerTime(): number {
+  return Date.now() + (serverTimeOffset ?? 0);
+}
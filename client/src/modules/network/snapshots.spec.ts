@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { createSnapshotHistory, decodeSnapshot } from './snapshots';
+import { PlayerData, StateSnapshot } from '../../types';
+
+/**
+ * Build a full player
+ * @param {string} id - The player's ID
+ * @param {Partial<PlayerData>} fields - Fields to override
+ * @returns {PlayerData} - The player
+ */
+function makePlayer(id: string, fields: Partial<PlayerData> = {}): PlayerData {
+  return {
+    id,
+    position: { x: 0, y: 10, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    health: 100,
+    score: 0,
+    isAlive: true,
+    lastProcessedInput: 0,
+    ...fields
+  };
+}
+
+/**
+ * Build a snapshot
+ * @param {Partial<StateSnapshot>} fields - Fields to override
+ * @returns {StateSnapshot} - The snapshot
+ */
+function makeSnapshot(fields: Partial<StateSnapshot> = {}): StateSnapshot {
+  return {
+    timestamp: 0,
+    sequence: 1,
+    baseline: 0,
+    keyframe: true,
+    players: {},
+    removedPlayers: [],
+    ...fields
+  };
+}
+
+describe('decodeSnapshot', () => {
+  it('applies deltas on top of their baseline', () => {
+    const history = createSnapshotHistory();
+    decodeSnapshot(history, makeSnapshot({ players: { alpha: makePlayer('alpha'), beta: makePlayer('beta') } }));
+
+    const players = decodeSnapshot(history, makeSnapshot({
+      sequence: 2,
+      baseline: 1,
+      keyframe: false,
+      players: { alpha: { health: 40 } },
+      removedPlayers: ['beta']
+    }));
+
+    expect(Object.keys(players || {})).toEqual(['alpha']);
+    expect(players?.alpha).toEqual(makePlayer('alpha', { health: 40 }));
+  });
+
+  it('removes cleared fields, even from players without other changes', () => {
+    const history = createSnapshotHistory();
+    decodeSnapshot(history, makeSnapshot({
+      players: {
+        alpha: makePlayer('alpha', { team: 'red', powerUps: { cloak: 1 } }),
+        beta: makePlayer('beta', { team: 'blue', color: '#00ff00' })
+      }
+    }));
+
+    const players = decodeSnapshot(history, makeSnapshot({
+      sequence: 2,
+      baseline: 1,
+      keyframe: false,
+      players: { alpha: { powerUps: {} } },
+      clearedFields: { alpha: ['team'], beta: ['team', 'color'], gone: ['team'] }
+    }));
+
+    expect(players?.alpha).toEqual(makePlayer('alpha', { powerUps: {} }));
+    expect(players?.beta).toEqual(makePlayer('beta'));
+    expect(players?.gone).toBeUndefined();
+    expect(history.states[1].beta.team).toBe('blue');
+  });
+
+  it('leaves the baseline untouched', () => {
+    const history = createSnapshotHistory();
+    const first = decodeSnapshot(history, makeSnapshot({ players: { alpha: makePlayer('alpha') } }));
+
+    decodeSnapshot(history, makeSnapshot({ sequence: 2, baseline: 1, keyframe: false, players: { alpha: { score: 5 } } }));
+
+    expect(first?.alpha.score).toBe(0);
+  });
+
+  it('builds on the acknowledged baseline rather than the latest snapshot', () => {
+    const history = createSnapshotHistory();
+    decodeSnapshot(history, makeSnapshot({ players: { alpha: makePlayer('alpha') } }));
+    decodeSnapshot(history, makeSnapshot({ sequence: 2, baseline: 1, keyframe: false, players: { alpha: { score: 5 } } }));
+
+    const players = decodeSnapshot(history, makeSnapshot({ sequence: 3, baseline: 1, keyframe: false, players: { alpha: { health: 50 } } }));
+
+    expect(players?.alpha.score).toBe(0);
+    expect(players?.alpha.health).toBe(50);
+  });
+
+  it('drops everything not in a keyframe', () => {
+    const history = createSnapshotHistory();
+    decodeSnapshot(history, makeSnapshot({ players: { alpha: makePlayer('alpha') } }));
+
+    const players = decodeSnapshot(history, makeSnapshot({ sequence: 2, players: { beta: makePlayer('beta') } }));
+
+    expect(Object.keys(players || {})).toEqual(['beta']);
+  });
+
+  it('returns null when the baseline is missing', () => {
+    const history = createSnapshotHistory();
+
+    expect(decodeSnapshot(history, makeSnapshot({ sequence: 5, baseline: 4, keyframe: false }))).toBeNull();
+  });
+
+  it('forgets baselines the server no longer uses', () => {
+    const history = createSnapshotHistory();
+    decodeSnapshot(history, makeSnapshot({ players: { alpha: makePlayer('alpha') } }));
+    decodeSnapshot(history, makeSnapshot({ sequence: 100 }));
+
+    expect(decodeSnapshot(history, makeSnapshot({ sequence: 101, baseline: 1, keyframe: false }))).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Snapshot decoding - rebuilds the nearby world from the server's delta snapshots
+ */
+import { PlayerData, StateSnapshot } from '../../types';
+
+export interface SnapshotHistory {
+  states: Record<number, Record<string, PlayerData>>;
+}
+
+// Decoded snapshots kept as baselines for upcoming deltas
+const HISTORY_LENGTH = 64;
+
+/**
+ * Create an empty snapshot history
+ * @returns {SnapshotHistory} - The history
+ */
+export function createSnapshotHistory(): SnapshotHistory {
+  return { states: {} };
+}
+
+/**
+ * Apply a snapshot on top of the baseline it was built against
+ * @param {SnapshotHistory} history - Previously decoded snapshots
+ * @param {StateSnapshot} snapshot - The snapshot from the server
+ * @returns {Record<string, PlayerData> | null} - All players we know about, or null if the baseline is missing
+ */
+export function decodeSnapshot(history: SnapshotHistory, snapshot: StateSnapshot): Record<string, PlayerData> | null {
+  let baseline: Record<string, PlayerData> = {};
+
+  if (!snapshot.keyframe) {
+    const state = history.states[snapshot.baseline];
+    if (!state) return null;
+    baseline = state;
+  }
+
+  // Unchanged players are shared with the baseline, so entries are never edited in place
+  const players: Record<string, PlayerData> = {};
+  Object.keys(baseline).forEach(playerId => {
+    players[playerId] = baseline[playerId];
+  });
+
+  (snapshot.removedPlayers || []).forEach(playerId => {
+    delete players[playerId];
+  });
+
+  Object.keys(snapshot.players || {}).forEach(playerId => {
+    players[playerId] = { ...players[playerId], ...snapshot.players[playerId] } as PlayerData;
+  });
+
+  // Optional fields the server no longer sets, like a team after a mode change
+  const clearedFields = snapshot.clearedFields || {};
+  Object.keys(clearedFields).forEach(playerId => {
+    if (!players[playerId]) return;
+
+    const player = { ...players[playerId] };
+    clearedFields[playerId].forEach(field => {
+      delete player[field];
+    });
+    players[playerId] = player;
+  });
+
+  history.states[snapshot.sequence] = players;
+
+  // Forget baselines the server will no longer use
+  Object.keys(history.states).forEach(sequence => {
+    if (Number(sequence) <= snapshot.sequence - HISTORY_LENGTH) {
+      delete history.states[Number(sequence)];
+    }
+  });
+
+  return players;
+}
@@ -1,19 +1,30 @@
 import * as BABYLON from '@babylonjs/core';
 import { Color3, Vector3, MeshBuilder, StandardMaterial } from '@babylonjs/core';
+import { TeamId } from '../../types';
+
+// Body paint for cars without a team
+export const DEFAULT_BODY_COLOR = '#CC1A33';
+
+// Body paint per team
+export const TEAM_COLORS: Record<TeamId, string> = {
+  red: '#FF2A4A',
+  blue: '#2A7FFF'
+};
 
 /**
  * Create a flying car model using Babylon.js
  * @param {BABYLON.Scene} scene - The Babylon.js scene
  * @param {string} id - Unique identifier for the car
+ * @param {string} [color] - Body color as a hex string, e.g. a team color
  * @returns {Promise<BABYLON.Mesh>} - The car mesh
  */
-export async function createCarModel(scene: BABYLON.Scene, id: string): Promise<BABYLON.Mesh> {
+export async function createCarModel(scene: BABYLON.Scene, id: string, color: string = DEFAULT_BODY_COLOR): Promise<BABYLON.Mesh> {
   // Create a root mesh for the car
   const carRoot = new BABYLON.Mesh(`car-${id}`, scene);
   
   // Create body material
   const bodyMaterial = new StandardMaterial("carBodyMaterial", scene);
-  bodyMaterial.diffuseColor = new Color3(0.8, 0.1, 0.2);
+  bodyMaterial.diffuseColor = Color3.FromHexString(color);
   bodyMaterial.specularColor = new Color3(0.5, 0.5, 0.5);
   bodyMaterial.specularPower = 32;
   
@@ -230,4 +241,30 @@ export async function createCarModel(scene: BABYLON.Scene, id: string): Promise<
   carRoot.isPickable = true;
   
   return carRoot;
-} 
\ No newline at end of file
+} 
+/**
+ * Repaint a car's body
+ * @param {BABYLON.AbstractMesh} car - The car mesh from createCarModel
+ * @param {string} [color] - Body color as a hex string, or the default paint
+ */
+export function setCarColor(car: BABYLON.AbstractMesh, color: string = DEFAULT_BODY_COLOR): void {
+  const body = car.getChildMeshes(true).find(mesh => mesh.name === 'carBody');
+  
+  // Body and cabin share the material
+  if (body && body.material instanceof StandardMaterial) {
+    body.material.diffuseColor = Color3.FromHexString(color);
+  }
+}
+
+/**
+ * Fade a car in or out, e.g. while it is cloaked
+ * @param {BABYLON.AbstractMesh} car - The car mesh from createCarModel
+ * @param {number} visibility - 1 for a normal car, less to fade it
+ */
+export function setCarVisibility(car: BABYLON.AbstractMesh, visibility: number): void {
+  if (car.visibility === visibility) return;
+  
+  [car, ...car.getChildMeshes()].forEach(part => {
+    part.visibility = visibility;
+  });
+}
@@ -1,11 +1,17 @@
 import * as BABYLON from '@babylonjs/core';
 import { Color3, Vector3, MeshBuilder, StandardMaterial, Texture } from '@babylonjs/core';
+import {
+  generateCityLayout,
+  layoutsMatch,
+  DEFAULT_CITY_SEED,
+  CITY_GRID_SIZE,
+  CITY_CELL_SIZE,
+  ROAD_INTERVAL
+} from '../../../../shared/world/city';
+import { Building } from '../../types';
 
-// Buildings data
-const DEFAULT_BUILDINGS_COUNT = 500;
-const CITY_SIZE = 2000;
-const MAX_BUILDING_HEIGHT = 300;
-const MIN_BUILDING_HEIGHT = 50;
+// City data
+const CITY_SIZE = CITY_GRID_SIZE * CITY_CELL_SIZE * 2;
 
 // Building materials
 let buildingMaterials: StandardMaterial[] = [];
@@ -14,6 +20,9 @@ let windowMaterials: StandardMaterial[] = [];
 // Store city meshes
 let cityMeshes: BABYLON.AbstractMesh[] = [];
 
+// Layout the buildings were last built from
+let currentLayout: Building[] = [];
+
 // Export building collisions for the collision system
 export const buildingCollisions: {
   position: { x: number; y: number; z: number };
@@ -27,21 +36,18 @@ export function getBuildingCollisions() {
 }
 
 /**
- * Generate the cyberpunk cityscape
+ * Generate the cyberpunk cityscape from the default city seed. The server's
+ * layout replaces it through setCityLayout once we join.
  * @param {BABYLON.Scene} scene - The Babylon.js scene
  * @param {boolean} isMobile - Whether the device is mobile
- * @param {number} [buildingCount] - Optional building count, defaults based on mobile status
+ * @param {string} [performanceLevel] - Performance level (low, medium, high)
  * @returns {Promise<BABYLON.AbstractMesh[]>} - Array of generated meshes
  */
 export async function generateCityscape(
   scene: BABYLON.Scene, 
   isMobile: boolean,
-  buildingCount?: number
+  performanceLevel: string = 'medium'
 ): Promise<BABYLON.AbstractMesh[]> {
-  console.log("Generating cityscape, clearing buildingCollisions");
-  // Clear any existing building collisions
-  buildingCollisions.length = 0;
-  
   // Create ground
   await createGround(scene);
   
@@ -51,13 +57,12 @@ export async function generateCityscape(
   }
   
   // Generate buildings
-  const count = buildingCount || (isMobile ? DEFAULT_BUILDINGS_COUNT / 2 : DEFAULT_BUILDINGS_COUNT);
-  await generateBuildings(scene, count);
+  await generateBuildings(scene, generateCityLayout(DEFAULT_CITY_SEED));
   
   console.log("After generating buildings, collision count:", buildingCollisions.length);
   
-  // Add some neon signs and additional details (skip for very low building counts)
-  if (!isMobile && count > 100) {
+  // Add some neon signs and additional details (skip on low performance)
+  if (!isMobile && performanceLevel !== 'low') {
     await addCityDetails(scene);
   }
   
@@ -145,24 +150,41 @@ function createBuildingMaterials(scene: BABYLON.Scene): void {
   }
 }
 
+/**
+ * Rebuild the buildings from the server's city layout if it differs from ours
+ * @param {BABYLON.Scene} scene - The Babylon.js scene
+ * @param {Building[]} layout - The city layout from the server
+ */
+export async function setCityLayout(scene: BABYLON.Scene, layout: Building[]): Promise<void> {
+  if (layoutsMatch(currentLayout, layout)) return;
+  
+  console.log("Server city layout differs, rebuilding buildings");
+  await generateBuildings(scene, layout);
+}
+
 /**
  * Generate buildings for the cityscape
  * @param {BABYLON.Scene} scene - The Babylon.js scene
- * @param {number} count - Number of buildings to generate
+ * @param {Building[]} layout - The buildings to create
  */
-async function generateBuildings(scene: BABYLON.Scene, count: number): Promise<void> {
-  // Clear existing buildings
+async function generateBuildings(scene: BABYLON.Scene, layout: Building[]): Promise<void> {
+  // Clear existing buildings and their collisions
+  cityMeshes.forEach(mesh => {
+    if (mesh.name.startsWith('building')) mesh.dispose();
+  });
   cityMeshes = cityMeshes.filter(mesh => !mesh.name.startsWith('building'));
+  buildingCollisions.length = 0;
+  currentLayout = layout;
   
   // Use a more efficient approach with batches to avoid freezing
   const batchSize = 50; // Process this many buildings at once
   
-  for (let batchStart = 0; batchStart < count; batchStart += batchSize) {
-    const batchEnd = Math.min(batchStart + batchSize, count);
+  for (let batchStart = 0; batchStart < layout.length; batchStart += batchSize) {
+    const batchEnd = Math.min(batchStart + batchSize, layout.length);
     
     // Create buildings in this batch
     for (let i = batchStart; i < batchEnd; i++) {
-      createSingleBuilding(scene, i);
+      createSingleBuilding(scene, layout[i], i);
     }
     
     // Give the browser a chance to update the UI
@@ -173,22 +195,13 @@ async function generateBuildings(scene: BABYLON.Scene, count: number): Promise<v
 /**
  * Create a single building
  * @param {BABYLON.Scene} scene - The Babylon.js scene
+ * @param {Building} data - The building from the city layout
  * @param {number} index - Building index
  */
-function createSingleBuilding(scene: BABYLON.Scene, index: number): void {
-  // Calculate position
-  const x = (Math.random() - 0.5) * CITY_SIZE;
-  const z = (Math.random() - 0.5) * CITY_SIZE;
-  
-  // Skip buildings too close to center (player start zone)
-  if (Math.abs(x) < 100 && Math.abs(z) < 100) {
-    return;
-  }
-  
-  // Random building dimensions
-  const width = 20 + Math.random() * 40;
-  const depth = 20 + Math.random() * 40;
-  const height = MIN_BUILDING_HEIGHT + Math.random() * (MAX_BUILDING_HEIGHT - MIN_BUILDING_HEIGHT);
+function createSingleBuilding(scene: BABYLON.Scene, data: Building, index: number): void {
+  const width = data.size.x;
+  const depth = data.size.z;
+  const height = data.size.y;
   
   // Create building mesh
   const building = MeshBuilder.CreateBox(`building_${index}`, {
@@ -197,13 +210,11 @@ function createSingleBuilding(scene: BABYLON.Scene, index: number): void {
     height
   }, scene);
   
-  // Position building (y is half height because box origin is center)
-  building.position.x = x;
-  building.position.y = height / 2;
-  building.position.z = z;
-  
-  // Random slight rotation to make city less perfect
-  building.rotation.y = Math.random() * Math.PI * 0.1;
+  // Position building (y is half height because box origin is center).
+  // Buildings stay axis-aligned to match the box collisions on both sides.
+  building.position.x = data.position.x;
+  building.position.y = data.position.y;
+  building.position.z = data.position.z;
   
   // Apply random material
   const materialIndex = Math.floor(Math.random() * buildingMaterials.length);
@@ -373,12 +384,13 @@ async function createRoads(scene: BABYLON.Scene): Promise<void> {
   roadMaterial.emissiveTexture = new Texture('/assets/textures/road.png', scene);
   roadMaterial.emissiveColor = new Color3(0.2, 0.2, 0.2);
   
-  // Grid parameters
-  const gridSize = 200;
+  // Grid parameters - roads follow the road cells of the city layout
+  const gridSize = CITY_CELL_SIZE * ROAD_INTERVAL;
   const roadWidth = 20;
+  const roadLimit = Math.floor(CITY_SIZE / 2 / gridSize) * gridSize;
   
   // Create roads along x axis
-  for (let i = -CITY_SIZE/2; i <= CITY_SIZE/2; i += gridSize) {
+  for (let i = -roadLimit; i <= roadLimit; i += gridSize) {
     const road = MeshBuilder.CreatePlane(`roadX-${i}`, {
       width: CITY_SIZE,
       height: roadWidth
@@ -391,7 +403,7 @@ async function createRoads(scene: BABYLON.Scene): Promise<void> {
   }
   
   // Create roads along z axis
-  for (let i = -CITY_SIZE/2; i <= CITY_SIZE/2; i += gridSize) {
+  for (let i = -roadLimit; i <= roadLimit; i += gridSize) {
     const road = MeshBuilder.CreatePlane(`roadZ-${i}`, {
       width: roadWidth,
       height: CITY_SIZE
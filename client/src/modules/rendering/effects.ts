@@ -221,4 +221,51 @@ export function createTrail(scene: BABYLON.Scene, mesh: BABYLON.Mesh, options: {
   trailSystem.start();
   
   return trailSystem;
-} 
\ No newline at end of file
+} 
+/**
+ * Flash a shield bubble around a car that took a hit on its shield
+ * @param {BABYLON.Scene} scene - The Babylon.js scene
+ * @param {BABYLON.AbstractMesh} carMesh - The car that was hit
+ * @param {Object} options - Flash options
+ * @returns {BABYLON.Mesh} - The shield bubble
+ */
+export function createShieldFlash(scene: BABYLON.Scene, carMesh: BABYLON.AbstractMesh, options: {
+  color?: string,
+  strength?: number
+} = {}): BABYLON.Mesh {
+  // Default options
+  const color = options.color || '#00ccff';
+  const strength = Math.min(options.strength || 1, 1);
+  
+  // Create a bubble that follows the car
+  const bubble = MeshBuilder.CreateSphere("shieldFlash", { diameter: 12, segments: 16 }, scene);
+  bubble.parent = carMesh;
+  bubble.isPickable = false;
+  
+  const bubbleMaterial = new StandardMaterial("shieldFlashMaterial", scene);
+  bubbleMaterial.emissiveColor = Color3.FromHexString(color);
+  bubbleMaterial.disableLighting = true;
+  bubbleMaterial.backFaceCulling = false;
+  bubble.material = bubbleMaterial;
+  
+  // Fade out; harder hits flash brighter
+  const fadeAnimation = new BABYLON.Animation(
+    "shieldFlashAnimation", 
+    "visibility", 
+    30, 
+    BABYLON.Animation.ANIMATIONTYPE_FLOAT, 
+    BABYLON.Animation.ANIMATIONLOOPMODE_CONSTANT
+  );
+  
+  const fadeKeyFrames = [];
+  fadeKeyFrames.push({ frame: 0, value: 0.2 + 0.4 * strength });
+  fadeKeyFrames.push({ frame: 12, value: 0 });
+  
+  fadeAnimation.setKeys(fadeKeyFrames);
+  bubble.animations.push(fadeAnimation);
+  scene.beginAnimation(bubble, 0, 12, false, 1, () => {
+    bubble.dispose(false, true);
+  });
+  
+  return bubble;
+}
@@ -0,0 +1,65 @@
+import { Color3, MeshBuilder, Scene, StandardMaterial, TransformNode } from '@babylonjs/core';
+import { TEAM_COLORS } from './car';
+import { TeamId } from '../../types';
+
+// Flag dimensions
+const POLE_HEIGHT = 12;
+const BANNER_WIDTH = 6;
+const BANNER_HEIGHT = 4;
+const BASE_RADIUS = 15; // Matches the server's touch radius
+
+/**
+ * Create a team flag: a pole with a glowing banner
+ * @param {Scene} scene - The Babylon scene
+ * @param {TeamId} team - The flag's team
+ * @returns {TransformNode} - The flag, with its origin at the foot of the pole
+ */
+export function createFlagModel(scene: Scene, team: TeamId): TransformNode {
+  const flag = new TransformNode(`flag_${team}`, scene);
+  const color = Color3.FromHexString(TEAM_COLORS[team]);
+
+  const pole = MeshBuilder.CreateCylinder(`flagPole_${team}`, {
+    height: POLE_HEIGHT,
+    diameter: 0.4
+  }, scene);
+  const poleMaterial = new StandardMaterial(`flagPoleMaterial_${team}`, scene);
+  poleMaterial.diffuseColor = new Color3(0.7, 0.7, 0.7);
+  pole.material = poleMaterial;
+  pole.position.y = POLE_HEIGHT / 2;
+  pole.parent = flag;
+
+  const banner = MeshBuilder.CreatePlane(`flagBanner_${team}`, {
+    width: BANNER_WIDTH,
+    height: BANNER_HEIGHT,
+    sideOrientation: 2 // Visible from both sides
+  }, scene);
+  const bannerMaterial = new StandardMaterial(`flagBannerMaterial_${team}`, scene);
+  bannerMaterial.diffuseColor = color;
+  bannerMaterial.emissiveColor = color;
+  banner.material = bannerMaterial;
+  banner.position.set(BANNER_WIDTH / 2, POLE_HEIGHT - BANNER_HEIGHT / 2, 0);
+  banner.parent = flag;
+
+  return flag;
+}
+
+/**
+ * Create the glowing ring that marks a team's rooftop base
+ * @param {Scene} scene - The Babylon scene
+ * @param {TeamId} team - The base's team
+ * @returns {TransformNode} - The marker, centered on the roof
+ */
+export function createBaseMarker(scene: Scene, team: TeamId): TransformNode {
+  const ring = MeshBuilder.CreateTorus(`flagBase_${team}`, {
+    diameter: BASE_RADIUS * 2,
+    thickness: 0.6,
+    tessellation: 48
+  }, scene);
+
+  const material = new StandardMaterial(`flagBaseMaterial_${team}`, scene);
+  material.emissiveColor = Color3.FromHexString(TEAM_COLORS[team]);
+  material.disableLighting = true;
+  ring.material = material;
+
+  return ring;
+}
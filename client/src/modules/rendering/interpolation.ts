@@ -0,0 +1,174 @@
+/**
+ * Snapshot interpolation - smooths remote players between server updates
+ */
+import { Vector3 } from '../../types';
+
+export interface Snapshot {
+  time: number; // Server timestamp (ms)
+  position: Vector3;
+  rotation: Vector3;
+  velocity?: Vector3;
+}
+
+export interface SnapshotBuffer {
+  snapshots: Snapshot[];
+}
+
+export interface SampledTransform {
+  position: Vector3;
+  rotation: Vector3;
+}
+
+// How far in the past remote players are rendered (ms)
+export const INTERPOLATION_DELAY = 100;
+
+// How long we keep moving a player along its last velocity when updates stop (ms)
+const MAX_EXTRAPOLATION = 250;
+
+// How much history is kept per player (ms)
+const BUFFER_DURATION = 1000;
+
+/**
+ * Create an empty snapshot buffer
+ * @returns {SnapshotBuffer} - The buffer
+ */
+export function createSnapshotBuffer(): SnapshotBuffer {
+  return { snapshots: [] };
+}
+
+/**
+ * Add a snapshot to a buffer, keeping it sorted and trimmed
+ * @param {SnapshotBuffer} buffer - The buffer
+ * @param {Snapshot} snapshot - The snapshot to add
+ */
+export function addSnapshot(buffer: SnapshotBuffer, snapshot: Snapshot): void {
+  const { snapshots } = buffer;
+
+  // Ignore duplicates and packets that arrive out of order
+  if (snapshots.length > 0 && snapshot.time <= snapshots[snapshots.length - 1].time) {
+    return;
+  }
+
+  snapshots.push({
+    time: snapshot.time,
+    position: { ...snapshot.position },
+    rotation: { ...snapshot.rotation },
+    velocity: snapshot.velocity ? { ...snapshot.velocity } : undefined
+  });
+
+  // Drop history we'll never render again (always keep two for interpolation)
+  const oldestUseful = snapshot.time - BUFFER_DURATION;
+  while (snapshots.length > 2 && snapshots[0].time < oldestUseful) {
+    snapshots.shift();
+  }
+}
+
+/**
+ * Sample a buffer at a point in server time
+ * @param {SnapshotBuffer} buffer - The buffer
+ * @param {number} renderTime - Server time to sample at (ms)
+ * @returns {SampledTransform | null} - The interpolated transform or null if the buffer is empty
+ */
+export function sampleSnapshot(buffer: SnapshotBuffer, renderTime: number): SampledTransform | null {
+  const { snapshots } = buffer;
+  if (snapshots.length === 0) return null;
+
+  const oldest = snapshots[0];
+  const newest = snapshots[snapshots.length - 1];
+
+  // Not enough history yet - hold at the oldest snapshot
+  if (renderTime <= oldest.time) {
+    return { position: { ...oldest.position }, rotation: { ...oldest.rotation } };
+  }
+
+  // Past the newest snapshot - extrapolate for a short while, then hold
+  if (renderTime >= newest.time) {
+    return extrapolate(snapshots, renderTime);
+  }
+
+  // Find the two snapshots around the render time
+  for (let i = snapshots.length - 1; i > 0; i--) {
+    const from = snapshots[i - 1];
+    const to = snapshots[i];
+
+    if (from.time <= renderTime && renderTime <= to.time) {
+      const t = (renderTime - from.time) / (to.time - from.time);
+
+      return {
+        position: lerpVector(from.position, to.position, t),
+        rotation: {
+          x: lerpAngle(from.rotation.x, to.rotation.x, t),
+          y: lerpAngle(from.rotation.y, to.rotation.y, t),
+          z: lerpAngle(from.rotation.z, to.rotation.z, t)
+        }
+      };
+    }
+  }
+
+  return { position: { ...newest.position }, rotation: { ...newest.rotation } };
+}
+
+/**
+ * Extrapolate past the newest snapshot using the last known velocity
+ * @param {Snapshot[]} snapshots - Snapshots in time order
+ * @param {number} renderTime - Server time to sample at (ms)
+ * @returns {SampledTransform} - The extrapolated transform
+ */
+function extrapolate(snapshots: Snapshot[], renderTime: number): SampledTransform {
+  const newest = snapshots[snapshots.length - 1];
+  const elapsed = Math.min(renderTime - newest.time, MAX_EXTRAPOLATION) / 1000;
+
+  // Prefer the server's velocity, otherwise derive it from the last two snapshots
+  let velocity = newest.velocity;
+  if (!velocity && snapshots.length > 1) {
+    const previous = snapshots[snapshots.length - 2];
+    const span = (newest.time - previous.time) / 1000;
+    velocity = {
+      x: (newest.position.x - previous.position.x) / span,
+      y: (newest.position.y - previous.position.y) / span,
+      z: (newest.position.z - previous.position.z) / span
+    };
+  }
+
+  if (!velocity) {
+    return { position: { ...newest.position }, rotation: { ...newest.rotation } };
+  }
+
+  return {
+    position: {
+      x: newest.position.x + velocity.x * elapsed,
+      y: newest.position.y + velocity.y * elapsed,
+      z: newest.position.z + velocity.z * elapsed
+    },
+    rotation: { ...newest.rotation }
+  };
+}
+
+/**
+ * Linearly interpolate between two vectors
+ * @param {Vector3} a - Start
+ * @param {Vector3} b - End
+ * @param {number} t - Blend factor (0..1)
+ * @returns {Vector3} - The blended vector
+ */
+function lerpVector(a: Vector3, b: Vector3, t: number): Vector3 {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t
+  };
+}
+
+/**
+ * Interpolate between two angles along the shortest arc
+ * @param {number} a - Start angle (radians)
+ * @param {number} b - End angle (radians)
+ * @param {number} t - Blend factor (0..1)
+ * @returns {number} - The blended angle
+ */
+function lerpAngle(a: number, b: number, t: number): number {
+  let delta = (b - a) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return a + delta * t;
+}
@@ -0,0 +1,81 @@
+import { Color3, Mesh, MeshBuilder, ParticleSystem, Scene, StandardMaterial } from '@babylonjs/core';
+import { createTrail } from './effects';
+
+// Appearance
+const SMOKE_COLOR = '#AAAAAA';
+const FLARE_COLOR = '#FFDD66';
+const SMOKE_LIFETIME = 1.5; // Seconds a puff of smoke hangs in the air
+
+// A mesh with a particle trail behind it
+export interface TrailedMesh {
+  mesh: Mesh;
+  trail: ParticleSystem;
+}
+
+/**
+ * Create a missile body trailing smoke
+ * @param {Scene} scene - The Babylon scene
+ * @param {string} id - The missile's ID
+ * @param {string} color - The warhead's glow
+ * @returns {TrailedMesh} - The missile and its smoke trail
+ */
+export function createMissileModel(scene: Scene, id: string, color: string): TrailedMesh {
+  const mesh = MeshBuilder.CreateCylinder(`missile_${id}`, {
+    height: 3,
+    diameter: 0.6,
+    tessellation: 8
+  }, scene);
+
+  // The cylinder stands along Y; lay it along Z so lookAt points its nose
+  mesh.rotation.x = Math.PI / 2;
+  mesh.bakeCurrentTransformIntoVertices();
+
+  const material = new StandardMaterial(`missileMaterial_${id}`, scene);
+  material.emissiveColor = Color3.FromHexString(color);
+  mesh.material = material;
+  mesh.isPickable = false;
+
+  const trail = createTrail(scene, mesh, {
+    color: SMOKE_COLOR,
+    size: 6,
+    lifetime: SMOKE_LIFETIME
+  });
+
+  return { mesh, trail };
+}
+
+/**
+ * Create a burning flare
+ * @param {Scene} scene - The Babylon scene
+ * @param {string} id - The flare's ID
+ * @returns {TrailedMesh} - The flare and its sparks
+ */
+export function createFlareModel(scene: Scene, id: string): TrailedMesh {
+  const mesh = MeshBuilder.CreateSphere(`flare_${id}`, { diameter: 1.5, segments: 8 }, scene);
+
+  const material = new StandardMaterial(`flareMaterial_${id}`, scene);
+  material.emissiveColor = Color3.FromHexString(FLARE_COLOR);
+  material.disableLighting = true;
+  mesh.material = material;
+  mesh.isPickable = false;
+
+  const trail = createTrail(scene, mesh, {
+    color: FLARE_COLOR,
+    size: 4,
+    lifetime: 0.8
+  });
+
+  return { mesh, trail };
+}
+
+/**
+ * Remove a mesh straight away but let its trail's particles fade out
+ * @param {TrailedMesh} model - The mesh and its trail
+ */
+export function disposeTrailedMesh(model: TrailedMesh): void {
+  // Disposing a mesh disposes the particle systems it emits, so detach the trail first
+  model.trail.emitter = model.mesh.position.clone();
+  model.trail.stop();
+  model.mesh.dispose();
+  setTimeout(() => model.trail.dispose(), SMOKE_LIFETIME * 1000);
+}
@@ -0,0 +1,52 @@
+import { Color3, Mesh, MeshBuilder, Scene, StandardMaterial } from '@babylonjs/core';
+import { POWER_UPS } from '../../../../shared/combat/powerups';
+import { PickupState } from '../../types';
+
+// Appearance
+const CORE_SIZE = 2;
+const HALO_DIAMETER = 7;
+const HALO_ALPHA = 0.2;
+const SPIN_RATE = 1.5; // Radians per second
+const BOB_HEIGHT = 0.8; // How far the pickup floats up and down
+const BOB_RATE = 2; // Radians per second
+
+/**
+ * Create a glowing pickup: a spinning crystal inside a faint halo, in the power-up's color
+ * @param {Scene} scene - The Babylon scene
+ * @param {PickupState} pickup - The pickup
+ * @returns {Mesh} - The crystal, with the halo as its child
+ */
+export function createPickupModel(scene: Scene, pickup: PickupState): Mesh {
+  const color = Color3.FromHexString(POWER_UPS[pickup.type].color);
+
+  const core = MeshBuilder.CreatePolyhedron(`pickup_${pickup.id}`, { type: 1, size: CORE_SIZE }, scene);
+  const coreMaterial = new StandardMaterial(`pickupMaterial_${pickup.id}`, scene);
+  coreMaterial.emissiveColor = color;
+  coreMaterial.disableLighting = true;
+  core.material = coreMaterial;
+  core.isPickable = false;
+
+  const halo = MeshBuilder.CreateSphere(`pickupHalo_${pickup.id}`, { diameter: HALO_DIAMETER, segments: 12 }, scene);
+  const haloMaterial = new StandardMaterial(`pickupHaloMaterial_${pickup.id}`, scene);
+  haloMaterial.emissiveColor = color;
+  haloMaterial.disableLighting = true;
+  haloMaterial.alpha = HALO_ALPHA;
+  halo.material = haloMaterial;
+  halo.isPickable = false;
+  halo.parent = core;
+
+  core.position.set(pickup.position.x, pickup.position.y, pickup.position.z);
+  core.setEnabled(pickup.available);
+  return core;
+}
+
+/**
+ * Spin a pickup and bob it over its spawn point
+ * @param {Mesh} core - The pickup's crystal
+ * @param {PickupState} pickup - The pickup
+ * @param {number} time - Seconds since some fixed point, shared by all pickups
+ */
+export function animatePickupModel(core: Mesh, pickup: PickupState, time: number): void {
+  core.rotation.y = time * SPIN_RATE;
+  core.position.y = pickup.position.y + Math.sin(time * BOB_RATE) * BOB_HEIGHT;
+}
@@ -0,0 +1,75 @@
+import { AbstractMesh, Color3, Mesh, MeshBuilder, Scene, StandardMaterial, Vector3 } from '@babylonjs/core';
+import { createCarModel } from './car';
+import { Checkpoint } from '../../types';
+
+// Ring colors
+const RING_COLOR = '#FF00FF';
+const NEXT_RING_COLOR = '#00FF88';
+const START_RING_COLOR = '#FFFFFF';
+
+// Ghost appearance
+const GHOST_COLOR = '#00FFFF';
+const GHOST_VISIBILITY = 0.35;
+
+/**
+ * Create a checkpoint ring facing along the racing line
+ * @param {Scene} scene - The Babylon scene
+ * @param {Checkpoint} checkpoint - The ring's place on the course
+ * @param {number} index - The ring's order on the course (0 is the start/finish line)
+ * @returns {Mesh} - The ring
+ */
+export function createCheckpointRing(scene: Scene, checkpoint: Checkpoint, index: number): Mesh {
+  const ring = MeshBuilder.CreateTorus(`checkpoint_${index}`, {
+    diameter: checkpoint.radius * 2,
+    thickness: 1.5,
+    tessellation: 48
+  }, scene);
+
+  const material = new StandardMaterial(`checkpointMaterial_${index}`, scene);
+  material.disableLighting = true;
+  ring.material = material;
+
+  ring.position = new Vector3(checkpoint.position.x, checkpoint.position.y, checkpoint.position.z);
+
+  // A torus lies flat in the XZ plane; stand it up to face the racing line
+  const forward = new Vector3(checkpoint.forward.x, checkpoint.forward.y, checkpoint.forward.z);
+  ring.lookAt(ring.position.add(forward));
+  ring.addRotation(Math.PI / 2, 0, 0);
+  ring.isPickable = false;
+
+  setRingHighlight(ring, index, false);
+  return ring;
+}
+
+/**
+ * Color a ring by whether it is the one to fly through next
+ * @param {Mesh} ring - The ring
+ * @param {number} index - The ring's order on the course
+ * @param {boolean} isNext - Whether it is the racer's next ring
+ */
+export function setRingHighlight(ring: Mesh, index: number, isNext: boolean): void {
+  if (!(ring.material instanceof StandardMaterial)) return;
+
+  let color = index === 0 ? START_RING_COLOR : RING_COLOR;
+  if (isNext) color = NEXT_RING_COLOR;
+
+  ring.material.emissiveColor = Color3.FromHexString(color);
+  ring.material.alpha = isNext ? 1 : 0.5;
+}
+
+/**
+ * Create a see-through car to replay a best lap with
+ * @param {Scene} scene - The Babylon scene
+ * @returns {Promise<Mesh>} - The ghost car
+ */
+export async function createGhostCar(scene: Scene): Promise<Mesh> {
+  const ghost = await createCarModel(scene, 'ghost', GHOST_COLOR);
+
+  const parts: AbstractMesh[] = [ghost, ...ghost.getChildMeshes()];
+  parts.forEach(part => {
+    part.visibility = GHOST_VISIBILITY;
+    part.isPickable = false;
+  });
+
+  return ghost;
+}
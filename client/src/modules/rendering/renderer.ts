@@ -1,9 +1,78 @@
 import * as BABYLON from '@babylonjs/core';
 import { AdvancedDynamicTexture, TextBlock } from '@babylonjs/gui';
-import { generateCityscape } from './cityscape';
-import { createCarModel } from './car';
-import { createLaser } from './effects';
-import { AppState, RendererInstance, PlayerData, Vector3 } from '../../types';
+import { generateCityscape, setCityLayout } from './cityscape';
+import { createCarModel, setCarColor, setCarVisibility, TEAM_COLORS } from './car';
+import { createLaser, createShieldFlash } from './effects';
+import { createFlagModel, createBaseMarker } from './flags';
+import { createCheckpointRing, setRingHighlight, createGhostCar } from './raceCourse';
+import { createZoneModel, placeZoneModel, setZoneColor } from './zones';
+import { createMissileModel, createFlareModel, disposeTrailedMesh, TrailedMesh } from './missiles';
+import { createPickupModel, animatePickupModel } from './pickups';
+import { createSnapshotBuffer, addSnapshot, sampleSnapshot, SnapshotBuffer, INTERPOLATION_DELAY } from './interpolation';
+import { getServerTime, onGameState } from '../network/network';
+import { WEAPONS } from '../../../../shared/combat/weapons';
+import { MISSILE_SEEKER_ANGLE, FLARE_LIFETIME, isInCone, steerMissile, getFlarePosition } from '../../../../shared/combat/missiles';
+import { CLOAK_VISIBILITY, hasPowerUp } from '../../../../shared/combat/powerups';
+import {
+  AppState,
+  RendererInstance,
+  PlayerData,
+  TeamId,
+  FlagState,
+  ZoneUpdate,
+  RaceCourse,
+  RaceProgress,
+  GhostLap,
+  MissileLaunch,
+  MissileDestroyed,
+  FlareDeploy,
+  ActivePowerUps,
+  PickupState,
+  Vector3
+} from '../../types';
+
+// A Capture the Flag flag and its rooftop base
+interface FlagModel {
+  state: FlagState;
+  flag: BABYLON.TransformNode;
+  base: BABYLON.TransformNode;
+}
+
+const FLAG_CARRY_HEIGHT = 3; // Carried flags ride this far above the car
+
+// A missile as drawn, steered toward what we see of its target the way the server steers it
+interface MissileModel extends TrailedMesh {
+  position: Vector3;
+  direction: Vector3;
+  targetId: string | null;
+  decoyId: string | null;
+  launchedAt: number;
+}
+
+// A flare as drawn
+interface FlareModel extends TrailedMesh {
+  dropPosition: Vector3;
+  droppedAt: number;
+}
+
+const MISSILE_WEAPON = WEAPONS.homing_missile;
+
+// A power-up pickup as drawn
+interface PickupModel {
+  state: PickupState;
+  mesh: BABYLON.Mesh;
+}
+
+const LOCAL_CLOAK_VISIBILITY = 0.4; // Our own cloaked car stays visible enough to fly
+const DEATH_CAM_OFFSET = new BABYLON.Vector3(0, 40, -60); // Where the death cam pulls back to from the wreck
+
+// Control zone colors
+const ZONE_COLORS = {
+  neutral: '#00FFFF',
+  contested: '#FFFF00',
+  ours: '#00FF88',
+  theirs: '#FF00FF'
+};
 
 // Renderer state
 let scene: BABYLON.Scene;
@@ -13,6 +82,27 @@ let playerCar: BABYLON.Mesh;
 let cityMeshes: BABYLON.AbstractMesh[] = [];
 let playerMeshes: Record<string, BABYLON.AbstractMesh> = {};
 let playerLabels: Record<string, TextBlock> = {};
+let playerSnapshots: Record<string, SnapshotBuffer> = {};
+let pendingPlayerMeshes: Record<string, boolean> = {};
+let playerTeams: Record<string, TeamId | undefined> = {};
+let playerColors: Record<string, string | undefined> = {}; // Paint from each player's profile
+let playerPowerUps: Record<string, ActivePowerUps | undefined> = {};
+let playerAlive: Record<string, boolean> = {};
+let localTeam: TeamId | undefined;
+let localColor: string | undefined;
+let deathCamTargetId: string | null = null; // Who the death cam watches, if anyone
+let flagModels: Partial<Record<TeamId, FlagModel>> = {};
+let localPlayerId: string | undefined;
+let zoneModels: Record<string, BABYLON.Mesh> = {};
+let raceRings: BABYLON.Mesh[] = [];
+let nextCheckpoint = 0;
+let ghostCar: BABYLON.Mesh | null = null;
+let ghostLap: SnapshotBuffer | null = null;
+let ghostLapTime = 0;
+let lapStartTime: number | null = null;
+let missileModels: Record<string, MissileModel> = {};
+let flareModels: Record<string, FlareModel> = {};
+let pickupModels: Record<string, PickupModel> = {};
 let canvas: HTMLCanvasElement;
 
 // Progress tracking
@@ -80,17 +170,15 @@ export async function initializeRenderer(appState: AppState): Promise<RendererIn
   
   loadingCallback(30, "Setting up environment...");
   
-  // Generate cityscape
-  // Use a reduced number of buildings for better performance
-  let buildingCount = 500;
-  if (performanceLevel === 'low') {
-    buildingCount = 100;
-  } else if (performanceLevel === 'medium' || appState.gameOptions.isMobile) {
-    buildingCount = 250;
-  }
-  
   // Generate cityscape with reduced complexity based on performance level
-  await generateCityscape(scene, appState.gameOptions.isMobile, buildingCount);
+  await generateCityscape(scene, appState.gameOptions.isMobile, performanceLevel);
+  
+  // Use the server's city once we join so collisions agree
+  onGameState(snapshot => {
+    if (snapshot.cityLayout) {
+      setCityLayout(scene, snapshot.cityLayout);
+    }
+  });
   
   loadingCallback(60, "Creating player model...");
   
@@ -134,9 +222,35 @@ export async function initializeRenderer(appState: AppState): Promise<RendererIn
     camera,
     canvas,
     update: (deltaTime: number) => updateRenderer(deltaTime, appState),
+    updatePlayerPosition,
+    fireLaser: (options: {position: Vector3, rotation: Vector3, color?: string, speed?: number, duration?: number}) => fireLaser({
+      startPosition: options.position,
+      direction: getForwardVector(options.rotation),
+      color: options.color,
+      speed: options.speed,
+      duration: options.duration
+    }),
+    createExplosion,
+    findLaserTarget,
+    findLockTarget,
+    launchMissile,
+    destroyMissile,
+    dropFlare,
+    showShieldHit,
     addPlayer: (id: string, data: PlayerData) => addOtherPlayer(id, data),
-    updatePlayer: (id: string, data: PlayerData) => updateOtherPlayer(id, data),
-    removePlayer: (id: string) => removeOtherPlayer(id)
+    updatePlayer: (id: string, data: PlayerData, timestamp?: number) => updateOtherPlayer(id, data, timestamp),
+    removePlayer: (id: string) => removeOtherPlayer(id),
+    setLocalTeam,
+    setLocalColor,
+    setDeathCam,
+    setFlags,
+    updateFlag,
+    setZones,
+    setRaceCourse,
+    setRaceProgress,
+    setGhostLap,
+    setPickups,
+    updatePickup
   };
 }
 
@@ -280,6 +394,11 @@ function setupLights(isMobile: boolean, performanceLevel: string): void {
 function startRenderingLoop(appState: AppState): void {
   // Register a render loop to repeatedly render the scene
   engine.runRenderLoop(() => {
+    updateOtherPlayers();
+    updateFlagPositions();
+    updateGhost();
+    updateMissiles(engine.getDeltaTime() / 1000);
+    updatePickups();
     scene.render();
   });
 }
@@ -301,6 +420,13 @@ function updateRenderer(deltaTime: number, appState: AppState): void {
 function updatePlayerPosition(playerStats: AppState['playerStats']): void {
   if (!playerCar) return;
   
+  // The wreck is gone; watch from a distance until we respawn
+  playerCar.setEnabled(playerStats.isAlive);
+  if (!playerStats.isAlive) {
+    updateDeathCam();
+    return;
+  }
+  
   // Update car position and rotation
   playerCar.position = new BABYLON.Vector3(
     playerStats.position.x,
@@ -314,6 +440,10 @@ function updatePlayerPosition(playerStats: AppState['playerStats']): void {
     playerStats.rotation.z
   );
   
+  // Fade our own car while it is cloaked
+  const cloaked = hasPowerUp(playerStats.powerUps, 'cloak', getServerTime());
+  setCarVisibility(playerCar, cloaked ? LOCAL_CLOAK_VISIBILITY : 1);
+  
   // Update camera position to follow player
   const cameraOffset = new BABYLON.Vector3(0, 10, -30);
   
@@ -343,11 +473,23 @@ function updatePlayerPosition(playerStats: AppState['playerStats']): void {
  * @param {PlayerData} data - Player data
  */
 function addOtherPlayer(id: string, data: PlayerData): void {
-  if (playerMeshes[id]) {
+  if (playerMeshes[id] || pendingPlayerMeshes[id]) {
     return;
   }
   
-  createCarModel(scene, id).then(carMesh => {
+  pendingPlayerMeshes[id] = true;
+  playerTeams[id] = data.team;
+  playerColors[id] = data.color;
+  
+  createCarModel(scene, id, getCarColor(data.team, data.color)).then(carMesh => {
+    delete pendingPlayerMeshes[id];
+    
+    // Player left while the model was loading
+    if (!playerSnapshots[id]) {
+      carMesh.dispose();
+      return;
+    }
+    
     playerMeshes[id] = carMesh;
     
     // Set initial position
@@ -365,63 +507,99 @@ function addOtherPlayer(id: string, data: PlayerData): void {
     );
     
     // Add player name label
-    addPlayerNameLabel(carMesh, data.username);
+    addPlayerNameLabel(carMesh, data.username || `Player ${id.substr(0, 5)}`);
   });
 }
 
 /**
- * Update another player in the scene
+ * Record a new server snapshot for another player
  * @param {string} id - Player ID
  * @param {PlayerData} data - Player data
+ * @param {number} [timestamp] - Server time of the snapshot (ms)
  */
-function updateOtherPlayer(id: string, data: PlayerData): void {
+function updateOtherPlayer(id: string, data: PlayerData, timestamp: number = getServerTime()): void {
+  // A car that respawned jumps to its spawn point instead of gliding there
+  if (!playerSnapshots[id] || (data.isAlive && playerAlive[id] === false)) {
+    playerSnapshots[id] = createSnapshotBuffer();
+  }
+  playerAlive[id] = data.isAlive;
+  
+  addSnapshot(playerSnapshots[id], {
+    time: timestamp,
+    position: data.position,
+    rotation: data.rotation,
+    velocity: data.velocity
+  });
+  playerPowerUps[id] = data.powerUps;
+  
   if (!playerMeshes[id]) {
     addOtherPlayer(id, data);
     return;
   }
   
-  const playerMesh = playerMeshes[id];
-  
-  // Smoothly interpolate to new position and rotation
-  const targetPosition = new BABYLON.Vector3(data.position.x, data.position.y, data.position.z);
-  const targetRotation = new BABYLON.Vector3(data.rotation.x, data.rotation.y, data.rotation.z);
-  
-  // Interpolate position and rotation (smoother movement)
-  playerMesh.position = BABYLON.Vector3.Lerp(playerMesh.position, targetPosition, 0.3);
-  
-  // Smoothly interpolate rotation (use slerp for rotations)
-  const currentRotationQuat = BABYLON.Quaternion.FromEulerAngles(
-    playerMesh.rotation.x,
-    playerMesh.rotation.y,
-    playerMesh.rotation.z
-  );
-  
-  const targetRotationQuat = BABYLON.Quaternion.FromEulerAngles(
-    targetRotation.x,
-    targetRotation.y,
-    targetRotation.z
-  );
-  
-  const resultQuat = BABYLON.Quaternion.Slerp(currentRotationQuat, targetRotationQuat, 0.3);
-  
-  const resultEuler = resultQuat.toEulerAngles();
-  playerMesh.rotation.x = resultEuler.x;
-  playerMesh.rotation.y = resultEuler.y;
-  playerMesh.rotation.z = resultEuler.z;
+  // Teams are reshuffled between matches, and players can repaint their car
+  if (playerTeams[id] !== data.team || playerColors[id] !== data.color) {
+    playerTeams[id] = data.team;
+    playerColors[id] = data.color;
+    setCarColor(playerMeshes[id], getCarColor(data.team, data.color));
+  }
   
-  // Update player label position
-  if (playerLabels[id]) {
-    const labelPosition = playerMesh.position.clone();
-    labelPosition.y += 5; // Position above the car
-    playerLabels[id].linkWithMesh(playerMesh);
+  // Players can rename themselves
+  if (playerLabels[id] && data.username && playerLabels[id].text !== data.username) {
+    playerLabels[id].text = data.username;
   }
 }
 
+/**
+ * Move other players to their interpolated positions for this frame.
+ * Remote players are drawn slightly in the past so there are always
+ * two snapshots to blend between. Cloaked cars all but disappear and
+ * wrecks are hidden until they respawn.
+ */
+function updateOtherPlayers(): void {
+  const renderTime = getServerTime() - INTERPOLATION_DELAY;
+  
+  Object.keys(playerMeshes).forEach(id => {
+    const playerMesh = playerMeshes[id];
+    const alive = playerAlive[id] !== false;
+    const cloaked = isCloaked(id);
+    playerMesh.setEnabled(alive);
+    setCarVisibility(playerMesh, cloaked ? CLOAK_VISIBILITY : 1);
+    if (playerLabels[id]) {
+      playerLabels[id].isVisible = alive && !cloaked;
+    }
+    
+    const buffer = playerSnapshots[id];
+    if (!buffer) return;
+    
+    const sample = sampleSnapshot(buffer, renderTime);
+    if (!sample) return;
+    
+    playerMesh.position.set(sample.position.x, sample.position.y, sample.position.z);
+    playerMesh.rotation.set(sample.rotation.x, sample.rotation.y, sample.rotation.z);
+  });
+}
+
+/**
+ * Check whether another player's car is cloaked
+ * @param {string} id - Player ID
+ * @returns {boolean} - Whether the car is cloaked
+ */
+function isCloaked(id: string): boolean {
+  return hasPowerUp(playerPowerUps[id], 'cloak', getServerTime());
+}
+
 /**
  * Remove another player from the scene
  * @param {string} id - Player ID
  */
 function removeOtherPlayer(id: string): void {
+  delete playerSnapshots[id];
+  delete playerTeams[id];
+  delete playerColors[id];
+  delete playerPowerUps[id];
+  delete playerAlive[id];
+  
   if (playerMeshes[id]) {
     // Dispose of the mesh
     playerMeshes[id].dispose();
@@ -435,6 +613,239 @@ function removeOtherPlayer(id: string): void {
   }
 }
 
+/**
+ * Choose who the death cam watches while we wait to respawn
+ * @param {string | null} killerId - Whoever killed us, or null to watch the wreck
+ */
+function setDeathCam(killerId: string | null): void {
+  deathCamTargetId = killerId;
+}
+
+/**
+ * Pull the camera back and up from where we died and keep it on our killer,
+ * or on the spot where we went down
+ */
+function updateDeathCam(): void {
+  const killer = deathCamTargetId ? playerMeshes[deathCamTargetId] : undefined;
+  const target = killer ? killer.position : playerCar.position;
+  
+  camera.position = BABYLON.Vector3.Lerp(camera.position, playerCar.position.add(DEATH_CAM_OFFSET), 0.02);
+  camera.setTarget(target);
+}
+
+/**
+ * Paint the local car in our team's color
+ * @param {TeamId} [team] - Our team, or undefined outside team modes
+ */
+function setLocalTeam(team?: TeamId): void {
+  if (team === localTeam || !playerCar) return;
+  
+  localTeam = team;
+  setCarColor(playerCar, getCarColor(team, localColor));
+}
+
+/**
+ * Paint the local car in the color from our profile, outside team modes
+ * @param {string} [color] - Hex color, or undefined for the default paint
+ */
+function setLocalColor(color?: string): void {
+  if (color === localColor || !playerCar) return;
+  
+  localColor = color;
+  setCarColor(playerCar, getCarColor(localTeam, color));
+}
+
+/**
+ * Replace every flag in the scene, e.g. when joining a room
+ * @param {FlagState[]} flags - The room's flags (empty outside Capture the Flag)
+ * @param {string} [playerId] - Our socket ID, to find our car when we carry a flag
+ */
+function setFlags(flags: FlagState[], playerId?: string): void {
+  Object.keys(flagModels).forEach(team => {
+    const model = flagModels[team as TeamId];
+    if (model) {
+      model.flag.dispose();
+      model.base.dispose();
+    }
+  });
+  flagModels = {};
+  
+  flags.forEach(flag => updateFlag(flag, playerId));
+}
+
+/**
+ * Show a flag's new state
+ * @param {FlagState} flag - The flag
+ * @param {string} [playerId] - Our socket ID, to find our car when we carry a flag
+ */
+function updateFlag(flag: FlagState, playerId?: string): void {
+  localPlayerId = playerId;
+  
+  let model = flagModels[flag.team];
+  if (!model) {
+    model = {
+      state: flag,
+      flag: createFlagModel(scene, flag.team),
+      base: createBaseMarker(scene, flag.team)
+    };
+    flagModels[flag.team] = model;
+  }
+  
+  model.state = flag;
+  model.base.position.set(flag.base.x, flag.base.y + 0.5, flag.base.z);
+  model.flag.position.set(flag.position.x, flag.position.y, flag.position.z);
+}
+
+/**
+ * Keep carried flags above their carriers' cars
+ */
+function updateFlagPositions(): void {
+  Object.keys(flagModels).forEach(team => {
+    const model = flagModels[team as TeamId];
+    if (!model || model.state.status !== 'carried' || !model.state.carrierId) return;
+    
+    const carrierId = model.state.carrierId;
+    const carrier = carrierId === localPlayerId ? playerCar : playerMeshes[carrierId];
+    if (!carrier) return;
+    
+    model.flag.position.set(
+      carrier.position.x,
+      carrier.position.y + FLAG_CARRY_HEIGHT,
+      carrier.position.z
+    );
+  });
+}
+
+/**
+ * Show the control zones, colored by who holds them
+ * @param {ZoneUpdate | null} update - The room's zones, or null outside King of the Hill
+ * @param {string} [playerId] - Our socket ID, to tell our zones apart in free-for-all
+ */
+function setZones(update: ZoneUpdate | null, playerId?: string): void {
+  const zones = update ? update.zones : [];
+  
+  // Remove zones that no longer exist
+  Object.keys(zoneModels).forEach(id => {
+    if (!zones.some(zone => zone.id === id)) {
+      zoneModels[id].dispose();
+      delete zoneModels[id];
+    }
+  });
+  
+  zones.forEach(zone => {
+    if (!zoneModels[zone.id]) {
+      zoneModels[zone.id] = createZoneModel(scene, zone);
+    } else {
+      placeZoneModel(zoneModels[zone.id], zone);
+    }
+    
+    let color = ZONE_COLORS.neutral;
+    if (zone.contested) {
+      color = ZONE_COLORS.contested;
+    } else if (zone.holder === 'red' || zone.holder === 'blue') {
+      color = TEAM_COLORS[zone.holder];
+    } else if (zone.holder) {
+      color = zone.holder === playerId ? ZONE_COLORS.ours : ZONE_COLORS.theirs;
+    }
+    setZoneColor(zoneModels[zone.id], color);
+  });
+}
+
+/**
+ * Replace the race course, e.g. when joining a room
+ * @param {RaceCourse | null} course - The room's course, or null outside Air Race
+ */
+function setRaceCourse(course: RaceCourse | null): void {
+  raceRings.forEach(ring => ring.dispose());
+  raceRings = [];
+  nextCheckpoint = 0;
+  lapStartTime = null;
+  setGhostLap(null);
+  
+  if (!course) return;
+  
+  raceRings = course.checkpoints.map((checkpoint, index) => createCheckpointRing(scene, checkpoint, index));
+  setRingHighlight(raceRings[0], 0, true);
+}
+
+/**
+ * Light up our next ring and start or stop the ghost with our lap
+ * @param {RaceProgress} progress - Our race progress
+ */
+function setRaceProgress(progress: RaceProgress): void {
+  if (raceRings[nextCheckpoint]) {
+    setRingHighlight(raceRings[nextCheckpoint], nextCheckpoint, false);
+  }
+  
+  nextCheckpoint = progress.nextCheckpoint;
+  lapStartTime = progress.lapStartTime;
+  
+  if (raceRings[nextCheckpoint]) {
+    setRingHighlight(raceRings[nextCheckpoint], nextCheckpoint, true);
+  }
+}
+
+/**
+ * Keep our best lap to race against
+ * @param {GhostLap | null} ghost - The lap, or null to remove the ghost
+ */
+function setGhostLap(ghost: GhostLap | null): void {
+  if (!ghost) {
+    ghostLap = null;
+    if (ghostCar) {
+      ghostCar.dispose();
+      ghostCar = null;
+    }
+    return;
+  }
+  
+  // The recording is a ready-made snapshot buffer in lap time
+  ghostLap = { snapshots: ghost.samples };
+  ghostLapTime = ghost.time;
+  
+  if (!ghostCar) {
+    createGhostCar(scene).then(car => {
+      // Ghost was removed while the model was loading
+      if (!ghostLap || ghostCar) {
+        car.dispose();
+        return;
+      }
+      ghostCar = car;
+      ghostCar.setEnabled(false);
+    });
+  }
+}
+
+/**
+ * Replay the ghost alongside our current lap
+ */
+function updateGhost(): void {
+  if (!ghostCar) return;
+  
+  const lapTime = lapStartTime !== null ? getServerTime() - lapStartTime : -1;
+  if (!ghostLap || lapTime < 0 || lapTime > ghostLapTime) {
+    ghostCar.setEnabled(false);
+    return;
+  }
+  
+  const sample = sampleSnapshot(ghostLap, lapTime);
+  if (!sample) return;
+  
+  ghostCar.setEnabled(true);
+  ghostCar.position.set(sample.position.x, sample.position.y, sample.position.z);
+  ghostCar.rotation.set(sample.rotation.x, sample.rotation.y, sample.rotation.z);
+}
+
+/**
+ * Get a car's paint: its team's color in team modes, else its owner's choice
+ * @param {TeamId} [team] - The car's team
+ * @param {string} [color] - Color from the owner's profile
+ * @returns {string | undefined} - Hex color, or undefined for the default paint
+ */
+function getCarColor(team?: TeamId, color?: string): string | undefined {
+  return team ? TEAM_COLORS[team] : color;
+}
+
 /**
  * Add player name label
  * @param {BABYLON.AbstractMesh} carMesh - Car mesh
@@ -479,11 +890,7 @@ export function fireLaser(options: {
     z: playerCar.position.z
   };
   
-  const direction = options.direction || {
-    x: Math.sin(playerCar.rotation.y),
-    y: Math.sin(-playerCar.rotation.x),
-    z: Math.cos(playerCar.rotation.y)
-  };
+  const direction = options.direction || getForwardVector(playerCar.rotation);
   
   const laserMesh = createLaser(scene, {
     position: new BABYLON.Vector3(startPos.x, startPos.y, startPos.z),
@@ -494,6 +901,278 @@ export function fireLaser(options: {
   });
 }
 
+/**
+ * Get the direction a car is facing
+ * @param {Vector3} rotation - Car rotation (pitch/yaw/roll)
+ * @returns {Vector3} - Normalized forward vector
+ */
+export function getForwardVector(rotation: Vector3): Vector3 {
+  return {
+    x: Math.sin(rotation.y) * Math.cos(rotation.x),
+    y: -Math.sin(rotation.x),
+    z: Math.cos(rotation.y) * Math.cos(rotation.x)
+  };
+}
+
+/**
+ * Find the nearest other player along a laser's path, as currently drawn
+ * @param {Vector3} origin - Laser origin
+ * @param {Vector3} direction - Normalized laser direction
+ * @param {number} maxDistance - Laser range
+ * @returns {Object|null} - The player hit and where, or null on a miss
+ */
+function findLaserTarget(
+  origin: Vector3,
+  direction: Vector3,
+  maxDistance: number
+): {id: string, position: Vector3, distance: number} | null {
+  const hitRadius = 5; // Matches the server's car hit sphere
+  let closest: {id: string, position: Vector3, distance: number} | null = null;
+  
+  Object.keys(playerMeshes).forEach(id => {
+    if (playerAlive[id] === false) return;
+    
+    const center = playerMeshes[id].position;
+    
+    // Ray/sphere intersection
+    const ox = origin.x - center.x;
+    const oy = origin.y - center.y;
+    const oz = origin.z - center.z;
+    const b = ox * direction.x + oy * direction.y + oz * direction.z;
+    const c = ox * ox + oy * oy + oz * oz - hitRadius * hitRadius;
+    const discriminant = b * b - c;
+    if (discriminant < 0) return;
+    
+    const distance = Math.max(0, -b - Math.sqrt(discriminant));
+    if (-b + Math.sqrt(discriminant) < 0 || distance > maxDistance) return;
+    
+    if (!closest || distance < closest.distance) {
+      closest = {
+        id,
+        distance,
+        position: {
+          x: origin.x + direction.x * distance,
+          y: origin.y + direction.y * distance,
+          z: origin.z + direction.z * distance
+        }
+      };
+    }
+  });
+  
+  return closest;
+}
+
+/**
+ * Find the other player closest to the crosshair inside a lock cone,
+ * leaving out teammates, cloaked cars and wrecks
+ * @param {Vector3} origin - Seeker position
+ * @param {Vector3} direction - Normalized aim
+ * @param {number} maxAngle - Half-angle of the lock cone (radians)
+ * @param {number} maxDistance - Lock range
+ * @returns {string | null} - The player to lock on to, or null if nobody is in the cone
+ */
+function findLockTarget(origin: Vector3, direction: Vector3, maxAngle: number, maxDistance: number): string | null {
+  let best: string | null = null;
+  let bestCos = -1;
+  
+  Object.keys(playerMeshes).forEach(id => {
+    if (localTeam && playerTeams[id] === localTeam) return;
+    if (isCloaked(id) || playerAlive[id] === false) return;
+    
+    const center = playerMeshes[id].position;
+    if (!isInCone(origin, direction, center, maxAngle, maxDistance)) return;
+    
+    const dx = center.x - origin.x;
+    const dy = center.y - origin.y;
+    const dz = center.z - origin.z;
+    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz) || 1;
+    const cosAngle = (dx * direction.x + dy * direction.y + dz * direction.z) / distance;
+    
+    if (cosAngle > bestCos) {
+      bestCos = cosAngle;
+      best = id;
+    }
+  });
+  
+  return best;
+}
+
+/**
+ * Start drawing a missile the server launched
+ * @param {MissileLaunch} missile - The launch
+ * @param {string} [playerId] - Our own player ID, to know when we are the target
+ */
+function launchMissile(missile: MissileLaunch, playerId?: string): void {
+  if (missileModels[missile.id]) return;
+  if (playerId) {
+    localPlayerId = playerId;
+  }
+  
+  const model = createMissileModel(scene, missile.id, MISSILE_WEAPON.color);
+  missileModels[missile.id] = {
+    ...model,
+    position: { ...missile.position },
+    direction: { ...missile.direction },
+    targetId: missile.targetId,
+    decoyId: null,
+    launchedAt: Date.now()
+  };
+  model.mesh.position.set(missile.position.x, missile.position.y, missile.position.z);
+}
+
+/**
+ * Stop drawing a missile the server detonated. Hits already show an impact.
+ * @param {MissileDestroyed} data - Which missile and where it went off
+ */
+function destroyMissile(data: MissileDestroyed): void {
+  const model = missileModels[data.id];
+  if (model) {
+    disposeTrailedMesh(model);
+    delete missileModels[data.id];
+  }
+  
+  if (data.reason !== 'hit') {
+    createExplosion(data.position, 0.6);
+  }
+}
+
+/**
+ * Draw a flare and send the missiles it decoyed after it
+ * @param {FlareDeploy} flare - The flare
+ */
+function dropFlare(flare: FlareDeploy): void {
+  const model = createFlareModel(scene, flare.id);
+  model.mesh.position.set(flare.position.x, flare.position.y, flare.position.z);
+  flareModels[flare.id] = {
+    ...model,
+    dropPosition: { ...flare.position },
+    droppedAt: Date.now()
+  };
+  
+  flare.decoyed.forEach(id => {
+    if (missileModels[id]) {
+      missileModels[id].decoyId = flare.id;
+    }
+  });
+}
+
+/**
+ * Move flares and steer missiles the way the server does, toward what
+ * we currently see of their targets
+ * @param {number} deltaTime - Frame duration in seconds
+ */
+function updateMissiles(deltaTime: number): void {
+  const now = Date.now();
+  
+  Object.keys(flareModels).forEach(id => {
+    const flare = flareModels[id];
+    const age = now - flare.droppedAt;
+    if (age > FLARE_LIFETIME) {
+      disposeTrailedMesh(flare);
+      delete flareModels[id];
+      return;
+    }
+    
+    const position = getFlarePosition(flare.dropPosition, age);
+    flare.mesh.position.set(position.x, position.y, position.z);
+  });
+  
+  Object.keys(missileModels).forEach(id => {
+    const missile = missileModels[id];
+    
+    // The server reports every detonation, but don't keep one it forgot about
+    if (now - missile.launchedAt > MISSILE_WEAPON.lifetime + 1000) {
+      disposeTrailedMesh(missile);
+      delete missileModels[id];
+      return;
+    }
+    
+    let aimPoint: Vector3 | null = null;
+    if (missile.decoyId) {
+      const flare = flareModels[missile.decoyId];
+      aimPoint = flare ? flare.mesh.position : null;
+    } else if (missile.targetId) {
+      const target = missile.targetId === localPlayerId ? playerCar : playerMeshes[missile.targetId];
+      const visible = missile.targetId === localPlayerId || !isCloaked(missile.targetId);
+      if (target && visible && isInCone(missile.position, missile.direction, target.position, MISSILE_SEEKER_ANGLE, Infinity)) {
+        aimPoint = target.position;
+      } else {
+        missile.targetId = null;
+      }
+    }
+    
+    if (aimPoint) {
+      missile.direction = steerMissile(missile.direction, missile.position, aimPoint, deltaTime);
+    }
+    
+    missile.position.x += missile.direction.x * MISSILE_WEAPON.speed * deltaTime;
+    missile.position.y += missile.direction.y * MISSILE_WEAPON.speed * deltaTime;
+    missile.position.z += missile.direction.z * MISSILE_WEAPON.speed * deltaTime;
+    
+    missile.mesh.position.set(missile.position.x, missile.position.y, missile.position.z);
+    missile.mesh.lookAt(missile.mesh.position.add(
+      new BABYLON.Vector3(missile.direction.x, missile.direction.y, missile.direction.z)
+    ));
+  });
+}
+
+/**
+ * Replace every pickup in the scene, e.g. when joining a room
+ * @param {PickupState[]} pickups - The room's pickups (empty in rooms without them)
+ */
+function setPickups(pickups: PickupState[]): void {
+  Object.keys(pickupModels).forEach(id => pickupModels[id].mesh.dispose());
+  pickupModels = {};
+  
+  pickups.forEach(updatePickup);
+}
+
+/**
+ * Show or hide a pickup that was taken or came back
+ * @param {PickupState} pickup - The pickup
+ */
+function updatePickup(pickup: PickupState): void {
+  const model = pickupModels[pickup.id];
+  if (!model) {
+    pickupModels[pickup.id] = { state: pickup, mesh: createPickupModel(scene, pickup) };
+    return;
+  }
+  
+  model.state = pickup;
+  model.mesh.setEnabled(pickup.available);
+}
+
+/**
+ * Spin and bob the pickups that are waiting to be collected
+ */
+function updatePickups(): void {
+  const time = Date.now() / 1000;
+  
+  Object.keys(pickupModels).forEach(id => {
+    const model = pickupModels[id];
+    if (model.state.available) {
+      animatePickupModel(model.mesh, model.state, time);
+    }
+  });
+}
+
+/**
+ * Flash the shield of a car that took a hit on it
+ * @param {string} targetId - The player who was hit
+ * @param {number} shieldDamage - How much the shield absorbed
+ * @param {string} [playerId] - Our own player ID, to know when it was us
+ */
+function showShieldHit(targetId: string, shieldDamage: number, playerId?: string): void {
+  if (playerId) {
+    localPlayerId = playerId;
+  }
+  
+  const carMesh = targetId === localPlayerId ? playerCar : playerMeshes[targetId];
+  if (!carMesh) return;
+  
+  createShieldFlash(scene, carMesh, { strength: shieldDamage / 20 });
+}
+
 /**
  * Create explosion effect
  * @param {Vector3} position - Position
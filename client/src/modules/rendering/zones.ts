@@ -0,0 +1,50 @@
+import { Color3, Mesh, MeshBuilder, Scene, StandardMaterial, Vector3 } from '@babylonjs/core';
+import { ZoneState } from '../../types';
+
+const ZONE_ALPHA = 0.15;
+
+/**
+ * Create a see-through cylinder for a control zone
+ * @param {Scene} scene - The Babylon scene
+ * @param {ZoneState} zone - The zone
+ * @returns {Mesh} - The zone's cylinder
+ */
+export function createZoneModel(scene: Scene, zone: ZoneState): Mesh {
+  const cylinder = MeshBuilder.CreateCylinder(`zone_${zone.id}`, {
+    height: zone.height,
+    diameter: zone.radius * 2,
+    tessellation: 48,
+    sideOrientation: 2 // Visible from inside too
+  }, scene);
+
+  const material = new StandardMaterial(`zoneMaterial_${zone.id}`, scene);
+  material.disableLighting = true;
+  material.alpha = ZONE_ALPHA;
+  material.backFaceCulling = false;
+  cylinder.material = material;
+  cylinder.isPickable = false;
+
+  placeZoneModel(cylinder, zone);
+  return cylinder;
+}
+
+/**
+ * Move a zone's cylinder to where the zone is now
+ * @param {Mesh} cylinder - The zone's cylinder
+ * @param {ZoneState} zone - The zone
+ */
+export function placeZoneModel(cylinder: Mesh, zone: ZoneState): void {
+  // Cylinders are built around their center
+  cylinder.position = new Vector3(zone.position.x, zone.position.y + zone.height / 2, zone.position.z);
+}
+
+/**
+ * Tint a zone's cylinder
+ * @param {Mesh} cylinder - The zone's cylinder
+ * @param {string} color - Hex color
+ */
+export function setZoneColor(cylinder: Mesh, color: string): void {
+  if (cylinder.material instanceof StandardMaterial) {
+    cylinder.material.emissiveColor = Color3.FromHexString(color);
+  }
+}
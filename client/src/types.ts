@@ -1,25 +1,89 @@
 // Client-side type definitions
 import { Socket } from 'socket.io-client';
 
+import { Vector3, PlayerData, PlayerInput, RoomSummary, RoomOptions, TeamId, WeaponId, MatchPhase, MatchState, MatchEnd, FlagState, FlagUpdate, ZoneUpdate, RaceCourse, RaceProgress, LapComplete, GhostLap, MissileLaunch, MissileDestroyed, FlareDeploy, ActivePowerUps, PickupState, PickupUpdate, PlayerDiedEvent, PlayerRespawnEvent, SessionResumed, Profile, ProfileUpdate, Leaderboard, LeaderboardPeriod, LeaderboardStat } from '../../shared/protocol/types';
+
 // Use require for Babylon.js to avoid module resolution issues
 const BABYLON = require('@babylonjs/core');
 
-export interface Vector3 {
-  x: number;
-  y: number;
-  z: number;
-}
+// Types exchanged with the server live in the shared protocol module
+export type {
+  Vector3,
+  PlayerInput,
+  PlayerData,
+  StateSnapshot,
+  LaserData,
+  LaserShot,
+  MissileLaunch,
+  MissileDestroyed,
+  FlareDeploy,
+  HitData,
+  Building,
+  RoomSummary,
+  RoomOptions,
+  TeamId,
+  GameModeId,
+  WeaponId,
+  PowerUpType,
+  ActivePowerUps,
+  PickupState,
+  PickupUpdate,
+  PlayerDiedEvent,
+  PlayerRespawnEvent,
+  ResumeTicket,
+  SessionResumed,
+  MatchPhase,
+  MatchState,
+  MatchEnd,
+  FlagState,
+  FlagUpdate,
+  ZoneState,
+  ZoneUpdate,
+  Checkpoint,
+  RaceCourse,
+  RaceProgress,
+  LapComplete,
+  GhostLap,
+  AccountAuth,
+  AccountSession,
+  AccountError,
+  AccountErrorReason,
+  StatCounters,
+  LifetimeStats,
+  MatchStats,
+  MatchRecord,
+  Profile,
+  ProfileUpdate,
+  LeaderboardPeriod,
+  LeaderboardStat,
+  LeaderboardEntry,
+  Leaderboard
+} from '../../shared/protocol/types';
 
 export interface AppState {
   loading: boolean;
   gameRunning?: boolean;
   playerStats: {
     health: number;
+    shield: number;
     position: Vector3;
     rotation: Vector3;
     velocity: Vector3;
     boost: boolean;
     boosting?: boolean;
+    weapon: WeaponId;
+    ammo: Partial<Record<WeaponId, number>>; // Shots left for weapons with limited ammo
+    heat: number;
+    overheatedUntil: number; // Weapons are locked until this time (ms)
+    energy: number; // Boost energy
+    flares: number; // Flares left this life
+    lockTargetId: string | null; // Who the missile seeker is locking on to
+    lockProgress: number; // How far the lock is, from 0 to 1
+    incomingMissiles: number; // Missiles homing in on us
+    powerUps: ActivePowerUps; // Server time each running power-up wears off
+    isAlive: boolean; // False while our car is a wreck waiting to respawn
+    respawnTime: number; // When a wreck respawns (server time)
+    spawnProtectedUntil: number; // We can't be hurt until then (server time), unless we fire
   };
   otherPlayers: Record<string, PlayerData>;
   gameOptions: {
@@ -33,20 +97,10 @@ export interface AppState {
   renderer?: RendererInstance;
 }
 
-export interface PlayerData {
-  id: string;
-  username: string;
-  position: Vector3;
-  rotation: Vector3;
-  health: number;
-  score: number;
-  boost: boolean;
-}
-
 export interface GameStateUpdate {
   timestamp: number;
   players: Record<string, PlayerData>;
-  ads: Ad[];
+  ads?: Ad[];
 }
 
 export interface Ad {
@@ -72,22 +126,52 @@ export interface RendererInstance {
   update: (deltaTime: number) => void;
   updatePlayerPosition?: (playerStats: any) => void;
   createExplosion?: (position: {x: number, y: number, z: number}, scale?: number) => void;
-  fireLaser?: (options: {position: Vector3, rotation: Vector3, color: string}) => void;
+  fireLaser?: (options: {position: Vector3, rotation: Vector3, color?: string, speed?: number, duration?: number}) => void;
+  findLaserTarget?: (origin: Vector3, direction: Vector3, maxDistance: number) => {id: string, position: Vector3, distance: number} | null;
+  findLockTarget?: (origin: Vector3, direction: Vector3, maxAngle: number, maxDistance: number) => string | null;
+  launchMissile?: (missile: MissileLaunch, localPlayerId?: string) => void;
+  destroyMissile?: (data: MissileDestroyed) => void;
+  dropFlare?: (flare: FlareDeploy) => void;
+  showShieldHit?: (targetId: string, shieldDamage: number, localPlayerId?: string) => void;
   addPlayer: (id: string, data: PlayerData) => void;
-  updatePlayer: (id: string, data: PlayerData) => void;
+  updatePlayer: (id: string, data: PlayerData, timestamp?: number) => void;
   removePlayer: (id: string) => void;
+  setLocalTeam?: (team?: TeamId) => void;
+  setLocalColor?: (color?: string) => void;
+  setDeathCam?: (killerId: string | null) => void;
+  setFlags?: (flags: FlagState[], localPlayerId?: string) => void;
+  updateFlag?: (flag: FlagState, localPlayerId?: string) => void;
+  setZones?: (update: ZoneUpdate | null, localPlayerId?: string) => void;
+  setRaceCourse?: (course: RaceCourse | null) => void;
+  setRaceProgress?: (progress: RaceProgress) => void;
+  setGhostLap?: (ghost: GhostLap | null) => void;
+  setPickups?: (pickups: PickupState[]) => void;
+  updatePickup?: (pickup: PickupState) => void;
 }
 
 export interface NetworkManager {
   socket?: Socket;
   connect?: () => void;
   disconnect: () => void;
-  sendPlayerUpdate: (data: Partial<PlayerData>) => void;
-  sendLaserShot?: (data: {position: Vector3, rotation: Vector3}) => void;
-  sendLaserHit?: (hitData: {targetId: string, position: Vector3}) => void;
+  sendPlayerInput: (inputs: PlayerInput[]) => void;
+  sendWeaponSelect?: (weapon: WeaponId) => void;
+  sendLaserShot?: (data: {id: number, position: Vector3, rotation: Vector3, targetId?: string}) => void;
+  sendFlareDeploy?: () => void;
+  sendLaserHit?: (hitData: {shotId: number, targetId: string, position: Vector3, viewTime?: number}) => void;
   getLatency?: () => number;
   getPlayerCount?: () => number;
+  listRooms?: () => Promise<RoomSummary[]>;
+  getLeaderboard?: (period: LeaderboardPeriod, stat: LeaderboardStat) => Promise<Leaderboard | null>;
+  createRoom?: (options: RoomOptions) => void;
+  joinRoom?: (roomId: string) => void;
+  leaveRoom?: () => void;
+  getRoom?: () => RoomSummary | null;
   reconnect?: () => void;
+  getProfile?: () => Profile | null;
+  updateProfile?: (update: ProfileUpdate) => void;
+  register?: (username: string, password: string) => void;
+  login?: (username: string, password: string) => void;
+  logout?: () => void;
 }
 
 export interface GameInstance {
@@ -112,18 +196,33 @@ export interface CollisionSystem {
 }
 
 export interface GameModule {
+  renderer?: RendererInstance;
   start: () => void;
   stop: () => void;
   update: (deltaTime: number) => void;
   handleInput?: (input: any) => void;
   updatePlayerVelocity: (velocityChange: {x?: number, y?: number, z?: number, boost?: boolean}) => void;
   updatePlayerRotation: (rotationChange: {x?: number, y?: number, z?: number}) => void;
-  fireLaser: () => void;
+  fireWeapon: () => void;
+  selectWeapon: (weapon: WeaponId) => void;
+  cycleWeapon: (step: number) => void;
+  deployFlare: () => void;
   setFireButtonState: (isHeld: boolean) => void;
-  resetPlayer: () => void;
+  respawnPlayer: (respawn: PlayerRespawnEvent) => void;
+  resumePlayer: (resumed: SessionResumed) => void;
   setNetworkManager: (nm: NetworkManager) => void;
-  showHitEffect: (fromDirection: {x: number, y: number, z: number}) => void;
-  showRespawnEffect: () => void;
+  applyServerState: (state: GameStateUpdate, localPlayerId: string) => void;
+  showHitEffect: (fromDirection: {x: number, y: number, z: number}, shieldOnly?: boolean) => void;
+  showDeath: (kill: PlayerDiedEvent) => void;
+  showMatchPhase: (match: MatchState) => void;
+  showMatchEnd: (result: MatchEnd, localPlayerId?: string) => void;
+  showFlagUpdate: (update: FlagUpdate, localPlayerId?: string) => void;
+  showRaceProgress: (progress: RaceProgress) => void;
+  showLapComplete: (lap: LapComplete, localPlayerId?: string) => void;
+  showZoneScores: (update: ZoneUpdate, localPlayerId?: string) => void;
+  showPickupTaken: (update: PickupUpdate, localPlayerId?: string) => void;
+  showKill: (kill: PlayerDiedEvent, localPlayerId?: string) => void;
+  resetMatchHud: () => void;
   toggleSound?: () => boolean;
   toggleDebug?: () => boolean;
 }
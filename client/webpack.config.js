@@ -24,6 +24,10 @@ module.exports = {
   },
   resolve: {
     extensions: ['.tsx', '.ts', '.js'],
+    // Shared code uses Node-style .js specifiers for its own imports
+    extensionAlias: {
+      '.js': ['.ts', '.js'],
+    },
   },
   output: {
     filename: 'bundle.js',
@@ -1,24 +1,46 @@
 import express from 'express';
+import { existsSync } from 'fs';
 import { createServer } from 'http';
 import {dirname, join} from 'path';
 import { Server } from 'socket.io';
 import { fileURLToPath } from 'url';
 
 // Import server modules
-import { setupSocketHandlers } from './modules/network/socketHandlers.js';
-import { initializeAdEngine } from './modules/ads/adEngine.js';
-import { GameStateManager, initializeGameState } from './modules/game/gameState.js';
+import { setupSocketHandlers, SocketData } from './modules/network/socketHandlers.js';
+import { initializeRoomManager } from './modules/rooms/roomManager.js';
+import { initializeAccountStore } from './modules/accounts/accountStore.js';
+import { ClientToServerEvents, ServerToClientEvents } from '../../shared/protocol/events.js';
+import { isLeaderboardPeriod, isLeaderboardStat } from '../../shared/protocol/validation.js';
+import { DEFAULT_CITY_SEED } from '../../shared/world/city.js';
 
 // Get __dirname equivalent in ES modules
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/**
+ * Find the server package's folder. It is the nearest one with a package.json
+ * both when running the sources (src) and the build (dist/server/src).
+ * @param {string} directory - Where to start looking
+ * @returns {string} - The server folder
+ */
+function findServerRoot(directory: string): string {
+  let current = directory;
+  while (!existsSync(join(current, 'package.json'))) {
+    const parent = dirname(current);
+    if (parent === current) return directory;
+    current = parent;
+  }
+  return current;
+}
+
+const SERVER_ROOT = findServerRoot(__dirname);
+
 // Create Express app
 const app = express();
 const server = createServer(app);
 
 // Create Socket.io server
-const io = new Server(server, {
+const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(server, {
   cors: {
     origin: '*',
     methods: ['GET', 'POST']
@@ -28,70 +50,69 @@ const io = new Server(server, {
 // Set port
 const PORT = process.env.PORT || 5000;
 
-// Serve static files from dist directory
-app.use(express.static(join(__dirname, '../../client/dist')));
+// Client build
+const CLIENT_DIST = join(SERVER_ROOT, '../client/dist');
 
-// Serve index.html for all routes
-app.get('*', (req, res) => {
-  res.sendFile(join(__dirname, '../../client/dist/index.html'));
-});
+// Players listed on a leaderboard unless the request asks for more (up to 100)
+const DEFAULT_LEADERBOARD_SIZE = 10;
+
+// Player accounts, kept in server/data unless ACCOUNTS_FILE says otherwise
+const ACCOUNTS_FILE = process.env.ACCOUNTS_FILE || join(SERVER_ROOT, 'data/accounts.json');
 
-// Initialize game state
-const gameState: GameStateManager = initializeGameState();
+// Load player accounts
+const accounts = initializeAccountStore(ACCOUNTS_FILE);
 
-// Initialize ad engine
-const adEngine = initializeAdEngine(gameState);
+// Initialize rooms - each runs its own game loop
+const rooms = initializeRoomManager(io, Number(process.env.CITY_SEED) || DEFAULT_CITY_SEED, accounts);
 
 // Setup socket handlers
-setupSocketHandlers(io, gameState);
+setupSocketHandlers(io, rooms, accounts);
 
-// Game update loop
-const TICK_RATE = 15; // Reduced from 20 to 15 updates per second for better performance
-const TICK_INTERVAL = 1000 / TICK_RATE;
+// Lobby - open rooms with their player counts and city seeds
+app.get('/api/rooms', (req, res) => {
+  res.json(rooms.listRooms());
+});
 
-let lastUpdateTime = Date.now();
+// Leaderboards - top players today, over the last week or of all time, e.g.
+// /api/leaderboards/weekly?stat=accuracy&limit=20 (stat defaults to kills)
+app.get('/api/leaderboards/:period', (req, res) => {
+  const period = req.params.period;
+  const stat = req.query.stat === undefined ? 'kills' : req.query.stat;
+  if (!isLeaderboardPeriod(period) || !isLeaderboardStat(stat)) {
+    res.status(400).json({ error: 'unknown_leaderboard' });
+    return;
+  }
 
-function gameLoop(): void {
-  const now = Date.now();
-  const deltaTime = (now - lastUpdateTime) / 1000;
-  lastUpdateTime = now;
-  
-  // Update game state
-  gameState.update(deltaTime);
-  
-  // Update ad engine
-  adEngine.update(deltaTime);
-  
-  // Broadcast game state to all clients
-  io.emit('game:state', {
-    timestamp: now,
-    players: gameState.getPlayersData(),
-    ads: adEngine.getActiveAds()
-  });
-  
-  // Schedule next update
-  setTimeout(gameLoop, TICK_INTERVAL);
-}
+  res.json(accounts.getLeaderboard(period, stat, Number(req.query.limit) || DEFAULT_LEADERBOARD_SIZE));
+});
+
+// Serve static files from dist directory
+app.use(express.static(CLIENT_DIST));
+
+// Serve index.html for all routes
+app.get('*', (req, res) => {
+  res.sendFile(join(CLIENT_DIST, 'index.html'));
+});
 
 // Start server
 server.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Game client available at http://localhost:${PORT}`);
-  
-  // Start game loop
-  gameLoop();
 });
 
 // Handle server shutdown
 process.on('SIGINT', () => {
   console.log('Server shutting down...');
   
-  // Close Socket.io connections
+  // Stop room loops and close Socket.io connections
+  rooms.closeAll();
   io.close();
   
-  // Close server
-  server.close(() => {
-    console.log('Server closed');
-    process.exit(0);
+  // Write out accounts, then close server
+  accounts.save().then(() => {
+    server.close(() => {
+      console.log('Server closed');
+      process.exit(0);
+    });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AccountStore, initializeAccountStore } from './accountStore.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let directory = '';
+let accounts: AccountStore;
+
+/**
+ * Log in as a new guest
+ * @param {string} address - The client's address
+ * @returns {Promise<string | null>} - The guest's session token, or null if refused
+ */
+async function newGuest(address: string): Promise<string | null> {
+  const result = await accounts.authenticate({}, address);
+  return result.ok ? result.session.token : null;
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  directory = mkdtempSync(join(tmpdir(), 'accounts-'));
+  accounts = initializeAccountStore(join(directory, 'accounts.json'));
+});
+
+afterAll(async () => {
+  await accounts.save();
+  rmSync(directory, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('guest accounts', () => {
+  it('limits how many guests one address can make', async () => {
+    for (let i = 0; i < 10; i++) {
+      expect(await newGuest('10.0.0.1')).not.toBeNull();
+    }
+
+    const refused = await accounts.authenticate({}, '10.0.0.1');
+
+    expect(refused).toEqual({ ok: false, error: { reason: 'too_many_guests' } });
+    expect(await newGuest('10.0.0.2')).not.toBeNull();
+  });
+
+  it('lets an address make guests again an hour later', async () => {
+    vi.useFakeTimers({ now: Date.now() + 61 * 60 * 1000, toFake: ['Date'] });
+
+    expect(await newGuest('10.0.0.1')).not.toBeNull();
+  });
+
+  it('drops guests that never come back, but keeps registered players and recent guests', async () => {
+    const start = Date.now();
+    const idle = await newGuest('10.0.1.1');
+    const flownGuest = await accounts.authenticate({}, '10.0.1.2');
+    const registered = await accounts.authenticate({}, '10.0.1.3');
+    if (!idle || !flownGuest.ok || !registered.ok) throw new Error('Guest was refused');
+
+    const flown = flownGuest.session.token;
+    const flownId = flownGuest.accountId;
+    accounts.recordStats(flownId, { timeAlive: 60000 });
+    expect((await accounts.register(registered.accountId, { username: 'keeper', password: 'long-enough' })).ok).toBe(true);
+
+    vi.useFakeTimers({ now: start + 2 * DAY, toFake: ['Date'] });
+    await accounts.save();
+
+    expect(await accounts.authenticate({ token: idle }, '10.0.1.1')).toEqual({ ok: false, error: { reason: 'invalid_token' } });
+    expect((await accounts.authenticate({ token: flown }, '10.0.1.2')).ok).toBe(true);
+    expect((await accounts.authenticate({ token: registered.session.token }, '10.0.1.3')).ok).toBe(true);
+
+    vi.setSystemTime(start + 40 * DAY);
+    await accounts.save();
+
+    expect((await accounts.authenticate({ token: flown }, '10.0.1.2')).ok).toBe(false);
+    expect((await accounts.authenticate({ username: 'keeper', password: 'long-enough' }, '10.0.1.3')).ok).toBe(true);
+
+    const saved = JSON.parse(readFileSync(join(directory, 'accounts.json'), 'utf8'));
+    expect(saved.accounts.map((account: { id: string }) => account.id)).not.toContain(flownId);
+  });
+});
@@ -0,0 +1,668 @@
+/**
+ * Account store - player accounts kept in a JSON file on disk. Guests are
+ * known by a session token only; registered players can also log in with a
+ * username and password. Guests that stop coming back are dropped after a
+ * while, and each address can only make so many of them. Every account has a profile (display name and car
+ * color), lifetime stats, the last week's stats day by day for the daily and
+ * weekly leaderboards, and its most recent matches.
+ */
+import { randomBytes, createHash, scrypt, timingSafeEqual } from 'crypto';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  AccountAuth,
+  AccountCredentials,
+  AccountSession,
+  AccountError,
+  StatCounters,
+  LifetimeStats,
+  MatchRecord,
+  Profile,
+  ProfileUpdate,
+  LeaderboardPeriod,
+  LeaderboardStat,
+  LeaderboardEntry,
+  Leaderboard
+} from '../../types.js';
+
+interface Account {
+  id: string;
+  username?: string;
+  passwordHash?: string; // Salt and scrypt hash, hex, as 'salt:hash'
+  sessions: string[]; // SHA-256 hashes of the account's session tokens, oldest first
+  displayName: string;
+  carColor?: string;
+  stats: LifetimeStats;
+  days: Record<string, LifetimeStats>; // Stats per UTC day ('YYYY-MM-DD'), for the last week only
+  recentMatches: MatchRecord[]; // Newest first
+  createdAt: number;
+  lastSeen: number;
+}
+
+// What the accounts file holds
+interface AccountFile {
+  accounts: Account[];
+}
+
+type SessionResult =
+  | { ok: true; accountId: string; session: AccountSession }
+  | { ok: false; error: AccountError };
+
+type ProfileResult =
+  | { ok: true; profile: Profile }
+  | { ok: false; error: AccountError };
+
+export interface AccountStore {
+  authenticate: (auth: AccountAuth, address: string) => Promise<SessionResult>;
+  register: (accountId: string, credentials: AccountCredentials) => Promise<ProfileResult>;
+  updateProfile: (accountId: string, update: ProfileUpdate) => ProfileResult;
+  getProfile: (accountId: string) => Profile | null;
+  recordStats: (accountId: string, stats: Partial<StatCounters>) => void;
+  recordLap: (accountId: string, time: number) => void;
+  recordMatch: (accountId: string, match: MatchRecord) => void;
+  getLeaderboard: (period: LeaderboardPeriod, stat: LeaderboardStat, size: number) => Leaderboard;
+  save: () => Promise<void>;
+}
+
+// Account rules
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,16}$/;
+const DISPLAY_NAME_PATTERN = /^[^\x00-\x1f\x7f]{1,16}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_SESSIONS = 5; // Devices an account stays logged in on; the oldest is logged out
+
+// Hashing
+const TOKEN_BYTES = 32;
+const SALT_BYTES = 16;
+const HASH_LENGTH = 64;
+
+const SAVE_DELAY = 2000; // Changes are batched into one write this long after the first (ms)
+
+// Guests
+const GUEST_EXPIRY = 30 * 24 * 60 * 60 * 1000; // Unregistered guests are dropped this long after they were last seen (ms)
+const IDLE_GUEST_EXPIRY = 24 * 60 * 60 * 1000; // Guests that never flew are dropped sooner (ms)
+const GUEST_LIMIT = 10; // New guests one address can make per GUEST_LIMIT_WINDOW
+const GUEST_LIMIT_WINDOW = 60 * 60 * 1000; // (ms)
+
+// Stats history
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK_DAYS = 7; // Days on the weekly leaderboard, today included; older days are dropped
+const RECENT_MATCHES = 10; // Matches kept in an account's history
+
+// Leaderboards
+const MAX_LEADERBOARD_SIZE = 100;
+const MIN_ACCURACY_SHOTS = 100; // Shots a player must have fired to be on the accuracy leaderboard
+
+// Store state
+let accounts: Record<string, Account> = {};
+let accountsByUsername: Record<string, string> = {}; // Lowercased username to account ID
+let accountsBySession: Record<string, string> = {}; // Session token hash to account ID
+let guestsByAddress: Record<string, number[]> = {}; // When each address made its recent guests
+let accountsFile = '';
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let saving: Promise<void> = Promise.resolve();
+
+/**
+ * Initialize the account store, loading any accounts saved before
+ * @param {string} filePath - Where the accounts are kept
+ * @returns {AccountStore} - The account store
+ */
+export function initializeAccountStore(filePath: string): AccountStore {
+  accountsFile = filePath;
+  mkdirSync(dirname(filePath), { recursive: true });
+
+  // A file that can't be read stops the server rather than being overwritten
+  if (existsSync(filePath)) {
+    const saved: AccountFile = JSON.parse(readFileSync(filePath, 'utf8'));
+    saved.accounts.forEach(indexAccount);
+    pruneGuests(Date.now());
+  }
+
+  console.log(`Loaded ${Object.keys(accounts).length} accounts from ${filePath}`);
+
+  return {
+    authenticate,
+    register,
+    updateProfile,
+    getProfile: (accountId) => accounts[accountId] ? describeAccount(accounts[accountId]) : null,
+    recordStats,
+    recordLap,
+    recordMatch,
+    getLeaderboard,
+    save
+  };
+}
+
+/**
+ * Log in with the handshake's credentials: a session token, a username and
+ * password, or nothing for a new guest account
+ * @param {AccountAuth} auth - The credentials
+ * @param {string} address - The client's address, which new guests are counted against
+ * @returns {Promise<SessionResult>} - The account's session, or why the login failed
+ */
+async function authenticate(auth: AccountAuth, address: string): Promise<SessionResult> {
+  if (auth.username !== undefined || auth.password !== undefined) {
+    const accountId = accountsByUsername[(auth.username || '').toLowerCase()];
+    const account = accountId ? accounts[accountId] : undefined;
+    if (!account || !account.passwordHash || !(await checkPassword(auth.password || '', account.passwordHash))) {
+      return { ok: false, error: { reason: 'invalid_credentials' } };
+    }
+
+    return { ok: true, accountId: account.id, session: openSession(account, createToken(account)) };
+  }
+
+  if (auth.token !== undefined) {
+    const accountId = accountsBySession[hashToken(auth.token)];
+    if (!accountId) {
+      return { ok: false, error: { reason: 'invalid_token' } };
+    }
+
+    return { ok: true, accountId, session: openSession(accounts[accountId], auth.token) };
+  }
+
+  if (!allowGuest(address, Date.now())) {
+    return { ok: false, error: { reason: 'too_many_guests' } };
+  }
+
+  const account = createGuest();
+  return { ok: true, accountId: account.id, session: openSession(account, createToken(account)) };
+}
+
+/**
+ * Give a guest account a username and password
+ * @param {string} accountId - The guest's account
+ * @param {AccountCredentials} credentials - The chosen username and password
+ * @returns {Promise<ProfileResult>} - The updated profile, or why registering failed
+ */
+async function register(accountId: string, credentials: AccountCredentials): Promise<ProfileResult> {
+  const account = accounts[accountId];
+  if (!account) return { ok: false, error: { reason: 'invalid_token' } };
+  if (account.username) return { ok: false, error: { reason: 'already_registered' } };
+
+  if (!USERNAME_PATTERN.test(credentials.username)) {
+    return { ok: false, error: { reason: 'invalid_username' } };
+  }
+  if (credentials.password.length < MIN_PASSWORD_LENGTH) {
+    return { ok: false, error: { reason: 'invalid_password' } };
+  }
+
+  const passwordHash = await hashPassword(credentials.password);
+
+  // Checked after hashing, since someone else may have taken the name meanwhile
+  const key = credentials.username.toLowerCase();
+  if (accountsByUsername[key]) {
+    return { ok: false, error: { reason: 'username_taken' } };
+  }
+
+  account.username = credentials.username;
+  account.passwordHash = passwordHash;
+  accountsByUsername[key] = account.id;
+  scheduleSave();
+
+  console.log(`Account ${account.id} registered as ${account.username}`);
+  return { ok: true, profile: describeAccount(account) };
+}
+
+/**
+ * Change an account's display name or car color
+ * @param {string} accountId - The account
+ * @param {ProfileUpdate} update - The fields to change
+ * @returns {ProfileResult} - The updated profile, or why the change was refused
+ */
+function updateProfile(accountId: string, update: ProfileUpdate): ProfileResult {
+  const account = accounts[accountId];
+  if (!account) return { ok: false, error: { reason: 'invalid_token' } };
+
+  const displayName = update.displayName !== undefined ? update.displayName.trim() : account.displayName;
+  if (!DISPLAY_NAME_PATTERN.test(displayName)) {
+    return { ok: false, error: { reason: 'invalid_display_name' } };
+  }
+
+  account.displayName = displayName;
+  if (update.carColor !== undefined) {
+    account.carColor = update.carColor.toLowerCase();
+  }
+  scheduleSave();
+
+  return { ok: true, profile: describeAccount(account) };
+}
+
+/**
+ * Add to an account's lifetime stats and today's
+ * @param {string} accountId - The account
+ * @param {Partial<StatCounters>} stats - Amounts to add
+ */
+function recordStats(accountId: string, stats: Partial<StatCounters>): void {
+  const account = accounts[accountId];
+  if (!account) return;
+
+  addCounters(account.stats, stats);
+  addCounters(getToday(account), stats);
+  account.lastSeen = Date.now();
+  scheduleSave();
+}
+
+/**
+ * Keep a race lap time if it is the account's best of all time or of today
+ * @param {string} accountId - The account
+ * @param {number} time - The lap time (ms)
+ */
+function recordLap(accountId: string, time: number): void {
+  const account = accounts[accountId];
+  if (!account) return;
+
+  keepBestLap(account.stats, time);
+  keepBestLap(getToday(account), time);
+  scheduleSave();
+}
+
+/**
+ * Count a finished match towards an account's stats and add it to its history
+ * @param {string} accountId - The account
+ * @param {MatchRecord} match - The player's match
+ */
+function recordMatch(accountId: string, match: MatchRecord): void {
+  const account = accounts[accountId];
+  if (!account) return;
+
+  recordStats(accountId, { matchesPlayed: 1, matchesWon: match.won ? 1 : 0 });
+  account.recentMatches.unshift(match);
+  account.recentMatches.splice(RECENT_MATCHES);
+}
+
+/**
+ * Rank the accounts by one stat over a period
+ * @param {LeaderboardPeriod} period - Today, the last week or all time
+ * @param {LeaderboardStat} stat - The stat to rank by
+ * @param {number} size - How many of the top players to list
+ * @returns {Leaderboard} - The leaderboard
+ */
+function getLeaderboard(period: LeaderboardPeriod, stat: LeaderboardStat, size: number): Leaderboard {
+  const now = Date.now();
+  const ascending = stat === 'bestLapTime';
+
+  const ranked: { account: Account; value: number }[] = [];
+  Object.values(accounts).forEach(account => {
+    const value = getStatValue(getPeriodStats(account, period, now), stat);
+    if (value !== null) {
+      ranked.push({ account, value });
+    }
+  });
+  ranked.sort((a, b) => ascending ? a.value - b.value : b.value - a.value);
+
+  const entries: LeaderboardEntry[] = ranked
+    .slice(0, Math.max(1, Math.min(size, MAX_LEADERBOARD_SIZE)))
+    .map((entry, index) => ({
+      rank: index + 1,
+      accountId: entry.account.id,
+      displayName: entry.account.displayName,
+      value: entry.value
+    }));
+
+  return { period, stat, since: getPeriodStart(period, now), entries };
+}
+
+/**
+ * Write every account to disk now, e.g. when the server shuts down,
+ * dropping expired guests first
+ * @returns {Promise<void>} - Resolves once the file is written
+ */
+function save(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+
+  pruneGuests(Date.now());
+
+  // Writes queue up so an older one can't land after a newer one
+  const contents: AccountFile = { accounts: Object.values(accounts) };
+  const tempFile = `${accountsFile}.tmp`;
+  saving = saving
+    .then(() => writeFile(tempFile, JSON.stringify(contents)))
+    .then(() => rename(tempFile, accountsFile))
+    .catch(error => console.error('Failed to save accounts:', error));
+
+  return saving;
+}
+
+/**
+ * Save a while after a change, so bursts of changes are written once
+ */
+function scheduleSave(): void {
+  if (saveTimer) return;
+
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    save();
+  }, SAVE_DELAY);
+}
+
+/**
+ * Add an account to the store and its lookups
+ * @param {Account} account - The account
+ */
+function indexAccount(account: Account): void {
+  // Accounts saved by older servers lack the newer stats
+  account.stats = { ...createStats(), ...account.stats };
+  account.days = account.days || {};
+  account.recentMatches = account.recentMatches || [];
+
+  accounts[account.id] = account;
+  if (account.username) {
+    accountsByUsername[account.username.toLowerCase()] = account.id;
+  }
+  account.sessions.forEach(session => {
+    accountsBySession[session] = account.id;
+  });
+}
+
+/**
+ * Remove an account from the store and its lookups
+ * @param {Account} account - The account
+ */
+function forgetAccount(account: Account): void {
+  delete accounts[account.id];
+  if (account.username) {
+    delete accountsByUsername[account.username.toLowerCase()];
+  }
+  account.sessions.forEach(session => {
+    delete accountsBySession[session];
+  });
+}
+
+/**
+ * Drop guests that haven't been seen for too long, and forget guest
+ * creations that no longer count against their address
+ * @param {number} now - Current time (ms)
+ */
+function pruneGuests(now: number): void {
+  const expired = Object.values(accounts).filter(account => {
+    if (account.username) return false;
+
+    const expiry = account.stats.timeAlive > 0 ? GUEST_EXPIRY : IDLE_GUEST_EXPIRY;
+    return now - account.lastSeen > expiry;
+  });
+
+  expired.forEach(forgetAccount);
+  if (expired.length > 0) {
+    console.log(`Dropped ${expired.length} expired guest accounts`);
+  }
+
+  Object.keys(guestsByAddress).forEach(address => {
+    guestsByAddress[address] = guestsByAddress[address].filter(time => now - time < GUEST_LIMIT_WINDOW);
+    if (guestsByAddress[address].length === 0) {
+      delete guestsByAddress[address];
+    }
+  });
+}
+
+/**
+ * Count a new guest against its address, unless the address has made too many lately
+ * @param {string} address - The client's address
+ * @param {number} now - Current time (ms)
+ * @returns {boolean} - Whether the guest may be created
+ */
+function allowGuest(address: string, now: number): boolean {
+  const recent = (guestsByAddress[address] || []).filter(time => now - time < GUEST_LIMIT_WINDOW);
+  if (recent.length >= GUEST_LIMIT) {
+    guestsByAddress[address] = recent;
+    return false;
+  }
+
+  recent.push(now);
+  guestsByAddress[address] = recent;
+  return true;
+}
+
+/**
+ * Create a guest account with a placeholder name
+ * @returns {Account} - The new account
+ */
+function createGuest(): Account {
+  const id = randomBytes(8).toString('hex');
+  const now = Date.now();
+  const account: Account = {
+    id,
+    sessions: [],
+    displayName: `Guest ${id.substr(0, 5)}`,
+    stats: createStats(),
+    days: {},
+    recentMatches: [],
+    createdAt: now,
+    lastSeen: now
+  };
+
+  indexAccount(account);
+  console.log(`Guest account ${id} created`);
+  return account;
+}
+
+/**
+ * Issue a new session token for an account, logging out its oldest
+ * session if it has too many
+ * @param {Account} account - The account
+ * @returns {string} - The token
+ */
+function createToken(account: Account): string {
+  const token = randomBytes(TOKEN_BYTES).toString('hex');
+  const session = hashToken(token);
+
+  account.sessions.push(session);
+  accountsBySession[session] = account.id;
+
+  while (account.sessions.length > MAX_SESSIONS) {
+    delete accountsBySession[account.sessions.shift()!];
+  }
+
+  return token;
+}
+
+/**
+ * Note that an account logged in and describe the session for its client
+ * @param {Account} account - The account
+ * @param {string} token - The session token the client logs back in with
+ * @returns {AccountSession} - The session
+ */
+function openSession(account: Account, token: string): AccountSession {
+  account.lastSeen = Date.now();
+  scheduleSave();
+
+  return { token, profile: describeAccount(account) };
+}
+
+/**
+ * Describe an account for its owner
+ * @param {Account} account - The account
+ * @returns {Profile} - The account's profile
+ */
+function describeAccount(account: Account): Profile {
+  const profile: Profile = {
+    accountId: account.id,
+    displayName: account.displayName,
+    stats: { ...account.stats },
+    recentMatches: account.recentMatches.slice(),
+    createdAt: account.createdAt
+  };
+
+  if (account.username) {
+    profile.username = account.username;
+  }
+  if (account.carColor) {
+    profile.carColor = account.carColor;
+  }
+
+  return profile;
+}
+
+/**
+ * Stats with nothing counted
+ * @returns {LifetimeStats} - The stats
+ */
+function createStats(): LifetimeStats {
+  return {
+    kills: 0,
+    deaths: 0,
+    assists: 0,
+    shotsFired: 0,
+    shotsHit: 0,
+    damageDealt: 0,
+    distanceFlown: 0,
+    timeAlive: 0,
+    matchesPlayed: 0,
+    matchesWon: 0
+  };
+}
+
+/**
+ * Add counters to a set of stats
+ * @param {LifetimeStats} stats - The stats to add to
+ * @param {Partial<StatCounters>} amounts - Amounts to add
+ */
+function addCounters(stats: LifetimeStats, amounts: Partial<StatCounters>): void {
+  (Object.keys(amounts) as (keyof StatCounters)[]).forEach(stat => {
+    stats[stat] += amounts[stat] || 0;
+  });
+}
+
+/**
+ * Keep a lap time if it beats the stats' best
+ * @param {LifetimeStats} stats - The stats
+ * @param {number} time - The lap time (ms)
+ */
+function keepBestLap(stats: LifetimeStats, time: number): void {
+  if (stats.bestLapTime === undefined || time < stats.bestLapTime) {
+    stats.bestLapTime = time;
+  }
+}
+
+/**
+ * Get an account's stats for today, dropping days too old for the weekly leaderboard
+ * @param {Account} account - The account
+ * @returns {LifetimeStats} - Today's stats
+ */
+function getToday(account: Account): LifetimeStats {
+  const now = Date.now();
+  const today = getDayKey(now);
+
+  if (!account.days[today]) {
+    const oldest = getDayKey(now - (WEEK_DAYS - 1) * DAY);
+    Object.keys(account.days).forEach(day => {
+      if (day < oldest) {
+        delete account.days[day];
+      }
+    });
+    account.days[today] = createStats();
+  }
+
+  return account.days[today];
+}
+
+/**
+ * Add up an account's stats over a leaderboard period
+ * @param {Account} account - The account
+ * @param {LeaderboardPeriod} period - The period
+ * @param {number} now - Current time (ms)
+ * @returns {LifetimeStats} - The account's stats over the period
+ */
+function getPeriodStats(account: Account, period: LeaderboardPeriod, now: number): LifetimeStats {
+  if (period === 'all_time') return account.stats;
+
+  const total = createStats();
+  const days = period === 'daily' ? 1 : WEEK_DAYS;
+  for (let i = 0; i < days; i++) {
+    const stats = account.days[getDayKey(now - i * DAY)];
+    if (stats) {
+      addCounters(total, stats);
+      if (stats.bestLapTime !== undefined) {
+        keepBestLap(total, stats.bestLapTime);
+      }
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Get the value a leaderboard ranks by
+ * @param {LifetimeStats} stats - A player's stats over the period
+ * @param {LeaderboardStat} stat - The leaderboard's stat
+ * @returns {number | null} - The value, or null if the player doesn't qualify
+ */
+function getStatValue(stats: LifetimeStats, stat: LeaderboardStat): number | null {
+  if (stat === 'accuracy') {
+    return stats.shotsFired >= MIN_ACCURACY_SHOTS ? stats.shotsHit / stats.shotsFired : null;
+  }
+  if (stat === 'bestLapTime') {
+    return stats.bestLapTime !== undefined ? stats.bestLapTime : null;
+  }
+
+  // Players who haven't done it at all are left off
+  return stats[stat] > 0 ? stats[stat] : null;
+}
+
+/**
+ * Get when a leaderboard period began
+ * @param {LeaderboardPeriod} period - The period
+ * @param {number} now - Current time (ms)
+ * @returns {number | null} - Start of the period (ms), or null for all time
+ */
+function getPeriodStart(period: LeaderboardPeriod, now: number): number | null {
+  if (period === 'all_time') return null;
+
+  const days = period === 'daily' ? 1 : WEEK_DAYS;
+  return Date.parse(getDayKey(now - (days - 1) * DAY));
+}
+
+/**
+ * Name the UTC day a time falls on
+ * @param {number} time - The time (ms)
+ * @returns {string} - The day, as 'YYYY-MM-DD'
+ */
+function getDayKey(time: number): string {
+  return new Date(time).toISOString().substr(0, 10);
+}
+
+/**
+ * Hash a session token for storage; tokens are random, so no salt is needed
+ * @param {string} token - The token
+ * @returns {string} - The hash, hex
+ */
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Hash a password with a new salt
+ * @param {string} password - The password
+ * @returns {Promise<string>} - Salt and hash, as 'salt:hash'
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const hash = await deriveKey(password, salt);
+  return `${salt}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash
+ * @param {string} password - The password to check
+ * @param {string} passwordHash - Salt and hash, as 'salt:hash'
+ * @returns {Promise<boolean>} - Whether the password matches
+ */
+async function checkPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [salt, expected] = passwordHash.split(':');
+  const hash = await deriveKey(password, salt);
+  return timingSafeEqual(hash, Buffer.from(expected, 'hex'));
+}
+
+/**
+ * Run scrypt without blocking the room loops
+ * @param {string} password - The password
+ * @param {string} salt - The salt, hex
+ * @returns {Promise<Buffer>} - The derived key
+ */
+function deriveKey(password: string, salt: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, HASH_LENGTH, (error, key) => error ? reject(error) : resolve(key));
+  });
+}
@@ -1,7 +1,7 @@
 /**
  * Server-side ad engine - manages billboard advertisements
  */
-import { Vector3 } from '../../types.js';
+import { Vector3, BillboardAd } from '../../types.js';
 
 interface AdSize {
   width: number;
@@ -22,18 +22,6 @@ interface Billboard {
   size: AdSize;
 }
 
-interface ActiveAd {
-  id: string;
-  billboardId: string;
-  name: string;
-  content: string;
-  color: string;
-  startTime: number;
-  endTime: number;
-  position: Vector3;
-  size: AdSize;
-}
-
 interface GameStateInterface {
   getAllPlayers: () => Record<string, Player>;
 }
@@ -43,9 +31,9 @@ interface Player {
   position: Vector3;
 }
 
-interface AdEngineInterface {
+export interface AdEngineInterface {
   update: (deltaTime: number) => void;
-  getActiveAds: () => Record<string, ActiveAd>;
+  getActiveAds: () => Record<string, BillboardAd>;
   getAdById: (adId: string) => AdData | null;
   getAllAds: () => AdData[];
   getBillboardLocations: () => Billboard[];
@@ -102,28 +90,31 @@ const BILLBOARD_LOCATIONS: Billboard[] = [
   { id: 'billboard8', position: { x: 120, y: 180, z: -70 }, size: { width: 48, height: 30 } }
 ];
 
-// Active ads state
-let activeAds: Record<string, ActiveAd> = {};
-
-// Game state reference
-let gameState: GameStateInterface | null = null;
+// A room's billboards and the game they are shown in
+interface AdState {
+  activeAds: Record<string, BillboardAd>;
+  gameState: GameStateInterface;
+}
 
 /**
- * Initialize the ad engine
- * @param {GameStateInterface} state - The game state
+ * Initialize the ad engine for one room
+ * @param {GameStateInterface} gameState - The room's game state
  * @returns {AdEngineInterface} - The ad engine
  */
-export function initializeAdEngine(state: GameStateInterface): AdEngineInterface {
-  gameState = state;
+export function initializeAdEngine(gameState: GameStateInterface): AdEngineInterface {
+  const state: AdState = {
+    activeAds: {},
+    gameState
+  };
   
   // Create initial ad assignments
   BILLBOARD_LOCATIONS.forEach(billboard => {
-    assignAdToBillboard(billboard.id);
+    assignAdToBillboard(state, billboard.id);
   });
   
   return {
-    update,
-    getActiveAds,
+    update: (deltaTime) => update(state, deltaTime),
+    getActiveAds: () => getActiveAds(state),
     getAdById,
     getAllAds: () => ADS,
     getBillboardLocations: () => BILLBOARD_LOCATIONS
@@ -132,9 +123,10 @@ export function initializeAdEngine(state: GameStateInterface): AdEngineInterface
 
 /**
  * Assign an ad to a billboard
+ * @param {AdState} state - The room's ad state
  * @param {string} billboardId - The billboard ID
  */
-function assignAdToBillboard(billboardId: string): void {
+function assignAdToBillboard(state: AdState, billboardId: string): void {
   // Choose a random ad
   const adIndex = Math.floor(Math.random() * ADS.length);
   const ad = ADS[adIndex];
@@ -145,7 +137,7 @@ function assignAdToBillboard(billboardId: string): void {
   if (!billboard) return;
   
   // Create active ad
-  activeAds[billboardId] = {
+  state.activeAds[billboardId] = {
     id: ad.id,
     billboardId,
     name: ad.name,
@@ -160,52 +152,52 @@ function assignAdToBillboard(billboardId: string): void {
 
 /**
  * Update the ad engine
+ * @param {AdState} state - The room's ad state
  * @param {number} deltaTime - Time since last update in seconds
  */
-function update(deltaTime: number): void {
+function update(state: AdState, deltaTime: number): void {
   const now = Date.now();
   
   // Check for expired ads
-  Object.keys(activeAds).forEach(billboardId => {
-    const ad = activeAds[billboardId];
+  Object.keys(state.activeAds).forEach(billboardId => {
+    const ad = state.activeAds[billboardId];
     
     if (now > ad.endTime) {
       // Assign a new ad
-      assignAdToBillboard(billboardId);
+      assignAdToBillboard(state, billboardId);
     }
   });
   
   // Check for player proximity to adjust ads
-  if (gameState) {
-    const players = gameState.getAllPlayers();
+  const players = state.gameState.getAllPlayers();
+  
+  // For each player
+  Object.values(players).forEach(player => {
+    if (!player.isAlive) return;
     
-    // For each player
-    Object.values(players).forEach(player => {
-      if (!player.isAlive) return;
+    // Check distance to each billboard
+    BILLBOARD_LOCATIONS.forEach(billboard => {
+      const dx = player.position.x - billboard.position.x;
+      const dy = player.position.y - billboard.position.y;
+      const dz = player.position.z - billboard.position.z;
+      const distance = Math.sqrt(dx*dx + dy*dy + dz*dz);
       
-      // Check distance to each billboard
-      BILLBOARD_LOCATIONS.forEach(billboard => {
-        const dx = player.position.x - billboard.position.x;
-        const dy = player.position.y - billboard.position.y;
-        const dz = player.position.z - billboard.position.z;
-        const distance = Math.sqrt(dx*dx + dy*dy + dz*dz);
-        
-        // If player is close to a billboard, potentially change the ad
-        if (distance < 100 && Math.random() < 0.001) {
-          // 0.1% chance per frame to change ad when player is nearby
-          assignAdToBillboard(billboard.id);
-        }
-      });
+      // If player is close to a billboard, potentially change the ad
+      if (distance < 100 && Math.random() < 0.001) {
+        // 0.1% chance per frame to change ad when player is nearby
+        assignAdToBillboard(state, billboard.id);
+      }
     });
-  }
+  });
 }
 
 /**
  * Get all active ads
- * @returns {Record<string, ActiveAd>} - Active ads by billboard ID
+ * @param {AdState} state - The room's ad state
+ * @returns {Record<string, BillboardAd>} - Active ads by billboard ID
  */
-function getActiveAds(): Record<string, ActiveAd> {
-  return activeAds;
+function getActiveAds(state: AdState): Record<string, BillboardAd> {
+  return state.activeAds;
 }
 
 /**
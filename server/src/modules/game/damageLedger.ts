@@ -0,0 +1,83 @@
+/**
+ * Damage ledger - who hurt a car during its current life, so its death can
+ * be credited to the right player and the others who helped get assists.
+ * A crash shortly after being shot counts as the shooter's kill.
+ */
+
+// Damage one attacker has done to a car this life
+export interface DamageRecord {
+  damage: number;
+  lastHitTime: number;
+}
+
+// Every attacker's damage to one car, by attacker ID
+export type DamageLedger = Record<string, DamageRecord>;
+
+// Who gets credit for a death
+export interface KillCredit {
+  killerId: string | null;
+  assistIds: string[];
+}
+
+const CRASH_CREDIT_WINDOW = 5000; // A crash this soon after a hit is the attacker's kill (ms)
+const ASSIST_WINDOW = 10000;      // How recent damage must be to earn an assist (ms)
+const ASSIST_MIN_DAMAGE = 20;     // Damage an attacker must have done for an assist
+
+/**
+ * Add an attacker's damage to a car's ledger
+ * @param {DamageLedger} ledger - The car's ledger
+ * @param {string} attackerId - The attacking player's ID
+ * @param {number} damage - Damage done, shield and hull together
+ * @param {number} now - Current time (ms)
+ */
+export function recordDamage(ledger: DamageLedger, attackerId: string, damage: number, now: number): void {
+  if (damage <= 0) return;
+
+  const record = ledger[attackerId];
+  if (record) {
+    record.damage += damage;
+    record.lastHitTime = now;
+  } else {
+    ledger[attackerId] = { damage, lastHitTime: now };
+  }
+}
+
+/**
+ * Work out who gets the kill and the assists for a death
+ * @param {DamageLedger} ledger - The dead car's ledger
+ * @param {string | null} attackerId - The player who dealt the final blow, or null for a crash
+ * @param {number} now - Current time (ms)
+ * @returns {KillCredit} - The killer and assisting players
+ */
+export function creditKill(ledger: DamageLedger, attackerId: string | null, now: number): KillCredit {
+  const killerId = attackerId !== null ? attackerId : findLastAttacker(ledger, now);
+
+  const assistIds = Object.keys(ledger).filter(id => {
+    const record = ledger[id];
+    return id !== killerId &&
+      record.damage >= ASSIST_MIN_DAMAGE &&
+      now - record.lastHitTime <= ASSIST_WINDOW;
+  });
+
+  return { killerId, assistIds };
+}
+
+/**
+ * Find whoever hit the car last, if it was recent enough to have caused a crash
+ * @param {DamageLedger} ledger - The car's ledger
+ * @param {number} now - Current time (ms)
+ * @returns {string | null} - The attacker's ID, or null
+ */
+function findLastAttacker(ledger: DamageLedger, now: number): string | null {
+  let lastAttackerId: string | null = null;
+  let lastHitTime = now - CRASH_CREDIT_WINDOW;
+
+  Object.keys(ledger).forEach(id => {
+    if (ledger[id].lastHitTime >= lastHitTime) {
+      lastAttackerId = id;
+      lastHitTime = ledger[id].lastHitTime;
+    }
+  });
+
+  return lastAttackerId;
+}
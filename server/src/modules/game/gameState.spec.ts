@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameStateManager, Player, initializeGameState } from './gameState.js';
+
+const START = 1700000000000;
+
+// Above the rooftops, so no building is in the way
+const SHOOTER_POSITION = { x: 0, y: 900, z: 0 };
+const TARGET_POSITION = { x: 0, y: 900, z: 100 };
+
+// Aim straight at the target, or straight away from it
+const AT_TARGET = { x: 0, y: 0, z: 0 };
+const AWAY = { x: 0, y: Math.PI, z: 0 };
+
+let gameState: GameStateManager;
+let shooter: Player;
+
+/**
+ * Turn the shooter and fire its rapid laser
+ * @param {number} id - The shooter's number for the shot
+ * @param {{x: number, y: number, z: number}} rotation - Where the shot is aimed
+ * @returns {boolean} - Whether the server accepted the shot
+ */
+function fire(id: number, rotation: { x: number; y: number; z: number }): boolean {
+  shooter.rotation = { ...rotation };
+  return gameState.fireWeapon('shooter', { id, position: { ...SHOOTER_POSITION }, rotation: { ...rotation } }) !== null;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: START, toFake: ['Date'] });
+
+  gameState = initializeGameState();
+  shooter = gameState.addPlayer('shooter', { name: 'Shooter' });
+  const target = gameState.addPlayer('target', { name: 'Target' });
+
+  // Past spawn protection
+  vi.setSystemTime(START + 10000);
+  shooter.position = { ...SHOOTER_POSITION };
+  target.position = { ...TARGET_POSITION };
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('validateLaserHit', () => {
+  it('checks the shot the claim names, not the newest one', () => {
+    expect(fire(1, AT_TARGET)).toBe(true);
+    vi.setSystemTime(START + 10250);
+    expect(fire(2, AWAY)).toBe(true);
+
+    const hit = gameState.validateLaserHit('shooter', { shotId: 1, targetId: 'target' });
+
+    expect(hit.accepted).toBe(true);
+    expect(gameState.validateLaserHit('shooter', { shotId: 2, targetId: 'target' })).toEqual({ accepted: false, reason: 'miss' });
+  });
+
+  it('refuses a hit from a shot the server rejected instead of giving it to an earlier laser', () => {
+    expect(fire(1, AT_TARGET)).toBe(true);
+
+    // Too soon after the last shot for the rapid laser's cooldown
+    vi.setSystemTime(START + 10100);
+    expect(fire(2, AT_TARGET)).toBe(false);
+
+    expect(gameState.validateLaserHit('shooter', { shotId: 2, targetId: 'target' })).toEqual({ accepted: false, reason: 'no_shot' });
+    expect(gameState.validateLaserHit('shooter', { shotId: 1, targetId: 'target' }).accepted).toBe(true);
+  });
+
+  it('lets each shot hit only once', () => {
+    fire(1, AT_TARGET);
+
+    expect(gameState.validateLaserHit('shooter', { shotId: 1, targetId: 'target' }).accepted).toBe(true);
+    expect(gameState.validateLaserHit('shooter', { shotId: 1, targetId: 'target' })).toEqual({ accepted: false, reason: 'no_shot' });
+  });
+
+  it('does not accept another player\'s shot number', () => {
+    fire(1, AT_TARGET);
+
+    const other = gameState.addPlayer('other', { name: 'Other' });
+    other.position = { x: 0, y: 900, z: -100 };
+
+    expect(gameState.validateLaserHit('other', { shotId: 1, targetId: 'target' })).toEqual({ accepted: false, reason: 'no_shot' });
+  });
+});
@@ -2,37 +2,157 @@
  * Game state module - maintains the authoritative game state on the server
  */
 
-import { Vector3 } from '../../types.js';
+import {
+  PlayerInput,
+  PlayerData,
+  Building,
+  HitRejectionReason,
+  TeamId,
+  Vector3,
+  WeaponId,
+  DamageType,
+  LaserData,
+  MissileDestroyed,
+  FlareDeploy,
+  ActivePowerUps,
+  PowerUpType,
+  PickupState,
+  PickupUpdate,
+  PlayerDiedEvent,
+  PlayerRespawnEvent
+} from '../../types.js';
+import {
+  HistorySample,
+  recordHistory,
+  getHistoricalPosition,
+  raySphereIntersection,
+  rayBoxIntersection
+} from './lagCompensation.js';
+import { PickupSpawn, DEFAULT_PICKUP_SPAWNS, createPickups } from './pickups.js';
+import { DamageLedger, recordDamage, creditKill } from './damageLedger.js';
+import { StatTracker, createStatTracker, addStat } from './statTracker.js';
+import { SpawnPoint, getSpawnSet, createSpawnPoints, chooseSpawnPoint } from './spawns.js';
+import { generateCityLayout, DEFAULT_CITY_SEED } from '../../../../shared/world/city.js';
+import {
+  WEAPONS,
+  DEFAULT_WEAPON,
+  WEAPON_SWITCH_TIME,
+  getWeaponRange,
+  createAmmo
+} from '../../../../shared/combat/weapons.js';
+import {
+  MAX_ENERGY,
+  isOverheated,
+  addWeaponHeat,
+  coolWeapons,
+  updateEnergy
+} from '../../../../shared/combat/resources.js';
+import {
+  LOCK_ANGLE,
+  LOCK_RANGE,
+  MISSILE_SEEKER_ANGLE,
+  MISSILE_HIT_RADIUS,
+  FLARE_COUNT,
+  FLARE_COOLDOWN,
+  FLARE_LIFETIME,
+  FLARE_DECOY_RANGE,
+  isInCone,
+  steerMissile,
+  getFlarePosition
+} from '../../../../shared/combat/missiles.js';
+import {
+  MAX_HEALTH,
+  MAX_SHIELD,
+  applyDamage,
+  regenerateShield
+} from '../../../../shared/combat/damage.js';
+import {
+  POWER_UPS,
+  PICKUP_RADIUS,
+  REPAIR_AMOUNT,
+  DOUBLE_DAMAGE_MULTIPLIER,
+  OVERDRIVE_MULTIPLIER,
+  hasPowerUp,
+  expirePowerUps
+} from '../../../../shared/combat/powerups.js';
 
 // Interfaces
-interface Player {
+
+// How a player's car looks to everyone else, from their profile
+export interface PlayerAppearance {
+  name: string;
+  color?: string; // Car paint outside team modes, as a hex string
+}
+
+export interface Player {
   id: string;
+  name: string;
+  color?: string; // Car paint outside team modes
+  team?: TeamId;
   position: Vector3;
   rotation: Vector3;
   velocity: Vector3;
   health: number;
+  shield: number;
+  lastDamageTime: number; // Shields recharge a while after this
+  damageLedger: DamageLedger; // Who has hurt this car during its current life
+  stats: StatTracker; // Shots, hits, damage, distance and so on, for the match and the account
   score: number;
   lastUpdate: number;
   isAlive: boolean;
   respawnTime: number;
-  lastShotTime: number;
+  spawnProtectedUntil: number; // Can't be hurt until this time, unless it fires
+  weapon: WeaponId;
+  ammo: Partial<Record<WeaponId, number>>; // Shots left for weapons with limited ammo
+  weaponSwitchTime: number;
+  weaponShotTimes: Partial<Record<WeaponId, number>>; // When each weapon last fired
+  lastShotTime: number; // When any weapon last fired
+  heat: number;
+  overheatedUntil: number; // Weapons are locked until this time
+  energy: number; // Boost energy
+  flares: number; // Flares left this life
+  lastFlareTime: number;
+  powerUps: ActivePowerUps; // When each running power-up wears off
+  inputQueue: PlayerInput[];
+  lastProcessedInput: number;
+  inputBudget: number;
+  history: HistorySample[];
 }
 
 interface Laser {
   id: string;
+  shotId: number; // The shooter's number for the shot, which its hit claim names
   playerId: string;
+  weapon: WeaponId;
   position: Vector3;
   rotation: Vector3;
   velocity: Vector3;
+  origin: Vector3;
+  direction: Vector3;
   createdAt: number;
   timeToLive: number;
+  claimed: boolean;
 }
 
-interface Building {
+interface Missile {
+  id: string;
+  playerId: string;
+  targetId: string | null; // Null once the seeker has lost the target
+  decoyId: string | null; // The flare it is chasing instead, if any
   position: Vector3;
-  size: Vector3;
-  type: string;
-  height: number;
+  direction: Vector3;
+  speed: number;
+  damage: number;
+  damageType: DamageType;
+  createdAt: number;
+  timeToLive: number;
+}
+
+interface Flare {
+  id: string;
+  playerId: string;
+  position: Vector3; // Where it was dropped
+  createdAt: number;
 }
 
 interface CityBounds {
@@ -44,45 +164,112 @@ interface CityBounds {
   maxZ: number;
 }
 
-interface PlayerData {
-  id: string;
-  position: Vector3;
-  rotation: Vector3;
-  velocity: Vector3;
-  health: number;
-  score: number;
-  isAlive: boolean;
-}
-
 interface HitResult {
   success: boolean;
   killed?: boolean;
   health?: number;
+  shield?: number;
+  shieldDamage?: number; // Damage the shield absorbed
+  hullDamage?: number; // Damage that reached the hull
   sourceId?: string;
 }
 
+// A shot the server accepted
+interface Shot {
+  id: string;
+  shotId: number; // The shooter's number for the shot
+  weapon: WeaponId;
+  position: Vector3;
+  rotation: Vector3;
+  direction: Vector3;
+  targets: string[]; // Players caught in a burst
+  targetId?: string; // Locked target of a missile
+}
+
+interface HitClaim {
+  shotId: number;
+  targetId: string;
+  viewTime?: number;
+}
+
+// Rules a match mode layers on top of the simulation
+export interface GameModeRules {
+  onPlayerJoin: (player: Player) => void;
+  onPlayerLeave: (playerId: string) => void;
+  canDamage: (attacker: Player, target: Player) => boolean;
+  onPlayerKilled: (victim: Player, kill: PlayerDiedEvent) => void;
+  update: (deltaTime: number) => void;
+}
+
+// How the simulation reports what missiles and pickups did, and deaths and respawns
+export interface CombatEvents {
+  onMissileHit: (shooterId: string, targetId: string, damage: number, damageType: DamageType, position: Vector3) => void;
+  onMissileDestroyed: (missile: MissileDestroyed) => void;
+  onPickupUpdate: (update: PickupUpdate) => void;
+  onPlayerKilled: (kill: PlayerDiedEvent) => void;
+  onPlayerRespawn: (playerId: string, respawn: PlayerRespawnEvent) => void;
+}
+
+// Everything one room simulates
+interface GameWorld {
+  players: Record<string, Player>;
+  lasers: Laser[];
+  missiles: Missile[];
+  flares: Flare[];
+  pickups: PickupState[];
+  spawnPoints: SpawnPoint[];
+  cityLayout: Building[];
+  rules: GameModeRules | null;
+  events: CombatEvents | null;
+}
+
+type HitValidation =
+  | { accepted: true; position: Vector3; damage: number; damageType: DamageType; weapon: WeaponId }
+  | { accepted: false; reason: HitRejectionReason };
+
 export interface GameStateManager {
-  addPlayer: (playerId: string, initialData: Partial<Player>) => Player;
+  addPlayer: (playerId: string, appearance: PlayerAppearance) => Player;
+  setPlayerAppearance: (playerId: string, appearance: PlayerAppearance) => void;
   removePlayer: (playerId: string) => void;
-  updatePlayer: (playerId: string, updateData: Partial<Player>) => Player | null;
-  firePlayerLaser: (playerId: string, laserData: Partial<Laser>) => Laser | null;
-  playerHit: (playerId: string, damage: number, sourceId: string) => HitResult;
+  queuePlayerInput: (playerId: string, inputs: PlayerInput[]) => void;
+  selectWeapon: (playerId: string, weapon: WeaponId) => void;
+  fireWeapon: (playerId: string, shotData: LaserData) => Shot | null;
+  deployFlare: (playerId: string) => FlareDeploy | null;
+  playerHit: (playerId: string, damage: number, sourceId: string, damageType: DamageType, weapon?: WeaponId) => HitResult;
+  validateLaserHit: (shooterId: string, claim: HitClaim) => HitValidation;
   update: (deltaTime: number) => void;
+  respawnPlayer: (playerId: string) => void;
+  setRules: (rules: GameModeRules | null) => void;
   getPlayerById: (playerId: string) => Player | null;
   getAllPlayers: () => Record<string, Player>;
   getPlayersData: () => Record<string, PlayerData>;
   getLasers: () => Laser[];
+  getPickups: () => PickupState[];
   getCityLayout: () => Building[];
   CITY_BOUNDS: CityBounds;
-  LASER_DAMAGE: number;
 }
 
 // Game physics constants
 const GRAVITY = 9.8; // Gravity acceleration (m/s^2)
-const DRAG_COEFFICIENT = 0.1; // Air resistance
+const DRAG_COEFFICIENT = 3; // Air resistance (fraction of velocity lost per second)
 const MAX_VELOCITY = 200; // Maximum velocity (m/s)
+const THRUST_ACCELERATION = 60; // Acceleration at full throttle (m/s^2)
+const BOOST_MULTIPLIER = 2; // Thrust and speed multiplier while boosting
+const MAX_CRUISE_SPEED = 50; // Horizontal speed cap without boost (m/s)
+const MAX_TURN_RATE = 6; // Maximum yaw/pitch/roll rate (rad/s)
+const MAX_PITCH = 0.4; // Pitch limit (radians)
+const MAX_ROLL = 0.3; // Roll limit (radians)
+const MAX_INPUT_DT = 0.1; // Longest frame a single input may cover (seconds)
+const MAX_INPUT_BUDGET = 0.25; // Simulation time a client may bank ahead of the server (seconds)
+const MAX_QUEUED_INPUTS = 120; // Inputs buffered per player before new ones are dropped
 const COLLISION_DAMAGE = 20; // Damage from collisions
-const LASER_DAMAGE = 10; // Damage from laser hits
+const RESPAWN_DELAY = 3000; // Time from death to respawn (ms)
+const SPAWN_PROTECTION_TIME = 3000; // Invulnerability after spawning (ms)
+const LASER_HIT_RADIUS = 5; // Radius of a car's hit sphere
+const MAX_REWIND_TIME = 500; // Furthest a hit may be checked in the past (ms)
+const MAX_SHOT_ORIGIN_ERROR = 20; // Allowed distance between claimed and server muzzle position
+const MAX_SHOT_ANGLE_ERROR = 0.25; // Allowed angle between claimed and server aim (radians), on top of weapon spread
+const FIRE_TIMING_TOLERANCE = 50; // Network jitter allowed on cooldowns and charge times (ms)
 const CITY_BOUNDS: CityBounds = {
   minX: -1000,
   maxX: 1000,
@@ -92,150 +279,504 @@ const CITY_BOUNDS: CityBounds = {
   maxZ: 1000
 };
 
-// Game state
-let players: Record<string, Player> = {};
-let lasers: Laser[] = [];
-let cityLayout: Building[] = generateCityLayout();
-
 /**
- * Initialize the game state
+ * Initialize the game state for one room
+ * @param {number} citySeed - Seed of the room's city
+ * @param {CombatEvents | null} events - Where missile hits, pickups, deaths and respawns are reported
+ * @param {PickupSpawn[]} pickupSpawns - Where power-ups appear (empty for none)
  * @returns {GameStateManager} - The game state manager
  */
-export function initializeGameState(): GameStateManager {
+export function initializeGameState(
+  citySeed: number = DEFAULT_CITY_SEED,
+  events: CombatEvents | null = null,
+  pickupSpawns: PickupSpawn[] = DEFAULT_PICKUP_SPAWNS
+): GameStateManager {
+  const cityLayout = generateCityLayout(citySeed);
+  const world: GameWorld = {
+    players: {},
+    lasers: [],
+    missiles: [],
+    flares: [],
+    pickups: createPickups(cityLayout, pickupSpawns),
+    spawnPoints: createSpawnPoints(cityLayout, getSpawnSet(citySeed)),
+    cityLayout,
+    rules: null,
+    events
+  };
+  
   return {
-    addPlayer,
-    removePlayer,
-    updatePlayer,
-    firePlayerLaser,
-    playerHit,
-    update,
-    getPlayerById,
-    getAllPlayers,
-    getPlayersData,
-    getLasers,
-    getCityLayout,
-    CITY_BOUNDS,
-    LASER_DAMAGE
+    addPlayer: (playerId, appearance) => addPlayer(world, playerId, appearance),
+    setPlayerAppearance: (playerId, appearance) => setPlayerAppearance(world, playerId, appearance),
+    removePlayer: (playerId) => removePlayer(world, playerId),
+    queuePlayerInput: (playerId, inputs) => queuePlayerInput(world, playerId, inputs),
+    selectWeapon: (playerId, weapon) => selectWeapon(world, playerId, weapon),
+    fireWeapon: (playerId, shotData) => fireWeapon(world, playerId, shotData),
+    deployFlare: (playerId) => deployFlare(world, playerId),
+    playerHit: (playerId, damage, sourceId, damageType, weapon) => playerHit(world, playerId, damage, sourceId, damageType, weapon),
+    validateLaserHit: (shooterId, claim) => validateLaserHit(world, shooterId, claim),
+    update: (deltaTime) => update(world, deltaTime),
+    respawnPlayer: (playerId) => respawnPlayer(world, playerId),
+    setRules: (rules) => { world.rules = rules; },
+    getPlayerById: (playerId) => getPlayerById(world, playerId),
+    getAllPlayers: () => getAllPlayers(world),
+    getPlayersData: () => getPlayersData(world),
+    getLasers: () => getLasers(world),
+    getPickups: () => getPickups(world),
+    getCityLayout: () => getCityLayout(world),
+    CITY_BOUNDS
   };
 }
 
 /**
- * Add a new player to the game
+ * Add a new player to the game at a server-chosen spawn point
+ * @param {GameWorld} world - The room's world
  * @param {string} playerId - The player's ID
- * @param {Partial<Player>} initialData - The player's initial data
+ * @param {PlayerAppearance} appearance - The player's name and car paint
  * @returns {Player} - The created player
  */
-function addPlayer(playerId: string, initialData: Partial<Player>): Player {
-  const spawnPoint = getRandomSpawnPoint();
-  
-  players[playerId] = {
+function addPlayer(world: GameWorld, playerId: string, appearance: PlayerAppearance): Player {
+  const player: Player = {
     id: playerId,
-    position: initialData.position || spawnPoint,
-    rotation: initialData.rotation || { x: 0, y: 0, z: 0 },
-    velocity: initialData.velocity || { x: 0, y: 0, z: 0 },
-    health: 100,
+    name: appearance.name,
+    color: appearance.color,
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    health: MAX_HEALTH,
+    shield: MAX_SHIELD,
+    lastDamageTime: 0,
+    damageLedger: {},
+    stats: createStatTracker(),
     score: 0,
     lastUpdate: Date.now(),
     isAlive: true,
     respawnTime: 0,
-    lastShotTime: 0
+    spawnProtectedUntil: Date.now() + SPAWN_PROTECTION_TIME,
+    weapon: DEFAULT_WEAPON,
+    ammo: createAmmo(),
+    weaponSwitchTime: 0,
+    weaponShotTimes: {},
+    lastShotTime: 0,
+    heat: 0,
+    overheatedUntil: 0,
+    energy: MAX_ENERGY,
+    flares: FLARE_COUNT,
+    lastFlareTime: 0,
+    powerUps: {},
+    inputQueue: [],
+    lastProcessedInput: 0,
+    inputBudget: 0,
+    history: []
   };
   
-  return players[playerId];
+  world.players[playerId] = player;
+  
+  // Let the match mode assign a team, then spawn on the team's side
+  world.rules?.onPlayerJoin(player);
+  player.position = findSpawnPoint(world, player);
+  
+  return player;
+}
+
+/**
+ * Change a player's name and car paint, e.g. after they edit their profile
+ * @param {GameWorld} world - The room's world
+ * @param {string} playerId - The player's ID
+ * @param {PlayerAppearance} appearance - The new name and paint
+ */
+function setPlayerAppearance(world: GameWorld, playerId: string, appearance: PlayerAppearance): void {
+  const player = world.players[playerId];
+  if (!player) return;
+  
+  player.name = appearance.name;
+  player.color = appearance.color;
 }
 
 /**
  * Remove a player from the game
+ * @param {GameWorld} world - The room's world
  * @param {string} playerId - The player's ID
  */
-function removePlayer(playerId: string): void {
-  delete players[playerId];
+function removePlayer(world: GameWorld, playerId: string): void {
+  delete world.players[playerId];
+  
+  // Players who left can't be credited with kills
+  Object.values(world.players).forEach(player => {
+    delete player.damageLedger[playerId];
+  });
+  
+  world.rules?.onPlayerLeave(playerId);
 }
 
 /**
- * Update a player's data
+ * Queue input frames sent by a player's client for the next simulation step
+ * @param {GameWorld} world - The room's world
  * @param {string} playerId - The player's ID
- * @param {Partial<Player>} updateData - The player's updated data
- * @returns {Player | null} - The updated player or null
+ * @param {PlayerInput[]} inputs - Input frames in sequence order
  */
-function updatePlayer(playerId: string, updateData: Partial<Player>): Player | null {
-  const player = players[playerId];
-  if (!player) return null;
+function queuePlayerInput(world: GameWorld, playerId: string, inputs: PlayerInput[]): void {
+  const player = world.players[playerId];
+  if (!player || !Array.isArray(inputs)) return;
   
-  // Update player data
-  if (updateData.position) player.position = updateData.position;
-  if (updateData.rotation) player.rotation = updateData.rotation;
-  if (updateData.velocity) player.velocity = updateData.velocity;
+  for (const rawInput of inputs) {
+    const input = sanitizeInput(rawInput);
+    if (!input) continue;
+    
+    // Ignore duplicated or out-of-order frames
+    const lastSeq = player.inputQueue.length > 0
+      ? player.inputQueue[player.inputQueue.length - 1].seq
+      : player.lastProcessedInput;
+    if (input.seq <= lastSeq) continue;
+    
+    // Dead players can't steer, but their inputs are still acknowledged
+    if (!player.isAlive) {
+      player.lastProcessedInput = input.seq;
+      continue;
+    }
+    
+    if (player.inputQueue.length >= MAX_QUEUED_INPUTS) break;
+    player.inputQueue.push(input);
+  }
   
   player.lastUpdate = Date.now();
+}
+
+/**
+ * Validate an input frame and clamp it to legal ranges
+ * @param {PlayerInput} input - The raw input frame from the client
+ * @returns {PlayerInput | null} - The sanitized input or null if malformed
+ */
+function sanitizeInput(input: PlayerInput): PlayerInput | null {
+  if (!input || !Number.isInteger(input.seq) || input.seq <= 0) return null;
+  if (!Number.isFinite(input.dt) || input.dt <= 0) return null;
   
-  return player;
+  const dt = Math.min(input.dt, MAX_INPUT_DT);
+  const maxTurn = MAX_TURN_RATE * dt;
+  
+  return {
+    seq: input.seq,
+    dt,
+    throttle: clamp(input.throttle, -1, 1),
+    strafe: clamp(input.strafe, -1, 1),
+    vertical: clamp(input.vertical, -1, 1),
+    yaw: clamp(input.yaw, -maxTurn, maxTurn),
+    pitch: clamp(input.pitch, -maxTurn, maxTurn),
+    roll: clamp(input.roll, -maxTurn, maxTurn),
+    boost: input.boost === true
+  };
 }
 
 /**
- * Fire a laser from a player
+ * Switch a player's weapon. The new weapon can't fire until the switch is done.
+ * @param {GameWorld} world - The room's world
  * @param {string} playerId - The player's ID
- * @param {Partial<Laser>} laserData - The laser data
- * @returns {Laser | null} - The created laser or null
+ * @param {WeaponId} weapon - The weapon to select
  */
-function firePlayerLaser(playerId: string, laserData: Partial<Laser>): Laser | null {
-  const player = players[playerId];
+function selectWeapon(world: GameWorld, playerId: string, weapon: WeaponId): void {
+  const player = world.players[playerId];
+  if (!player || player.weapon === weapon) return;
+  
+  player.weapon = weapon;
+  player.weaponSwitchTime = Date.now();
+}
+
+/**
+ * Fire a player's selected weapon.
+ * The cooldown, charge time and ammo come from the weapon registry. For
+ * projectiles, the client's muzzle position and aim are used when they are
+ * close to the server's view of the car (allowing for the weapon's spread),
+ * which keeps shots lined up with what the shooter saw. Bursts hit every
+ * enemy in range with a clear line to the car. Missiles need their locked
+ * target to be inside the lock cone and are then flown by updateMissiles.
+ * @param {GameWorld} world - The room's world
+ * @param {string} playerId - The player's ID
+ * @param {LaserData} shotData - The client's muzzle position and aim
+ * @returns {Shot | null} - The shot, or null if the weapon can't fire
+ */
+function fireWeapon(world: GameWorld, playerId: string, shotData: LaserData): Shot | null {
+  const player = world.players[playerId];
   if (!player || !player.isAlive) return null;
   
-  // Check if player can fire (cooldown)
+  const weapon = WEAPONS[player.weapon];
   const now = Date.now();
-  if (now - player.lastShotTime < 1000) return null;
+  
+  // Ready once the weapon's own cooldown and any weapon switch are over,
+  // and charged weapons must then be held for their charge time
+  const lastShotTime = player.weaponShotTimes[weapon.id] || 0;
+  const readyTime = Math.max(lastShotTime + weapon.cooldown, player.weaponSwitchTime + WEAPON_SWITCH_TIME);
+  if (now < readyTime + weapon.chargeTime - FIRE_TIMING_TOLERANCE) return null;
+  if (isOverheated(player, now + FIRE_TIMING_TOLERANCE)) return null;
+  
+  const ammo = player.ammo[weapon.id];
+  if (ammo !== undefined && ammo <= 0) return null;
+  
+  // Prefer the client's muzzle position and aim if they are plausible
+  let origin = { ...player.position };
+  let rotation = { ...player.rotation };
+  let direction = getForwardVector(rotation);
+  
+  if (distanceBetween(shotData.position, player.position) <= MAX_SHOT_ORIGIN_ERROR) {
+    origin = { x: shotData.position.x, y: shotData.position.y, z: shotData.position.z };
+  }
+  
+  const claimedRotation = { x: shotData.rotation.x, y: shotData.rotation.y, z: shotData.rotation.z };
+  const claimedDirection = getForwardVector(claimedRotation);
+  const cosAngle = claimedDirection.x * direction.x + claimedDirection.y * direction.y + claimedDirection.z * direction.z;
+  
+  if (cosAngle >= Math.cos(MAX_SHOT_ANGLE_ERROR + weapon.spread)) {
+    rotation = claimedRotation;
+    direction = claimedDirection;
+  }
+  
+  // Missiles only launch at a target the seeker has locked
+  if (weapon.kind === 'missile' && !isLockable(world, player, origin, direction, shotData.targetId)) {
+    return null;
+  }
   
   player.lastShotTime = now;
+  player.weaponShotTimes[weapon.id] = now;
+  if (ammo !== undefined) {
+    player.ammo[weapon.id] = ammo - 1;
+  }
+  addWeaponHeat(player, weapon, now);
+  addStat(player.stats, 'shotsFired', 1);
+  
+  // Firing gives a cloaked car away and ends spawn protection
+  delete player.powerUps.cloak;
+  player.spawnProtectedUntil = 0;
+  
+  const shot: Shot = {
+    id: `${weapon.id}_${playerId}_${now}`,
+    shotId: shotData.id,
+    weapon: weapon.id,
+    position: origin,
+    rotation,
+    direction,
+    targets: []
+  };
+  
+  if (weapon.kind === 'burst') {
+    shot.targets = findBurstTargets(world, player, weapon.radius);
+    if (shot.targets.length > 0) {
+      addStat(player.stats, 'shotsHit', 1);
+    }
+    return shot;
+  }
+  
+  if (weapon.kind === 'missile' && shotData.targetId) {
+    shot.targetId = shotData.targetId;
+    world.missiles.push({
+      id: shot.id,
+      playerId,
+      targetId: shotData.targetId,
+      decoyId: null,
+      position: { ...origin },
+      direction,
+      speed: weapon.speed,
+      damage: weapon.damage,
+      damageType: weapon.damageType,
+      createdAt: now,
+      timeToLive: weapon.lifetime
+    });
+    return shot;
+  }
   
-  // Create laser
-  const laser: Laser = {
-    id: `laser_${playerId}_${now}`,
+  world.lasers.push({
+    id: shot.id,
+    shotId: shot.shotId,
     playerId,
-    position: { ...player.position },
-    rotation: { ...player.rotation },
+    weapon: weapon.id,
+    position: { ...origin },
+    rotation,
     velocity: {
-      x: -Math.sin(player.rotation.y * Math.PI / 180) * 500,
-      y: Math.sin(player.rotation.x * Math.PI / 180) * 500,
-      z: -Math.cos(player.rotation.y * Math.PI / 180) * 500
+      x: direction.x * weapon.speed,
+      y: direction.y * weapon.speed,
+      z: direction.z * weapon.speed
     },
+    origin,
+    direction,
     createdAt: now,
-    timeToLive: 2000 // milliseconds
+    timeToLive: weapon.lifetime,
+    claimed: false
+  });
+  
+  return shot;
+}
+
+/**
+ * Check a missile lock: the target must be a live enemy inside the lock
+ * cone, with some allowance for the shooter's aim having moved on since
+ * @param {GameWorld} world - The room's world
+ * @param {Player} shooter - The player firing
+ * @param {Vector3} origin - The launch position
+ * @param {Vector3} direction - The shooter's aim
+ * @param {string | undefined} targetId - The locked target
+ * @returns {boolean} - Whether the lock stands
+ */
+function isLockable(world: GameWorld, shooter: Player, origin: Vector3, direction: Vector3, targetId: string | undefined): boolean {
+  const target = targetId ? world.players[targetId] : undefined;
+  if (!target || target.id === shooter.id || !target.isAlive) return false;
+  if (world.rules && !world.rules.canDamage(shooter, target)) return false;
+  if (hasPowerUp(target.powerUps, 'cloak', Date.now())) return false;
+  
+  return isInCone(origin, direction, target.position, LOCK_ANGLE + MAX_SHOT_ANGLE_ERROR, LOCK_RANGE);
+}
+
+/**
+ * Drop a flare. Missiles chasing the player that are close enough
+ * follow the flare instead.
+ * @param {GameWorld} world - The room's world
+ * @param {string} playerId - The player's ID
+ * @returns {FlareDeploy | null} - The flare, or null if none can be dropped
+ */
+function deployFlare(world: GameWorld, playerId: string): FlareDeploy | null {
+  const player = world.players[playerId];
+  if (!player || !player.isAlive || player.flares <= 0) return null;
+  
+  const now = Date.now();
+  if (now < player.lastFlareTime + FLARE_COOLDOWN - FIRE_TIMING_TOLERANCE) return null;
+  
+  player.flares -= 1;
+  player.lastFlareTime = now;
+  
+  const flare: Flare = {
+    id: `flare_${playerId}_${now}`,
+    playerId,
+    position: { ...player.position },
+    createdAt: now
   };
+  world.flares.push(flare);
   
-  lasers.push(laser);
-  return laser;
+  const decoyed: string[] = [];
+  world.missiles.forEach(missile => {
+    if (missile.targetId !== playerId || missile.decoyId) return;
+    if (distanceBetween(missile.position, player.position) > FLARE_DECOY_RANGE) return;
+    
+    missile.decoyId = flare.id;
+    decoyed.push(missile.id);
+  });
+  
+  return {
+    id: flare.id,
+    playerId,
+    position: flare.position,
+    decoyed
+  };
+}
+
+/**
+ * Find the players a burst reaches: alive, in range, damageable under the
+ * match rules and not behind a building
+ * @param {GameWorld} world - The room's world
+ * @param {Player} shooter - The player firing the burst
+ * @param {number} radius - The burst radius
+ * @returns {string[]} - IDs of the players hit
+ */
+function findBurstTargets(world: GameWorld, shooter: Player, radius: number): string[] {
+  return Object.values(world.players)
+    .filter(target => {
+      if (target.id === shooter.id || !target.isAlive) return false;
+      if (world.rules && !world.rules.canDamage(shooter, target)) return false;
+      
+      const distance = distanceBetween(shooter.position, target.position);
+      if (distance > radius) return false;
+      if (distance === 0) return true;
+      
+      const direction = {
+        x: (target.position.x - shooter.position.x) / distance,
+        y: (target.position.y - shooter.position.y) / distance,
+        z: (target.position.z - shooter.position.z) / distance
+      };
+      return !world.cityLayout.some(building => {
+        const buildingDistance = rayBoxIntersection(shooter.position, direction, building.position, building.size);
+        return buildingDistance !== null && buildingDistance < distance;
+      });
+    })
+    .map(target => target.id);
 }
 
 /**
- * Register a player hit by a laser or collision
+ * Register a player hit by a weapon or collision. Double damage on the
+ * source multiplies the hit, then the shield and armor take their share
+ * (see shared/combat/damage.ts). Damage from other players goes in the
+ * car's damage ledger, which decides who gets the kill and the assists.
+ * @param {GameWorld} world - The room's world
  * @param {string} playerId - The player's ID
  * @param {number} damage - The amount of damage
  * @param {string} sourceId - The ID of the damage source (player or "collision")
+ * @param {DamageType} damageType - What kind of damage it is
+ * @param {WeaponId} [weapon] - The weapon that dealt it, if any
  * @returns {HitResult} - Hit result information
  */
-function playerHit(playerId: string, damage: number, sourceId: string): HitResult {
-  const player = players[playerId];
+function playerHit(
+  world: GameWorld,
+  playerId: string,
+  damage: number,
+  sourceId: string,
+  damageType: DamageType,
+  weapon?: WeaponId
+): HitResult {
+  const player = world.players[playerId];
   if (!player || !player.isAlive) return { success: false };
   
+  // Freshly spawned cars can't be hurt
+  const now = Date.now();
+  if (now < player.spawnProtectedUntil) return { success: false };
+  
+  // The match mode decides whether players can hurt each other (e.g. teammates)
+  const source = world.players[sourceId];
+  if (source && source.id !== player.id && world.rules && !world.rules.canDamage(source, player)) {
+    return { success: false };
+  }
+  
+  if (source && hasPowerUp(source.powerUps, 'double_damage', now)) {
+    damage *= DOUBLE_DAMAGE_MULTIPLIER;
+  }
+  
   // Apply damage
-  player.health -= damage;
+  const split = applyDamage(player, damage, damageType, now);
+  const attacker = source && source.id !== player.id ? source : null;
+  if (attacker) {
+    recordDamage(player.damageLedger, attacker.id, split.shieldDamage + split.hullDamage, now);
+    addStat(attacker.stats, 'damageDealt', split.shieldDamage + split.hullDamage);
+  }
   
   // Check if player died
   if (player.health <= 0) {
     player.health = 0;
     player.isAlive = false;
-    player.respawnTime = Date.now() + 3000; // 3 seconds respawn time
+    player.respawnTime = now + RESPAWN_DELAY;
+    
+    // Crashes and self-inflicted deaths go to whoever hit the car last
+    const credit = creditKill(player.damageLedger, attacker ? attacker.id : null, now);
+    player.damageLedger = {};
+    
+    const kill: PlayerDiedEvent = {
+      playerId: player.id,
+      killedBy: credit.killerId,
+      assistedBy: credit.assistIds,
+      damageType,
+      weapon,
+      respawnTime: player.respawnTime
+    };
     
-    // Award point to player who caused the damage
-    if (sourceId !== "collision" && players[sourceId]) {
-      players[sourceId].score += 1;
+    // Award point to player who gets the kill
+    if (kill.killedBy) {
+      world.players[kill.killedBy].score += 1;
+      addStat(world.players[kill.killedBy].stats, 'kills', 1);
     }
+    addStat(player.stats, 'deaths', 1);
+    kill.assistedBy.forEach(assistId => addStat(world.players[assistId].stats, 'assists', 1));
+    
+    world.rules?.onPlayerKilled(player, kill);
+    world.events?.onPlayerKilled(kill);
     
     return {
       success: true,
       killed: true,
       health: player.health,
+      shield: player.shield,
+      ...split,
       sourceId
     };
   }
@@ -244,49 +785,228 @@ function playerHit(playerId: string, damage: number, sourceId: string): HitResul
     success: true,
     killed: false,
     health: player.health,
+    shield: player.shield,
+    ...split,
     sourceId
   };
 }
 
+/**
+ * Validate a client's claim that one of its lasers hit another player.
+ * The target is rewound to the time the shooter saw it and the laser the
+ * claim names is raycast against it and the city.
+ * @param {GameWorld} world - The room's world
+ * @param {string} shooterId - The shooting player's ID
+ * @param {HitClaim} claim - The shot, the target and the shooter's view time
+ * @returns {HitValidation} - Whether the hit stands, and where it landed
+ */
+function validateLaserHit(world: GameWorld, shooterId: string, claim: HitClaim): HitValidation {
+  const shooter = world.players[shooterId];
+  const target = claim ? world.players[claim.targetId] : undefined;
+  
+  if (!shooter || !target || shooterId === target.id) {
+    return { accepted: false, reason: 'invalid_target' };
+  }
+  
+  if (!target.isAlive) {
+    return { accepted: false, reason: 'target_dead' };
+  }
+  
+  const now = Date.now();
+  if (now < target.spawnProtectedUntil) {
+    return { accepted: false, reason: 'spawn_protected' };
+  }
+  
+  if (world.rules && !world.rules.canDamage(shooter, target)) {
+    return { accepted: false, reason: 'friendly_fire' };
+  }
+  
+  // The claim must name a shot the server accepted, and each laser can hit at most once
+  const laser = world.lasers.find(laser =>
+    laser.playerId === shooterId && laser.shotId === claim.shotId && !laser.claimed
+  );
+  
+  if (!laser) {
+    return { accepted: false, reason: 'no_shot' };
+  }
+  
+  laser.claimed = true;
+  
+  // Rewind the target to what the shooter was looking at
+  const viewTime = typeof claim.viewTime === 'number'
+    ? clamp(claim.viewTime, now - MAX_REWIND_TIME, now)
+    : now;
+  const targetPosition = getHistoricalPosition(target.history, viewTime) || target.position;
+  
+  const weapon = WEAPONS[laser.weapon];
+  const hitDistance = raySphereIntersection(laser.origin, laser.direction, targetPosition, LASER_HIT_RADIUS);
+  if (hitDistance === null || hitDistance > getWeaponRange(weapon)) {
+    return { accepted: false, reason: 'miss' };
+  }
+  
+  // Buildings in the way stop the shot
+  for (const building of world.cityLayout) {
+    const buildingDistance = rayBoxIntersection(laser.origin, laser.direction, building.position, building.size);
+    if (buildingDistance !== null && buildingDistance < hitDistance) {
+      return { accepted: false, reason: 'blocked' };
+    }
+  }
+  
+  addStat(shooter.stats, 'shotsHit', 1);
+  
+  return {
+    accepted: true,
+    position: {
+      x: laser.origin.x + laser.direction.x * hitDistance,
+      y: laser.origin.y + laser.direction.y * hitDistance,
+      z: laser.origin.z + laser.direction.z * hitDistance
+    },
+    damage: weapon.damage,
+    damageType: weapon.damageType,
+    weapon: weapon.id
+  };
+}
+
 /**
  * Update game state
+ * @param {GameWorld} world - The room's world
  * @param {number} deltaTime - Time since last update in seconds
  */
-function update(deltaTime: number): void {
+function update(world: GameWorld, deltaTime: number): void {
   const now = Date.now();
   
   // Update players
-  Object.keys(players).forEach(playerId => {
-    const player = players[playerId];
+  Object.keys(world.players).forEach(playerId => {
+    const player = world.players[playerId];
     
     // Check for respawn
     if (!player.isAlive && player.respawnTime <= now) {
-      respawnPlayer(playerId);
+      respawnPlayer(world, playerId);
     }
     
     // Skip physics for dead players
     if (!player.isAlive) return;
     
-    // Apply physics to the player
-    updatePlayerPhysics(player, deltaTime);
+    // Weapons cool down, shields recharge and power-ups wear off in real time
+    coolWeapons(player, deltaTime);
+    regenerateShield(player, deltaTime, now);
+    expirePowerUps(player.powerUps, now);
+    addStat(player.stats, 'timeAlive', deltaTime * 1000);
     
-    // Check for collisions with city
-    checkPlayerCityCollisions(player);
+    // Apply queued inputs and physics to the player
+    updatePlayerPhysics(world, player, deltaTime);
     
     // Check for collisions with other players
-    checkPlayerCollisions(player);
+    checkPlayerCollisions(world, player);
+  });
+  
+  // Record positions for lag compensation
+  Object.values(world.players).forEach(player => {
+    if (player.isAlive) {
+      recordHistory(player.history, now, player.position);
+    }
   });
   
   // Update lasers
-  updateLasers(deltaTime);
+  updateLasers(world, deltaTime);
+  
+  // Fly missiles and burn out flares
+  updateMissiles(world, deltaTime);
+  
+  // Hand out power-ups and bring taken ones back
+  updatePickups(world, now);
+  
+  // Match timers and win conditions
+  world.rules?.update(deltaTime);
 }
 
 /**
- * Update player physics
+ * Update player physics by replaying the player's queued inputs.
+ * Each input advances the simulation by its own dt, and the total is
+ * limited by the wall-clock time the server has granted the player.
+ * @param {GameWorld} world - The room's world
  * @param {Player} player - The player to update
  * @param {number} deltaTime - Time since last update in seconds
  */
-function updatePlayerPhysics(player: Player, deltaTime: number): void {
+function updatePlayerPhysics(world: GameWorld, player: Player, deltaTime: number): void {
+  player.inputBudget = Math.min(player.inputBudget + deltaTime, MAX_INPUT_BUDGET);
+  
+  while (player.inputQueue.length > 0 && player.isAlive) {
+    const input = player.inputQueue[0];
+    if (input.dt > player.inputBudget) break;
+    
+    player.inputQueue.shift();
+    player.inputBudget -= input.dt;
+    
+    const start = { ...player.position };
+    applyPlayerInput(player, input);
+    integratePlayer(player, input.dt);
+    
+    // Check for collisions with city
+    checkPlayerCityCollisions(world, player);
+    addStat(player.stats, 'distanceFlown', distanceBetween(start, player.position));
+    
+    player.lastProcessedInput = input.seq;
+  }
+  
+  // Drop anything left over if the player died mid-queue
+  if (!player.isAlive && player.inputQueue.length > 0) {
+    player.lastProcessedInput = player.inputQueue[player.inputQueue.length - 1].seq;
+    player.inputQueue = [];
+  }
+}
+
+/**
+ * Apply a single input frame to a player's orientation and velocity
+ * @param {Player} player - The player to steer
+ * @param {PlayerInput} input - The sanitized input frame
+ */
+function applyPlayerInput(player: Player, input: PlayerInput): void {
+  // Orientation
+  player.rotation.y += input.yaw;
+  player.rotation.x = clamp(player.rotation.x + input.pitch, -MAX_PITCH, MAX_PITCH);
+  player.rotation.z = clamp(player.rotation.z + input.roll, -MAX_ROLL, MAX_ROLL);
+  
+  // Auto-return to level flight when not rolling
+  if (input.roll === 0) {
+    player.rotation.z *= Math.max(0, 1 - 6 * input.dt);
+  }
+  
+  // Boost only while there is energy for it
+  const boosting = updateEnergy(player, input.boost, input.dt);
+  const overdrive = hasPowerUp(player.powerUps, 'overdrive', Date.now()) ? OVERDRIVE_MULTIPLIER : 1;
+  
+  // Thrust along the car's heading
+  const acceleration = THRUST_ACCELERATION * (boosting ? BOOST_MULTIPLIER : 1) * overdrive * input.dt;
+  const forwardX = Math.sin(player.rotation.y);
+  const forwardZ = Math.cos(player.rotation.y);
+  const rightX = Math.sin(player.rotation.y + Math.PI / 2);
+  const rightZ = Math.cos(player.rotation.y + Math.PI / 2);
+  
+  player.velocity.x += (forwardX * input.throttle + rightX * input.strafe) * acceleration;
+  player.velocity.z += (forwardZ * input.throttle + rightZ * input.strafe) * acceleration;
+  player.velocity.y += input.vertical * acceleration;
+  
+  // Limit horizontal cruise speed
+  const maxSpeed = MAX_CRUISE_SPEED * (boosting ? BOOST_MULTIPLIER : 1) * overdrive;
+  const horizontalSpeed = Math.sqrt(
+    player.velocity.x * player.velocity.x +
+    player.velocity.z * player.velocity.z
+  );
+  
+  if (horizontalSpeed > maxSpeed) {
+    const scale = maxSpeed / horizontalSpeed;
+    player.velocity.x *= scale;
+    player.velocity.z *= scale;
+  }
+}
+
+/**
+ * Integrate a player's velocity and position over a time step
+ * @param {Player} player - The player to integrate
+ * @param {number} deltaTime - Time step in seconds
+ */
+function integratePlayer(player: Player, deltaTime: number): void {
   // Apply gravity (can be disabled for flying cars)
   //player.velocity.y -= GRAVITY * deltaTime;
   
@@ -342,15 +1062,19 @@ function updatePlayerPhysics(player: Player, deltaTime: number): void {
 
 /**
  * Check for collisions between player and city buildings
+ * @param {GameWorld} world - The room's world
  * @param {Player} player - The player to check
  */
-function checkPlayerCityCollisions(player: Player): void {
+function checkPlayerCityCollisions(world: GameWorld, player: Player): void {
   // Player collision box size
   const playerSize = { x: 8, y: 3, z: 16 }; // Size of the flying car
   
-  for (const building of cityLayout) {
+  for (const building of world.cityLayout) {
+    const playerBottom = player.position.y - playerSize.y/2;
+    const buildingTop = building.position.y + building.size.y/2;
+    
     // Skip if player is far above the building
-    if (player.position.y - playerSize.y/2 > building.position.y + building.size.y/2 + 1) {
+    if (playerBottom > buildingTop + 1) {
       continue;
     }
     
@@ -359,6 +1083,17 @@ function checkPlayerCityCollisions(player: Player): void {
       player.position, playerSize,
       building.position, building.size
     )) {
+      // Land on the roof, matching the client's handleVerticalCollision
+      if (playerBottom >= buildingTop - 3) {
+        player.position.y = buildingTop + playerSize.y/2;
+        if (player.velocity.y < 0) {
+          player.velocity.y = 0;
+        }
+        player.velocity.x *= 0.95;
+        player.velocity.z *= 0.95;
+        continue;
+      }
+      
       // Simple bounce response
       const dx = player.position.x - building.position.x;
       const dy = player.position.y - building.position.y;
@@ -384,7 +1119,7 @@ function checkPlayerCityCollisions(player: Player): void {
         // Apply damage
         const damage = Math.floor(relativeVelocity * 0.5);
         if (damage > 0) {
-          playerHit(player.id, damage, "collision");
+          playerHit(world, player.id, damage, "collision", 'collision');
         }
         
         // Bounce response - reverse velocity component along normal
@@ -404,13 +1139,14 @@ function checkPlayerCityCollisions(player: Player): void {
 
 /**
  * Check for collisions between players
+ * @param {GameWorld} world - The room's world
  * @param {Player} player - The player to check
  */
-function checkPlayerCollisions(player: Player): void {
+function checkPlayerCollisions(world: GameWorld, player: Player): void {
   // Player collision sphere radius
   const playerRadius = 5;
   
-  Object.values(players).forEach(otherPlayer => {
+  Object.values(world.players).forEach(otherPlayer => {
     // Skip self or dead players
     if (player.id === otherPlayer.id || !otherPlayer.isAlive || !player.isAlive) {
       return;
@@ -451,8 +1187,8 @@ function checkPlayerCollisions(player: Player): void {
       // Apply damage for high-speed collisions
       if (Math.abs(impactVelocity) > 10) {
         const damage = Math.floor(Math.abs(impactVelocity) * 0.3);
-        playerHit(player.id, damage, "collision");
-        playerHit(otherPlayer.id, damage, "collision");
+        playerHit(world, player.id, damage, "collision", 'collision');
+        playerHit(world, otherPlayer.id, damage, "collision", 'collision');
       }
       
       // Collision response - simplified physics
@@ -482,14 +1218,17 @@ function checkPlayerCollisions(player: Player): void {
 
 /**
  * Update lasers (movement, collisions, etc.)
+ * Player damage is not applied here; hits are claimed by the shooter's
+ * client and checked in validateLaserHit.
+ * @param {GameWorld} world - The room's world
  * @param {number} deltaTime - Time since last update in seconds
  */
-function updateLasers(deltaTime: number): void {
+function updateLasers(world: GameWorld, deltaTime: number): void {
   const now = Date.now();
   const lasersToRemove: string[] = [];
   
   // Update laser positions and check for collisions
-  lasers.forEach((laser, index) => {
+  world.lasers.forEach(laser => {
     // Check if laser has expired
     if (now - laser.createdAt > laser.timeToLive) {
       lasersToRemove.push(laser.id);
@@ -501,129 +1240,288 @@ function updateLasers(deltaTime: number): void {
     laser.position.y += laser.velocity.y * deltaTime;
     laser.position.z += laser.velocity.z * deltaTime;
     
-    // Check for collisions with players
-    Object.values(players).forEach(player => {
-      // Skip collision with own laser or dead players
-      if (laser.playerId === player.id || !player.isAlive) {
-        return;
-      }
-      
-      // Check distance to player (simple sphere collision)
-      const dx = player.position.x - laser.position.x;
-      const dy = player.position.y - laser.position.y;
-      const dz = player.position.z - laser.position.z;
-      const distanceSquared = dx*dx + dy*dy + dz*dz;
-      
-      // Player hit sphere radius
-      const hitRadius = 5;
-      
-      if (distanceSquared < hitRadius * hitRadius) {
-        // Player hit by laser
-        const hitResult = playerHit(player.id, LASER_DAMAGE, laser.playerId);
-        
-        // Remove laser
-        lasersToRemove.push(laser.id);
-      }
-    });
-    
     // Check for collision with buildings
-    for (const building of cityLayout) {
-      // Skip if laser is far above the building
-      if (laser.position.y > building.position.y + building.size.y/2 + 10) {
-        continue;
-      }
-      
-      // Simple point to box collision check
-      if (laser.position.x >= building.position.x - building.size.x/2 &&
-          laser.position.x <= building.position.x + building.size.x/2 &&
-          laser.position.y >= building.position.y - building.size.y/2 &&
-          laser.position.y <= building.position.y + building.size.y/2 &&
-          laser.position.z >= building.position.z - building.size.z/2 &&
-          laser.position.z <= building.position.z + building.size.z/2) {
-        // Laser hit building
-        lasersToRemove.push(laser.id);
-        break;
-      }
+    if (isInsideBuilding(world, laser.position)) {
+      lasersToRemove.push(laser.id);
     }
   });
   
   // Remove destroyed lasers
-  lasers = lasers.filter(laser => !lasersToRemove.includes(laser.id));
+  world.lasers = world.lasers.filter(laser => !lasersToRemove.includes(laser.id));
+}
+
+/**
+ * Update missiles: steer each toward its target (or the flare decoying it),
+ * move it and detonate it on a hit, a building or when it runs out of fuel.
+ * A target that turns out of the seeker's view or cloaks is lost for good,
+ * and the missile flies on straight.
+ * @param {GameWorld} world - The room's world
+ * @param {number} deltaTime - Time since last update in seconds
+ */
+function updateMissiles(world: GameWorld, deltaTime: number): void {
+  const now = Date.now();
+  
+  // Burnt-out flares stop decoying
+  world.flares = world.flares.filter(flare => now - flare.createdAt < FLARE_LIFETIME);
+  
+  world.missiles = world.missiles.filter(missile => {
+    if (now - missile.createdAt > missile.timeToLive) {
+      world.events?.onMissileDestroyed({ id: missile.id, position: { ...missile.position }, reason: 'expired' });
+      return false;
+    }
+    
+    // Pick what the seeker is chasing
+    let aimPoint: Vector3 | null = null;
+    const flare = missile.decoyId ? world.flares.find(candidate => candidate.id === missile.decoyId) : undefined;
+    const target = missile.targetId ? world.players[missile.targetId] : undefined;
+    
+    if (flare) {
+      aimPoint = getFlarePosition(flare.position, now - flare.createdAt);
+    } else if (!missile.decoyId && target && target.isAlive && !hasPowerUp(target.powerUps, 'cloak', now) &&
+        isInCone(missile.position, missile.direction, target.position, MISSILE_SEEKER_ANGLE, Infinity)) {
+      aimPoint = target.position;
+    } else {
+      missile.targetId = null;
+    }
+    
+    if (aimPoint) {
+      missile.direction = steerMissile(missile.direction, missile.position, aimPoint, deltaTime);
+    }
+    
+    missile.position.x += missile.direction.x * missile.speed * deltaTime;
+    missile.position.y += missile.direction.y * missile.speed * deltaTime;
+    missile.position.z += missile.direction.z * missile.speed * deltaTime;
+    
+    // Proximity fuse: a flare soaks up the missile, a car takes the damage
+    if (flare && aimPoint && distanceBetween(missile.position, aimPoint) <= MISSILE_HIT_RADIUS) {
+      world.events?.onMissileDestroyed({ id: missile.id, position: { ...missile.position }, reason: 'flare' });
+      return false;
+    }
+    
+    if (!flare && target && missile.targetId && distanceBetween(missile.position, target.position) <= MISSILE_HIT_RADIUS) {
+      world.events?.onMissileDestroyed({ id: missile.id, position: { ...missile.position }, reason: 'hit' });
+      if (world.players[missile.playerId]) {
+        addStat(world.players[missile.playerId].stats, 'shotsHit', 1);
+      }
+      world.events?.onMissileHit(missile.playerId, target.id, missile.damage, missile.damageType, { ...missile.position });
+      return false;
+    }
+    
+    if (isInsideBuilding(world, missile.position)) {
+      world.events?.onMissileDestroyed({ id: missile.id, position: { ...missile.position }, reason: 'building' });
+      return false;
+    }
+    
+    return true;
+  });
+}
+
+/**
+ * Check whether a point is inside one of the city's buildings
+ * @param {GameWorld} world - The room's world
+ * @param {Vector3} position - The point to check
+ * @returns {boolean} - Whether it is inside a building
+ */
+function isInsideBuilding(world: GameWorld, position: Vector3): boolean {
+  return world.cityLayout.some(building =>
+    position.x >= building.position.x - building.size.x/2 &&
+    position.x <= building.position.x + building.size.x/2 &&
+    position.y >= building.position.y - building.size.y/2 &&
+    position.y <= building.position.y + building.size.y/2 &&
+    position.z >= building.position.z - building.size.z/2 &&
+    position.z <= building.position.z + building.size.z/2
+  );
 }
 
 /**
- * Respawn a player
+ * Give power-ups to cars that fly through them and bring taken ones back
+ * once their respawn time is up
+ * @param {GameWorld} world - The room's world
+ * @param {number} now - Current time (ms)
+ */
+function updatePickups(world: GameWorld, now: number): void {
+  world.pickups.forEach(pickup => {
+    if (!pickup.available) {
+      if (pickup.respawnTime !== null && now >= pickup.respawnTime) {
+        pickup.available = true;
+        pickup.respawnTime = null;
+        world.events?.onPickupUpdate({ pickup: { ...pickup } });
+      }
+      return;
+    }
+    
+    const collector = Object.values(world.players).find(player =>
+      player.isAlive &&
+      canUsePowerUp(player, pickup.type) &&
+      distanceBetween(player.position, pickup.position) <= PICKUP_RADIUS
+    );
+    if (!collector) return;
+    
+    applyPowerUp(collector, pickup.type, now);
+    pickup.available = false;
+    pickup.respawnTime = now + POWER_UPS[pickup.type].respawnTime;
+    world.events?.onPickupUpdate({ pickup: { ...pickup }, playerId: collector.id });
+  });
+}
+
+/**
+ * Check whether a power-up would do anything for a car, so repairs aren't
+ * wasted on undamaged cars
+ * @param {Player} player - The player
+ * @param {PowerUpType} type - The power-up
+ * @returns {boolean} - Whether the player should pick it up
+ */
+function canUsePowerUp(player: Player, type: PowerUpType): boolean {
+  switch (type) {
+    case 'repair':
+      return player.health < MAX_HEALTH;
+    case 'shield_boost':
+      return player.shield < MAX_SHIELD;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Apply a power-up: repairs and shield boosts act at once, the rest run
+ * for their duration (taking the same one again restarts it)
+ * @param {Player} player - The player who collected it
+ * @param {PowerUpType} type - The power-up
+ * @param {number} now - Current time (ms)
+ */
+function applyPowerUp(player: Player, type: PowerUpType, now: number): void {
+  switch (type) {
+    case 'repair':
+      player.health = Math.min(MAX_HEALTH, player.health + REPAIR_AMOUNT);
+      break;
+    case 'shield_boost':
+      player.shield = MAX_SHIELD;
+      break;
+    default:
+      player.powerUps[type] = now + POWER_UPS[type].duration;
+  }
+}
+
+/**
+ * Respawn a player at a server-chosen spawn point with a few seconds of
+ * spawn protection, and tell their client where they are
+ * @param {GameWorld} world - The room's world
  * @param {string} playerId - The player's ID
  */
-function respawnPlayer(playerId: string): void {
-  const player = players[playerId];
+function respawnPlayer(world: GameWorld, playerId: string): void {
+  const player = world.players[playerId];
   if (!player) return;
   
+  // Inputs sent while the car was a wreck are dropped
+  const lastQueued = player.inputQueue[player.inputQueue.length - 1];
+  if (lastQueued) {
+    player.lastProcessedInput = lastQueued.seq;
+  }
+  player.inputQueue = [];
+  
   // Reset player state
-  player.health = 100;
+  player.health = MAX_HEALTH;
+  player.shield = MAX_SHIELD;
+  player.damageLedger = {};
   player.isAlive = true;
   player.velocity = { x: 0, y: 0, z: 0 };
+  player.rotation = { x: 0, y: 0, z: 0 };
+  player.inputBudget = 0;
+  player.history = [];
+  player.ammo = createAmmo();
+  player.heat = 0;
+  player.overheatedUntil = 0;
+  player.energy = MAX_ENERGY;
+  player.flares = FLARE_COUNT;
+  player.powerUps = {};
+  player.spawnProtectedUntil = Date.now() + SPAWN_PROTECTION_TIME;
+  
+  // Move to the safest spawn point
+  player.position = findSpawnPoint(world, player);
   
-  // Move to random spawn point
-  const spawnPoint = getRandomSpawnPoint();
-  player.position = spawnPoint;
+  world.events?.onPlayerRespawn(player.id, {
+    position: { ...player.position },
+    rotation: { ...player.rotation },
+    spawnProtectedUntil: player.spawnProtectedUntil
+  });
 }
 
 /**
- * Get a random spawn point
- * @returns {Vector3} - A random spawn position
+ * Find where a player should spawn, away from the players who could hurt them
+ * (see spawns.ts)
+ * @param {GameWorld} world - The room's world
+ * @param {Player} player - The spawning player
+ * @returns {Vector3} - The spawn position
  */
-function getRandomSpawnPoint(): Vector3 {
-  // Create several potential spawn points
-  const spawnPoints = [
-    { x: 0, y: 100, z: 0 },
-    { x: 200, y: 120, z: 200 },
-    { x: -200, y: 150, z: -200 },
-    { x: 300, y: 180, z: -100 },
-    { x: -150, y: 200, z: 250 }
-  ];
+function findSpawnPoint(world: GameWorld, player: Player): Vector3 {
+  const enemies = Object.values(world.players)
+    .filter(other =>
+      other.id !== player.id &&
+      other.isAlive &&
+      (!world.rules || world.rules.canDamage(other, player))
+    )
+    .map(other => other.position);
   
-  // Choose a random spawn point
-  const index = Math.floor(Math.random() * spawnPoints.length);
-  return spawnPoints[index];
+  return chooseSpawnPoint(world.spawnPoints, world.cityLayout, enemies, player.team);
 }
 
 /**
  * Get a player by ID
+ * @param {GameWorld} world - The room's world
  * @param {string} playerId - The player's ID
  * @returns {Player | null} - The player or null
  */
-function getPlayerById(playerId: string): Player | null {
-  return players[playerId] || null;
+function getPlayerById(world: GameWorld, playerId: string): Player | null {
+  return world.players[playerId] || null;
 }
 
 /**
  * Get all players
+ * @param {GameWorld} world - The room's world
  * @returns {Record<string, Player>} - All players
  */
-function getAllPlayers(): Record<string, Player> {
-  return players;
+function getAllPlayers(world: GameWorld): Record<string, Player> {
+  return world.players;
 }
 
 /**
  * Get players data for clients
+ * @param {GameWorld} world - The room's world
  * @returns {Record<string, PlayerData>} - Players data
  */
-function getPlayersData(): Record<string, PlayerData> {
+function getPlayersData(world: GameWorld): Record<string, PlayerData> {
   const playersData: Record<string, PlayerData> = {};
+  const now = Date.now();
   
-  Object.keys(players).forEach(playerId => {
-    const player = players[playerId];
+  Object.keys(world.players).forEach(playerId => {
+    const player = world.players[playerId];
     
     playersData[playerId] = {
       id: player.id,
+      username: player.name,
       position: player.position,
       rotation: player.rotation,
       velocity: player.velocity,
       health: player.health,
+      shield: Math.round(player.shield),
       score: player.score,
-      isAlive: player.isAlive
+      isAlive: player.isAlive,
+      lastProcessedInput: player.lastProcessedInput,
+      weapon: player.weapon,
+      ammo: { ...player.ammo },
+      heat: Math.round(player.heat),
+      overheated: isOverheated(player, now),
+      energy: Math.round(player.energy),
+      flares: player.flares,
+      powerUps: { ...player.powerUps }
     };
+    
+    if (player.team) {
+      playersData[playerId].team = player.team;
+    }
+    if (player.color) {
+      playersData[playerId].color = player.color;
+    }
   });
   
   return playersData;
@@ -631,68 +1529,29 @@ function getPlayersData(): Record<string, PlayerData> {
 
 /**
  * Get all lasers
+ * @param {GameWorld} world - The room's world
  * @returns {Laser[]} - All lasers
  */
-function getLasers(): Laser[] {
-  return lasers;
+function getLasers(world: GameWorld): Laser[] {
+  return world.lasers;
 }
 
 /**
- * Get city layout
- * @returns {Building[]} - The city layout
+ * Get the power-up pickups
+ * @param {GameWorld} world - The room's world
+ * @returns {PickupState[]} - All pickups, taken or not
  */
-function getCityLayout(): Building[] {
-  return cityLayout;
+function getPickups(world: GameWorld): PickupState[] {
+  return world.pickups;
 }
 
 /**
- * Generate a random city layout
- * @returns {Building[]} - The generated city layout
+ * Get city layout
+ * @param {GameWorld} world - The room's world
+ * @returns {Building[]} - The city layout
  */
-function generateCityLayout(): Building[] {
-  const buildings: Building[] = [];
-  const gridSize = 10;
-  const cellSize = 100;
-  
-  // Helper for random values
-  const random = () => {
-    return Math.random();
-  };
-  
-  // Generate buildings on a grid
-  for (let x = -gridSize; x <= gridSize; x++) {
-    for (let z = -gridSize; z <= gridSize; z++) {
-      // Skip some cells for roads
-      if (x % 3 === 0 || z % 3 === 0) continue;
-      
-      // Random building properties
-      const width = 20 + random() * 30;
-      const depth = 20 + random() * 30;
-      const height = 50 + random() * 150;
-      
-      // Position in cell with some variation
-      const posX = x * cellSize + (random() - 0.5) * cellSize * 0.5;
-      const posZ = z * cellSize + (random() - 0.5) * cellSize * 0.5;
-      
-      // Add building
-      buildings.push({
-        position: {
-          x: posX,
-          y: height / 2, // Position is at the center of the building
-          z: posZ
-        },
-        size: {
-          x: width,
-          y: height,
-          z: depth
-        },
-        type: 'building',
-        height
-      });
-    }
-  }
-  
-  return buildings;
+function getCityLayout(world: GameWorld): Building[] {
+  return world.cityLayout;
 }
 
 /**
@@ -736,4 +1595,42 @@ function checkSphereCollision(
   const radiusSum = radius1 + radius2;
   
   return distanceSquared < radiusSum * radiusSum;
-} 
\ No newline at end of file
+}
+
+/**
+ * Clamp a number to a range, treating non-numbers as zero
+ * @param {number} value - The value to clamp
+ * @param {number} min - Lower bound
+ * @param {number} max - Upper bound
+ * @returns {number} - The clamped value
+ */
+function clamp(value: number, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 0;
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Get the direction a car is facing
+ * @param {Vector3} rotation - Car rotation (radians, pitch/yaw/roll)
+ * @returns {Vector3} - Normalized forward vector
+ */
+function getForwardVector(rotation: Vector3): Vector3 {
+  return {
+    x: Math.sin(rotation.y) * Math.cos(rotation.x),
+    y: -Math.sin(rotation.x),
+    z: Math.cos(rotation.y) * Math.cos(rotation.x)
+  };
+}
+
+/**
+ * Distance between two points
+ * @param {Vector3} a - First point
+ * @param {Vector3} b - Second point
+ * @returns {number} - The distance
+ */
+function distanceBetween(a: Vector3, b: Vector3): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx*dx + dy*dy + dz*dz);
+}
@@ -0,0 +1,134 @@
+/**
+ * Lag compensation - keeps a short position history per player so hits can be
+ * checked against where the shooter actually saw the target
+ */
+
+import { Vector3 } from '../../types.js';
+
+export interface HistorySample {
+  time: number;
+  position: Vector3;
+}
+
+// How much history is kept per player (ms)
+export const HISTORY_DURATION = 1000;
+
+/**
+ * Record a player's current position in their history
+ * @param {HistorySample[]} history - The player's history, oldest first
+ * @param {number} time - Server time (ms)
+ * @param {Vector3} position - Position at that time
+ */
+export function recordHistory(history: HistorySample[], time: number, position: Vector3): void {
+  history.push({ time, position: { ...position } });
+
+  // Drop samples older than the rewind window
+  while (history.length > 2 && history[0].time < time - HISTORY_DURATION) {
+    history.shift();
+  }
+}
+
+/**
+ * Get a player's position at a time in the past
+ * @param {HistorySample[]} history - The player's history, oldest first
+ * @param {number} time - Server time to rewind to (ms)
+ * @returns {Vector3 | null} - The interpolated position or null without history
+ */
+export function getHistoricalPosition(history: HistorySample[], time: number): Vector3 | null {
+  if (history.length === 0) return null;
+
+  const oldest = history[0];
+  const newest = history[history.length - 1];
+
+  if (time <= oldest.time) return { ...oldest.position };
+  if (time >= newest.time) return { ...newest.position };
+
+  for (let i = history.length - 1; i > 0; i--) {
+    const from = history[i - 1];
+    const to = history[i];
+
+    if (from.time <= time && time <= to.time) {
+      const t = to.time === from.time ? 0 : (time - from.time) / (to.time - from.time);
+      return {
+        x: from.position.x + (to.position.x - from.position.x) * t,
+        y: from.position.y + (to.position.y - from.position.y) * t,
+        z: from.position.z + (to.position.z - from.position.z) * t
+      };
+    }
+  }
+
+  return { ...newest.position };
+}
+
+/**
+ * Intersect a ray with a sphere
+ * @param {Vector3} origin - Ray origin
+ * @param {Vector3} direction - Normalized ray direction
+ * @param {Vector3} center - Sphere center
+ * @param {number} radius - Sphere radius
+ * @returns {number | null} - Distance along the ray to the hit, or null on a miss
+ */
+export function raySphereIntersection(
+  origin: Vector3, direction: Vector3,
+  center: Vector3, radius: number
+): number | null {
+  const ox = origin.x - center.x;
+  const oy = origin.y - center.y;
+  const oz = origin.z - center.z;
+
+  const b = ox * direction.x + oy * direction.y + oz * direction.z;
+  const c = ox * ox + oy * oy + oz * oz - radius * radius;
+  const discriminant = b * b - c;
+
+  if (discriminant < 0) return null;
+
+  const sqrtDiscriminant = Math.sqrt(discriminant);
+  const near = -b - sqrtDiscriminant;
+  const far = -b + sqrtDiscriminant;
+
+  if (far < 0) return null;
+  return near >= 0 ? near : 0;
+}
+
+/**
+ * Intersect a ray with an axis-aligned box
+ * @param {Vector3} origin - Ray origin
+ * @param {Vector3} direction - Normalized ray direction
+ * @param {Vector3} center - Box center
+ * @param {Vector3} size - Box size
+ * @returns {number | null} - Distance along the ray to the hit, or null on a miss
+ */
+export function rayBoxIntersection(
+  origin: Vector3, direction: Vector3,
+  center: Vector3, size: Vector3
+): number | null {
+  let tMin = -Infinity;
+  let tMax = Infinity;
+
+  const axes: (keyof Vector3)[] = ['x', 'y', 'z'];
+  for (const axis of axes) {
+    const min = center[axis] - size[axis] / 2;
+    const max = center[axis] + size[axis] / 2;
+
+    if (Math.abs(direction[axis]) < 1e-8) {
+      // Ray is parallel to this slab
+      if (origin[axis] < min || origin[axis] > max) return null;
+      continue;
+    }
+
+    let t1 = (min - origin[axis]) / direction[axis];
+    let t2 = (max - origin[axis]) / direction[axis];
+    if (t1 > t2) {
+      const swap = t1;
+      t1 = t2;
+      t2 = swap;
+    }
+
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return null;
+  }
+
+  if (tMax < 0) return null;
+  return tMin >= 0 ? tMin : 0;
+}
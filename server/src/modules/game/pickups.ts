@@ -0,0 +1,100 @@
+/**
+ * Pickup spawn points - where power-ups appear in a room's city. Spawn points
+ * are configured by a rough position and snapped to the nearest roof or
+ * street canyon of the actual city, so one list works for every city seed.
+ */
+
+import { Building, PickupLocation, PickupState, PowerUpType, Vector3 } from '../../types.js';
+import { CITY_CELL_SIZE, ROAD_INTERVAL } from '../../../../shared/world/city.js';
+
+export interface PickupSpawn {
+  type: PowerUpType;
+  location: PickupLocation;
+  x: number; // Rough position; the pickup goes to the nearest roof or street
+  z: number;
+}
+
+// Placement
+const ROOFTOP_HOVER = 4; // Height above the roof
+const STREET_HEIGHT = 30; // Height above the street, down among the buildings
+const ROAD_SPACING = CITY_CELL_SIZE * ROAD_INTERVAL; // Distance between parallel roads
+
+// Spawn points rooms get unless they turn pickups off
+export const DEFAULT_PICKUP_SPAWNS: PickupSpawn[] = [
+  { type: 'repair', location: 'rooftop', x: 100, z: 200 },
+  { type: 'shield_boost', location: 'rooftop', x: -200, z: -100 },
+  { type: 'double_damage', location: 'rooftop', x: 500, z: -500 },
+  { type: 'overdrive', location: 'rooftop', x: 800, z: 400 },
+  { type: 'cloak', location: 'rooftop', x: -700, z: 800 },
+  { type: 'repair', location: 'street', x: -300, z: 450 },
+  { type: 'shield_boost', location: 'street', x: 600, z: -150 },
+  { type: 'overdrive', location: 'street', x: 0, z: -750 },
+  { type: 'double_damage', location: 'street', x: -600, z: 150 },
+  { type: 'repair', location: 'street', x: 300, z: 750 }
+];
+
+/**
+ * Place a room's pickups in its city, all available from the start
+ * @param {Building[]} cityLayout - The room's buildings
+ * @param {PickupSpawn[]} spawns - The spawn points
+ * @returns {PickupState[]} - The pickups
+ */
+export function createPickups(cityLayout: Building[], spawns: PickupSpawn[]): PickupState[] {
+  return spawns.map((spawn, index) => ({
+    id: `pickup-${index + 1}`,
+    type: spawn.type,
+    location: spawn.location,
+    position: spawn.location === 'rooftop'
+      ? findRooftop(cityLayout, spawn.x, spawn.z)
+      : findStreet(spawn.x, spawn.z),
+    available: true,
+    respawnTime: null
+  }));
+}
+
+/**
+ * Find the roof of the building closest to a point
+ * @param {Building[]} cityLayout - The room's buildings
+ * @param {number} x - Rough X position
+ * @param {number} z - Rough Z position
+ * @returns {Vector3} - A spot just above the roof's center
+ */
+function findRooftop(cityLayout: Building[], x: number, z: number): Vector3 {
+  let roof: Building | null = null;
+  let roofDistance = Infinity;
+
+  for (const building of cityLayout) {
+    const dx = building.position.x - x;
+    const dz = building.position.z - z;
+    const distance = dx * dx + dz * dz;
+    if (distance < roofDistance) {
+      roof = building;
+      roofDistance = distance;
+    }
+  }
+
+  if (!roof) return findStreet(x, z);
+
+  return {
+    x: roof.position.x,
+    y: roof.position.y + roof.size.y / 2 + ROOFTOP_HOVER,
+    z: roof.position.z
+  };
+}
+
+/**
+ * Move a point onto the nearest road, which runs between rows of buildings
+ * @param {number} x - Rough X position
+ * @param {number} z - Rough Z position
+ * @returns {Vector3} - A spot low over the middle of the road
+ */
+function findStreet(x: number, z: number): Vector3 {
+  const roadX = Math.round(x / ROAD_SPACING) * ROAD_SPACING;
+  const roadZ = Math.round(z / ROAD_SPACING) * ROAD_SPACING;
+
+  // Keep the axis that runs along the road
+  if (Math.abs(x - roadX) <= Math.abs(z - roadZ)) {
+    return { x: roadX, y: STREET_HEIGHT, z };
+  }
+  return { x, y: STREET_HEIGHT, z: roadZ };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAP_SPAWN_SETS,
+  DEFAULT_SPAWN_SET,
+  SpawnSet,
+  getSpawnSet,
+  createSpawnPoints,
+  isSpawnPointClear,
+  chooseSpawnPoint
+} from './spawns.js';
+import {
+  generateCityLayout,
+  CITY_GRID_SIZE,
+  ROAD_INTERVAL,
+  DEFAULT_CITY_SEED
+} from '../../../../shared/world/city.js';
+
+// Cities with their own spawn sets, plus a spread of generated ones
+const SEEDS = [DEFAULT_CITY_SEED, ...Object.keys(MAP_SPAWN_SETS).map(Number)];
+for (let seed = 1; seed <= 50; seed++) {
+  SEEDS.push(seed);
+}
+
+// Road intersections across the grid
+const ROADS_PER_AXIS = 2 * Math.floor(CITY_GRID_SIZE / ROAD_INTERVAL) + 1;
+
+describe('createSpawnPoints', () => {
+  SEEDS.forEach(seed => {
+    it(`only has clear points in city ${seed}`, () => {
+      const cityLayout = generateCityLayout(seed);
+      const spawnSet = getSpawnSet(seed);
+
+      const points = createSpawnPoints(cityLayout, spawnSet);
+
+      points.forEach(point => {
+        expect(isSpawnPointClear(point.position, cityLayout), `${point.kind} ${JSON.stringify(point.position)}`).toBe(true);
+      });
+      expect(points.filter(point => point.kind === 'custom')).toHaveLength(spawnSet.points.length);
+      expect(points.filter(point => point.kind === 'street')).toHaveLength(ROADS_PER_AXIS * ROADS_PER_AXIS);
+      expect(points.filter(point => point.kind === 'rooftop')).toHaveLength(cityLayout.length);
+    });
+  });
+
+  it('keeps every hand-placed point clear of its own city', () => {
+    Object.keys(MAP_SPAWN_SETS).forEach(seed => {
+      const cityLayout = generateCityLayout(Number(seed));
+
+      MAP_SPAWN_SETS[Number(seed)].points.forEach(position => {
+        expect(isSpawnPointClear(position, cityLayout), `${seed} ${JSON.stringify(position)}`).toBe(true);
+      });
+    });
+  });
+
+  it('throws for a hand-placed point inside a building', () => {
+    const cityLayout = generateCityLayout(DEFAULT_CITY_SEED);
+    const building = cityLayout[0];
+    const spawnSet: SpawnSet = { derived: [], points: [{ ...building.position }] };
+
+    expect(() => createSpawnPoints(cityLayout, spawnSet)).toThrow(/inside a building/);
+  });
+
+  it('only derives the kinds the set asks for', () => {
+    const cityLayout = generateCityLayout(DEFAULT_CITY_SEED);
+
+    const points = createSpawnPoints(cityLayout, { derived: ['street'], points: [] });
+
+    expect(points.every(point => point.kind === 'street')).toBe(true);
+    expect(getSpawnSet(-1)).toBe(DEFAULT_SPAWN_SET);
+  });
+});
+
+describe('chooseSpawnPoint', () => {
+  it('picks the point furthest from enemies', () => {
+    const points = createSpawnPoints([], { derived: [], points: [{ x: 0, y: 100, z: 0 }, { x: 900, y: 100, z: 900 }] });
+
+    const position = chooseSpawnPoint(points, [], [{ x: 10, y: 100, z: 0 }]);
+
+    expect(position).toEqual({ x: 900, y: 100, z: 900 });
+  });
+
+  it('prefers the own team side when enemies are far away', () => {
+    const points = createSpawnPoints([], { derived: [], points: [{ x: -500, y: 100, z: 0 }, { x: 500, y: 100, z: 0 }] });
+
+    expect(chooseSpawnPoint(points, [], [], 'red').x).toBe(-500);
+    expect(chooseSpawnPoint(points, [], [], 'blue').x).toBe(500);
+  });
+
+  it('falls back to the middle of the city without points', () => {
+    expect(chooseSpawnPoint([], [], [])).toEqual({ x: 0, y: 100, z: 0 });
+  });
+});
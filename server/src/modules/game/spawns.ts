@@ -0,0 +1,247 @@
+/**
+ * Spawn points - where cars appear in a room's city. Candidates are derived
+ * from the city layout (open air above road intersections and over rooftops)
+ * plus any hand-placed points for the map, and each spawn picks the candidate
+ * furthest from enemies, out of their sight and on the car's own team side.
+ */
+
+import { Building, TeamId, Vector3 } from '../../types.js';
+import { rayBoxIntersection } from './lagCompensation.js';
+import {
+  CITY_GRID_SIZE,
+  CITY_CELL_SIZE,
+  ROAD_INTERVAL,
+  DEFAULT_CITY_SEED
+} from '../../../../shared/world/city.js';
+
+export type SpawnKind = 'street' | 'rooftop' | 'custom';
+
+export interface SpawnPoint {
+  kind: SpawnKind;
+  position: Vector3;
+  side?: TeamId; // Team whose half of the city the point is in; none near the middle
+}
+
+// Which spawn points a map uses
+export interface SpawnSet {
+  derived: ('street' | 'rooftop')[]; // Candidates derived from the city layout
+  points: Vector3[];                 // Hand-placed points on top of those
+}
+
+// Placement
+const STREET_HEIGHT = 100; // Height above road intersections, clear of traffic on the ground
+const ROOFTOP_CLEARANCE = 20; // Height above a roof
+const SPAWN_CLEARANCE = 10; // Free space a spawn point needs around it (car radius plus margin)
+const SIDE_MARGIN = 150; // Points this close to the middle belong to neither team
+
+// Scoring
+const SAFE_DISTANCE = 600; // Enemies further away than this don't make a point any worse
+const SIGHT_RANGE = 800; // Enemies further away than this can't see a point
+const SEEN_PENALTY = 400; // Score lost for being in an enemy's line of sight
+const SIDE_BONUS = 200; // Score gained on the own team's side (and lost on the enemy's)
+const SIGHT_CHECKS = 12; // Best candidates that get the (expensive) line-of-sight check
+const SCORE_JITTER = 50; // Random spread added to scores, so equally good points take turns
+
+// Spawn sets for cities that need their own; every other city uses the default
+export const DEFAULT_SPAWN_SET: SpawnSet = { derived: ['street', 'rooftop'], points: [] };
+export const MAP_SPAWN_SETS: Record<number, SpawnSet> = {
+  // The default city keeps its original hand-placed points over the central intersections
+  [DEFAULT_CITY_SEED]: {
+    derived: ['street', 'rooftop'],
+    points: [
+      { x: 0, y: 100, z: 0 },
+      { x: 300, y: 120, z: 300 },
+      { x: -300, y: 150, z: -300 },
+      { x: 300, y: 180, z: -300 },
+      { x: -300, y: 200, z: 300 }
+    ]
+  }
+};
+
+/**
+ * Get the spawn set for a city
+ * @param {number} citySeed - Seed of the city
+ * @returns {SpawnSet} - The city's spawn set
+ */
+export function getSpawnSet(citySeed: number): SpawnSet {
+  return MAP_SPAWN_SETS[citySeed] || DEFAULT_SPAWN_SET;
+}
+
+/**
+ * Build a city's spawn points. Derived points that would put a car inside a
+ * building are left out; a hand-placed one is a mistake in the map, so it throws.
+ * @param {Building[]} cityLayout - The room's buildings
+ * @param {SpawnSet} spawnSet - Which spawn points to use
+ * @returns {SpawnPoint[]} - The spawn points
+ */
+export function createSpawnPoints(cityLayout: Building[], spawnSet: SpawnSet): SpawnPoint[] {
+  const candidates: SpawnPoint[] = [];
+
+  if (spawnSet.derived.indexOf('street') !== -1) {
+    for (let x = -CITY_GRID_SIZE; x <= CITY_GRID_SIZE; x++) {
+      for (let z = -CITY_GRID_SIZE; z <= CITY_GRID_SIZE; z++) {
+        if (x % ROAD_INTERVAL !== 0 || z % ROAD_INTERVAL !== 0) continue;
+        candidates.push(createSpawnPoint('street', {
+          x: x * CITY_CELL_SIZE,
+          y: STREET_HEIGHT,
+          z: z * CITY_CELL_SIZE
+        }));
+      }
+    }
+  }
+
+  if (spawnSet.derived.indexOf('rooftop') !== -1) {
+    cityLayout.forEach(building => {
+      candidates.push(createSpawnPoint('rooftop', {
+        x: building.position.x,
+        y: building.position.y + building.size.y / 2 + ROOFTOP_CLEARANCE,
+        z: building.position.z
+      }));
+    });
+  }
+
+  spawnSet.points.forEach(position => {
+    candidates.push(createSpawnPoint('custom', { ...position }));
+  });
+
+  return candidates.filter(point => {
+    const clear = isSpawnPointClear(point.position, cityLayout);
+    if (!clear && point.kind === 'custom') {
+      throw new Error(`Spawn point (${point.position.x}, ${point.position.y}, ${point.position.z}) is inside a building`);
+    }
+    return clear;
+  });
+}
+
+/**
+ * Check that a car spawning at a point wouldn't touch any building
+ * @param {Vector3} position - The spawn point
+ * @param {Building[]} cityLayout - The room's buildings
+ * @returns {boolean} - Whether the point is clear
+ */
+export function isSpawnPointClear(position: Vector3, cityLayout: Building[]): boolean {
+  return cityLayout.every(building =>
+    Math.abs(position.x - building.position.x) >= building.size.x / 2 + SPAWN_CLEARANCE ||
+    Math.abs(position.y - building.position.y) >= building.size.y / 2 + SPAWN_CLEARANCE ||
+    Math.abs(position.z - building.position.z) >= building.size.z / 2 + SPAWN_CLEARANCE
+  );
+}
+
+/**
+ * Pick where a car spawns: far from enemies, out of their sight and on its
+ * own team's side, with a little randomness between equally good points
+ * @param {SpawnPoint[]} spawnPoints - The room's spawn points
+ * @param {Building[]} cityLayout - The room's buildings, which block sight
+ * @param {Vector3[]} enemies - Positions of living enemies
+ * @param {TeamId} [team] - The spawning car's team, in team modes
+ * @returns {Vector3} - The spawn position
+ */
+export function chooseSpawnPoint(
+  spawnPoints: SpawnPoint[],
+  cityLayout: Building[],
+  enemies: Vector3[],
+  team?: TeamId
+): Vector3 {
+  if (spawnPoints.length === 0) {
+    return { x: 0, y: STREET_HEIGHT, z: 0 };
+  }
+
+  // Distance and side first, then sight lines for the most promising points only
+  const scored = spawnPoints
+    .map(point => ({
+      point,
+      score: scoreDistance(point, enemies) + scoreSide(point, team) + Math.random() * SCORE_JITTER
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, SIGHT_CHECKS);
+
+  scored.forEach(candidate => {
+    if (enemies.some(enemy => canSee(enemy, candidate.point.position, cityLayout))) {
+      candidate.score -= SEEN_PENALTY;
+    }
+  });
+  scored.sort((a, b) => b.score - a.score);
+
+  return { ...scored[0].point.position };
+}
+
+/**
+ * Create a spawn point, working out which team's side it is on
+ * @param {SpawnKind} kind - Where the point came from
+ * @param {Vector3} position - The point
+ * @returns {SpawnPoint} - The spawn point
+ */
+function createSpawnPoint(kind: SpawnKind, position: Vector3): SpawnPoint {
+  const point: SpawnPoint = { kind, position };
+
+  // Red's base is on the negative x side of the city, blue's on the positive
+  if (position.x <= -SIDE_MARGIN) {
+    point.side = 'red';
+  } else if (position.x >= SIDE_MARGIN) {
+    point.side = 'blue';
+  }
+
+  return point;
+}
+
+/**
+ * Score a point by how far it is from the nearest enemy
+ * @param {SpawnPoint} point - The spawn point
+ * @param {Vector3[]} enemies - Positions of living enemies
+ * @returns {number} - Higher is safer
+ */
+function scoreDistance(point: SpawnPoint, enemies: Vector3[]): number {
+  let nearest = SAFE_DISTANCE;
+  enemies.forEach(enemy => {
+    nearest = Math.min(nearest, distanceBetween(point.position, enemy));
+  });
+  return nearest;
+}
+
+/**
+ * Score a point by which team's side it is on
+ * @param {SpawnPoint} point - The spawn point
+ * @param {TeamId} [team] - The spawning car's team
+ * @returns {number} - A bonus on the own side, a penalty on the enemy's
+ */
+function scoreSide(point: SpawnPoint, team?: TeamId): number {
+  if (!team || !point.side) return 0;
+  return point.side === team ? SIDE_BONUS : -SIDE_BONUS;
+}
+
+/**
+ * Check whether an enemy has a clear line of sight to a point
+ * @param {Vector3} from - The enemy's position
+ * @param {Vector3} to - The spawn point
+ * @param {Building[]} cityLayout - The room's buildings
+ * @returns {boolean} - Whether the enemy can see the point
+ */
+function canSee(from: Vector3, to: Vector3, cityLayout: Building[]): boolean {
+  const distance = distanceBetween(from, to);
+  if (distance > SIGHT_RANGE) return false;
+  if (distance === 0) return true;
+
+  const direction = {
+    x: (to.x - from.x) / distance,
+    y: (to.y - from.y) / distance,
+    z: (to.z - from.z) / distance
+  };
+
+  return cityLayout.every(building => {
+    const hit = rayBoxIntersection(from, direction, building.position, building.size);
+    return hit === null || hit >= distance;
+  });
+}
+
+/**
+ * Distance between two points
+ * @param {Vector3} a - First point
+ * @param {Vector3} b - Second point
+ * @returns {number} - The distance
+ */
+function distanceBetween(a: Vector3, b: Vector3): number {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
@@ -0,0 +1,86 @@
+/**
+ * Stat tracker - counts what a car does (shots, hits, damage, distance flown,
+ * time alive, kills and deaths) for its current match and for its account.
+ * The room hands the account's share to the account store every so often,
+ * so the counters only hold what hasn't been recorded yet.
+ */
+import { StatCounters, MatchStats } from '../../types.js';
+
+export interface StatTracker {
+  match: MatchStats;                // Since the current match went live
+  unrecorded: Partial<StatCounters>; // Not yet added to the player's account
+}
+
+// Counters that are also kept per match; kills, deaths and assists are the mode's
+type MatchCounter = keyof StatCounters & keyof MatchStats;
+const MATCH_COUNTERS: MatchCounter[] = ['shotsFired', 'shotsHit', 'damageDealt', 'distanceFlown', 'timeAlive'];
+
+/**
+ * Create a tracker with nothing counted
+ * @returns {StatTracker} - The tracker
+ */
+export function createStatTracker(): StatTracker {
+  return {
+    match: createMatchStats(),
+    unrecorded: {}
+  };
+}
+
+/**
+ * Add to one of a car's stats
+ * @param {StatTracker} tracker - The car's tracker
+ * @param {keyof StatCounters} stat - The stat
+ * @param {number} amount - Amount to add
+ */
+export function addStat(tracker: StatTracker, stat: keyof StatCounters, amount: number): void {
+  if (amount <= 0) return;
+
+  tracker.unrecorded[stat] = (tracker.unrecorded[stat] || 0) + amount;
+  if ((MATCH_COUNTERS as string[]).indexOf(stat) !== -1) {
+    tracker.match[stat as MatchCounter] += amount;
+  }
+}
+
+/**
+ * Keep a lap time if it is the car's best this match
+ * @param {StatTracker} tracker - The car's tracker
+ * @param {number} time - The lap time (ms)
+ */
+export function addLapTime(tracker: StatTracker, time: number): void {
+  if (tracker.match.bestLapTime === undefined || time < tracker.match.bestLapTime) {
+    tracker.match.bestLapTime = time;
+  }
+}
+
+/**
+ * Hand over everything counted since the last call, for the player's account
+ * @param {StatTracker} tracker - The car's tracker
+ * @returns {Partial<StatCounters>} - Amounts to add to the account
+ */
+export function takeUnrecordedStats(tracker: StatTracker): Partial<StatCounters> {
+  const unrecorded = tracker.unrecorded;
+  tracker.unrecorded = {};
+  return unrecorded;
+}
+
+/**
+ * Start counting a new match
+ * @param {StatTracker} tracker - The car's tracker
+ */
+export function resetMatchStats(tracker: StatTracker): void {
+  tracker.match = createMatchStats();
+}
+
+/**
+ * Match stats with nothing counted
+ * @returns {MatchStats} - The stats
+ */
+function createMatchStats(): MatchStats {
+  return {
+    shotsFired: 0,
+    shotsHit: 0,
+    damageDealt: 0,
+    distanceFlown: 0,
+    timeAlive: 0
+  };
+}
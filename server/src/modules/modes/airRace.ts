@@ -0,0 +1,346 @@
+/**
+ * Air Race - a time trial through checkpoint rings threaded along the
+ * city's roads, below the rooftops. The server checks every ring passage
+ * itself, times laps and splits, and hands each racer a recording of
+ * their best lap to race against as a ghost.
+ */
+import { GameStateManager, Player } from '../game/gameState.js';
+import {
+  Vector3,
+  Checkpoint,
+  RaceCourse,
+  RaceProgress,
+  GhostSample
+} from '../../types.js';
+import { CITY_CELL_SIZE, ROAD_INTERVAL } from '../../../../shared/world/city.js';
+import { GameModeManager, MatchEvents } from './gameMode.js';
+
+interface BestLap {
+  time: number;
+  splits: number[];
+}
+
+interface Racer {
+  lap: number;
+  nextCheckpoint: number;
+  lapStartTime: number | null;
+  splits: number[];
+  samples: GhostSample[];
+  lastSampleTime: number;
+  lastPosition: Vector3 | null;
+  bestLap: BestLap | null;
+}
+
+interface AirRaceState {
+  gameState: GameStateManager;
+  events: MatchEvents;
+  course: RaceCourse;
+  racers: Record<string, Racer>;
+}
+
+// Air Race constants
+const ROAD = CITY_CELL_SIZE * ROAD_INTERVAL; // Distance between parallel roads
+const RING_RADIUS = 20; // Roads leave about 50 units either side of their center line
+const GHOST_SAMPLE_INTERVAL = 100; // How often a lap is recorded for its ghost (ms)
+const MAX_LAP_TIME = 5 * 60 * 1000; // Laps taking longer than this are abandoned (ms)
+
+// Ring centers as [road x, height, road z]; each leg follows a single road
+const COURSE_LAYOUT: [number, number, number][] = [
+  [0, 40, -2],  // Start/finish
+  [2, 30, -2],
+  [2, 45, 0],
+  [1, 35, 0],
+  [1, 40, 2],
+  [-1, 30, 2],
+  [-1, 45, 1],
+  [-2, 35, 1],
+  [-2, 40, -2]
+];
+
+/**
+ * Initialize Air Race for a room
+ * @param {GameStateManager} gameState - The room's game state
+ * @param {MatchEvents} events - Where progress, laps and ghosts are sent
+ * @returns {GameModeManager} - The mode
+ */
+export function initializeAirRace(gameState: GameStateManager, events: MatchEvents): GameModeManager {
+  const state: AirRaceState = {
+    gameState,
+    events,
+    course: buildCourse(),
+    racers: {}
+  };
+
+  return {
+    onPlayerJoin: (player) => onPlayerJoin(state, player),
+    onPlayerLeave: (playerId) => onPlayerLeave(state, playerId),
+    canDamage: () => true,
+    onPlayerKilled: (victim) => onPlayerKilled(state, victim),
+    update: () => update(state),
+    getCourse: () => state.course
+  };
+}
+
+/**
+ * Lay the rings out along the roads, each facing along the racing line
+ * @returns {RaceCourse} - The course
+ */
+function buildCourse(): RaceCourse {
+  const positions = COURSE_LAYOUT.map(([x, y, z]) => ({ x: x * ROAD, y, z: z * ROAD }));
+
+  const checkpoints: Checkpoint[] = positions.map((position, index) => {
+    const previous = positions[(index + positions.length - 1) % positions.length];
+    const next = positions[(index + 1) % positions.length];
+
+    // Face halfway between the way in and the way out
+    const forward = normalize({
+      x: next.x - previous.x,
+      y: next.y - previous.y,
+      z: next.z - previous.z
+    });
+
+    return { position, forward, radius: RING_RADIUS };
+  });
+
+  return { checkpoints };
+}
+
+/**
+ * Start tracking a new racer
+ * @param {AirRaceState} state - The mode state
+ * @param {Player} player - The player who joined
+ */
+function onPlayerJoin(state: AirRaceState, player: Player): void {
+  state.racers[player.id] = {
+    lap: 0,
+    nextCheckpoint: 0,
+    lapStartTime: null,
+    splits: [],
+    samples: [],
+    lastSampleTime: 0,
+    lastPosition: null,
+    bestLap: null
+  };
+}
+
+/**
+ * Forget a racer who left
+ * @param {AirRaceState} state - The mode state
+ * @param {string} playerId - The player's ID
+ */
+function onPlayerLeave(state: AirRaceState, playerId: string): void {
+  delete state.racers[playerId];
+}
+
+/**
+ * Crashing or being shot down ends the lap
+ * @param {AirRaceState} state - The mode state
+ * @param {Player} victim - The player who died
+ */
+function onPlayerKilled(state: AirRaceState, victim: Player): void {
+  const racer = state.racers[victim.id];
+  if (racer && racer.lapStartTime !== null) {
+    abandonLap(state, victim.id, racer);
+  }
+}
+
+/**
+ * Check every racer against their next ring and record their laps
+ * @param {AirRaceState} state - The mode state
+ */
+function update(state: AirRaceState): void {
+  const now = Date.now();
+  const { checkpoints } = state.course;
+
+  Object.values(state.gameState.getAllPlayers()).forEach(player => {
+    const racer = state.racers[player.id];
+    if (!racer) return;
+
+    // Respawning moves the car, so don't test the jump against a ring
+    if (!player.isAlive) {
+      racer.lastPosition = null;
+      return;
+    }
+
+    if (racer.lapStartTime !== null && now - racer.lapStartTime > MAX_LAP_TIME) {
+      abandonLap(state, player.id, racer);
+    }
+
+    const ring = checkpoints[racer.nextCheckpoint];
+    if (racer.lastPosition && passesThrough(racer.lastPosition, player.position, ring)) {
+      passCheckpoint(state, player, racer, now);
+    }
+
+    if (racer.lapStartTime !== null && now - racer.lastSampleTime >= GHOST_SAMPLE_INTERVAL) {
+      recordSample(racer, player, now);
+    }
+
+    racer.lastPosition = { ...player.position };
+  });
+}
+
+/**
+ * Advance a racer past their next ring, finishing and starting laps at the line
+ * @param {AirRaceState} state - The mode state
+ * @param {Player} player - The racer's player
+ * @param {Racer} racer - The racer
+ * @param {number} now - Current time (ms)
+ */
+function passCheckpoint(state: AirRaceState, player: Player, racer: Racer, now: number): void {
+  const checkpointCount = state.course.checkpoints.length;
+  const index = racer.nextCheckpoint;
+  racer.nextCheckpoint = (index + 1) % checkpointCount;
+
+  if (index !== 0) {
+    const split = now - (racer.lapStartTime as number);
+    racer.splits.push(split);
+
+    state.events.onRaceProgress(player.id, {
+      lap: racer.lap,
+      nextCheckpoint: racer.nextCheckpoint,
+      lapStartTime: racer.lapStartTime,
+      split,
+      bestSplit: racer.bestLap ? racer.bestLap.splits[index - 1] : null
+    });
+    return;
+  }
+
+  // Crossing the line finishes the lap in progress...
+  if (racer.lapStartTime !== null) {
+    finishLap(state, player, racer, now);
+  }
+
+  // ...and starts the next one
+  racer.lap++;
+  racer.lapStartTime = now;
+  racer.splits = [];
+  racer.samples = [];
+  recordSample(racer, player, now);
+
+  state.events.onRaceProgress(player.id, {
+    lap: racer.lap,
+    nextCheckpoint: racer.nextCheckpoint,
+    lapStartTime: racer.lapStartTime,
+    split: null,
+    bestSplit: null
+  });
+}
+
+/**
+ * Time a finished lap and keep it if it is the racer's best
+ * @param {AirRaceState} state - The mode state
+ * @param {Player} player - The racer's player
+ * @param {Racer} racer - The racer
+ * @param {number} now - Current time (ms)
+ */
+function finishLap(state: AirRaceState, player: Player, racer: Racer, now: number): void {
+  const time = now - (racer.lapStartTime as number);
+  const best = !racer.bestLap || time < racer.bestLap.time;
+
+  recordSample(racer, player, now);
+
+  if (best) {
+    racer.bestLap = { time, splits: racer.splits };
+    state.events.onGhostLap(player.id, { time, samples: racer.samples });
+  }
+
+  state.events.onLapComplete({
+    playerId: player.id,
+    lap: racer.lap,
+    time,
+    splits: racer.splits,
+    best
+  });
+}
+
+/**
+ * Throw away the lap in progress; the racer starts again at the line
+ * @param {AirRaceState} state - The mode state
+ * @param {string} playerId - The racer's ID
+ * @param {Racer} racer - The racer
+ */
+function abandonLap(state: AirRaceState, playerId: string, racer: Racer): void {
+  racer.nextCheckpoint = 0;
+  racer.lapStartTime = null;
+  racer.splits = [];
+  racer.samples = [];
+
+  const progress: RaceProgress = {
+    lap: racer.lap,
+    nextCheckpoint: 0,
+    lapStartTime: null,
+    split: null,
+    bestSplit: null
+  };
+  state.events.onRaceProgress(playerId, progress);
+}
+
+/**
+ * Record where a racer is for their ghost
+ * @param {Racer} racer - The racer
+ * @param {Player} player - The racer's player
+ * @param {number} now - Current time (ms)
+ */
+function recordSample(racer: Racer, player: Player, now: number): void {
+  racer.samples.push({
+    time: now - (racer.lapStartTime as number),
+    position: { ...player.position },
+    rotation: { ...player.rotation }
+  });
+  racer.lastSampleTime = now;
+}
+
+/**
+ * Check whether a car flew through a ring between two ticks: it must cross
+ * the ring's plane in the racing direction, inside the ring
+ * @param {Vector3} from - Position last tick
+ * @param {Vector3} to - Position this tick
+ * @param {Checkpoint} ring - The ring
+ * @returns {boolean} - Whether the car passed through
+ */
+function passesThrough(from: Vector3, to: Vector3, ring: Checkpoint): boolean {
+  const before = dot(subtract(from, ring.position), ring.forward);
+  const after = dot(subtract(to, ring.position), ring.forward);
+  if (before > 0 || after < 0 || before === after) return false;
+
+  // Where the path meets the plane
+  const t = before / (before - after);
+  const crossing = {
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    z: from.z + (to.z - from.z) * t
+  };
+
+  const offset = subtract(crossing, ring.position);
+  return dot(offset, offset) <= ring.radius * ring.radius;
+}
+
+/**
+ * Subtract two vectors
+ * @param {Vector3} a - First vector
+ * @param {Vector3} b - Second vector
+ * @returns {Vector3} - a - b
+ */
+function subtract(a: Vector3, b: Vector3): Vector3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+/**
+ * Dot product of two vectors
+ * @param {Vector3} a - First vector
+ * @param {Vector3} b - Second vector
+ * @returns {number} - a . b
+ */
+function dot(a: Vector3, b: Vector3): number {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/**
+ * Scale a vector to unit length
+ * @param {Vector3} v - The vector
+ * @returns {Vector3} - The unit vector
+ */
+function normalize(v: Vector3): Vector3 {
+  const length = Math.sqrt(dot(v, v)) || 1;
+  return { x: v.x / length, y: v.y / length, z: v.z / length };
+}
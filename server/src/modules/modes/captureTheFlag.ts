@@ -0,0 +1,350 @@
+/**
+ * Capture the Flag - each team's flag sits on a rooftop at the edge of the
+ * city. Touch the enemy flag to take it, bring it back to your own roof while
+ * your flag is home to score. Carriers drop the flag when they die, and a
+ * dropped flag goes home when a defender touches it or after a while.
+ */
+import { GameStateManager, Player } from '../game/gameState.js';
+import {
+  TeamId,
+  Vector3,
+  Building,
+  PlayerDiedEvent,
+  FlagState,
+  FlagAction
+} from '../../types.js';
+import { GameModeManager, MatchEvents, MatchResults } from './gameMode.js';
+import { TEAMS, pickTeam, dealTeams, isEnemy, opposingTeam, rankTeams } from './teams.js';
+import { PlayerStats, createPlayerStats, startPlayerStats, recordKill, rankPlayers } from './playerStats.js';
+
+interface Flag extends FlagState {
+  droppedAt: number;
+}
+
+interface CaptureTheFlagState {
+  gameState: GameStateManager;
+  events: MatchEvents;
+  live: boolean;
+  teamScores: Record<TeamId, number>;
+  stats: Record<string, PlayerStats>;
+  captures: Record<string, number>;
+  flags: Record<TeamId, Flag>;
+}
+
+// Capture the Flag constants
+const TIME_LIMIT = 10 * 60 * 1000; // Length of a match (ms)
+const SCORE_LIMIT = 3; // Captures that end the match early
+const BASE_DISTANCE = 600; // How far from the city center each base is, along the x axis
+const FLAG_TOUCH_RADIUS = 15; // Horizontal reach for picking up a flag
+const FLAG_TOUCH_HEIGHT = 10; // Vertical reach for picking up a flag
+const FLAG_RETURN_TIME = 30000; // A dropped flag goes home after this long (ms)
+
+/**
+ * Initialize Capture the Flag for a room
+ * @param {GameStateManager} gameState - The room's game state
+ * @param {MatchEvents} events - Where flag changes are announced
+ * @returns {GameModeManager} - The mode
+ */
+export function initializeCaptureTheFlag(gameState: GameStateManager, events: MatchEvents): GameModeManager {
+  const cityLayout = gameState.getCityLayout();
+
+  const state: CaptureTheFlagState = {
+    gameState,
+    events,
+    live: false,
+    teamScores: { red: 0, blue: 0 },
+    stats: {},
+    captures: {},
+    flags: {
+      red: createFlag('red', findBaseRoof(cityLayout, -BASE_DISTANCE)),
+      blue: createFlag('blue', findBaseRoof(cityLayout, BASE_DISTANCE))
+    }
+  };
+
+  return {
+    onPlayerJoin: (player) => onPlayerJoin(state, player),
+    onPlayerLeave: (playerId) => onPlayerLeave(state, playerId),
+    canDamage: isEnemy,
+    onPlayerKilled: (victim, kill) => onPlayerKilled(state, victim, kill),
+    update: () => update(state),
+    getFlags: () => TEAMS.map(team => describeFlag(state.flags[team])),
+    scoring: {
+      timeLimit: TIME_LIMIT,
+      scoreLimit: SCORE_LIMIT,
+      startMatch: () => startMatch(state),
+      endMatch: () => endMatch(state),
+      getScores: () => ({ ...state.teamScores })
+    }
+  };
+}
+
+/**
+ * Find the top of the building closest to a point on the x axis
+ * @param {Building[]} cityLayout - The room's buildings
+ * @param {number} x - Where the base should be
+ * @returns {Vector3} - The middle of the building's roof
+ */
+function findBaseRoof(cityLayout: Building[], x: number): Vector3 {
+  let roof: Building | null = null;
+  let roofDistance = Infinity;
+
+  for (const building of cityLayout) {
+    const dx = building.position.x - x;
+    const dz = building.position.z;
+    const distance = dx * dx + dz * dz;
+    if (distance < roofDistance) {
+      roof = building;
+      roofDistance = distance;
+    }
+  }
+
+  if (!roof) return { x, y: 0, z: 0 };
+
+  return {
+    x: roof.position.x,
+    y: roof.position.y + roof.size.y / 2,
+    z: roof.position.z
+  };
+}
+
+/**
+ * Create a flag sitting at its base
+ * @param {TeamId} team - The flag's team
+ * @param {Vector3} base - The flag's rooftop
+ * @returns {Flag} - The flag
+ */
+function createFlag(team: TeamId, base: Vector3): Flag {
+  return {
+    team,
+    status: 'home',
+    base,
+    position: { ...base },
+    droppedAt: 0
+  };
+}
+
+/**
+ * Put a new player on the smaller team
+ * @param {CaptureTheFlagState} state - The mode state
+ * @param {Player} player - The player who joined
+ */
+function onPlayerJoin(state: CaptureTheFlagState, player: Player): void {
+  player.team = pickTeam(state.gameState, state.teamScores);
+  state.stats[player.id] = createPlayerStats();
+}
+
+/**
+ * Drop the flag of a player who left and forget them
+ * @param {CaptureTheFlagState} state - The mode state
+ * @param {string} playerId - The player's ID
+ */
+function onPlayerLeave(state: CaptureTheFlagState, playerId: string): void {
+  const flag = getCarriedFlag(state, playerId);
+  if (flag) {
+    dropFlag(state, flag, flag.position, playerId);
+  }
+
+  delete state.stats[playerId];
+  delete state.captures[playerId];
+}
+
+/**
+ * Count the kill and assists and drop the victim's flag where they died
+ * @param {CaptureTheFlagState} state - The mode state
+ * @param {Player} victim - The player who died
+ * @param {PlayerDiedEvent} kill - Who gets the kill and the assists
+ */
+function onPlayerKilled(state: CaptureTheFlagState, victim: Player, kill: PlayerDiedEvent): void {
+  const flag = getCarriedFlag(state, victim.id);
+  if (flag) {
+    dropFlag(state, flag, victim.position, victim.id);
+  }
+
+  if (!state.live) return;
+
+  const killer = kill.killedBy ? state.gameState.getPlayerById(kill.killedBy) : null;
+  const killerId = killer && killer.team !== victim.team ? killer.id : null;
+  recordKill(state.stats, victim.id, killerId, kill.assistedBy);
+}
+
+/**
+ * Move flags while a match is live
+ * @param {CaptureTheFlagState} state - The mode state
+ */
+function update(state: CaptureTheFlagState): void {
+  if (state.live) {
+    updateFlags(state, Date.now());
+  }
+}
+
+/**
+ * Move carried flags with their carriers, send stale dropped flags home and
+ * handle players touching flags
+ * @param {CaptureTheFlagState} state - The mode state
+ * @param {number} now - Current time (ms)
+ */
+function updateFlags(state: CaptureTheFlagState, now: number): void {
+  TEAMS.forEach(team => {
+    const flag = state.flags[team];
+
+    if (flag.status === 'carried') {
+      const carrier = flag.carrierId ? state.gameState.getPlayerById(flag.carrierId) : null;
+      if (carrier && carrier.isAlive) {
+        flag.position = { ...carrier.position };
+      } else {
+        dropFlag(state, flag, flag.position, flag.carrierId);
+      }
+    } else if (flag.status === 'dropped' && now - flag.droppedAt >= FLAG_RETURN_TIME) {
+      returnFlag(state, flag, 'returned');
+    }
+  });
+
+  Object.values(state.gameState.getAllPlayers()).forEach(player => {
+    if (!player.isAlive || !player.team) return;
+
+    const ownFlag = state.flags[player.team];
+    const enemyFlag = state.flags[opposingTeam(player.team)];
+
+    // Defenders send their dropped flag home
+    if (ownFlag.status === 'dropped' && isTouching(player.position, ownFlag.position)) {
+      returnFlag(state, ownFlag, 'returned', player.id);
+    }
+
+    // Attackers take the enemy flag from its roof or wherever it fell
+    if (enemyFlag.status !== 'carried' && isTouching(player.position, enemyFlag.position)) {
+      enemyFlag.status = 'carried';
+      enemyFlag.carrierId = player.id;
+      enemyFlag.position = { ...player.position };
+      announce(state, enemyFlag, 'taken', player.id);
+    }
+
+    // Carriers score by reaching their own roof while their flag is home
+    if (enemyFlag.carrierId === player.id && ownFlag.status === 'home' &&
+        isTouching(player.position, ownFlag.base)) {
+      state.teamScores[player.team]++;
+      state.captures[player.id] = (state.captures[player.id] || 0) + 1;
+      returnFlag(state, enemyFlag, 'captured', player.id);
+    }
+  });
+}
+
+/**
+ * Drop a flag where its carrier was
+ * @param {CaptureTheFlagState} state - The mode state
+ * @param {Flag} flag - The flag
+ * @param {Vector3} position - Where it falls
+ * @param {string} [playerId] - The carrier who dropped it
+ */
+function dropFlag(state: CaptureTheFlagState, flag: Flag, position: Vector3, playerId?: string): void {
+  flag.status = 'dropped';
+  flag.carrierId = undefined;
+  flag.position = { ...position };
+  flag.droppedAt = Date.now();
+  announce(state, flag, 'dropped', playerId);
+}
+
+/**
+ * Put a flag back on its roof
+ * @param {CaptureTheFlagState} state - The mode state
+ * @param {Flag} flag - The flag
+ * @param {FlagAction} action - Why it went home
+ * @param {string} [playerId] - The player who sent it home
+ */
+function returnFlag(state: CaptureTheFlagState, flag: Flag, action: FlagAction, playerId?: string): void {
+  flag.status = 'home';
+  flag.carrierId = undefined;
+  flag.position = { ...flag.base };
+  announce(state, flag, action, playerId);
+}
+
+/**
+ * Tell the room about a flag change
+ * @param {CaptureTheFlagState} state - The mode state
+ * @param {Flag} flag - The flag
+ * @param {FlagAction} action - What happened
+ * @param {string} [playerId] - Who did it
+ */
+function announce(state: CaptureTheFlagState, flag: Flag, action: FlagAction, playerId?: string): void {
+  state.events.onFlagUpdate({ flag: describeFlag(flag), action, playerId });
+}
+
+/**
+ * Balance the teams and reset scores and flags for a new match
+ * @param {CaptureTheFlagState} state - The mode state
+ */
+function startMatch(state: CaptureTheFlagState): void {
+  const players = Object.values(state.gameState.getAllPlayers());
+
+  dealTeams(players);
+  state.stats = startPlayerStats(players);
+  state.captures = {};
+
+  TEAMS.forEach(team => {
+    if (state.flags[team].status !== 'home') {
+      returnFlag(state, state.flags[team], 'returned');
+    }
+  });
+
+  state.teamScores = { red: 0, blue: 0 };
+  state.live = true;
+}
+
+/**
+ * Stop scoring and rank the teams and players
+ * @param {CaptureTheFlagState} state - The mode state
+ * @returns {MatchResults} - The standings
+ */
+function endMatch(state: CaptureTheFlagState): MatchResults {
+  const players = state.gameState.getAllPlayers();
+  state.live = false;
+
+  const standings = rankPlayers(state.stats, players, standing => {
+    standing.captures = state.captures[standing.playerId] || 0;
+  });
+
+  return { teams: rankTeams(state.teamScores), players: standings };
+}
+
+/**
+ * Get the flag a player is carrying
+ * @param {CaptureTheFlagState} state - The mode state
+ * @param {string} playerId - The player's ID
+ * @returns {Flag | null} - The flag or null
+ */
+function getCarriedFlag(state: CaptureTheFlagState, playerId: string): Flag | null {
+  const team = TEAMS.find(team => state.flags[team].carrierId === playerId);
+  return team ? state.flags[team] : null;
+}
+
+/**
+ * Copy a flag's public state
+ * @param {Flag} flag - The flag
+ * @returns {FlagState} - What clients see
+ */
+function describeFlag(flag: Flag): FlagState {
+  const description: FlagState = {
+    team: flag.team,
+    status: flag.status,
+    base: { ...flag.base },
+    position: { ...flag.position }
+  };
+
+  if (flag.carrierId) {
+    description.carrierId = flag.carrierId;
+  }
+
+  return description;
+}
+
+/**
+ * Check whether a car is close enough to a flag to touch it
+ * @param {Vector3} car - The car's position
+ * @param {Vector3} flag - The flag's position
+ * @returns {boolean} - Whether they touch
+ */
+function isTouching(car: Vector3, flag: Vector3): boolean {
+  const dx = car.x - flag.x;
+  const dz = car.z - flag.z;
+  return dx * dx + dz * dz <= FLAG_TOUCH_RADIUS * FLAG_TOUCH_RADIUS &&
+    Math.abs(car.y - flag.y) <= FLAG_TOUCH_HEIGHT;
+}
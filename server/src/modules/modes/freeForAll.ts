@@ -0,0 +1,108 @@
+/**
+ * Free-for-all - everyone for themselves, a point for every kill
+ */
+import { GameStateManager, Player } from '../game/gameState.js';
+import { PlayerDiedEvent } from '../../types.js';
+import { GameModeManager, MatchResults } from './gameMode.js';
+import { PlayerStats, createPlayerStats, startPlayerStats, recordKill, rankPlayers } from './playerStats.js';
+
+interface FreeForAllState {
+  gameState: GameStateManager;
+  live: boolean;
+  stats: Record<string, PlayerStats>;
+}
+
+// Free-for-all constants
+const TIME_LIMIT = 10 * 60 * 1000; // Length of a match (ms)
+const SCORE_LIMIT = 20; // Kills that end the match early
+
+/**
+ * Initialize free-for-all for a room
+ * @param {GameStateManager} gameState - The room's game state
+ * @returns {GameModeManager} - The mode
+ */
+export function initializeFreeForAll(gameState: GameStateManager): GameModeManager {
+  const state: FreeForAllState = {
+    gameState,
+    live: false,
+    stats: {}
+  };
+
+  return {
+    onPlayerJoin: (player) => onPlayerJoin(state, player),
+    onPlayerLeave: (playerId) => onPlayerLeave(state, playerId),
+    canDamage: () => true,
+    onPlayerKilled: (victim, kill) => onPlayerKilled(state, victim, kill),
+    update: () => {},
+    scoring: {
+      timeLimit: TIME_LIMIT,
+      scoreLimit: SCORE_LIMIT,
+      startMatch: () => startMatch(state),
+      endMatch: () => endMatch(state),
+      getScores: () => getScores(state)
+    }
+  };
+}
+
+/**
+ * Start a new player's stats
+ * @param {FreeForAllState} state - The mode state
+ * @param {Player} player - The player who joined
+ */
+function onPlayerJoin(state: FreeForAllState, player: Player): void {
+  state.stats[player.id] = createPlayerStats();
+}
+
+/**
+ * Forget a player who left
+ * @param {FreeForAllState} state - The mode state
+ * @param {string} playerId - The player's ID
+ */
+function onPlayerLeave(state: FreeForAllState, playerId: string): void {
+  delete state.stats[playerId];
+}
+
+/**
+ * Count the kill and the assists
+ * @param {FreeForAllState} state - The mode state
+ * @param {Player} victim - The player who died
+ * @param {PlayerDiedEvent} kill - Who gets the kill and the assists
+ */
+function onPlayerKilled(state: FreeForAllState, victim: Player, kill: PlayerDiedEvent): void {
+  if (!state.live) return;
+
+  recordKill(state.stats, victim.id, kill.killedBy || null, kill.assistedBy);
+}
+
+/**
+ * Reset everyone's stats for a new match
+ * @param {FreeForAllState} state - The mode state
+ */
+function startMatch(state: FreeForAllState): void {
+  state.stats = startPlayerStats(Object.values(state.gameState.getAllPlayers()));
+  state.live = true;
+}
+
+/**
+ * Stop scoring and rank the players
+ * @param {FreeForAllState} state - The mode state
+ * @returns {MatchResults} - The standings
+ */
+function endMatch(state: FreeForAllState): MatchResults {
+  state.live = false;
+
+  return { teams: [], players: rankPlayers(state.stats, state.gameState.getAllPlayers()) };
+}
+
+/**
+ * Get every player's kills
+ * @param {FreeForAllState} state - The mode state
+ * @returns {Record<string, number>} - Kills per player
+ */
+function getScores(state: FreeForAllState): Record<string, number> {
+  const scores: Record<string, number> = {};
+  Object.keys(state.stats).forEach(playerId => {
+    scores[playerId] = state.stats[playerId].kills;
+  });
+  return scores;
+}
@@ -0,0 +1,91 @@
+/**
+ * Game modes - match rules a room layers on top of its game state
+ */
+import { GameStateManager, GameModeRules } from '../game/gameState.js';
+import {
+  GameModeId,
+  MatchState,
+  MatchEnd,
+  TeamStanding,
+  PlayerStanding,
+  FlagState,
+  FlagUpdate,
+  ZoneUpdate,
+  RaceCourse,
+  RaceProgress,
+  LapComplete,
+  GhostLap
+} from '../../types.js';
+import { initializeFreeForAll } from './freeForAll.js';
+import { initializeTeamDeathmatch } from './teamDeathmatch.js';
+import { initializeCaptureTheFlag } from './captureTheFlag.js';
+import { initializeAirRace } from './airRace.js';
+import { initializeKingOfTheHill } from './kingOfTheHill.js';
+
+// Where a room's mode and match announce what happens (the room forwards these to its players)
+export interface MatchEvents {
+  onMatchPhase: (match: MatchState) => void;
+  onMatchEnd: (result: MatchEnd) => void;
+  onFlagUpdate: (update: FlagUpdate) => void;
+  onZoneUpdate: (update: ZoneUpdate) => void;
+  onRaceProgress: (playerId: string, progress: RaceProgress) => void;
+  onLapComplete: (lap: LapComplete) => void;
+  onGhostLap: (playerId: string, ghost: GhostLap) => void;
+}
+
+// A mode's standings at the end of a match
+export interface MatchResults {
+  teams: TeamStanding[];
+  players: PlayerStanding[];
+}
+
+// How a mode keeps score in matches; the match controller runs the clock
+export interface MatchScoring {
+  timeLimit: number;   // Default length of a match (ms)
+  scoreLimit: number;  // Default score that ends a match early
+  startMatch: () => void;                   // The match went live: reset scores and objectives
+  endMatch: () => MatchResults;             // The match is over: stop scoring and rank everyone
+  getScores: () => Record<string, number>;  // Team or player scores
+}
+
+export interface GameModeManager extends GameModeRules {
+  scoring?: MatchScoring;        // Modes played as matches
+  getFlags?: () => FlagState[];  // Only in Capture the Flag
+  getZones?: () => ZoneUpdate;   // Only in King of the Hill
+  getCourse?: () => RaceCourse;  // Only in Air Race
+}
+
+/**
+ * Create the rules for a game mode and attach them to a room's game state
+ * @param {GameModeId} mode - The game mode
+ * @param {GameStateManager} gameState - The room's game state
+ * @param {MatchEvents} events - Where the mode announces objectives
+ * @returns {GameModeManager} - The mode
+ */
+export function initializeGameMode(mode: GameModeId, gameState: GameStateManager, events: MatchEvents): GameModeManager {
+  let manager: GameModeManager;
+
+  switch (mode) {
+    case 'team_deathmatch':
+      manager = initializeTeamDeathmatch(gameState);
+      break;
+    case 'capture_the_flag':
+      manager = initializeCaptureTheFlag(gameState, events);
+      break;
+    case 'air_race':
+      manager = initializeAirRace(gameState, events);
+      break;
+    case 'king_of_the_hill':
+      manager = initializeKingOfTheHill(gameState, events, false);
+      break;
+    case 'team_king_of_the_hill':
+      manager = initializeKingOfTheHill(gameState, events, true);
+      break;
+    case 'free_for_all':
+      manager = initializeFreeForAll(gameState);
+      break;
+  }
+
+  gameState.setRules(manager);
+  return manager;
+}
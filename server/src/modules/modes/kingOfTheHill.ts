@@ -0,0 +1,375 @@
+/**
+ * King of the Hill - control zones stand somewhere in the city, clear of
+ * buildings. Whoever holds a zone alone scores points every second;
+ * a zone with more than one team (or player) inside is contested and
+ * scores for nobody. Zones move to new places on a timer.
+ */
+import { GameStateManager, Player } from '../game/gameState.js';
+import {
+  TeamId,
+  Vector3,
+  Building,
+  PlayerDiedEvent,
+  ZoneState,
+  ZoneUpdate
+} from '../../types.js';
+import { GameModeManager, MatchEvents, MatchResults } from './gameMode.js';
+import { TEAMS, pickTeam, dealTeams, isEnemy, rankTeams } from './teams.js';
+import { PlayerStats, createPlayerStats, startPlayerStats, recordKill, rankPlayers } from './playerStats.js';
+
+interface KingOfTheHillState {
+  gameState: GameStateManager;
+  events: MatchEvents;
+  teamPlay: boolean;
+  live: boolean;
+  zones: ZoneState[];
+  scores: Record<string, number>;
+  stats: Record<string, PlayerStats>;
+  lastUpdateTime: number;
+  nextBroadcastTime: number;
+}
+
+// King of the Hill constants
+const ZONE_COUNT = 2;
+const ZONE_RADIUS = 35;
+const ZONE_HEIGHT = 150; // Cars above this don't count as inside
+const ZONE_DURATION = 60000; // How long a zone stays in one place (ms)
+const ZONE_SPACING = 300; // Minimum distance between zones
+const ZONE_BOUNDS_MARGIN = 100; // Keep zones this far inside the city bounds
+const MAX_PLACEMENT_ATTEMPTS = 200;
+const POINTS_PER_SECOND = 1;
+const BROADCAST_INTERVAL = 1000; // How often scores are sent while nothing else changes (ms)
+const TIME_LIMIT = 10 * 60 * 1000; // Length of a match (ms)
+const SCORE_LIMIT = 150; // Points that end the match early
+
+/**
+ * Initialize King of the Hill for a room
+ * @param {GameStateManager} gameState - The room's game state
+ * @param {MatchEvents} events - Where zone changes are announced
+ * @param {boolean} teamPlay - Whether teams score together instead of players on their own
+ * @returns {GameModeManager} - The mode
+ */
+export function initializeKingOfTheHill(gameState: GameStateManager, events: MatchEvents, teamPlay: boolean): GameModeManager {
+  const now = Date.now();
+
+  const state: KingOfTheHillState = {
+    gameState,
+    events,
+    teamPlay,
+    live: false,
+    zones: [],
+    scores: {},
+    stats: {},
+    lastUpdateTime: now,
+    nextBroadcastTime: now
+  };
+
+  for (let i = 0; i < ZONE_COUNT; i++) {
+    state.zones.push(placeZone(state, `zone-${i + 1}`, now));
+  }
+
+  return {
+    onPlayerJoin: (player) => onPlayerJoin(state, player),
+    onPlayerLeave: (playerId) => onPlayerLeave(state, playerId),
+    canDamage: teamPlay ? isEnemy : () => true,
+    onPlayerKilled: (victim, kill) => onPlayerKilled(state, victim, kill),
+    update: () => update(state),
+    getZones: () => describeZones(state),
+    scoring: {
+      timeLimit: TIME_LIMIT,
+      scoreLimit: SCORE_LIMIT,
+      startMatch: () => startMatch(state),
+      endMatch: () => endMatch(state),
+      getScores: () => describeZones(state).scores
+    }
+  };
+}
+
+/**
+ * Put a new player on a team (in team play) and start their stats
+ * @param {KingOfTheHillState} state - The mode state
+ * @param {Player} player - The player who joined
+ */
+function onPlayerJoin(state: KingOfTheHillState, player: Player): void {
+  if (state.teamPlay) {
+    player.team = pickTeam(state.gameState, teamScores(state));
+  }
+  state.stats[player.id] = createPlayerStats();
+}
+
+/**
+ * Forget a player who left
+ * @param {KingOfTheHillState} state - The mode state
+ * @param {string} playerId - The player's ID
+ */
+function onPlayerLeave(state: KingOfTheHillState, playerId: string): void {
+  delete state.stats[playerId];
+  if (!state.teamPlay) {
+    delete state.scores[playerId];
+  }
+}
+
+/**
+ * Count kills, deaths and assists for the scoreboard
+ * @param {KingOfTheHillState} state - The mode state
+ * @param {Player} victim - The player who died
+ * @param {PlayerDiedEvent} kill - Who gets the kill and the assists
+ */
+function onPlayerKilled(state: KingOfTheHillState, victim: Player, kill: PlayerDiedEvent): void {
+  if (!state.live) return;
+
+  const killer = kill.killedBy ? state.gameState.getPlayerById(kill.killedBy) : null;
+  const killerId = killer && (!state.teamPlay || killer.team !== victim.team) ? killer.id : null;
+  recordKill(state.stats, victim.id, killerId, kill.assistedBy);
+}
+
+/**
+ * Score zones while a match is live
+ * @param {KingOfTheHillState} state - The mode state
+ */
+function update(state: KingOfTheHillState): void {
+  const now = Date.now();
+  const elapsed = (now - state.lastUpdateTime) / 1000;
+  state.lastUpdateTime = now;
+
+  if (state.live) {
+    updateZones(state, elapsed, now);
+  }
+}
+
+/**
+ * Move zones whose time is up, work out who holds each one and award points
+ * @param {KingOfTheHillState} state - The mode state
+ * @param {number} elapsed - Time since the last update (seconds)
+ * @param {number} now - Current time (ms)
+ */
+function updateZones(state: KingOfTheHillState, elapsed: number, now: number): void {
+  let changed = false;
+  const players = Object.values(state.gameState.getAllPlayers());
+
+  state.zones.forEach((zone, index) => {
+    if (now >= zone.moveTime) {
+      state.zones[index] = placeZone(state, zone.id, now);
+      changed = true;
+      return;
+    }
+
+    // Everyone with a car inside the zone, by team or by player
+    const occupants = new Set<string>();
+    players.forEach(player => {
+      if (player.isAlive && isInside(zone, player.position)) {
+        occupants.add(holderOf(state, player));
+      }
+    });
+
+    const contested = occupants.size > 1;
+    const holder = occupants.size === 1 ? occupants.values().next().value as string : null;
+
+    if (holder !== zone.holder || contested !== zone.contested) {
+      zone.holder = holder;
+      zone.contested = contested;
+      changed = true;
+    }
+
+    if (holder) {
+      state.scores[holder] = (state.scores[holder] || 0) + POINTS_PER_SECOND * elapsed;
+    }
+  });
+
+  if (changed || now >= state.nextBroadcastTime) {
+    broadcastZones(state, now);
+  }
+}
+
+/**
+ * Pick a place for a zone: inside the city bounds, clear of every building
+ * and away from the other zones
+ * @param {KingOfTheHillState} state - The mode state
+ * @param {string} id - The zone's ID
+ * @param {number} now - Current time (ms)
+ * @returns {ZoneState} - The zone
+ */
+function placeZone(state: KingOfTheHillState, id: string, now: number): ZoneState {
+  const bounds = state.gameState.CITY_BOUNDS;
+  const cityLayout = state.gameState.getCityLayout();
+  const others = state.zones.filter(zone => zone.id !== id);
+
+  let position: Vector3 = { x: 0, y: bounds.minY, z: 0 }; // City center is a road crossing
+  for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+    const candidate = {
+      x: randomBetween(bounds.minX + ZONE_BOUNDS_MARGIN, bounds.maxX - ZONE_BOUNDS_MARGIN),
+      y: bounds.minY,
+      z: randomBetween(bounds.minZ + ZONE_BOUNDS_MARGIN, bounds.maxZ - ZONE_BOUNDS_MARGIN)
+    };
+
+    const blocked = cityLayout.some(building => overlapsBuilding(candidate, building)) ||
+      others.some(zone => horizontalDistance(candidate, zone.position) < ZONE_SPACING);
+
+    if (!blocked) {
+      position = candidate;
+      break;
+    }
+  }
+
+  return {
+    id,
+    position,
+    radius: ZONE_RADIUS,
+    height: ZONE_HEIGHT,
+    holder: null,
+    contested: false,
+    moveTime: now + ZONE_DURATION
+  };
+}
+
+/**
+ * Reset scores, balance teams and move the zones for a new match
+ * @param {KingOfTheHillState} state - The mode state
+ */
+function startMatch(state: KingOfTheHillState): void {
+  const now = Date.now();
+  const players = Object.values(state.gameState.getAllPlayers());
+
+  if (state.teamPlay) {
+    dealTeams(players);
+  }
+  state.stats = startPlayerStats(players);
+
+  state.scores = {};
+  state.zones = state.zones.map(zone => placeZone(state, zone.id, now));
+  state.live = true;
+  broadcastZones(state, now);
+}
+
+/**
+ * Stop scoring and rank the teams and players
+ * @param {KingOfTheHillState} state - The mode state
+ * @returns {MatchResults} - The standings
+ */
+function endMatch(state: KingOfTheHillState): MatchResults {
+  const players = state.gameState.getAllPlayers();
+
+  const standings = rankPlayers(state.stats, players, standing => {
+    if (!state.teamPlay) {
+      standing.points = Math.floor(state.scores[standing.playerId] || 0);
+    }
+  });
+
+  state.live = false;
+  state.zones.forEach(zone => {
+    zone.holder = null;
+    zone.contested = false;
+  });
+  broadcastZones(state, Date.now());
+
+  return {
+    teams: state.teamPlay ? rankTeams(teamScores(state)) : [],
+    players: standings
+  };
+}
+
+/**
+ * Send the zones and scores to the room
+ * @param {KingOfTheHillState} state - The mode state
+ * @param {number} now - Current time (ms)
+ */
+function broadcastZones(state: KingOfTheHillState, now: number): void {
+  state.nextBroadcastTime = now + BROADCAST_INTERVAL;
+  state.events.onZoneUpdate(describeZones(state));
+}
+
+/**
+ * Copy the zones and whole-point scores for clients
+ * @param {KingOfTheHillState} state - The mode state
+ * @returns {ZoneUpdate} - What clients see
+ */
+function describeZones(state: KingOfTheHillState): ZoneUpdate {
+  const scores: Record<string, number> = {};
+
+  // Both teams are always listed, so clients can tell team play apart
+  if (state.teamPlay) {
+    TEAMS.forEach(team => {
+      scores[team] = 0;
+    });
+  }
+
+  Object.keys(state.scores).forEach(holder => {
+    scores[holder] = Math.floor(state.scores[holder]);
+  });
+
+  return {
+    zones: state.zones.map(zone => ({ ...zone, position: { ...zone.position } })),
+    scores
+  };
+}
+
+/**
+ * Get the team scores, for balancing players who join mid-match
+ * @param {KingOfTheHillState} state - The mode state
+ * @returns {Record<TeamId, number>} - Points per team
+ */
+function teamScores(state: KingOfTheHillState): Record<TeamId, number> {
+  return { red: state.scores.red || 0, blue: state.scores.blue || 0 };
+}
+
+/**
+ * Who a player scores for
+ * @param {KingOfTheHillState} state - The mode state
+ * @param {Player} player - The player
+ * @returns {string} - Their team in team play, otherwise their ID
+ */
+function holderOf(state: KingOfTheHillState, player: Player): string {
+  return state.teamPlay && player.team ? player.team : player.id;
+}
+
+/**
+ * Check whether a position is inside a zone's cylinder
+ * @param {ZoneState} zone - The zone
+ * @param {Vector3} position - The position
+ * @returns {boolean} - Whether it is inside
+ */
+function isInside(zone: ZoneState, position: Vector3): boolean {
+  return horizontalDistance(position, zone.position) <= zone.radius &&
+    position.y >= zone.position.y &&
+    position.y <= zone.position.y + zone.height;
+}
+
+/**
+ * Check whether a zone placed at a point would reach into a building
+ * @param {Vector3} center - The zone's center
+ * @param {Building} building - The building
+ * @returns {boolean} - Whether they overlap
+ */
+function overlapsBuilding(center: Vector3, building: Building): boolean {
+  // Closest point of the building's footprint to the zone's center
+  const halfX = building.size.x / 2;
+  const halfZ = building.size.z / 2;
+  const closestX = Math.max(building.position.x - halfX, Math.min(center.x, building.position.x + halfX));
+  const closestZ = Math.max(building.position.z - halfZ, Math.min(center.z, building.position.z + halfZ));
+
+  const dx = center.x - closestX;
+  const dz = center.z - closestZ;
+  return dx * dx + dz * dz < ZONE_RADIUS * ZONE_RADIUS;
+}
+
+/**
+ * Distance between two points, ignoring height
+ * @param {Vector3} a - First point
+ * @param {Vector3} b - Second point
+ * @returns {number} - The distance
+ */
+function horizontalDistance(a: Vector3, b: Vector3): number {
+  const dx = a.x - b.x;
+  const dz = a.z - b.z;
+  return Math.sqrt(dx * dx + dz * dz);
+}
+
+/**
+ * Random number in a range
+ * @param {number} min - Lower bound
+ * @param {number} max - Upper bound
+ * @returns {number} - A number in [min, max)
+ */
+function randomBetween(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
@@ -0,0 +1,210 @@
+/**
+ * Match controller - runs a room's matches through their phases:
+ * warmup until enough players are in, a countdown, the live match,
+ * overtime if the clock runs out on a tie, and a results screen
+ * before the next countdown.
+ */
+import { GameStateManager } from '../game/gameState.js';
+import { GameModeId, MatchPhase, MatchState } from '../../types.js';
+import { MatchEvents, MatchScoring } from './gameMode.js';
+import { resetMatchStats } from '../game/statTracker.js';
+
+export interface MatchConfig {
+  timeLimit: number;   // Length of the live phase (ms)
+  scoreLimit: number;  // Score that ends the match early
+}
+
+export interface MatchController {
+  update: () => void;
+  getState: () => MatchState;
+}
+
+interface MatchControllerState {
+  mode: GameModeId;
+  scoring: MatchScoring;
+  gameState: GameStateManager;
+  events: MatchEvents;
+  config: MatchConfig;
+  phase: MatchPhase;
+  phaseEndTime: number | null;
+}
+
+// Match constants
+const MIN_PLAYERS = 2; // Players needed to leave warmup
+const COUNTDOWN_DURATION = 10000; // Countdown before a match goes live (ms)
+const OVERTIME_DURATION = 2 * 60 * 1000; // Longest overtime before a tie stands (ms)
+const RESULTS_DURATION = 10000; // How long the results stay up (ms)
+
+/**
+ * Initialize the match controller for a room
+ * @param {GameModeId} mode - The room's game mode
+ * @param {MatchScoring} scoring - How the mode keeps score
+ * @param {GameStateManager} gameState - The room's game state
+ * @param {MatchEvents} events - Where phase changes and results are announced
+ * @param {MatchConfig} config - Time and score limits
+ * @returns {MatchController} - The match controller
+ */
+export function initializeMatchController(
+  mode: GameModeId,
+  scoring: MatchScoring,
+  gameState: GameStateManager,
+  events: MatchEvents,
+  config: MatchConfig
+): MatchController {
+  const state: MatchControllerState = {
+    mode,
+    scoring,
+    gameState,
+    events,
+    config,
+    phase: 'warmup',
+    phaseEndTime: null
+  };
+
+  return {
+    update: () => update(state),
+    getState: () => describeMatch(state)
+  };
+}
+
+/**
+ * Move the match on to its next phase when the current one is over
+ * @param {MatchControllerState} state - The controller state
+ */
+function update(state: MatchControllerState): void {
+  const now = Date.now();
+  const playerCount = Object.keys(state.gameState.getAllPlayers()).length;
+  const phaseOver = state.phaseEndTime !== null && now >= state.phaseEndTime;
+
+  switch (state.phase) {
+    case 'warmup':
+      if (playerCount >= MIN_PLAYERS) {
+        setPhase(state, 'countdown', now + COUNTDOWN_DURATION);
+      }
+      break;
+
+    case 'countdown':
+      if (playerCount < MIN_PLAYERS) {
+        setPhase(state, 'warmup', null);
+      } else if (phaseOver) {
+        startMatch(state, now);
+      }
+      break;
+
+    case 'live': {
+      const scores = Object.values(state.scoring.getScores());
+      if (scores.some(score => score >= state.config.scoreLimit)) {
+        endMatch(state, now);
+      } else if (phaseOver) {
+        if (findLeader(state) === null && scores.length > 1) {
+          setPhase(state, 'overtime', now + OVERTIME_DURATION);
+        } else {
+          endMatch(state, now);
+        }
+      }
+      break;
+    }
+
+    case 'overtime':
+      // Sudden death: the first score that breaks the tie wins
+      if (phaseOver || findLeader(state) !== null) {
+        endMatch(state, now);
+      }
+      break;
+
+    case 'results':
+      if (phaseOver) {
+        if (playerCount >= MIN_PLAYERS) {
+          setPhase(state, 'countdown', now + COUNTDOWN_DURATION);
+        } else {
+          setPhase(state, 'warmup', null);
+        }
+      }
+      break;
+  }
+}
+
+/**
+ * Reset scores and match stats, respawn everyone and go live
+ * @param {MatchControllerState} state - The controller state
+ * @param {number} now - Current time (ms)
+ */
+function startMatch(state: MatchControllerState, now: number): void {
+  state.scoring.startMatch();
+
+  Object.values(state.gameState.getAllPlayers()).forEach(player => {
+    player.score = 0;
+    resetMatchStats(player.stats);
+    state.gameState.respawnPlayer(player.id);
+  });
+
+  setPhase(state, 'live', now + state.config.timeLimit);
+}
+
+/**
+ * Finish the match and announce the standings
+ * @param {MatchControllerState} state - The controller state
+ * @param {number} now - Current time (ms)
+ */
+function endMatch(state: MatchControllerState, now: number): void {
+  const winner = findLeader(state);
+  const results = state.scoring.endMatch();
+
+  setPhase(state, 'results', now + RESULTS_DURATION);
+  state.events.onMatchEnd({
+    mode: state.mode,
+    winner,
+    teams: results.teams,
+    players: results.players
+  });
+}
+
+/**
+ * Find whoever is alone at the top of the scores
+ * @param {MatchControllerState} state - The controller state
+ * @returns {string | null} - The leading team or player, or null on a tie
+ */
+function findLeader(state: MatchControllerState): string | null {
+  const scores = state.scoring.getScores();
+  let leader: string | null = null;
+  let best = -Infinity;
+
+  Object.keys(scores).forEach(id => {
+    if (scores[id] > best) {
+      best = scores[id];
+      leader = id;
+    } else if (scores[id] === best) {
+      leader = null;
+    }
+  });
+
+  return leader;
+}
+
+/**
+ * Enter a phase and tell the room
+ * @param {MatchControllerState} state - The controller state
+ * @param {MatchPhase} phase - The new phase
+ * @param {number | null} phaseEndTime - When it ends, or null if it waits on players
+ */
+function setPhase(state: MatchControllerState, phase: MatchPhase, phaseEndTime: number | null): void {
+  state.phase = phase;
+  state.phaseEndTime = phaseEndTime;
+  state.events.onMatchPhase(describeMatch(state));
+}
+
+/**
+ * Describe the match for clients
+ * @param {MatchControllerState} state - The controller state
+ * @returns {MatchState} - The match
+ */
+function describeMatch(state: MatchControllerState): MatchState {
+  return {
+    mode: state.mode,
+    phase: state.phase,
+    phaseEndTime: state.phaseEndTime,
+    timeLimit: state.config.timeLimit,
+    scoreLimit: state.config.scoreLimit,
+    minPlayers: MIN_PLAYERS
+  };
+}
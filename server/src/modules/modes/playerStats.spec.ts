@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { Player } from '../game/gameState.js';
+import { createPlayerStats, startPlayerStats, recordKill, rankPlayers } from './playerStats.js';
+
+/**
+ * Build enough of a player for the scoreboard
+ * @param {string} id - The player's ID
+ * @param {Partial<Player>} fields - Fields to override
+ * @returns {Player} - The player
+ */
+function makePlayer(id: string, fields: Partial<Player> = {}): Player {
+  return { id, ...fields } as Player;
+}
+
+describe('recordKill', () => {
+  it('counts the death, the kill and the assists', () => {
+    const stats = startPlayerStats([makePlayer('a'), makePlayer('b'), makePlayer('c')]);
+
+    recordKill(stats, 'a', 'b', ['c']);
+
+    expect(stats).toEqual({
+      a: { kills: 0, deaths: 1, assists: 0 },
+      b: { kills: 1, deaths: 0, assists: 0 },
+      c: { kills: 0, deaths: 0, assists: 1 }
+    });
+  });
+
+  it('leaves the kill out when the mode does not award one', () => {
+    const stats = startPlayerStats([makePlayer('a'), makePlayer('b')]);
+
+    recordKill(stats, 'a', null, ['b']);
+
+    expect(stats.b).toEqual({ kills: 0, deaths: 0, assists: 1 });
+    expect(stats.a.deaths).toBe(1);
+  });
+
+  it('ignores players without stats', () => {
+    const stats = { a: createPlayerStats() };
+
+    recordKill(stats, 'gone', 'a', ['also-gone']);
+
+    expect(Object.keys(stats)).toEqual(['a']);
+    expect(stats.a.kills).toBe(1);
+  });
+});
+
+describe('rankPlayers', () => {
+  it('ranks by kills, then fewest deaths, then assists', () => {
+    const players = {
+      a: makePlayer('a', { team: 'red' }),
+      b: makePlayer('b', { team: 'blue' }),
+      c: makePlayer('c', { team: 'red' })
+    };
+    const stats = {
+      a: { kills: 2, deaths: 3, assists: 0 },
+      b: { kills: 2, deaths: 1, assists: 0 },
+      c: { kills: 2, deaths: 1, assists: 4 }
+    };
+
+    const standings = rankPlayers(stats, players);
+
+    expect(standings.map(standing => standing.playerId)).toEqual(['c', 'b', 'a']);
+    expect(standings[0].team).toBe('red');
+  });
+
+  it('puts mode points ahead of kills and leaves out players who left', () => {
+    const players = { a: makePlayer('a'), b: makePlayer('b') };
+    const stats = startPlayerStats([makePlayer('a'), makePlayer('b'), makePlayer('gone')]);
+    stats.a.kills = 5;
+
+    const standings = rankPlayers(stats, players, standing => {
+      standing.points = standing.playerId === 'b' ? 10 : 0;
+    });
+
+    expect(standings.map(standing => standing.playerId)).toEqual(['b', 'a']);
+    expect(standings[1].team).toBeUndefined();
+  });
+});
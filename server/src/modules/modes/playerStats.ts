@@ -0,0 +1,100 @@
+/**
+ * Scoreboard helpers shared by the combat game modes - each player's kills,
+ * deaths and assists for the current match, and the end-of-match ranking
+ */
+import { Player } from '../game/gameState.js';
+import { PlayerStanding } from '../../types.js';
+
+export interface PlayerStats {
+  kills: number;
+  deaths: number;
+  assists: number;
+}
+
+/**
+ * Create stats with nothing counted
+ * @returns {PlayerStats} - The stats
+ */
+export function createPlayerStats(): PlayerStats {
+  return { kills: 0, deaths: 0, assists: 0 };
+}
+
+/**
+ * Start everyone in the room on fresh stats for a new match
+ * @param {Player[]} players - Everyone in the room
+ * @returns {Record<string, PlayerStats>} - Stats per player
+ */
+export function startPlayerStats(players: Player[]): Record<string, PlayerStats> {
+  const stats: Record<string, PlayerStats> = {};
+  players.forEach(player => {
+    stats[player.id] = createPlayerStats();
+  });
+  return stats;
+}
+
+/**
+ * Count a death, its assists and, if the mode awards one, the kill
+ * @param {Record<string, PlayerStats>} stats - Stats per player
+ * @param {string} victimId - The player who died
+ * @param {string | null} killerId - The player credited with the kill, or null if it doesn't count
+ * @param {string[]} assistedBy - Players credited with an assist
+ */
+export function recordKill(
+  stats: Record<string, PlayerStats>,
+  victimId: string,
+  killerId: string | null,
+  assistedBy: string[]
+): void {
+  if (stats[victimId]) {
+    stats[victimId].deaths++;
+  }
+
+  assistedBy.forEach(playerId => {
+    if (stats[playerId]) {
+      stats[playerId].assists++;
+    }
+  });
+
+  if (killerId && stats[killerId]) {
+    stats[killerId].kills++;
+  }
+}
+
+/**
+ * Rank the players still in the room: mode points first (captures or zone
+ * points, where the mode has them), then kills, deaths and assists
+ * @param {Record<string, PlayerStats>} stats - Stats per player
+ * @param {Record<string, Player>} players - Everyone in the room
+ * @param {Function} [addPoints] - Fills in the mode's own points for a standing
+ * @returns {PlayerStanding[]} - The standings, best first
+ */
+export function rankPlayers(
+  stats: Record<string, PlayerStats>,
+  players: Record<string, Player>,
+  addPoints?: (standing: PlayerStanding) => void
+): PlayerStanding[] {
+  return Object.keys(stats)
+    .filter(playerId => players[playerId])
+    .map(playerId => {
+      const standing: PlayerStanding = {
+        playerId,
+        kills: stats[playerId].kills,
+        deaths: stats[playerId].deaths,
+        assists: stats[playerId].assists
+      };
+      if (players[playerId].team) {
+        standing.team = players[playerId].team;
+      }
+      if (addPoints) {
+        addPoints(standing);
+      }
+      return standing;
+    })
+    .sort((a, b) =>
+      (b.captures || 0) - (a.captures || 0) ||
+      (b.points || 0) - (a.points || 0) ||
+      b.kills - a.kills ||
+      a.deaths - b.deaths ||
+      b.assists - a.assists
+    );
+}
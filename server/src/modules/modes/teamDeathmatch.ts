@@ -0,0 +1,113 @@
+/**
+ * Team Deathmatch - two teams score a point for every enemy destroyed.
+ * Every match starts with freshly balanced teams.
+ */
+import { GameStateManager, Player } from '../game/gameState.js';
+import { TeamId, PlayerDiedEvent } from '../../types.js';
+import { GameModeManager, MatchResults } from './gameMode.js';
+import { pickTeam, dealTeams, isEnemy, rankTeams } from './teams.js';
+import { PlayerStats, createPlayerStats, startPlayerStats, recordKill, rankPlayers } from './playerStats.js';
+
+interface TeamDeathmatchState {
+  gameState: GameStateManager;
+  live: boolean;
+  teamScores: Record<TeamId, number>;
+  stats: Record<string, PlayerStats>;
+}
+
+// Team Deathmatch constants
+const TIME_LIMIT = 5 * 60 * 1000; // Length of a match (ms)
+const SCORE_LIMIT = 30; // Team kills that end the match early
+
+/**
+ * Initialize Team Deathmatch for a room
+ * @param {GameStateManager} gameState - The room's game state
+ * @returns {GameModeManager} - The mode
+ */
+export function initializeTeamDeathmatch(gameState: GameStateManager): GameModeManager {
+  const state: TeamDeathmatchState = {
+    gameState,
+    live: false,
+    teamScores: { red: 0, blue: 0 },
+    stats: {}
+  };
+
+  return {
+    onPlayerJoin: (player) => onPlayerJoin(state, player),
+    onPlayerLeave: (playerId) => onPlayerLeave(state, playerId),
+    canDamage: isEnemy,
+    onPlayerKilled: (victim, kill) => onPlayerKilled(state, victim, kill),
+    update: () => {},
+    scoring: {
+      timeLimit: TIME_LIMIT,
+      scoreLimit: SCORE_LIMIT,
+      startMatch: () => startMatch(state),
+      endMatch: () => endMatch(state),
+      getScores: () => ({ ...state.teamScores })
+    }
+  };
+}
+
+/**
+ * Put a new player on the smaller team
+ * @param {TeamDeathmatchState} state - The mode state
+ * @param {Player} player - The player who joined
+ */
+function onPlayerJoin(state: TeamDeathmatchState, player: Player): void {
+  player.team = pickTeam(state.gameState, state.teamScores);
+  state.stats[player.id] = createPlayerStats();
+}
+
+/**
+ * Forget a player who left
+ * @param {TeamDeathmatchState} state - The mode state
+ * @param {string} playerId - The player's ID
+ */
+function onPlayerLeave(state: TeamDeathmatchState, playerId: string): void {
+  delete state.stats[playerId];
+}
+
+/**
+ * Score a kill for the killer's team and count the assists
+ * @param {TeamDeathmatchState} state - The mode state
+ * @param {Player} victim - The player who died
+ * @param {PlayerDiedEvent} kill - Who gets the kill and the assists
+ */
+function onPlayerKilled(state: TeamDeathmatchState, victim: Player, kill: PlayerDiedEvent): void {
+  if (!state.live) return;
+
+  const killer = kill.killedBy ? state.gameState.getPlayerById(kill.killedBy) : null;
+  if (!killer || !killer.team || killer.team === victim.team) {
+    recordKill(state.stats, victim.id, null, kill.assistedBy);
+    return;
+  }
+
+  recordKill(state.stats, victim.id, killer.id, kill.assistedBy);
+  state.teamScores[killer.team]++;
+}
+
+/**
+ * Balance the teams and reset scores for a new match
+ * @param {TeamDeathmatchState} state - The mode state
+ */
+function startMatch(state: TeamDeathmatchState): void {
+  const players = Object.values(state.gameState.getAllPlayers());
+
+  dealTeams(players);
+  state.stats = startPlayerStats(players);
+
+  state.teamScores = { red: 0, blue: 0 };
+  state.live = true;
+}
+
+/**
+ * Stop scoring and rank the teams and players
+ * @param {TeamDeathmatchState} state - The mode state
+ * @returns {MatchResults} - The standings
+ */
+function endMatch(state: TeamDeathmatchState): MatchResults {
+  const players = state.gameState.getAllPlayers();
+  state.live = false;
+
+  return { teams: rankTeams(state.teamScores), players: rankPlayers(state.stats, players) };
+}
@@ -0,0 +1,79 @@
+/**
+ * Team helpers shared by the team-based game modes
+ */
+import { GameStateManager, Player } from '../game/gameState.js';
+import { TeamId, TeamStanding } from '../../types.js';
+
+export const TEAMS: TeamId[] = ['red', 'blue'];
+
+/**
+ * Choose a team for a player joining mid-match: the smaller team first,
+ * then the team that is behind
+ * @param {GameStateManager} gameState - The room's game state
+ * @param {Record<TeamId, number>} teamScores - Current team scores
+ * @returns {TeamId} - The team to join
+ */
+export function pickTeam(gameState: GameStateManager, teamScores: Record<TeamId, number>): TeamId {
+  const counts = countTeams(gameState);
+
+  if (counts.blue < counts.red ||
+      (counts.blue === counts.red && teamScores.blue < teamScores.red)) {
+    return 'blue';
+  }
+  return 'red';
+}
+
+/**
+ * Deal players out alternately so the teams differ by at most one
+ * @param {Player[]} players - Everyone in the room
+ */
+export function dealTeams(players: Player[]): void {
+  players.forEach((player, index) => {
+    player.team = TEAMS[index % TEAMS.length];
+  });
+}
+
+/**
+ * Rank the teams by score, best first
+ * @param {Record<TeamId, number>} teamScores - Points per team
+ * @returns {TeamStanding[]} - The team standings
+ */
+export function rankTeams(teamScores: Record<TeamId, number>): TeamStanding[] {
+  return TEAMS
+    .map(team => ({ team, score: Math.floor(teamScores[team]) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Get the other team
+ * @param {TeamId} team - A team
+ * @returns {TeamId} - Its opponent
+ */
+export function opposingTeam(team: TeamId): TeamId {
+  return team === 'red' ? 'blue' : 'red';
+}
+
+/**
+ * Count the players on each team
+ * @param {GameStateManager} gameState - The room's game state
+ * @returns {Record<TeamId, number>} - Players per team
+ */
+export function countTeams(gameState: GameStateManager): Record<TeamId, number> {
+  const counts: Record<TeamId, number> = { red: 0, blue: 0 };
+
+  Object.values(gameState.getAllPlayers()).forEach(player => {
+    if (player.team) counts[player.team]++;
+  });
+
+  return counts;
+}
+
+/**
+ * Friendly fire is off - only enemies can be damaged
+ * @param {Player} attacker - The player dealing damage
+ * @param {Player} target - The player being damaged
+ * @returns {boolean} - Whether the damage applies
+ */
+export function isEnemy(attacker: Player, target: Player): boolean {
+  return attacker.team !== target.team;
+}
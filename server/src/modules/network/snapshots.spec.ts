@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PlayerData } from '../../types.js';
+import { GameStateManager } from '../game/gameState.js';
+import { SnapshotManager, initializeSnapshotManager } from './snapshots.js';
+import { createWireContext, encodeStateSnapshot, decodeStateSnapshot } from '../../../../shared/protocol/binary.js';
+
+let players: Record<string, PlayerData> = {};
+let snapshots: SnapshotManager;
+
+/**
+ * Build a full player
+ * @param {string} id - The player's ID
+ * @param {Partial<PlayerData>} fields - Fields to override
+ * @returns {PlayerData} - The player
+ */
+function makePlayer(id: string, fields: Partial<PlayerData> = {}): PlayerData {
+  return {
+    id,
+    position: { x: 0, y: 100, z: 0 },
+    rotation: { x: 0, y: 0, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    health: 100,
+    score: 0,
+    isAlive: true,
+    lastProcessedInput: 0,
+    ...fields
+  };
+}
+
+beforeEach(() => {
+  players = {};
+
+  const gameState = {
+    getPlayerById: (playerId: string) => players[playerId] || null,
+    getPlayersData: () => players
+  } as unknown as GameStateManager;
+
+  snapshots = initializeSnapshotManager(gameState, { getActiveAds: () => ({}) });
+});
+
+describe('createSnapshot', () => {
+  it('sends a keyframe first, then only the changed fields', () => {
+    players.alpha = makePlayer('alpha');
+
+    const keyframe = snapshots.createSnapshot('alpha', 1000);
+    snapshots.acknowledge('alpha', keyframe.sequence);
+    players.alpha = makePlayer('alpha', { health: 60 });
+    const delta = snapshots.createSnapshot('alpha', 1066);
+
+    expect(keyframe.keyframe).toBe(true);
+    expect(keyframe.players.alpha).toEqual(makePlayer('alpha'));
+    expect(delta.keyframe).toBe(false);
+    expect(delta.baseline).toBe(keyframe.sequence);
+    expect(delta.players).toEqual({ alpha: { health: 60 } });
+  });
+
+  it('sends emptied containers and lists cleared optional fields', () => {
+    players.alpha = makePlayer('alpha', { team: 'red', color: '#ff0000', powerUps: { overdrive: 5000 } });
+
+    snapshots.acknowledge('alpha', snapshots.createSnapshot('alpha', 1000).sequence);
+    players.alpha = makePlayer('alpha', { powerUps: {} });
+    const delta = snapshots.createSnapshot('alpha', 1066);
+
+    expect(delta.players.alpha).toEqual({ powerUps: {} });
+    expect(delta.clearedFields).toEqual({ alpha: ['team', 'color'] });
+
+    // Once the client has the cleared state, nothing more is sent
+    snapshots.acknowledge('alpha', delta.sequence);
+    const next = snapshots.createSnapshot('alpha', 1133);
+
+    expect(next.players).toEqual({});
+    expect(next.clearedFields).toBeUndefined();
+  });
+
+  it('keeps emptied and cleared fields on the binary wire', () => {
+    players.alpha = makePlayer('alpha', { team: 'blue', powerUps: { cloak: 5000 } });
+    const server = createWireContext();
+    const client = createWireContext();
+
+    const keyframe = snapshots.createSnapshot('alpha', 1000);
+    decodeStateSnapshot(client, encodeStateSnapshot(server, keyframe));
+    snapshots.acknowledge('alpha', keyframe.sequence);
+    players.alpha = makePlayer('alpha', { powerUps: {} });
+
+    const decoded = decodeStateSnapshot(client, encodeStateSnapshot(server, snapshots.createSnapshot('alpha', 1066)));
+
+    expect(decoded?.players.alpha).toEqual({ powerUps: {} });
+    expect(decoded?.clearedFields).toEqual({ alpha: ['team'] });
+  });
+});
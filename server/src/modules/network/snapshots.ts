@@ -0,0 +1,316 @@
+/**
+ * Snapshot manager - builds the game state each client receives.
+ * Clients only get entities near them, and only the fields that changed
+ * since the last snapshot they acknowledged, with periodic keyframes.
+ */
+import { Vector3, PlayerData, BillboardAd, StateSnapshot } from '../../types.js';
+import { GameStateManager } from '../game/gameState.js';
+
+interface AdEngineInterface {
+  getActiveAds: () => Record<string, BillboardAd>;
+}
+
+// The world as a client holds it after applying a snapshot
+interface ViewState {
+  players: Record<string, PlayerData>;
+  ads: Record<string, BillboardAd>;
+}
+
+interface ClientView {
+  sequence: number; // Last snapshot sequence sent
+  ackedSequence: number; // Last snapshot the client confirmed (0 = none)
+  lastKeyframe: number;
+  sent: Record<number, ViewState>;
+}
+
+export interface SnapshotManager {
+  createSnapshot: (clientId: string, timestamp: number) => StateSnapshot;
+  acknowledge: (clientId: string, sequence: number) => void;
+  removeClient: (clientId: string) => void;
+}
+
+// Snapshot constants
+const RELEVANCE_RADIUS = 600; // Players further away than this are not sent
+const RELEVANCE_HYSTERESIS = 1.2; // Players a client already has stay until this much further out
+const AD_RELEVANCE_RADIUS = 800; // Billboards further away than this are not sent
+const KEYFRAME_INTERVAL = 30; // Snapshots between full keyframes (2 s at 15 Hz)
+const SNAPSHOT_HISTORY = 32; // Sent snapshots kept per client as delta baselines
+const VECTOR_EPSILON = 0.01; // Smallest vector change worth sending
+
+// A room's per-client snapshot state and the game it describes
+interface SnapshotState {
+  clientViews: Record<string, ClientView>;
+  gameState: GameStateManager;
+  adEngine: AdEngineInterface;
+}
+
+/**
+ * Initialize the snapshot manager for one room
+ * @param {GameStateManager} gameState - The room's game state manager
+ * @param {AdEngineInterface} adEngine - The room's ad engine
+ * @returns {SnapshotManager} - The snapshot manager
+ */
+export function initializeSnapshotManager(gameState: GameStateManager, adEngine: AdEngineInterface): SnapshotManager {
+  const state: SnapshotState = {
+    clientViews: {},
+    gameState,
+    adEngine
+  };
+
+  return {
+    createSnapshot: (clientId, timestamp) => createSnapshot(state, clientId, timestamp),
+    acknowledge: (clientId, sequence) => acknowledge(state, clientId, sequence),
+    removeClient: (clientId) => removeClient(state, clientId)
+  };
+}
+
+/**
+ * Build the next snapshot for a client
+ * @param {SnapshotState} state - The room's snapshot state
+ * @param {string} clientId - The client's socket ID
+ * @param {number} timestamp - Server time of the snapshot (ms)
+ * @returns {StateSnapshot} - The snapshot to send
+ */
+function createSnapshot(state: SnapshotState, clientId: string, timestamp: number): StateSnapshot {
+  const view = getClientView(state, clientId);
+  const sequence = ++view.sequence;
+
+  // Deltas need a baseline the client is known to have
+  const ackedState = view.sent[view.ackedSequence];
+  const keyframe = !ackedState || sequence - view.lastKeyframe >= KEYFRAME_INTERVAL;
+  const baseline: ViewState = !keyframe && ackedState ? ackedState : { players: {}, ads: {} };
+
+  if (keyframe) {
+    view.lastKeyframe = sequence;
+  }
+
+  const ads: Record<string, BillboardAd> = {};
+  const removedAds: string[] = [];
+  const snapshot: StateSnapshot = {
+    timestamp,
+    sequence,
+    baseline: keyframe ? 0 : view.ackedSequence,
+    keyframe,
+    players: {},
+    removedPlayers: [],
+    ads,
+    removedAds
+  };
+  const nextState: ViewState = { players: {}, ads: {} };
+
+  // Clients without a car yet see the whole world
+  const viewer = state.gameState.getPlayerById(clientId);
+  const center = viewer ? viewer.position : null;
+
+  // Players
+  const playersData = state.gameState.getPlayersData();
+  Object.keys(playersData).forEach(playerId => {
+    const current = playersData[playerId];
+    const known = !!ackedState && !!ackedState.players[playerId];
+
+    if (playerId !== clientId && !isRelevant(center, current.position, RELEVANCE_RADIUS, known)) {
+      return;
+    }
+
+    const previous = baseline.players[playerId];
+    if (!previous) {
+      const copy = cloneValue(current);
+      nextState.players[playerId] = copy;
+      snapshot.players[playerId] = copy;
+      return;
+    }
+
+    const diff = diffPlayer(previous, current);
+    nextState.players[playerId] = diff.state;
+    if (diff.changes) {
+      snapshot.players[playerId] = diff.changes;
+    }
+    if (diff.cleared.length > 0) {
+      snapshot.clearedFields = snapshot.clearedFields || {};
+      snapshot.clearedFields[playerId] = diff.cleared;
+    }
+  });
+
+  // Ads
+  const activeAds = state.adEngine.getActiveAds();
+  Object.keys(activeAds).forEach(billboardId => {
+    const ad = activeAds[billboardId];
+    const known = !!ackedState && !!ackedState.ads[billboardId];
+
+    if (!isRelevant(center, ad.position, AD_RELEVANCE_RADIUS, known)) {
+      return;
+    }
+
+    // Ads are replaced rather than edited, so they are sent whole
+    const previous = baseline.ads[billboardId];
+    if (!previous || previous.id !== ad.id || previous.startTime !== ad.startTime) {
+      ads[billboardId] = ad;
+    }
+    nextState.ads[billboardId] = ad;
+  });
+
+  // Anything the client has that is no longer relevant
+  Object.keys(baseline.players).forEach(playerId => {
+    if (!nextState.players[playerId]) snapshot.removedPlayers.push(playerId);
+  });
+  Object.keys(baseline.ads).forEach(billboardId => {
+    if (!nextState.ads[billboardId]) removedAds.push(billboardId);
+  });
+
+  // Remember what the client will hold so it can be used as a baseline
+  view.sent[sequence] = nextState;
+  delete view.sent[sequence - SNAPSHOT_HISTORY];
+
+  return snapshot;
+}
+
+/**
+ * Record that a client has applied a snapshot
+ * @param {SnapshotState} state - The room's snapshot state
+ * @param {string} clientId - The client's socket ID
+ * @param {number} sequence - The acknowledged snapshot sequence
+ */
+function acknowledge(state: SnapshotState, clientId: string, sequence: number): void {
+  const view = state.clientViews[clientId];
+  if (!view || !Number.isInteger(sequence)) return;
+
+  // Ignore stale, future or forgotten sequences
+  if (sequence <= view.ackedSequence || sequence > view.sequence || !view.sent[sequence]) {
+    return;
+  }
+
+  // Older snapshots can no longer be baselines
+  for (let seq = view.ackedSequence; seq < sequence; seq++) {
+    delete view.sent[seq];
+  }
+
+  view.ackedSequence = sequence;
+}
+
+/**
+ * Forget a client's snapshot state
+ * @param {SnapshotState} state - The room's snapshot state
+ * @param {string} clientId - The client's socket ID
+ */
+function removeClient(state: SnapshotState, clientId: string): void {
+  delete state.clientViews[clientId];
+}
+
+/**
+ * Get a client's snapshot state, creating it if needed
+ * @param {SnapshotState} state - The room's snapshot state
+ * @param {string} clientId - The client's socket ID
+ * @returns {ClientView} - The client's view
+ */
+function getClientView(state: SnapshotState, clientId: string): ClientView {
+  if (!state.clientViews[clientId]) {
+    state.clientViews[clientId] = {
+      sequence: 0,
+      ackedSequence: 0,
+      lastKeyframe: 0,
+      sent: {}
+    };
+  }
+
+  return state.clientViews[clientId];
+}
+
+/**
+ * Check whether an entity is close enough to a viewer to be sent
+ * @param {Vector3 | null} center - The viewer's position, or null to include everything
+ * @param {Vector3} position - The entity's position
+ * @param {number} radius - Relevance radius
+ * @param {boolean} known - Whether the client already has the entity
+ * @returns {boolean} - Whether the entity is relevant
+ */
+function isRelevant(center: Vector3 | null, position: Vector3, radius: number, known: boolean): boolean {
+  if (!center) return true;
+
+  // Known entities get some slack so they don't flicker at the edge
+  const range = known ? radius * RELEVANCE_HYSTERESIS : radius;
+  const dx = position.x - center.x;
+  const dy = position.y - center.y;
+  const dz = position.z - center.z;
+
+  return dx*dx + dy*dy + dz*dz <= range * range;
+}
+
+/**
+ * Work out which fields of a player changed since the baseline
+ * @param {PlayerData} previous - The player as the client has it
+ * @param {PlayerData} current - The player's current state
+ * @returns {{state: PlayerData, changes: Partial<PlayerData> | null, cleared: (keyof PlayerData)[]}} - What the client
+ * will hold, the fields to send, and the optional fields that are no longer set
+ */
+function diffPlayer(
+  previous: PlayerData, current: PlayerData
+): { state: PlayerData; changes: Partial<PlayerData> | null; cleared: (keyof PlayerData)[] } {
+  const state = { ...previous } as unknown as Record<string, unknown>;
+  const source = current as unknown as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  const cleared: (keyof PlayerData)[] = [];
+  let changed = false;
+
+  // Fields like the team go away outside team modes; undefined can't be sent, so they are listed
+  Object.keys(state).forEach(key => {
+    if (state[key] === undefined || source[key] !== undefined) return;
+
+    delete state[key];
+    cleared.push(key as keyof PlayerData);
+  });
+
+  Object.keys(source).forEach(key => {
+    if (!fieldChanged(state[key], source[key])) return;
+
+    const copy = cloneValue(source[key]);
+    state[key] = copy;
+    changes[key] = copy;
+    changed = true;
+  });
+
+  return {
+    state: state as unknown as PlayerData,
+    changes: changed ? changes as Partial<PlayerData> : null,
+    cleared
+  };
+}
+
+/**
+ * Check whether a field differs enough to be sent
+ * @param {unknown} previous - The value the client has
+ * @param {unknown} current - The current value
+ * @returns {boolean} - Whether the field changed
+ */
+function fieldChanged(previous: unknown, current: unknown): boolean {
+  if (isVector(previous) && isVector(current)) {
+    return Math.abs(previous.x - current.x) > VECTOR_EPSILON ||
+      Math.abs(previous.y - current.y) > VECTOR_EPSILON ||
+      Math.abs(previous.z - current.z) > VECTOR_EPSILON;
+  }
+
+  if (typeof current === 'object' && current !== null) {
+    return JSON.stringify(previous) !== JSON.stringify(current);
+  }
+
+  return previous !== current;
+}
+
+/**
+ * Copy a value so later simulation changes don't leak into sent state
+ * @param {T} value - The value to copy
+ * @returns {T} - A deep copy
+ */
+function cloneValue<T>(value: T): T {
+  if (typeof value !== 'object' || value === null) return value;
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Check that a value is a vector
+ * @param {unknown} value - The value to check
+ * @returns {boolean} - Whether the value is a vector
+ */
+function isVector(value: unknown): value is Vector3 {
+  const v = value as Vector3;
+  return !!v && typeof v.x === 'number' && typeof v.y === 'number' && typeof v.z === 'number';
+}
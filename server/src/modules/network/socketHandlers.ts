@@ -1,48 +1,45 @@
 import { Server, Socket } from 'socket.io';
-import { GameStateManager } from '../game/gameState.js';
+import { RoomManager, Room, DEFAULT_ROOM_ID } from '../rooms/roomManager.js';
+import { AccountStore } from '../accounts/accountStore.js';
+import { PlayerAppearance } from '../game/gameState.js';
+import { LaserShot, StateSnapshot, Vector3, DamageType, WeaponId, AccountSession, Profile } from '../../types.js';
+import { ClientToServerEvents, ServerToClientEvents } from '../../../../shared/protocol/events.js';
+import {
+  isPlayerInputBatch,
+  isSnapshotAck,
+  isWeaponId,
+  isLaserData,
+  isHitData,
+  isChatText,
+  isRoomId,
+  isRoomOptions,
+  isAccountAuth,
+  isAccountCredentials,
+  isProfileUpdate,
+  isResumeToken
+} from '../../../../shared/protocol/validation.js';
+import {
+  WireContext,
+  createWireContext,
+  isBinaryMessage,
+  decodePlayerInputs,
+  encodeStateSnapshot,
+  encodeLaserShot
+} from '../../../../shared/protocol/binary.js';
+import { WEAPONS } from '../../../../shared/combat/weapons.js';
 
-interface PlayerJoinData {
-  position: {
-    x: number;
-    y: number;
-    z: number;
-  };
-  rotation: {
-    x: number;
-    y: number;
-    z: number;
-    w?: number;
-  };
-  velocity?: {
-    x: number;
-    y: number;
-    z: number;
-  };
-  health: number;
-}
-
-interface LaserData {
-  position: {
-    x: number;
-    y: number;
-    z: number;
-  };
-  rotation: {
-    x: number;
-    y: number;
-    z: number;
-    w?: number;
-  };
+// Per-socket data kept by Socket.IO
+export interface SocketData {
+  wire?: WireContext;
+  roomId?: string;
+  accountId?: string; // Set by the handshake
+  session?: AccountSession; // Handed to the client once it is connected
+  playerId?: string; // The car this socket took back after reconnecting; otherwise its own ID
+  resumeToken?: string; // Gets the socket's car back if its connection drops
 }
 
-interface HitData {
-  targetId: string;
-  position: {
-    x: number;
-    y: number;
-    z: number;
-  };
-}
+export type GameServer = Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+export type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
 
 /**
  * Socket.io handlers for WebSocket communication
@@ -51,25 +48,60 @@ interface HitData {
 /**
  * Set up Socket.io handlers
  * @param {Server} io - The Socket.io server instance
- * @param {GameState} gameState - The game state manager
+ * @param {RoomManager} rooms - The room manager
+ * @param {AccountStore} accounts - The account store
  */
-export function setupSocketHandlers(io: Server, gameState: GameStateManager): void {
+export function setupSocketHandlers(io: GameServer, rooms: RoomManager, accounts: AccountStore): void {
+  // Log every socket in during the handshake, so only known accounts reach the game
+  io.use((socket: GameSocket, next) => {
+    const auth = socket.handshake.auth;
+    if (!isAccountAuth(auth)) {
+      next(new Error('invalid_credentials'));
+      return;
+    }
+    
+    accounts.authenticate(auth, socket.handshake.address).then(result => {
+      if (!result.ok) {
+        next(new Error(result.error.reason));
+        return;
+      }
+      
+      socket.data.accountId = result.accountId;
+      socket.data.session = result.session;
+      next();
+    }, error => next(error));
+  });
+  
   // Connection event
-  io.on('connection', (socket: Socket) => {
-    console.log(`Player connected: ${socket.id}`);
+  io.on('connection', (socket: GameSocket) => {
+    console.log(`Player connected: ${socket.id} (account ${socket.data.accountId})`);
+    
+    // Give the client its session token and profile
+    if (socket.data.session) {
+      socket.emit('account:session', socket.data.session);
+      socket.data.session = undefined;
+    }
+    
+    // Clients can ask for JSON instead of binary messages for debugging
+    const format = socket.handshake.query.wire === 'json' ? 'json' : 'binary';
+    socket.data.wire = createWireContext(format);
     
     // Set up event handlers for this client
-    setupPlayerHandlers(socket, io, gameState);
+    setupRoomHandlers(socket, rooms);
+    setupPlayerHandlers(socket, io, rooms, accounts);
+    setupAccountHandlers(socket, rooms, accounts);
     
     // Disconnect event
-    socket.on('disconnect', () => {
-      console.log(`Player disconnected: ${socket.id}`);
+    socket.on('disconnect', (reason) => {
+      console.log(`Player disconnected: ${socket.id} (${reason})`);
       
-      // Remove player from game state
-      gameState.removePlayer(socket.id);
-      
-      // Notify all clients about disconnect
-      socket.broadcast.emit('player:left', { id: socket.id });
+      // A client that meant to leave gives up its car (the room tells the other
+      // players); one that lost its connection gets a while to come back to it
+      if (reason === 'client namespace disconnect') {
+        rooms.leaveRoom(socket);
+      } else {
+        rooms.suspendMember(socket);
+      }
     });
     
     // Error handling
@@ -79,116 +111,294 @@ export function setupSocketHandlers(io: Server, gameState: GameStateManager): vo
   });
 }
 
+/**
+ * Set up lobby event handlers
+ * @param {Socket} socket - The Socket.io socket for this player
+ * @param {RoomManager} rooms - The room manager
+ */
+function setupRoomHandlers(socket: GameSocket, rooms: RoomManager): void {
+  // Player asks for the lobby
+  socket.on('room:list', () => {
+    socket.emit('room:list', rooms.listRooms());
+  });
+  
+  // Player opens a new room and moves into it
+  socket.on('room:create', (options) => {
+    if (!isRoomOptions(options)) return rejectPacket(socket, 'room:create');
+    
+    const created = rooms.createRoom(options);
+    if (!created.ok) {
+      socket.emit('room:error', created.error);
+      return;
+    }
+    
+    enterRoom(socket, rooms, created.room.id);
+  });
+  
+  // Player moves into an existing room
+  socket.on('room:join', (roomId) => {
+    if (!isRoomId(roomId)) return rejectPacket(socket, 'room:join');
+    
+    enterRoom(socket, rooms, roomId);
+  });
+  
+  // Player goes back to the lobby
+  socket.on('room:leave', () => {
+    rooms.leaveRoom(socket);
+    socket.emit('room:left');
+  });
+}
+
+/**
+ * Set up account and profile event handlers
+ * @param {Socket} socket - The Socket.io socket for this player
+ * @param {RoomManager} rooms - The room manager
+ * @param {AccountStore} accounts - The account store
+ */
+function setupAccountHandlers(socket: GameSocket, rooms: RoomManager, accounts: AccountStore): void {
+  // Guest picks a username and password to keep their account
+  socket.on('account:register', (credentials) => {
+    if (!isAccountCredentials(credentials)) return rejectPacket(socket, 'account:register');
+    
+    const accountId = socket.data.accountId;
+    if (!accountId) return;
+    
+    accounts.register(accountId, credentials).then(result => {
+      if (!result.ok) {
+        socket.emit('account:error', result.error);
+        return;
+      }
+      
+      socket.emit('account:profile', result.profile);
+    }, error => {
+      console.error(`Failed to register account ${accountId}:`, error);
+      socket.emit('account:error', { reason: 'server_error' });
+    });
+  });
+  
+  // Player changes their display name or car color
+  socket.on('profile:update', (update) => {
+    if (!isProfileUpdate(update)) return rejectPacket(socket, 'profile:update');
+    
+    const accountId = socket.data.accountId;
+    if (!accountId) return;
+    
+    const result = accounts.updateProfile(accountId, update);
+    if (!result.ok) {
+      socket.emit('account:error', result.error);
+      return;
+    }
+    
+    // Everyone in the room sees the new name and paint with the next snapshot
+    rooms.getSocketRoom(socket)?.gameState.setPlayerAppearance(getPlayerId(socket), getAppearance(result.profile));
+    socket.emit('account:profile', result.profile);
+  });
+}
+
 /**
  * Set up player-specific event handlers
  * @param {Socket} socket - The Socket.io socket for this player
  * @param {Server} io - The Socket.io server instance
- * @param {GameState} gameState - The game state manager
+ * @param {RoomManager} rooms - The room manager
+ * @param {AccountStore} accounts - The account store
  */
-function setupPlayerHandlers(socket: Socket, io: Server, gameState: GameStateManager): void {
-  // Player joins the game
-  socket.on('player:join', (initialData: PlayerJoinData) => {
-    console.log(`Player ${socket.id} joined the game`);
+function setupPlayerHandlers(socket: GameSocket, io: GameServer, rooms: RoomManager, accounts: AccountStore): void {
+  // Player joins the game in their room
+  socket.on('player:join', () => {
+    // The handshake logged the socket in; its profile names and paints the car
+    const profile = socket.data.accountId ? accounts.getProfile(socket.data.accountId) : null;
+    if (!profile) return;
+    
+    // Clients that skip the lobby play in the default room
+    if (!rooms.getSocketRoom(socket) && !enterRoom(socket, rooms, DEFAULT_ROOM_ID)) return;
+    
+    const room = rooms.getSocketRoom(socket);
+    if (!room) return;
+    
+    const playerId = getPlayerId(socket);
+    
+    // A repeated join keeps the car as it is (health, ammo, position and
+    // resume token) and only sends the world again, starting from a keyframe
+    if (room.gameState.getPlayerById(playerId)) {
+      room.snapshots.removeClient(playerId);
+      sendJoinState(socket, room, playerId);
+      return;
+    }
     
-    // Add player to game state
-    const player = gameState.addPlayer(socket.id, initialData);
+    console.log(`Player ${playerId} joined the game in room ${room.id}`);
+    
+    // Add player to game state (the server picks the spawn point)
+    const player = room.gameState.addPlayer(playerId, getAppearance(profile));
+    
+    // Hand out the token that gets the car back after a dropped connection
+    const token = rooms.issueResumeToken(socket);
+    if (token) {
+      socket.emit('session:ticket', { token, playerId });
+    }
     
     // Send current game state to the new player
-    socket.emit('game:state', {
-      timestamp: Date.now(),
-      players: gameState.getPlayersData(),
-      cityLayout: gameState.getCityLayout()
-    });
+    sendJoinState(socket, room, playerId);
     
     // Notify other players about the new player
-    socket.broadcast.emit('player:joined', {
-      ...player
+    socket.to(room.id).emit('player:joined', room.gameState.getPlayersData()[player.id]);
+  });
+  
+  // Reconnected client takes back the car it had before its connection dropped
+  socket.on('session:resume', (token) => {
+    if (!isResumeToken(token)) return rejectPacket(socket, 'session:resume');
+    
+    const summary = rooms.resumeMember(socket, token);
+    const room = rooms.getSocketRoom(socket);
+    const player = room?.gameState.getPlayerById(getPlayerId(socket));
+    if (!summary || !room || !player) {
+      socket.emit('session:expired');
+      return;
+    }
+    
+    console.log(`Player ${player.id} resumed in room ${room.id} on socket ${socket.id}`);
+    
+    socket.emit('session:resumed', {
+      room: summary,
+      playerId: player.id,
+      isAlive: player.isAlive,
+      respawnTime: player.respawnTime,
+      spawnProtectedUntil: player.spawnProtectedUntil
     });
+    
+    // Tokens work once; the next dropped connection needs a new one
+    const nextToken = rooms.issueResumeToken(socket);
+    if (nextToken) {
+      socket.emit('session:ticket', { token: nextToken, playerId: player.id });
+    }
+    
+    // Re-sync: a keyframe of the world (the client already has the city) and the room's state
+    sendGameState(socket, room.snapshots.createSnapshot(player.id, Date.now()));
+    sendRoomState(socket, room);
   });
   
-  // Player updates position
-  socket.on('player:update', (updateData: PlayerJoinData) => {
-    // Update player in game state
-    gameState.updatePlayer(socket.id, updateData);
+  // Player sends a batch of sequenced input frames
+  socket.on('player:input', (data) => {
+    const inputs = isBinaryMessage(data) ? decodePlayerInputs(data) : data;
+    if (!isPlayerInputBatch(inputs)) return rejectPacket(socket, 'player:input');
+    
+    // Queue inputs; the simulation applies them on the next tick
+    rooms.getSocketRoom(socket)?.gameState.queuePlayerInput(getPlayerId(socket), inputs);
   });
   
-  // Player fires laser
-  socket.on('laser:fire', (laserData: LaserData) => {
-    // Create laser in game state
-    const laser = gameState.firePlayerLaser(socket.id, laserData);
+  // Player confirms it has applied a snapshot
+  socket.on('snapshot:ack', (sequence) => {
+    if (!isSnapshotAck(sequence)) return rejectPacket(socket, 'snapshot:ack');
     
-    // If laser was created, notify all clients
-    if (laser) {
-      io.emit('laser:shot', {
-        id: laser.id,
-        playerId: socket.id,
-        position: laser.position,
-        rotation: laser.rotation
-      });
-    }
+    rooms.getSocketRoom(socket)?.snapshots.acknowledge(getPlayerId(socket), sequence);
   });
   
-  // Player reports a laser hit - give this high priority
-  socket.on('laser:hit', (hitData: HitData) => {
-    console.log('Player hit detected:', socket.id, 'hit', hitData.targetId);
+  // Player switches weapon
+  socket.on('weapon:select', (weapon) => {
+    if (!isWeaponId(weapon)) return rejectPacket(socket, 'weapon:select');
     
-    // Get target player
-    const targetPlayer = gameState.getPlayerById(hitData.targetId);
+    rooms.getSocketRoom(socket)?.gameState.selectWeapon(getPlayerId(socket), weapon);
+  });
+  
+  // Player fires their selected weapon
+  socket.on('laser:fire', (laserData) => {
+    if (!isLaserData(laserData)) return rejectPacket(socket, 'laser:fire');
     
-    if (targetPlayer && targetPlayer.isAlive) {
-      // Register the hit
-      const hitResult = gameState.playerHit(hitData.targetId, gameState.LASER_DAMAGE, socket.id);
-      
-      // Notify the hit player immediately
-      io.to(hitData.targetId).emit('player:hit', {
-        health: targetPlayer.health,
-        fromPlayer: socket.id,
-        fromDirection: hitData.position
+    const room = rooms.getSocketRoom(socket);
+    if (!room) return;
+    
+    // Fire in game state (cooldown, charge and ammo are checked there)
+    const playerId = getPlayerId(socket);
+    const fired = room.gameState.fireWeapon(playerId, laserData);
+    
+    // Missiles are announced with their target, since everyone draws them homing in
+    if (fired && fired.targetId) {
+      io.to(room.id).emit('missile:launched', {
+        id: fired.id,
+        playerId,
+        targetId: fired.targetId,
+        position: fired.position,
+        direction: fired.direction
       });
+      return;
+    }
+    
+    // If the weapon fired, notify everyone in the room
+    if (fired) {
+      const shot: LaserShot = {
+        id: fired.shotId,
+        playerId,
+        weapon: fired.weapon,
+        position: fired.position,
+        rotation: fired.rotation
+      };
       
-      // Notify all players of explosion/impact immediately
-      io.emit('laser:impact', {
-        position: hitData.position,
-        targetId: hitData.targetId
+      Object.values(room.members).forEach(client => {
+        const wire = getWireContext(client);
+        client.emit('laser:shot', wire.format === 'binary' ? encodeLaserShot(wire, shot) : shot);
       });
       
-      // If player died from this hit
-      if (hitResult && hitResult.killed) {
-        // Broadcast death message
-        io.emit('player:died', {
-          playerId: hitData.targetId,
-          killedBy: socket.id
-        });
-        
-        // Update killer's score
-        const killer = gameState.getPlayerById(socket.id);
-        if (killer) {
-          killer.score += 1; // Increment score
-          
-          io.emit('score:update', {
-            playerId: socket.id,
-            score: killer.score
-          });
+      // Bursts hit straight away
+      fired.targets.forEach(targetId => {
+        const target = room.gameState.getPlayerById(targetId);
+        if (target) {
+          const weapon = WEAPONS[fired.weapon];
+          applyHit(io, room, playerId, targetId, weapon.damage, weapon.damageType, { ...target.position }, weapon.id);
         }
-      }
-      
-      return true; // Return success to client
+      });
     }
+  });
+  
+  // Player reports a laser hit - verified against the server's rewound state
+  socket.on('laser:hit', (hitData) => {
+    if (!isHitData(hitData)) return rejectPacket(socket, 'laser:hit');
+    
+    const room = rooms.getSocketRoom(socket);
+    if (!room) return false;
+    
+    const playerId = getPlayerId(socket);
+    console.log('Player hit claimed:', playerId, 'hit', hitData.targetId);
+    
+    const validation = room.gameState.validateLaserHit(playerId, hitData);
+    
+    if (!validation.accepted) {
+      // Tell the shooter why the hit didn't count
+      socket.emit('laser:rejected', {
+        targetId: hitData.targetId,
+        reason: validation.reason
+      });
+      return false;
+    }
+    
+    return applyHit(io, room, playerId, hitData.targetId, validation.damage, validation.damageType, validation.position, validation.weapon);
+  });
+  
+  // Player drops a flare against incoming missiles
+  socket.on('flare:deploy', () => {
+    const room = rooms.getSocketRoom(socket);
+    if (!room) return;
     
-    return false; // Return failure to client
+    const flare = room.gameState.deployFlare(getPlayerId(socket));
+    if (flare) {
+      io.to(room.id).emit('flare:deployed', flare);
+    }
   });
   
   // Player sends chat message
-  socket.on('chat:message', (message: string) => {
+  socket.on('chat:message', (message) => {
+    if (!isChatText(message)) return rejectPacket(socket, 'chat:message');
+    
+    const room = rooms.getSocketRoom(socket);
+    if (!room) return;
+    
     // Get player data
-    const player = gameState.getPlayerById(socket.id);
+    const player = room.gameState.getPlayerById(getPlayerId(socket));
     if (!player) return;
     
-    // Broadcast message to all players
-    io.emit('chat:message', {
+    // Broadcast message to the room
+    io.to(room.id).emit('chat:message', {
       timestamp: Date.now(),
-      playerId: socket.id,
-      playerName: `Player ${socket.id.substr(0, 5)}`,
+      playerId: player.id,
+      playerName: player.name,
       message: message
     });
   });
@@ -197,4 +407,186 @@ function setupPlayerHandlers(socket: Socket, io: Server, gameState: GameStateMan
   socket.on('ping', () => {
     socket.emit('pong');
   });
-} 
\ No newline at end of file
+}
+
+/**
+ * Damage a player and tell the room about the hit. Kills are announced by
+ * the room when the game state reports them.
+ * @param {Server} io - The Socket.io server instance
+ * @param {Room} room - The room the hit happened in
+ * @param {string} shooterId - The shooting player's ID
+ * @param {string} targetId - The player who was hit
+ * @param {number} damage - The weapon's damage
+ * @param {DamageType} damageType - What kind of damage the weapon deals
+ * @param {Vector3} position - Where the hit landed
+ * @param {WeaponId} weapon - The weapon that hit
+ * @returns {boolean} - Whether the hit did damage
+ */
+export function applyHit(
+  io: GameServer,
+  room: Room,
+  shooterId: string,
+  targetId: string,
+  damage: number,
+  damageType: DamageType,
+  position: Vector3,
+  weapon: WeaponId
+): boolean {
+  const gameState = room.gameState;
+  
+  // Get target player
+  const targetPlayer = gameState.getPlayerById(targetId);
+  if (!targetPlayer || !targetPlayer.isAlive) return false;
+  
+  // Register the hit (the match rules may rule it out)
+  const hitResult = gameState.playerHit(targetId, damage, shooterId, damageType, weapon);
+  if (!hitResult.success) return false;
+  
+  const shieldDamage = hitResult.shieldDamage || 0;
+  const hullDamage = hitResult.hullDamage || 0;
+  
+  // Notify the hit player immediately
+  io.to(targetId).emit('player:hit', {
+    health: targetPlayer.health,
+    shield: Math.round(targetPlayer.shield),
+    fromPlayer: shooterId,
+    fromDirection: position,
+    damageType,
+    shieldDamage,
+    hullDamage
+  });
+  
+  // Notify the room of explosion/impact immediately, split so shield hits look different
+  io.to(room.id).emit('laser:impact', {
+    position,
+    targetId,
+    shieldDamage,
+    hullDamage
+  });
+  
+  return true;
+}
+
+/**
+ * Move a socket into a room and tell it which room it is in
+ * @param {Socket} socket - The client's socket
+ * @param {RoomManager} rooms - The room manager
+ * @param {string} roomId - The room to enter
+ * @returns {boolean} - Whether the socket is now in the room
+ */
+function enterRoom(socket: GameSocket, rooms: RoomManager, roomId: string): boolean {
+  const joined = rooms.joinRoom(socket, roomId);
+  if (!joined.ok) {
+    socket.emit('room:error', joined.error);
+    return false;
+  }
+  
+  socket.emit('room:joined', joined.room);
+  return true;
+}
+
+/**
+ * Send a state snapshot in the format the client asked for
+ * @param {Socket} socket - The client's socket
+ * @param {StateSnapshot} snapshot - The snapshot to send
+ */
+export function sendGameState(socket: GameSocket, snapshot: StateSnapshot): void {
+  const wire = getWireContext(socket);
+  socket.emit('game:state', wire.format === 'binary' ? encodeStateSnapshot(wire, snapshot) : snapshot);
+}
+
+/**
+ * Send a joining player the world: the nearby players with the city layout,
+ * then the room's state
+ * @param {Socket} socket - The client's socket
+ * @param {Room} room - The room
+ * @param {string} playerId - The player's ID
+ */
+function sendJoinState(socket: GameSocket, room: Room, playerId: string): void {
+  sendGameState(socket, {
+    ...room.snapshots.createSnapshot(playerId, Date.now()),
+    cityLayout: room.gameState.getCityLayout()
+  });
+  sendRoomState(socket, room);
+}
+
+/**
+ * Catch a client up on its room: the match, flags, zones, race course and pickups
+ * @param {Socket} socket - The client's socket
+ * @param {Room} room - The room
+ */
+function sendRoomState(socket: GameSocket, room: Room): void {
+  // Catch up on where the match is
+  const match = room.match?.getState();
+  if (match) {
+    socket.emit('match:phase', match);
+  }
+  
+  // Show where the flags are
+  const flags = room.gameMode.getFlags?.();
+  if (flags) {
+    socket.emit('flag:state', flags);
+  }
+  
+  // Show the control zones
+  const zones = room.gameMode.getZones?.();
+  if (zones) {
+    socket.emit('zone:state', zones);
+  }
+  
+  // Show the race course
+  const course = room.gameMode.getCourse?.();
+  if (course) {
+    socket.emit('race:course', course);
+  }
+  
+  // Show the power-up pickups
+  const pickups = room.gameState.getPickups();
+  if (pickups.length > 0) {
+    socket.emit('pickup:state', pickups);
+  }
+}
+
+/**
+ * Get the ID of a socket's player: the socket's own ID, or after a resume,
+ * the ID of the car it took back
+ * @param {Socket} socket - The socket
+ * @returns {string} - The player ID
+ */
+export function getPlayerId(socket: GameSocket): string {
+  return socket.data.playerId || socket.id;
+}
+
+/**
+ * Work out how a player's car looks from their profile
+ * @param {Profile} profile - The player's profile
+ * @returns {PlayerAppearance} - The car's name and paint
+ */
+function getAppearance(profile: Profile): PlayerAppearance {
+  return {
+    name: profile.displayName,
+    color: profile.carColor
+  };
+}
+
+/**
+ * Log and drop a packet that doesn't match the protocol
+ * @param {Socket} socket - The sending socket
+ * @param {string} event - The event the packet arrived on
+ */
+function rejectPacket(socket: GameSocket, event: string): void {
+  console.warn(`Malformed ${event} packet from ${socket.id}`);
+}
+
+/**
+ * Get a socket's wire protocol state
+ * @param {Socket} socket - The socket
+ * @returns {WireContext} - The socket's protocol state
+ */
+function getWireContext(socket: GameSocket): WireContext {
+  if (!socket.data.wire) {
+    socket.data.wire = createWireContext();
+  }
+  
+  return socket.data.wire;
+}
@@ -0,0 +1,595 @@
+/**
+ * Room manager - hosts several independent matches on one server.
+ * Every room has its own world, ads, snapshot state and tick loop,
+ * and maps onto a Socket.IO room of the same ID for broadcasts.
+ * Players whose connection drops keep their car for a grace period
+ * and can take it back with the resume token they got on joining.
+ */
+import { randomBytes } from 'crypto';
+import { GameStateManager, initializeGameState } from '../game/gameState.js';
+import { DEFAULT_PICKUP_SPAWNS } from '../game/pickups.js';
+import { AdEngineInterface, initializeAdEngine } from '../ads/adEngine.js';
+import { SnapshotManager, initializeSnapshotManager } from '../network/snapshots.js';
+import { GameModeManager, MatchEvents, initializeGameMode } from '../modes/gameMode.js';
+import { MatchController, initializeMatchController } from '../modes/matchController.js';
+import { AccountStore } from '../accounts/accountStore.js';
+import { addLapTime, takeUnrecordedStats } from '../game/statTracker.js';
+import { GameServer, GameSocket, sendGameState, applyHit, getPlayerId } from '../network/socketHandlers.js';
+import { RoomSummary, RoomOptions, RoomError, GameModeId, PlayerDiedEvent, MatchEnd, LapComplete } from '../../types.js';
+
+export interface Room {
+  id: string;
+  name: string;
+  mode: GameModeId;
+  citySeed: number;
+  persistent: boolean; // Persistent rooms stay open when empty
+  gameState: GameStateManager;
+  gameMode: GameModeManager;
+  match: MatchController | null; // Only in modes played as matches
+  adEngine: AdEngineInterface;
+  snapshots: SnapshotManager;
+  members: Record<string, GameSocket>; // Connected players' sockets, by player ID
+  suspended: Record<string, ReturnType<typeof setTimeout>>; // Dropped players, with the timer that removes their car
+  accountIds: Record<string, string>; // Players' accounts, by player ID, for as long as their car is in the room
+  lastUpdateTime: number;
+  lastStatsTime: number; // When players' stats were last handed to their accounts
+  loop: ReturnType<typeof setTimeout> | null;
+}
+
+type RoomResult =
+  | { ok: true; room: RoomSummary }
+  | { ok: false; error: RoomError };
+
+// A car that can be taken back with a resume token
+interface ResumeSlot {
+  roomId: string;
+  playerId: string;
+  accountId?: string; // Only the same account can take it back
+}
+
+export interface RoomManager {
+  createRoom: (options: RoomOptions) => RoomResult;
+  joinRoom: (socket: GameSocket, roomId: string) => RoomResult;
+  leaveRoom: (socket: GameSocket) => void;
+  suspendMember: (socket: GameSocket) => void;
+  resumeMember: (socket: GameSocket, token: string) => RoomSummary | null;
+  issueResumeToken: (socket: GameSocket) => string | null;
+  getSocketRoom: (socket: GameSocket) => Room | null;
+  listRooms: () => RoomSummary[];
+  closeAll: () => void;
+}
+
+// Room constants
+export const DEFAULT_ROOM_ID = 'main';
+const TEAM_DEATHMATCH_ROOM_ID = 'team-deathmatch';
+const CAPTURE_THE_FLAG_ROOM_ID = 'capture-the-flag';
+const AIR_RACE_ROOM_ID = 'air-race';
+const KING_OF_THE_HILL_ROOM_ID = 'king-of-the-hill';
+const MAX_ROOMS = 16; // Rooms open at once, including the persistent ones
+const MAX_PLAYERS_PER_ROOM = 24;
+const TICK_RATE = 15; // Reduced from 20 to 15 updates per second for better performance
+const TICK_INTERVAL = 1000 / TICK_RATE;
+const MAX_CITY_SEED = 2147483646;
+const RESUME_GRACE = 30000; // How long a dropped player's car waits for them to reconnect (ms)
+const RESUME_TOKEN_BYTES = 24;
+const STATS_INTERVAL = 10000; // How often players' stats are handed to their accounts (ms)
+
+// Room state
+let rooms: Record<string, Room> = {};
+let nextRoomNumber = 1;
+let resumeSlots: Record<string, ResumeSlot> = {}; // By resume token
+
+// Socket.io server reference
+let io: GameServer | null = null;
+
+// Where players' lifetime stats are kept
+let accounts: AccountStore | null = null;
+
+/**
+ * Initialize the room manager and open a persistent room for each mode
+ * @param {GameServer} server - The Socket.io server instance
+ * @param {number} defaultCitySeed - City seed of the default room
+ * @param {AccountStore} accountStore - The account store
+ * @returns {RoomManager} - The room manager
+ */
+export function initializeRoomManager(server: GameServer, defaultCitySeed: number, accountStore: AccountStore): RoomManager {
+  io = server;
+  accounts = accountStore;
+  openRoom(DEFAULT_ROOM_ID, 'Main', { mode: 'free_for_all' }, defaultCitySeed, true);
+  openRoom(TEAM_DEATHMATCH_ROOM_ID, 'Team Deathmatch', { mode: 'team_deathmatch' }, defaultCitySeed, true);
+  openRoom(CAPTURE_THE_FLAG_ROOM_ID, 'Capture the Flag', { mode: 'capture_the_flag' }, defaultCitySeed, true);
+  // Lap times are only comparable without power-ups
+  openRoom(AIR_RACE_ROOM_ID, 'Air Race', { mode: 'air_race', pickups: false }, defaultCitySeed, true);
+  openRoom(KING_OF_THE_HILL_ROOM_ID, 'King of the Hill', { mode: 'team_king_of_the_hill' }, defaultCitySeed, true);
+
+  return {
+    createRoom,
+    joinRoom,
+    leaveRoom,
+    suspendMember,
+    resumeMember,
+    issueResumeToken,
+    getSocketRoom,
+    listRooms,
+    closeAll
+  };
+}
+
+/**
+ * Create a new room from a client's request
+ * @param {RoomOptions} options - Requested room settings
+ * @returns {RoomResult} - The new room, or why it couldn't be created
+ */
+function createRoom(options: RoomOptions): RoomResult {
+  if (Object.keys(rooms).length >= MAX_ROOMS) {
+    return { ok: false, error: { reason: 'too_many_rooms' } };
+  }
+
+  const number = nextRoomNumber++;
+  const name = options.name && options.name.trim() ? options.name.trim() : `Room ${number}`;
+  const citySeed = typeof options.citySeed === 'number'
+    ? options.citySeed
+    : 1 + Math.floor(Math.random() * MAX_CITY_SEED);
+
+  const room = openRoom(`room-${number}`, name, options, citySeed, false);
+  return { ok: true, room: summarizeRoom(room) };
+}
+
+/**
+ * Move a socket into a room, leaving its current one
+ * @param {GameSocket} socket - The client's socket
+ * @param {string} roomId - The room to join
+ * @returns {RoomResult} - The joined room, or why the socket couldn't join
+ */
+function joinRoom(socket: GameSocket, roomId: string): RoomResult {
+  const room = rooms[roomId];
+  if (!room) {
+    return { ok: false, error: { roomId, reason: 'not_found' } };
+  }
+
+  if (socket.data.roomId === roomId) {
+    return { ok: true, room: summarizeRoom(room) };
+  }
+
+  if (countPlayers(room) >= MAX_PLAYERS_PER_ROOM) {
+    return { ok: false, error: { roomId, reason: 'full' } };
+  }
+
+  leaveRoom(socket);
+
+  const playerId = getPlayerId(socket);
+  room.members[playerId] = socket;
+  if (socket.data.accountId) {
+    room.accountIds[playerId] = socket.data.accountId;
+  }
+  socket.data.roomId = room.id;
+  socket.join(room.id);
+
+  console.log(`Player ${playerId} joined room ${room.id}`);
+  return { ok: true, room: summarizeRoom(room) };
+}
+
+/**
+ * Take a socket out of its room, removing its car and closing the room
+ * if it was the last one there
+ * @param {GameSocket} socket - The client's socket
+ */
+function leaveRoom(socket: GameSocket): void {
+  const room = getSocketRoom(socket);
+  if (!room) return;
+
+  const playerId = getPlayerId(socket);
+  delete room.members[playerId];
+  socket.data.roomId = undefined;
+  socket.leave(room.id);
+  forgetResumeToken(socket);
+
+  removePlayer(room, playerId);
+}
+
+/**
+ * Take a dropped socket out of its room but keep its car for a while,
+ * so the player can reconnect and take it back
+ * @param {GameSocket} socket - The dropped socket
+ */
+function suspendMember(socket: GameSocket): void {
+  const room = getSocketRoom(socket);
+  const token = socket.data.resumeToken;
+
+  // Sockets that never joined the game have nothing to come back to
+  if (!room || !token) {
+    leaveRoom(socket);
+    return;
+  }
+
+  const playerId = getPlayerId(socket);
+  delete room.members[playerId];
+  room.snapshots.removeClient(playerId);
+  socket.data.roomId = undefined;
+  socket.data.resumeToken = undefined;
+
+  room.suspended[playerId] = setTimeout(() => {
+    delete room.suspended[playerId];
+    delete resumeSlots[token];
+    removePlayer(room, playerId);
+  }, RESUME_GRACE);
+
+  console.log(`Player ${playerId} dropped from room ${room.id}; holding their car for ${RESUME_GRACE / 1000}s`);
+}
+
+/**
+ * Give a reconnected socket the car its resume token belongs to
+ * @param {GameSocket} socket - The new socket
+ * @param {string} token - The resume token from the old connection
+ * @returns {RoomSummary | null} - The car's room, or null if the token is unknown or expired
+ */
+function resumeMember(socket: GameSocket, token: string): RoomSummary | null {
+  const slot = resumeSlots[token];
+  const room = slot ? rooms[slot.roomId] : undefined;
+  if (!slot || !room || slot.accountId !== socket.data.accountId) return null;
+
+  const playerId = slot.playerId;
+  delete resumeSlots[token];
+
+  // The server may not have noticed the old connection drop yet
+  const previous = room.members[playerId];
+  if (previous && previous !== socket) {
+    delete room.members[playerId];
+    previous.data.roomId = undefined;
+    previous.data.resumeToken = undefined;
+    previous.disconnect(true);
+  }
+
+  if (room.suspended[playerId]) {
+    clearTimeout(room.suspended[playerId]);
+    delete room.suspended[playerId];
+  }
+
+  leaveRoom(socket);
+
+  room.members[playerId] = socket;
+  socket.data.roomId = room.id;
+  socket.data.playerId = playerId;
+  socket.join(room.id);
+  // Events addressed to the player (e.g. hits) reach the new socket too
+  socket.join(playerId);
+
+  // Start the client over from a keyframe
+  room.snapshots.removeClient(playerId);
+
+  console.log(`Player ${playerId} took their car back in room ${room.id}`);
+  return summarizeRoom(room);
+}
+
+/**
+ * Hand out a new resume token for a socket's car, replacing its old one
+ * @param {GameSocket} socket - The client's socket
+ * @returns {string | null} - The token, or null if the socket isn't in a room
+ */
+function issueResumeToken(socket: GameSocket): string | null {
+  const roomId = socket.data.roomId;
+  if (!roomId) return null;
+
+  forgetResumeToken(socket);
+
+  const token = randomBytes(RESUME_TOKEN_BYTES).toString('hex');
+  resumeSlots[token] = {
+    roomId,
+    playerId: getPlayerId(socket),
+    accountId: socket.data.accountId
+  };
+  socket.data.resumeToken = token;
+
+  return token;
+}
+
+/**
+ * Make a socket's resume token useless, e.g. when it leaves its room
+ * @param {GameSocket} socket - The client's socket
+ */
+function forgetResumeToken(socket: GameSocket): void {
+  if (socket.data.resumeToken) {
+    delete resumeSlots[socket.data.resumeToken];
+    socket.data.resumeToken = undefined;
+  }
+}
+
+/**
+ * Remove a player's car from a room for good, closing the room if nobody
+ * is left in it
+ * @param {Room} room - The room
+ * @param {string} playerId - The player
+ */
+function removePlayer(room: Room, playerId: string): void {
+  recordPlayerStats(room, playerId);
+  delete room.accountIds[playerId];
+
+  room.gameState.removePlayer(playerId);
+  room.snapshots.removeClient(playerId);
+
+  // Notify the rest of the room
+  io?.to(room.id).emit('player:left', { id: playerId });
+
+  console.log(`Player ${playerId} left room ${room.id}`);
+
+  if (!room.persistent && countPlayers(room) === 0) {
+    closeRoom(room);
+  }
+}
+
+/**
+ * Get the room a socket is in
+ * @param {GameSocket} socket - The client's socket
+ * @returns {Room | null} - The room or null
+ */
+function getSocketRoom(socket: GameSocket): Room | null {
+  const roomId = socket.data.roomId;
+  return roomId ? rooms[roomId] || null : null;
+}
+
+/**
+ * List the open rooms for the lobby
+ * @returns {RoomSummary[]} - All open rooms
+ */
+function listRooms(): RoomSummary[] {
+  return Object.values(rooms).map(summarizeRoom);
+}
+
+/**
+ * Stop every room's tick loop
+ */
+function closeAll(): void {
+  Object.values(rooms).forEach(closeRoom);
+}
+
+/**
+ * Create a room and start its tick loop
+ * @param {string} id - The room ID
+ * @param {string} name - Display name
+ * @param {RoomOptions} options - The room's mode and match limits
+ * @param {number} citySeed - Seed of the room's city
+ * @param {boolean} persistent - Whether the room stays open when empty
+ * @returns {Room} - The room
+ */
+function openRoom(id: string, name: string, options: RoomOptions, citySeed: number, persistent: boolean): Room {
+  const mode = options.mode || 'free_for_all';
+  const pickupSpawns = options.pickups === false ? [] : DEFAULT_PICKUP_SPAWNS;
+  // Missiles, pickups and deaths are resolved by the simulation, which reports what they did
+  const gameState = initializeGameState(citySeed, {
+    onMissileHit: (shooterId, targetId, damage, damageType, position) => {
+      if (io && rooms[id]) {
+        applyHit(io, rooms[id], shooterId, targetId, damage, damageType, position, 'homing_missile');
+      }
+    },
+    onMissileDestroyed: (missile) => io?.to(id).emit('missile:destroyed', missile),
+    onPickupUpdate: (update) => io?.to(id).emit('pickup:update', update),
+    onPlayerKilled: (kill) => announceKill(id, kill),
+    onPlayerRespawn: (playerId, respawn) => rooms[id]?.members[playerId]?.emit('player:respawn', respawn)
+  }, pickupSpawns);
+  const adEngine = initializeAdEngine(gameState);
+
+  // Matches and objectives are announced to everyone in the room,
+  // race progress only to the racer
+  const events: MatchEvents = {
+    onMatchPhase: (match) => io?.to(id).emit('match:phase', match),
+    onMatchEnd: (result) => {
+      recordMatch(id, result);
+      io?.to(id).emit('match:end', result);
+    },
+    onFlagUpdate: (update) => io?.to(id).emit('flag:update', update),
+    onZoneUpdate: (update) => io?.to(id).emit('zone:state', update),
+    onRaceProgress: (playerId, progress) => rooms[id]?.members[playerId]?.emit('race:progress', progress),
+    onLapComplete: (lap) => {
+      recordLap(id, lap);
+      io?.to(id).emit('race:lap', lap);
+    },
+    onGhostLap: (playerId, ghost) => rooms[id]?.members[playerId]?.emit('race:ghost', ghost)
+  };
+
+  const gameMode = initializeGameMode(mode, gameState, events);
+  const scoring = gameMode.scoring;
+  const match = scoring
+    ? initializeMatchController(mode, scoring, gameState, events, {
+      timeLimit: options.timeLimit ? options.timeLimit * 1000 : scoring.timeLimit,
+      scoreLimit: options.scoreLimit || scoring.scoreLimit
+    })
+    : null;
+
+  const room: Room = {
+    id,
+    name,
+    mode,
+    citySeed,
+    persistent,
+    gameState,
+    gameMode,
+    match,
+    adEngine,
+    snapshots: initializeSnapshotManager(gameState, adEngine),
+    members: {},
+    suspended: {},
+    accountIds: {},
+    lastUpdateTime: Date.now(),
+    lastStatsTime: Date.now(),
+    loop: null
+  };
+
+  rooms[id] = room;
+  tickRoom(room);
+
+  console.log(`Room ${id} opened (${mode}, city seed ${citySeed})`);
+  return room;
+}
+
+/**
+ * Tell a room about a death for its kill feed, and about the killer's new score
+ * @param {string} roomId - The room
+ * @param {PlayerDiedEvent} kill - The death
+ */
+function announceKill(roomId: string, kill: PlayerDiedEvent): void {
+  const room = rooms[roomId];
+  if (!io || !room) return;
+
+  io.to(roomId).emit('player:died', kill);
+
+  const killer = kill.killedBy ? room.gameState.getPlayerById(kill.killedBy) : null;
+  if (killer) {
+    io.to(roomId).emit('score:update', {
+      playerId: killer.id,
+      score: killer.score
+    });
+  }
+}
+
+/**
+ * Fill each player's match stats into a finished match's standings and add
+ * the match to their accounts
+ * @param {string} roomId - The room
+ * @param {MatchEnd} result - The match's result
+ */
+function recordMatch(roomId: string, result: MatchEnd): void {
+  const room = rooms[roomId];
+  if (!room) return;
+
+  result.players.forEach(standing => {
+    const player = room.gameState.getPlayerById(standing.playerId);
+    if (!player) return;
+
+    standing.stats = { ...player.stats.match };
+
+    const accountId = room.accountIds[standing.playerId];
+    if (accountId) {
+      recordPlayerStats(room, standing.playerId);
+      accounts?.recordMatch(accountId, {
+        ...standing.stats,
+        mode: result.mode,
+        endedAt: Date.now(),
+        won: result.winner !== null && (result.winner === standing.playerId || result.winner === standing.team),
+        kills: standing.kills,
+        deaths: standing.deaths,
+        assists: standing.assists
+      });
+
+      // Their account panel shows the new totals and the match
+      const profile = accounts?.getProfile(accountId);
+      if (profile) {
+        room.members[standing.playerId]?.emit('account:profile', profile);
+      }
+    }
+  });
+}
+
+/**
+ * Count a race lap towards the racer's match stats and account bests
+ * @param {string} roomId - The room
+ * @param {LapComplete} lap - The lap
+ */
+function recordLap(roomId: string, lap: LapComplete): void {
+  const room = rooms[roomId];
+  const player = room?.gameState.getPlayerById(lap.playerId);
+  if (!room || !player) return;
+
+  addLapTime(player.stats, lap.time);
+
+  const accountId = room.accountIds[lap.playerId];
+  if (accountId) {
+    accounts?.recordLap(accountId, lap.time);
+  }
+}
+
+/**
+ * Hand what a player did since the last time to their account
+ * @param {Room} room - The player's room
+ * @param {string} playerId - The player
+ */
+function recordPlayerStats(room: Room, playerId: string): void {
+  const player = room.gameState.getPlayerById(playerId);
+  const accountId = room.accountIds[playerId];
+  if (!player || !accountId) return;
+
+  accounts?.recordStats(accountId, takeUnrecordedStats(player.stats));
+}
+
+/**
+ * Stop a room's tick loop and forget it
+ * @param {Room} room - The room to close
+ */
+function closeRoom(room: Room): void {
+  // Nothing players did here is lost, e.g. when the server shuts down
+  Object.keys(room.accountIds).forEach(playerId => recordPlayerStats(room, playerId));
+
+  if (room.loop) {
+    clearTimeout(room.loop);
+    room.loop = null;
+  }
+
+  // Dropped players can't come back to a closed room
+  Object.values(room.suspended).forEach(clearTimeout);
+  room.suspended = {};
+  Object.keys(resumeSlots).forEach(token => {
+    if (resumeSlots[token].roomId === room.id) {
+      delete resumeSlots[token];
+    }
+  });
+
+  delete rooms[room.id];
+  console.log(`Room ${room.id} closed`);
+}
+
+/**
+ * Advance a room's simulation and send each member its snapshot
+ * @param {Room} room - The room to update
+ */
+function tickRoom(room: Room): void {
+  const now = Date.now();
+  const deltaTime = (now - room.lastUpdateTime) / 1000;
+  room.lastUpdateTime = now;
+
+  // Update game state
+  room.gameState.update(deltaTime);
+
+  // Move the match through its phases
+  room.match?.update();
+
+  // Update ad engine
+  room.adEngine.update(deltaTime);
+
+  // Hand players' stats to their accounts every so often rather than every tick
+  if (now - room.lastStatsTime >= STATS_INTERVAL) {
+    room.lastStatsTime = now;
+    Object.keys(room.accountIds).forEach(playerId => recordPlayerStats(room, playerId));
+  }
+
+  // Send each client the part of the world around it
+  Object.keys(room.members).forEach(playerId => {
+    sendGameState(room.members[playerId], room.snapshots.createSnapshot(playerId, now));
+  });
+
+  // Schedule next update
+  room.loop = setTimeout(() => tickRoom(room), TICK_INTERVAL);
+}
+
+/**
+ * Count a room's players, including dropped ones whose cars are waiting for them
+ * @param {Room} room - The room
+ * @returns {number} - The number of players
+ */
+function countPlayers(room: Room): number {
+  return Object.keys(room.members).length + Object.keys(room.suspended).length;
+}
+
+/**
+ * Describe a room for the lobby
+ * @param {Room} room - The room
+ * @returns {RoomSummary} - The room's lobby entry
+ */
+function summarizeRoom(room: Room): RoomSummary {
+  return {
+    id: room.id,
+    name: room.name,
+    mode: room.mode,
+    citySeed: room.citySeed,
+    playerCount: countPlayers(room),
+    maxPlayers: MAX_PLAYERS_PER_ROOM
+  };
+}
@@ -1,4 +1,68 @@
 // Server-side type definitions
+import { Vector3, PlayerData } from '../../shared/protocol/types.js';
+
+// Types exchanged with the client live in the shared protocol module
+export type {
+  Vector3,
+  PlayerInput,
+  PlayerData,
+  Building,
+  BillboardAd,
+  StateSnapshot,
+  LaserData,
+  LaserShot,
+  MissileLaunch,
+  MissileDestroyed,
+  FlareDeploy,
+  HitData,
+  HitRejectionReason,
+  PlayerDiedEvent,
+  PlayerRespawnEvent,
+  TeamId,
+  GameModeId,
+  WeaponId,
+  DamageType,
+  PowerUpType,
+  ActivePowerUps,
+  PickupLocation,
+  PickupState,
+  PickupUpdate,
+  MatchPhase,
+  MatchState,
+  MatchEnd,
+  TeamStanding,
+  PlayerStanding,
+  MatchStats,
+  FlagState,
+  FlagUpdate,
+  FlagAction,
+  ZoneState,
+  ZoneUpdate,
+  Checkpoint,
+  RaceCourse,
+  RaceProgress,
+  LapComplete,
+  GhostSample,
+  GhostLap,
+  RoomSummary,
+  RoomOptions,
+  RoomError,
+  AccountAuth,
+  AccountCredentials,
+  AccountSession,
+  AccountError,
+  StatCounters,
+  LifetimeStats,
+  MatchRecord,
+  Profile,
+  ProfileUpdate,
+  ResumeTicket,
+  SessionResumed,
+  LeaderboardPeriod,
+  LeaderboardStat,
+  LeaderboardEntry,
+  Leaderboard
+} from '../../shared/protocol/types.js';
 
 export interface Player {
   id: string;
@@ -13,12 +77,6 @@ export interface Player {
   connected: boolean;
 }
 
-export interface Vector3 {
-  x: number;
-  y: number;
-  z: number;
-}
-
 export interface GameState {
   players: Record<string, Player>;
   update: (deltaTime: number) => void;
@@ -29,16 +87,6 @@ export interface GameState {
   handleCollisions: () => void;
 }
 
-export interface PlayerData {
-  id: string;
-  username: string;
-  position: Vector3;
-  rotation: Vector3;
-  health: number;
-  score: number;
-  boost: boolean;
-}
-
 export interface Ad {
   id: string;
   position: Vector3;
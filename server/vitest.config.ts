@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Specs sit next to the code they cover, in the server and in the shared code
+export default defineConfig({
+  test: {
+    dir: '..',
+    include: ['server/src/**/*.spec.ts', 'shared/**/*.spec.ts']
+  }
+});
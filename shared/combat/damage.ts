@@ -0,0 +1,75 @@
+/**
+ * Damage model - how a hit is split between a car's shield and its hull,
+ * shared so the client can describe hits the same way the server applies them
+ */
+import { DamageType } from '../protocol/types.js';
+
+export const MAX_HEALTH = 100;
+export const MAX_SHIELD = 50;
+export const SHIELD_REGEN_RATE = 10;     // Shield restored per second
+export const SHIELD_REGEN_DELAY = 3000;  // Time after the last hit before the shield recharges (ms)
+export const ARMOR_REDUCTION = 0.4;      // Share of kinetic damage the armor stops from reaching the hull
+
+// Which layers stop each type of damage
+const DAMAGE_RULES: Record<DamageType, { shielded: boolean; armored: boolean }> = {
+  laser: { shielded: true, armored: false },
+  explosive: { shielded: true, armored: true },
+  collision: { shielded: true, armored: true },
+  environmental: { shielded: false, armored: false }
+};
+
+export interface DefenseState {
+  health: number;
+  shield: number;
+  lastDamageTime: number;
+}
+
+// How much of a hit each layer took
+export interface DamageSplit {
+  shieldDamage: number;
+  hullDamage: number;
+}
+
+/**
+ * Apply a hit: the shield soaks up what it can, armor blunts kinetic
+ * damage that gets through, and the hull takes the rest
+ * @param {DefenseState} state - The car's shield and health
+ * @param {number} damage - The raw damage
+ * @param {DamageType} type - What kind of damage it is
+ * @param {number} now - Current time (ms)
+ * @returns {DamageSplit} - How much the shield and the hull took
+ */
+export function applyDamage(state: DefenseState, damage: number, type: DamageType, now: number): DamageSplit {
+  const rules = DAMAGE_RULES[type];
+  state.lastDamageTime = now;
+
+  let remaining = damage;
+  let shieldDamage = 0;
+  if (rules.shielded) {
+    shieldDamage = Math.min(state.shield, remaining);
+    state.shield -= shieldDamage;
+    remaining -= shieldDamage;
+  }
+
+  if (rules.armored) {
+    remaining *= 1 - ARMOR_REDUCTION;
+  }
+
+  // Health stays a whole number
+  const hullDamage = Math.min(state.health, Math.round(remaining));
+  state.health -= hullDamage;
+
+  return { shieldDamage, hullDamage };
+}
+
+/**
+ * Recharge the shield once the car has gone a while without being hit
+ * @param {DefenseState} state - The car's shield
+ * @param {number} deltaTime - Time step in seconds
+ * @param {number} now - Current time (ms)
+ */
+export function regenerateShield(state: DefenseState, deltaTime: number, now: number): void {
+  if (now - state.lastDamageTime < SHIELD_REGEN_DELAY) return;
+
+  state.shield = Math.min(MAX_SHIELD, state.shield + SHIELD_REGEN_RATE * deltaTime);
+}
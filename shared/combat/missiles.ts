@@ -0,0 +1,87 @@
+/**
+ * Homing missiles and flares - lock-on, steering and countermeasure rules,
+ * run by the server on the real missiles and by the client to draw them
+ */
+import { Vector3 } from '../protocol/types.js';
+
+export const LOCK_ANGLE = 0.12;            // Half-angle of the crosshair's lock cone (radians)
+export const LOCK_RANGE = 500;             // Furthest a target can be locked
+
+export const MISSILE_TURN_RATE = 1.6;      // Fastest a missile turns (rad/s); tighter turns dodge it
+export const MISSILE_SEEKER_ANGLE = 1.0;   // Half-angle of the seeker; targets outside it are lost (radians)
+export const MISSILE_HIT_RADIUS = 6;       // Proximity fuse radius
+
+export const FLARE_COUNT = 4;              // Flares per life
+export const FLARE_COOLDOWN = 2000;        // Time between flare drops (ms)
+export const FLARE_LIFETIME = 3000;        // How long a flare burns (ms)
+export const FLARE_DECOY_RANGE = 300;      // Missiles closer than this to the car chase the flare instead
+export const FLARE_FALL_SPEED = 15;        // How fast a flare sinks (units/s)
+
+/**
+ * Check whether a point lies inside a cone
+ * @param {Vector3} origin - The cone's apex
+ * @param {Vector3} direction - The cone's normalized axis
+ * @param {Vector3} point - The point to check
+ * @param {number} halfAngle - The cone's half-angle (radians)
+ * @param {number} range - The cone's length
+ * @returns {boolean} - Whether the point is inside
+ */
+export function isInCone(origin: Vector3, direction: Vector3, point: Vector3, halfAngle: number, range: number): boolean {
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  const dz = point.z - origin.z;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (distance > range) return false;
+  if (distance === 0) return true;
+
+  const cosAngle = (dx * direction.x + dy * direction.y + dz * direction.z) / distance;
+  return cosAngle >= Math.cos(halfAngle);
+}
+
+/**
+ * Turn a missile's heading toward a point, by no more than it can turn in one step
+ * @param {Vector3} direction - The missile's normalized heading
+ * @param {Vector3} position - The missile's position
+ * @param {Vector3} target - The point it is chasing
+ * @param {number} deltaTime - Time step in seconds
+ * @returns {Vector3} - The new normalized heading
+ */
+export function steerMissile(direction: Vector3, position: Vector3, target: Vector3, deltaTime: number): Vector3 {
+  const dx = target.x - position.x;
+  const dy = target.y - position.y;
+  const dz = target.z - position.z;
+  const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+  if (distance === 0) return direction;
+
+  const wanted = { x: dx / distance, y: dy / distance, z: dz / distance };
+  const cosAngle = Math.max(-1, Math.min(1, direction.x * wanted.x + direction.y * wanted.y + direction.z * wanted.z));
+  const angle = Math.acos(cosAngle);
+  const maxTurn = MISSILE_TURN_RATE * deltaTime;
+  if (angle <= maxTurn) return wanted;
+
+  // Rotate part of the way, in the plane of the current and wanted headings
+  const t = maxTurn / angle;
+  const turned = {
+    x: direction.x + (wanted.x - direction.x) * t,
+    y: direction.y + (wanted.y - direction.y) * t,
+    z: direction.z + (wanted.z - direction.z) * t
+  };
+  const length = Math.sqrt(turned.x * turned.x + turned.y * turned.y + turned.z * turned.z);
+  if (length === 0) return direction;
+
+  return { x: turned.x / length, y: turned.y / length, z: turned.z / length };
+}
+
+/**
+ * Where a flare is after it has been burning for a while
+ * @param {Vector3} dropPosition - Where the flare was dropped
+ * @param {number} age - Time since it was dropped (ms)
+ * @returns {Vector3} - Its current position
+ */
+export function getFlarePosition(dropPosition: Vector3, age: number): Vector3 {
+  return {
+    x: dropPosition.x,
+    y: dropPosition.y - FLARE_FALL_SPEED * age / 1000,
+    z: dropPosition.z
+  };
+}
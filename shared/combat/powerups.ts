@@ -0,0 +1,85 @@
+/**
+ * Power-ups - what each pickup does and for how long, read by the server
+ * to apply them and by the client to draw them and predict their effects
+ */
+import { PowerUpType, ActivePowerUps } from '../protocol/types.js';
+
+export interface PowerUpDefinition {
+  type: PowerUpType;
+  name: string;
+  duration: number;     // How long the effect lasts (ms), or 0 for one that applies at once
+  respawnTime: number;  // How long a taken pickup stays away (ms)
+  color: string;
+}
+
+export const PICKUP_RADIUS = 8;               // How close a car must fly to collect a pickup
+export const REPAIR_AMOUNT = 50;              // Health a repair kit restores
+export const DOUBLE_DAMAGE_MULTIPLIER = 2;
+export const OVERDRIVE_MULTIPLIER = 1.5;      // Thrust and cruise speed multiplier in overdrive
+export const CLOAK_VISIBILITY = 0.08;         // How visible a cloaked car is to other players
+
+// Power-ups in HUD order
+export const POWER_UP_TYPES: PowerUpType[] = ['repair', 'shield_boost', 'double_damage', 'overdrive', 'cloak'];
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+  repair: {
+    type: 'repair',
+    name: 'REPAIR KIT',
+    duration: 0,
+    respawnTime: 20000,
+    color: '#00ff66'
+  },
+  shield_boost: {
+    type: 'shield_boost',
+    name: 'SHIELD BOOST',
+    duration: 0,
+    respawnTime: 20000,
+    color: '#0088ff'
+  },
+  double_damage: {
+    type: 'double_damage',
+    name: 'DOUBLE DAMAGE',
+    duration: 15000,
+    respawnTime: 45000,
+    color: '#ff2222'
+  },
+  overdrive: {
+    type: 'overdrive',
+    name: 'OVERDRIVE',
+    duration: 10000,
+    respawnTime: 30000,
+    color: '#ffcc00'
+  },
+  cloak: {
+    type: 'cloak',
+    name: 'CLOAK',
+    duration: 12000,
+    respawnTime: 60000,
+    color: '#cc66ff'
+  }
+};
+
+/**
+ * Check whether a timed power-up is running
+ * @param {ActivePowerUps | undefined} powerUps - The car's running power-ups
+ * @param {PowerUpType} type - The power-up to check
+ * @param {number} now - Current server time (ms)
+ * @returns {boolean} - Whether it is running
+ */
+export function hasPowerUp(powerUps: ActivePowerUps | undefined, type: PowerUpType, now: number): boolean {
+  const endTime = powerUps ? powerUps[type] : undefined;
+  return endTime !== undefined && now < endTime;
+}
+
+/**
+ * Drop power-ups that have worn off
+ * @param {ActivePowerUps} powerUps - The car's running power-ups
+ * @param {number} now - Current server time (ms)
+ */
+export function expirePowerUps(powerUps: ActivePowerUps, now: number): void {
+  POWER_UP_TYPES.forEach(type => {
+    if (!hasPowerUp(powerUps, type, now)) {
+      delete powerUps[type];
+    }
+  });
+}
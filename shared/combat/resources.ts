@@ -0,0 +1,74 @@
+/**
+ * Weapon heat and boost energy - the rules behind both gauges, run by the
+ * server on the real values and by the client to predict them
+ */
+import { WeaponDefinition } from './weapons.js';
+
+export const MAX_HEAT = 100;
+export const HEAT_COOLING_RATE = 25;     // Heat shed per second
+export const OVERHEAT_LOCK_TIME = 2000;  // How long weapons stay locked after overheating (ms)
+
+export const MAX_ENERGY = 100;
+export const BOOST_ENERGY_DRAIN = 25;    // Energy used per second of boost
+export const ENERGY_REGEN_RATE = 12;     // Energy regained per second without boost
+
+export interface HeatState {
+  heat: number;
+  overheatedUntil: number; // Weapons are locked until this time (ms)
+}
+
+export interface EnergyState {
+  energy: number;
+}
+
+/**
+ * Check whether overheating has locked the weapons
+ * @param {HeatState} state - The car's heat
+ * @param {number} now - Current time (ms)
+ * @returns {boolean} - Whether the weapons are locked
+ */
+export function isOverheated(state: HeatState, now: number): boolean {
+  return now < state.overheatedUntil;
+}
+
+/**
+ * Add the heat of one shot, locking the weapons if it reaches the maximum
+ * @param {HeatState} state - The car's heat
+ * @param {WeaponDefinition} weapon - The weapon that fired
+ * @param {number} now - Current time (ms)
+ */
+export function addWeaponHeat(state: HeatState, weapon: WeaponDefinition, now: number): void {
+  state.heat = Math.min(state.heat + weapon.heat, MAX_HEAT);
+
+  if (state.heat >= MAX_HEAT) {
+    state.overheatedUntil = now + OVERHEAT_LOCK_TIME;
+  }
+}
+
+/**
+ * Let the weapons cool down
+ * @param {HeatState} state - The car's heat
+ * @param {number} deltaTime - Time step in seconds
+ */
+export function coolWeapons(state: HeatState, deltaTime: number): void {
+  state.heat = Math.max(0, state.heat - HEAT_COOLING_RATE * deltaTime);
+}
+
+/**
+ * Drain energy while boosting and regenerate it otherwise
+ * @param {EnergyState} state - The car's energy
+ * @param {boolean} boostRequested - Whether the input asks for boost
+ * @param {number} deltaTime - Time step in seconds
+ * @returns {boolean} - Whether the car actually boosts this step
+ */
+export function updateEnergy(state: EnergyState, boostRequested: boolean, deltaTime: number): boolean {
+  const boosting = boostRequested && state.energy > 0;
+
+  if (boosting) {
+    state.energy = Math.max(0, state.energy - BOOST_ENERGY_DRAIN * deltaTime);
+  } else {
+    state.energy = Math.min(MAX_ENERGY, state.energy + ENERGY_REGEN_RATE * deltaTime);
+  }
+
+  return boosting;
+}
@@ -0,0 +1,128 @@
+/**
+ * Weapon registry - the numbers behind every weapon, read by the server to
+ * enforce shots and by the client to predict them, so both agree
+ */
+import { WeaponId, DamageType } from '../protocol/types.js';
+
+// Projectiles fly along the aim and hits are claimed by the shooter;
+// bursts hit everyone around the car and are resolved by the server;
+// missiles need a lock and are flown and resolved by the server
+export type WeaponKind = 'projectile' | 'burst' | 'missile';
+
+export interface WeaponDefinition {
+  id: WeaponId;
+  name: string;
+  kind: WeaponKind;
+  cooldown: number;     // Time between shots (ms)
+  chargeTime: number;   // How long the trigger is held before the shot goes off (ms)
+  lockTime: number;     // How long a target must stay under the crosshair before firing (ms)
+  damage: number;
+  damageType: DamageType;
+  speed: number;        // Projectile speed (units/s)
+  lifetime: number;     // Projectile lifetime (ms)
+  radius: number;       // Burst radius
+  spread: number;       // Largest aim error the shooter may add (radians)
+  ammo: number | null;  // Shots per life, or null for unlimited
+  heat: number;         // Heat added by each shot
+  color: string;
+}
+
+// Weapons in selection order (also their wire codes)
+export const WEAPON_IDS: WeaponId[] = ['rapid_laser', 'rail_beam', 'homing_missile', 'emp_burst'];
+export const DEFAULT_WEAPON: WeaponId = 'rapid_laser';
+export const WEAPON_SWITCH_TIME = 300; // Time after switching before the new weapon fires (ms)
+
+export const WEAPONS: Record<WeaponId, WeaponDefinition> = {
+  rapid_laser: {
+    id: 'rapid_laser',
+    name: 'RAPID LASER',
+    kind: 'projectile',
+    cooldown: 200,
+    chargeTime: 0,
+    lockTime: 0,
+    damage: 5,
+    damageType: 'laser',
+    speed: 500,
+    lifetime: 2000,
+    radius: 0,
+    spread: 0.02,
+    ammo: null,
+    heat: 8,
+    color: '#ff0000'
+  },
+  rail_beam: {
+    id: 'rail_beam',
+    name: 'RAIL BEAM',
+    kind: 'projectile',
+    cooldown: 1500,
+    chargeTime: 800,
+    lockTime: 0,
+    damage: 40,
+    damageType: 'laser',
+    speed: 3000,
+    lifetime: 500,
+    radius: 0,
+    spread: 0,
+    ammo: 10,
+    heat: 30,
+    color: '#00ffff'
+  },
+  homing_missile: {
+    id: 'homing_missile',
+    name: 'HOMING MISSILE',
+    kind: 'missile',
+    cooldown: 1500,
+    chargeTime: 0,
+    lockTime: 1200,
+    damage: 35,
+    damageType: 'explosive',
+    speed: 120,
+    lifetime: 6000,
+    radius: 0,
+    spread: 0,
+    ammo: 6,
+    heat: 20,
+    color: '#ff8800'
+  },
+  emp_burst: {
+    id: 'emp_burst',
+    name: 'EMP BURST',
+    kind: 'burst',
+    cooldown: 6000,
+    chargeTime: 0,
+    lockTime: 0,
+    damage: 15,
+    damageType: 'explosive',
+    speed: 0,
+    lifetime: 0,
+    radius: 80,
+    spread: 0,
+    ammo: 3,
+    heat: 40,
+    color: '#8080ff'
+  }
+};
+
+/**
+ * How far a weapon's projectiles reach
+ * @param {WeaponDefinition} weapon - The weapon
+ * @returns {number} - Speed times lifetime
+ */
+export function getWeaponRange(weapon: WeaponDefinition): number {
+  return weapon.speed * weapon.lifetime / 1000;
+}
+
+/**
+ * Full ammo for a fresh life
+ * @returns {Partial<Record<WeaponId, number>>} - Shots left for each weapon with limited ammo
+ */
+export function createAmmo(): Partial<Record<WeaponId, number>> {
+  const ammo: Partial<Record<WeaponId, number>> = {};
+  WEAPON_IDS.forEach(id => {
+    const capacity = WEAPONS[id].ammo;
+    if (capacity !== null) {
+      ammo[id] = capacity;
+    }
+  });
+  return ammo;
+}
@@ -0,0 +1,406 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  PROTOCOL_VERSION,
+  MessageType,
+  createWireContext,
+  quantizeInput,
+  encodePlayerInputs,
+  decodePlayerInputs,
+  encodeStateSnapshot,
+  decodeStateSnapshot,
+  encodeLaserShot,
+  decodeLaserShot
+} from './binary.js';
+import { PlayerInput, PlayerData, StateSnapshot, LaserShot } from './types.js';
+
+/**
+ * Build an input frame
+ * @param {Partial<PlayerInput>} fields - Fields to override
+ * @returns {PlayerInput} - The frame
+ */
+function makeInput(fields: Partial<PlayerInput> = {}): PlayerInput {
+  return {
+    seq: 1,
+    dt: 1 / 60,
+    throttle: 0.5,
+    strafe: -0.25,
+    vertical: 0,
+    yaw: 0.01,
+    pitch: -0.02,
+    roll: 0,
+    boost: false,
+    ...fields
+  };
+}
+
+/**
+ * Build a full player
+ * @param {string} id - The player's ID
+ * @param {Partial<PlayerData>} fields - Fields to override
+ * @returns {PlayerData} - The player
+ */
+function makePlayer(id: string, fields: Partial<PlayerData> = {}): PlayerData {
+  return {
+    id,
+    position: { x: 10.5, y: 20.25, z: -30 },
+    rotation: { x: 0, y: 1.5, z: -0.5 },
+    velocity: { x: 1.23, y: 0, z: -4.56 },
+    health: 100,
+    score: 0,
+    isAlive: true,
+    lastProcessedInput: 42,
+    ...fields
+  };
+}
+
+/**
+ * Build a snapshot
+ * @param {Partial<StateSnapshot>} fields - Fields to override
+ * @returns {StateSnapshot} - The snapshot
+ */
+function makeSnapshot(fields: Partial<StateSnapshot> = {}): StateSnapshot {
+  return {
+    timestamp: 1700000000123,
+    sequence: 1,
+    baseline: 0,
+    keyframe: true,
+    players: {},
+    removedPlayers: [],
+    ads: {},
+    removedAds: [],
+    ...fields
+  };
+}
+
+describe('player inputs', () => {
+  it('round-trips a batch at wire precision', () => {
+    const inputs = [
+      makeInput({ seq: 7 }),
+      makeInput({ seq: 8, throttle: -1, boost: true }),
+      makeInput({ seq: 9, yaw: -0.1234, roll: 0.5 })
+    ];
+
+    const decoded = decodePlayerInputs(encodePlayerInputs(inputs));
+
+    expect(decoded).toEqual(inputs.map(input => quantizeInput(input)));
+  });
+
+  it('keeps sequence numbers that go backwards', () => {
+    const inputs = [makeInput({ seq: 100 }), makeInput({ seq: 3 })];
+
+    const decoded = decodePlayerInputs(encodePlayerInputs(inputs));
+
+    expect(decoded?.map(input => input.seq)).toEqual([100, 3]);
+  });
+
+  it('clamps axes, turns and frame times to their wire range', () => {
+    const input = makeInput({
+      dt: 100,
+      throttle: 5,
+      strafe: -5,
+      vertical: NaN,
+      yaw: 10,
+      pitch: -10,
+      roll: Infinity
+    });
+
+    const [decoded] = decodePlayerInputs(encodePlayerInputs([input])) || [];
+
+    expect(decoded).toEqual(quantizeInput(input));
+    expect(decoded.dt).toBeCloseTo(6.5535, 4);
+    expect(decoded.throttle).toBe(1);
+    expect(decoded.strafe).toBe(-1);
+    expect(decoded.vertical).toBe(0);
+    expect(decoded.yaw).toBeCloseTo(3.2767, 4);
+    expect(decoded.pitch).toBeCloseTo(-3.2767, 4);
+    expect(decoded.roll).toBe(0);
+  });
+
+  it('quantizes to the steps the server replays', () => {
+    const quantized = quantizeInput(makeInput({ throttle: 0.3, dt: 0.016666 }));
+
+    expect(quantized.throttle * 127).toBeCloseTo(Math.round(0.3 * 127), 9);
+    expect(quantized.dt * 10000).toBeCloseTo(167, 9);
+  });
+
+  it('decodes an empty batch', () => {
+    expect(decodePlayerInputs(encodePlayerInputs([]))).toEqual([]);
+  });
+});
+
+describe('state snapshots', () => {
+  let server: ReturnType<typeof createWireContext>;
+  let client: ReturnType<typeof createWireContext>;
+
+  beforeEach(() => {
+    server = createWireContext();
+    client = createWireContext();
+  });
+
+  it('round-trips a keyframe', () => {
+    const snapshot = makeSnapshot({
+      players: {
+        alpha: makePlayer('alpha', { score: -3 }),
+        beta: makePlayer('beta', { isAlive: false, health: 0 })
+      }
+    });
+
+    const decoded = decodeStateSnapshot(client, encodeStateSnapshot(server, snapshot));
+
+    expect(decoded).not.toBeNull();
+    expect(decoded?.timestamp).toBe(snapshot.timestamp);
+    expect(decoded?.sequence).toBe(1);
+    expect(decoded?.keyframe).toBe(true);
+    expect(Object.keys(decoded?.players || {})).toEqual(['alpha', 'beta']);
+
+    const alpha = decoded?.players.alpha as PlayerData;
+    expect(alpha.id).toBe('alpha');
+    expect(alpha.score).toBe(-3);
+    expect(alpha.health).toBe(100);
+    expect(alpha.lastProcessedInput).toBe(42);
+    expect(alpha.position).toEqual({ x: 10.5, y: 20.25, z: -30 });
+    expect(alpha.velocity.x).toBeCloseTo(1.23, 2);
+    expect(alpha.velocity.z).toBeCloseTo(-4.56, 2);
+    expect(alpha.rotation.y).toBeCloseTo(1.5, 3);
+    expect(alpha.rotation.z).toBeCloseTo(-0.5, 3);
+    expect(decoded?.players.beta.isAlive).toBe(false);
+  });
+
+  it('round-trips a delta with only the changed fields', () => {
+    decodeStateSnapshot(client, encodeStateSnapshot(server, makeSnapshot({ players: { alpha: makePlayer('alpha') } })));
+
+    const delta = makeSnapshot({
+      sequence: 2,
+      baseline: 1,
+      keyframe: false,
+      players: { alpha: { health: 75 } }
+    });
+
+    const decoded = decodeStateSnapshot(client, encodeStateSnapshot(server, delta));
+
+    expect(decoded?.keyframe).toBe(false);
+    expect(decoded?.baseline).toBe(1);
+    expect(decoded?.players).toEqual({ alpha: { health: 75 } });
+  });
+
+  it('sends each player ID in full only once', () => {
+    const first = encodeStateSnapshot(server, makeSnapshot({ players: { 'a-long-player-id': { score: 1 } } }));
+    const second = encodeStateSnapshot(server, makeSnapshot({ sequence: 2, players: { 'a-long-player-id': { score: 1 } } }));
+
+    expect(second.length).toBeLessThan(first.length);
+    expect(decodeStateSnapshot(client, first)?.players['a-long-player-id']).toEqual({ score: 1 });
+    expect(decodeStateSnapshot(client, second)?.players['a-long-player-id']).toEqual({ score: 1 });
+  });
+
+  it('keeps player IDs after a removal and a rejoin', () => {
+    const snapshots = [
+      makeSnapshot({ players: { alpha: makePlayer('alpha'), beta: makePlayer('beta') } }),
+      makeSnapshot({ sequence: 2, baseline: 1, keyframe: false, removedPlayers: ['alpha'] }),
+      makeSnapshot({ sequence: 3, baseline: 2, keyframe: false, players: { gamma: makePlayer('gamma') } }),
+      makeSnapshot({ sequence: 4, baseline: 3, keyframe: false, players: { alpha: makePlayer('alpha'), beta: { score: 2 } } })
+    ];
+
+    const decoded = snapshots.map(snapshot => decodeStateSnapshot(client, encodeStateSnapshot(server, snapshot)));
+
+    expect(decoded[1]?.removedPlayers).toEqual(['alpha']);
+    expect(Object.keys(decoded[2]?.players || {})).toEqual(['gamma']);
+    expect(decoded[2]?.players.gamma.id).toBe('gamma');
+    expect(Object.keys(decoded[3]?.players || {})).toEqual(['alpha', 'beta']);
+    expect(decoded[3]?.players.alpha.id).toBe('alpha');
+    expect(decoded[3]?.players.beta).toEqual({ score: 2 });
+  });
+
+  it('gives every connection its own ID table', () => {
+    const other = createWireContext();
+    encodeStateSnapshot(server, makeSnapshot({ players: { alpha: { score: 1 } } }));
+
+    const snapshot = makeSnapshot({ sequence: 2, players: { beta: { score: 1 }, alpha: { score: 2 } } });
+    const decoded = decodeStateSnapshot(other, encodeStateSnapshot(createWireContext(), snapshot));
+
+    expect(decoded?.players).toEqual({ beta: { score: 1 }, alpha: { score: 2 } });
+  });
+
+  it('carries fields without a dedicated encoding as JSON', () => {
+    const ad = {
+      id: 'ad1',
+      billboardId: 'b1',
+      name: 'Neon',
+      content: 'BUY',
+      color: '#f0f',
+      startTime: 1,
+      endTime: 2,
+      position: { x: 1, y: 2, z: 3 },
+      size: { width: 4, height: 5 }
+    };
+    const snapshot = makeSnapshot({
+      players: {
+        alpha: makePlayer('alpha', {
+          username: 'Ace',
+          team: 'red',
+          weapon: 'rail_beam',
+          ammo: { homing_missile: 3 },
+          color: '#ff0000'
+        })
+      },
+      ads: { b1: ad },
+      removedAds: ['b2'],
+      cityLayout: [{ position: { x: 0, y: 0, z: 0 }, size: { x: 1, y: 2, z: 3 }, type: 'tower', height: 2 }]
+    });
+
+    const decoded = decodeStateSnapshot(client, encodeStateSnapshot(server, snapshot));
+
+    expect(decoded?.ads).toEqual({ b1: ad });
+    expect(decoded?.removedAds).toEqual(['b2']);
+    expect(decoded?.cityLayout).toEqual(snapshot.cityLayout);
+    expect(decoded?.players.alpha).toMatchObject({
+      username: 'Ace',
+      team: 'red',
+      weapon: 'rail_beam',
+      ammo: { homing_missile: 3 },
+      color: '#ff0000'
+    });
+  });
+
+  it('keeps emptied player fields and cleared field lists', () => {
+    const delta = makeSnapshot({
+      keyframe: false,
+      players: { alpha: { powerUps: {}, ammo: {} } },
+      clearedFields: { alpha: ['team', 'color'] }
+    });
+
+    const decoded = decodeStateSnapshot(client, encodeStateSnapshot(server, delta));
+
+    expect(decoded?.players.alpha).toEqual({ powerUps: {}, ammo: {} });
+    expect(decoded?.clearedFields).toEqual({ alpha: ['team', 'color'] });
+  });
+
+  it('defaults missing ads to empty', () => {
+    const decoded = decodeStateSnapshot(client, encodeStateSnapshot(server, makeSnapshot()));
+
+    expect(decoded?.ads).toEqual({});
+    expect(decoded?.removedAds).toEqual([]);
+  });
+});
+
+describe('laser shots', () => {
+  it('round-trips a shot with the shooter\'s shot number', () => {
+    const server = createWireContext();
+    const client = createWireContext();
+    const shot: LaserShot = {
+      id: 300,
+      playerId: 'alpha',
+      weapon: 'homing_missile',
+      position: { x: -100, y: 50.5, z: 999 },
+      rotation: { x: 0.25, y: -3, z: 3 }
+    };
+
+    const decoded = decodeLaserShot(client, encodeLaserShot(server, shot));
+
+    expect(decoded?.id).toBe(300);
+    expect(decoded?.playerId).toBe('alpha');
+    expect(decoded?.weapon).toBe('homing_missile');
+    expect(decoded?.position).toEqual(shot.position);
+    expect(decoded?.rotation.x).toBeCloseTo(0.25, 3);
+    expect(decoded?.rotation.y).toBeCloseTo(-3, 3);
+    expect(decoded?.rotation.z).toBeCloseTo(3, 3);
+  });
+
+  it('shares player IDs with snapshots on the same connection', () => {
+    const server = createWireContext();
+    const client = createWireContext();
+    decodeStateSnapshot(client, encodeStateSnapshot(server, makeSnapshot({ players: { alpha: { score: 1 } } })));
+
+    const shot: LaserShot = {
+      id: 1,
+      playerId: 'alpha',
+      weapon: 'rapid_laser',
+      position: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0 }
+    };
+
+    expect(decodeLaserShot(client, encodeLaserShot(server, shot))?.playerId).toBe('alpha');
+  });
+});
+
+describe('invalid messages', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('rejects payloads that are not binary', () => {
+    expect(decodePlayerInputs({ seq: 1 })).toBeNull();
+    expect(decodePlayerInputs('hello')).toBeNull();
+    expect(decodeStateSnapshot(createWireContext(), null)).toBeNull();
+  });
+
+  it('rejects messages without a full header', () => {
+    expect(decodePlayerInputs(new Uint8Array([]))).toBeNull();
+    expect(decodePlayerInputs(new Uint8Array([PROTOCOL_VERSION]))).toBeNull();
+  });
+
+  it('rejects other protocol versions and message types', () => {
+    const inputs = encodePlayerInputs([makeInput()]);
+    const otherVersion = inputs.slice();
+    otherVersion[0] = PROTOCOL_VERSION + 1;
+
+    expect(decodePlayerInputs(otherVersion)).toBeNull();
+    expect(decodeLaserShot(createWireContext(), inputs)).toBeNull();
+    expect(decodeStateSnapshot(createWireContext(), new Uint8Array([PROTOCOL_VERSION, MessageType.LASER_SHOT]))).toBeNull();
+  });
+
+  it('returns null for every truncation of a valid message', () => {
+    const inputs = encodePlayerInputs([makeInput(), makeInput({ seq: 2 })]);
+    const snapshot = encodeStateSnapshot(createWireContext(), makeSnapshot({
+      players: { alpha: makePlayer('alpha', { username: 'Ace' }) },
+      removedPlayers: ['beta']
+    }));
+    const shot = encodeLaserShot(createWireContext(), {
+      id: 1,
+      playerId: 'alpha',
+      weapon: 'rapid_laser',
+      position: { x: 1, y: 2, z: 3 },
+      rotation: { x: 0, y: 0, z: 0 }
+    });
+
+    for (let length = 0; length < inputs.length; length++) {
+      expect(decodePlayerInputs(inputs.slice(0, length))).toBeNull();
+    }
+    for (let length = 0; length < snapshot.length; length++) {
+      expect(decodeStateSnapshot(createWireContext(), snapshot.slice(0, length))).toBeNull();
+    }
+    for (let length = 0; length < shot.length; length++) {
+      expect(decodeLaserShot(createWireContext(), shot.slice(0, length))).toBeNull();
+    }
+  });
+
+  it('returns null for IDs the connection has never seen', () => {
+    const server = createWireContext();
+    encodeStateSnapshot(server, makeSnapshot({ players: { alpha: { score: 1 } } }));
+    const delta = encodeStateSnapshot(server, makeSnapshot({ sequence: 2, players: { alpha: { score: 2 } } }));
+
+    expect(decodeStateSnapshot(createWireContext(), delta)).toBeNull();
+  });
+
+  it('returns null for corrupt JSON and endless varints', () => {
+    const snapshot = encodeStateSnapshot(createWireContext(), makeSnapshot({ removedAds: ['b1'] }));
+    const corrupt = snapshot.slice();
+    corrupt[corrupt.length - 1] = '{'.charCodeAt(0);
+
+    const endless = new Uint8Array([PROTOCOL_VERSION, MessageType.PLAYER_INPUT, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+    expect(decodeStateSnapshot(createWireContext(), corrupt)).toBeNull();
+    expect(decodePlayerInputs(endless)).toBeNull();
+  });
+
+  it('accepts Node buffers and plain ArrayBuffers', () => {
+    const encoded = encodePlayerInputs([makeInput()]);
+    const buffer = encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength);
+
+    expect(decodePlayerInputs(Buffer.from(encoded))).toHaveLength(1);
+    expect(decodePlayerInputs(buffer)).toHaveLength(1);
+  });
+});
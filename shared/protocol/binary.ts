@@ -0,0 +1,747 @@
+/**
+ * Binary wire protocol - compact encodings for the high-frequency messages
+ * (player inputs, state snapshots and laser shots), used by both the client
+ * and the server.
+ *
+ * Every binary message starts with a protocol version byte and a message
+ * type byte. Senders may still use plain JSON objects instead (see
+ * WireFormat), and receivers accept either, which keeps packets readable
+ * while debugging.
+ */
+
+import { Vector3, PlayerInput, PlayerData, StateSnapshot, LaserShot } from './types.js';
+import { WEAPON_IDS } from '../combat/weapons.js';
+
+export const PROTOCOL_VERSION = 3;
+
+export const MessageType = {
+  PLAYER_INPUT: 1,
+  STATE_SNAPSHOT: 2,
+  LASER_SHOT: 3
+};
+
+export type WireFormat = 'binary' | 'json';
+
+// Per-connection protocol state. Entity IDs are sent as small numbers once
+// the other side has seen the full string, so each socket needs its own table.
+export interface WireContext {
+  format: WireFormat;
+  netIds: Record<string, number>;
+  entityIds: Record<number, string>;
+  nextNetId: number;
+}
+
+// Quantization
+const POSITION_SCALE = 32; // int16 steps per unit (covers the +-1000 world at ~3 cm)
+const VELOCITY_SCALE = 100; // int16 steps per m/s (covers +-327 m/s)
+const ANGLE_STEPS = 65536; // uint16 steps per full turn
+const DT_SCALE = 10000; // uint16 steps per second (0.1 ms)
+const AXIS_SCALE = 127; // int8 steps per unit axis
+const TURN_SCALE = 10000; // int16 steps per radian of per-frame turn
+
+// Player field mask
+const FIELD_ID = 1;
+const FIELD_POSITION = 2;
+const FIELD_ROTATION = 4;
+const FIELD_VELOCITY = 8;
+const FIELD_HEALTH = 16;
+const FIELD_SCORE = 32;
+const FIELD_ALIVE = 64;
+const FIELD_LAST_INPUT = 128;
+const FIELD_EXTRA = 256;
+
+// Fields with a dedicated encoding; anything else travels as JSON in FIELD_EXTRA
+const PLAYER_FIELDS = ['id', 'position', 'rotation', 'velocity', 'health', 'score', 'isAlive', 'lastProcessedInput'];
+const SNAPSHOT_FIELDS = ['timestamp', 'sequence', 'baseline', 'keyframe', 'players', 'removedPlayers'];
+
+interface ByteWriter {
+  bytes: Uint8Array;
+  view: DataView;
+  length: number;
+}
+
+interface ByteReader {
+  view: DataView;
+  offset: number;
+}
+
+/**
+ * Create the protocol state for a connection
+ * @param {WireFormat} format - The format this side sends in
+ * @returns {WireContext} - The context
+ */
+export function createWireContext(format: WireFormat = 'binary'): WireContext {
+  return {
+    format,
+    netIds: {},
+    entityIds: {},
+    nextNetId: 1
+  };
+}
+
+/**
+ * Check whether a received message is binary rather than JSON
+ * @param {unknown} data - The received payload
+ * @returns {boolean} - Whether the payload is binary
+ */
+export function isBinaryMessage(data: unknown): boolean {
+  return data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+}
+
+/**
+ * Round an input frame to the precision it has on the wire.
+ * The client predicts with the rounded frame so it matches what the server replays.
+ * @param {PlayerInput} input - The input frame
+ * @returns {PlayerInput} - The quantized frame
+ */
+export function quantizeInput<T extends PlayerInput>(input: T): T {
+  return {
+    ...input,
+    dt: quantize(clampNumber(input.dt, 0, 65535 / DT_SCALE), DT_SCALE),
+    throttle: quantize(clampNumber(input.throttle, -1, 1), AXIS_SCALE),
+    strafe: quantize(clampNumber(input.strafe, -1, 1), AXIS_SCALE),
+    vertical: quantize(clampNumber(input.vertical, -1, 1), AXIS_SCALE),
+    yaw: quantize(clampNumber(input.yaw, -32767 / TURN_SCALE, 32767 / TURN_SCALE), TURN_SCALE),
+    pitch: quantize(clampNumber(input.pitch, -32767 / TURN_SCALE, 32767 / TURN_SCALE), TURN_SCALE),
+    roll: quantize(clampNumber(input.roll, -32767 / TURN_SCALE, 32767 / TURN_SCALE), TURN_SCALE)
+  };
+}
+
+/**
+ * Encode a batch of input frames
+ * @param {PlayerInput[]} inputs - Input frames in sequence order
+ * @returns {Uint8Array} - The encoded message
+ */
+export function encodePlayerInputs(inputs: PlayerInput[]): Uint8Array {
+  const writer = createWriter(4 + inputs.length * 14);
+  writeHeader(writer, MessageType.PLAYER_INPUT);
+  writeVarint(writer, inputs.length);
+
+  let previousSeq = 0;
+  inputs.forEach(input => {
+    // Sequence numbers are consecutive, so deltas are usually a single byte
+    writeVarint(writer, zigzag(input.seq - previousSeq));
+    previousSeq = input.seq;
+
+    writeUint16(writer, Math.round(clampNumber(input.dt, 0, 65535 / DT_SCALE) * DT_SCALE));
+    writeInt8(writer, Math.round(clampNumber(input.throttle, -1, 1) * AXIS_SCALE));
+    writeInt8(writer, Math.round(clampNumber(input.strafe, -1, 1) * AXIS_SCALE));
+    writeInt8(writer, Math.round(clampNumber(input.vertical, -1, 1) * AXIS_SCALE));
+    writeInt16(writer, Math.round(clampNumber(input.yaw * TURN_SCALE, -32767, 32767)));
+    writeInt16(writer, Math.round(clampNumber(input.pitch * TURN_SCALE, -32767, 32767)));
+    writeInt16(writer, Math.round(clampNumber(input.roll * TURN_SCALE, -32767, 32767)));
+    writeUint8(writer, input.boost ? 1 : 0);
+  });
+
+  return finish(writer);
+}
+
+/**
+ * Decode a batch of input frames
+ * @param {unknown} data - The received payload
+ * @returns {PlayerInput[] | null} - The input frames, or null if the message is invalid
+ */
+export function decodePlayerInputs(data: unknown): PlayerInput[] | null {
+  return decodeMessage(data, MessageType.PLAYER_INPUT, reader => {
+    const count = readVarint(reader);
+    const inputs: PlayerInput[] = [];
+
+    let seq = 0;
+    for (let i = 0; i < count; i++) {
+      seq += unzigzag(readVarint(reader));
+
+      inputs.push({
+        seq,
+        dt: readUint16(reader) / DT_SCALE,
+        throttle: readInt8(reader) / AXIS_SCALE,
+        strafe: readInt8(reader) / AXIS_SCALE,
+        vertical: readInt8(reader) / AXIS_SCALE,
+        yaw: readInt16(reader) / TURN_SCALE,
+        pitch: readInt16(reader) / TURN_SCALE,
+        roll: readInt16(reader) / TURN_SCALE,
+        boost: (readUint8(reader) & 1) === 1
+      });
+    }
+
+    return inputs;
+  });
+}
+
+/**
+ * Encode a state snapshot
+ * @param {WireContext} context - The connection's protocol state
+ * @param {StateSnapshot} snapshot - The snapshot
+ * @returns {Uint8Array} - The encoded message
+ */
+export function encodeStateSnapshot(context: WireContext, snapshot: StateSnapshot): Uint8Array {
+  const writer = createWriter(256);
+  writeHeader(writer, MessageType.STATE_SNAPSHOT);
+  writeFloat64(writer, snapshot.timestamp);
+  writeVarint(writer, snapshot.sequence);
+  writeVarint(writer, snapshot.baseline);
+  writeUint8(writer, snapshot.keyframe ? 1 : 0);
+
+  const playerIds = Object.keys(snapshot.players);
+  writeVarint(writer, playerIds.length);
+  playerIds.forEach(playerId => {
+    writeEntityId(writer, context, playerId);
+    writePlayer(writer, snapshot.players[playerId]);
+  });
+
+  writeVarint(writer, snapshot.removedPlayers.length);
+  snapshot.removedPlayers.forEach(playerId => {
+    writeEntityId(writer, context, playerId);
+  });
+
+  // Ads, the city layout and anything else rare go along as JSON; the
+  // decoder restores empty ad lists, so those are left out
+  writeString(writer, extraFieldsJson(snapshot, SNAPSHOT_FIELDS, true));
+
+  return finish(writer);
+}
+
+/**
+ * Decode a state snapshot
+ * @param {WireContext} context - The connection's protocol state
+ * @param {unknown} data - The received payload
+ * @returns {StateSnapshot | null} - The snapshot, or null if the message is invalid
+ */
+export function decodeStateSnapshot(context: WireContext, data: unknown): StateSnapshot | null {
+  return decodeMessage(data, MessageType.STATE_SNAPSHOT, reader => {
+    const snapshot: StateSnapshot = {
+      timestamp: readFloat64(reader),
+      sequence: readVarint(reader),
+      baseline: readVarint(reader),
+      keyframe: (readUint8(reader) & 1) === 1,
+      players: {},
+      removedPlayers: [],
+      ads: {},
+      removedAds: []
+    };
+
+    const playerCount = readVarint(reader);
+    for (let i = 0; i < playerCount; i++) {
+      const playerId = readEntityId(reader, context);
+      snapshot.players[playerId] = readPlayer(reader, playerId);
+    }
+
+    const removedCount = readVarint(reader);
+    for (let i = 0; i < removedCount; i++) {
+      snapshot.removedPlayers.push(readEntityId(reader, context));
+    }
+
+    const extra = readString(reader);
+    return extra ? { ...snapshot, ...JSON.parse(extra) } : snapshot;
+  });
+}
+
+/**
+ * Encode a laser shot
+ * @param {WireContext} context - The connection's protocol state
+ * @param {LaserShot} shot - The shot
+ * @returns {Uint8Array} - The encoded message
+ */
+export function encodeLaserShot(context: WireContext, shot: LaserShot): Uint8Array {
+  const writer = createWriter(32);
+  writeHeader(writer, MessageType.LASER_SHOT);
+  writeEntityId(writer, context, shot.playerId);
+  writeVarint(writer, shot.id);
+  writeUint8(writer, WEAPON_IDS.indexOf(shot.weapon));
+  writePosition(writer, shot.position);
+  writeAngles(writer, shot.rotation);
+  return finish(writer);
+}
+
+/**
+ * Decode a laser shot
+ * @param {WireContext} context - The connection's protocol state
+ * @param {unknown} data - The received payload
+ * @returns {LaserShot | null} - The shot, or null if the message is invalid
+ */
+export function decodeLaserShot(context: WireContext, data: unknown): LaserShot | null {
+  return decodeMessage(data, MessageType.LASER_SHOT, reader => ({
+    playerId: readEntityId(reader, context),
+    id: readVarint(reader),
+    weapon: WEAPON_IDS[readUint8(reader)],
+    position: readPosition(reader),
+    rotation: readAngles(reader)
+  }));
+}
+
+/**
+ * Write the changed fields of a player
+ * @param {ByteWriter} writer - The writer
+ * @param {Partial<PlayerData>} player - The player fields to send
+ */
+function writePlayer(writer: ByteWriter, player: Partial<PlayerData>): void {
+  // An emptied field, like the last power-up running out, is a change the client needs
+  const extra = extraFieldsJson(player, PLAYER_FIELDS, false);
+
+  let mask = 0;
+  if (player.id !== undefined) mask |= FIELD_ID;
+  if (player.position) mask |= FIELD_POSITION;
+  if (player.rotation) mask |= FIELD_ROTATION;
+  if (player.velocity) mask |= FIELD_VELOCITY;
+  if (player.health !== undefined) mask |= FIELD_HEALTH;
+  if (player.score !== undefined) mask |= FIELD_SCORE;
+  if (player.isAlive !== undefined) mask |= FIELD_ALIVE;
+  if (player.lastProcessedInput !== undefined) mask |= FIELD_LAST_INPUT;
+  if (extra) mask |= FIELD_EXTRA;
+
+  writeVarint(writer, mask);
+
+  if (player.position) writePosition(writer, player.position);
+  if (player.rotation) writeAngles(writer, player.rotation);
+  if (player.velocity) writeVelocity(writer, player.velocity);
+  if (player.health !== undefined) writeVarint(writer, Math.max(0, Math.round(player.health)));
+  if (player.score !== undefined) writeVarint(writer, zigzag(Math.round(player.score)));
+  if (player.isAlive !== undefined) writeUint8(writer, player.isAlive ? 1 : 0);
+  if (player.lastProcessedInput !== undefined) writeVarint(writer, player.lastProcessedInput);
+  if (extra) writeString(writer, extra);
+}
+
+/**
+ * Read the changed fields of a player
+ * @param {ByteReader} reader - The reader
+ * @param {string} playerId - The player's ID
+ * @returns {Partial<PlayerData>} - The player fields that were sent
+ */
+function readPlayer(reader: ByteReader, playerId: string): Partial<PlayerData> {
+  const mask = readVarint(reader);
+  const player: Partial<PlayerData> = {};
+
+  if (mask & FIELD_ID) player.id = playerId;
+  if (mask & FIELD_POSITION) player.position = readPosition(reader);
+  if (mask & FIELD_ROTATION) player.rotation = readAngles(reader);
+  if (mask & FIELD_VELOCITY) player.velocity = readVelocity(reader);
+  if (mask & FIELD_HEALTH) player.health = readVarint(reader);
+  if (mask & FIELD_SCORE) player.score = unzigzag(readVarint(reader));
+  if (mask & FIELD_ALIVE) player.isAlive = readUint8(reader) === 1;
+  if (mask & FIELD_LAST_INPUT) player.lastProcessedInput = readVarint(reader);
+
+  if (mask & FIELD_EXTRA) {
+    return { ...player, ...JSON.parse(readString(reader)) };
+  }
+
+  return player;
+}
+
+/**
+ * Write an entity ID, sending the full string only the first time
+ * @param {ByteWriter} writer - The writer
+ * @param {WireContext} context - The connection's protocol state
+ * @param {string} id - The entity ID
+ */
+function writeEntityId(writer: ByteWriter, context: WireContext, id: string): void {
+  const known = context.netIds[id];
+  if (known !== undefined) {
+    writeVarint(writer, known * 2);
+    return;
+  }
+
+  const netId = context.nextNetId++;
+  context.netIds[id] = netId;
+  writeVarint(writer, netId * 2 + 1);
+  writeString(writer, id);
+}
+
+/**
+ * Read an entity ID
+ * @param {ByteReader} reader - The reader
+ * @param {WireContext} context - The connection's protocol state
+ * @returns {string} - The entity ID
+ */
+function readEntityId(reader: ByteReader, context: WireContext): string {
+  const value = readVarint(reader);
+  const netId = Math.floor(value / 2);
+
+  if (value % 2 === 1) {
+    context.entityIds[netId] = readString(reader);
+  }
+
+  const id = context.entityIds[netId];
+  if (id === undefined) {
+    throw new Error(`Unknown entity ${netId}`);
+  }
+
+  return id;
+}
+
+/**
+ * Collect the fields without a dedicated encoding as JSON
+ * @param {object} value - The object being encoded
+ * @param {string[]} knownFields - Fields encoded separately
+ * @param {boolean} skipEmpty - Whether to leave out empty arrays and objects
+ * @returns {string} - JSON of the remaining fields, or an empty string
+ */
+function extraFieldsJson(value: object, knownFields: string[], skipEmpty: boolean): string {
+  const source = value as Record<string, unknown>;
+  const extra: Record<string, unknown> = {};
+  let hasExtra = false;
+
+  Object.keys(source).forEach(key => {
+    const field = source[key];
+    if (knownFields.indexOf(key) !== -1 || field === undefined || (skipEmpty && isEmpty(field))) return;
+
+    extra[key] = field;
+    hasExtra = true;
+  });
+
+  return hasExtra ? JSON.stringify(extra) : '';
+}
+
+/**
+ * Check for an empty array or object
+ * @param {unknown} value - The value to check
+ * @returns {boolean} - Whether the value is an empty container
+ */
+function isEmpty(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  return typeof value === 'object' && value !== null && Object.keys(value).length === 0;
+}
+
+/**
+ * Check the header and decode a binary message
+ * @param {unknown} data - The received payload
+ * @param {number} type - The expected message type
+ * @param {Function} read - Reads the message body
+ * @returns {T | null} - The decoded message, or null if it is invalid
+ */
+function decodeMessage<T>(data: unknown, type: number, read: (reader: ByteReader) => T): T | null {
+  const bytes = toBytes(data);
+  if (!bytes || bytes.length < 2) return null;
+
+  const reader: ByteReader = {
+    view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength),
+    offset: 0
+  };
+
+  const version = readUint8(reader);
+  if (version !== PROTOCOL_VERSION) {
+    console.warn(`Unsupported protocol version ${version}`);
+    return null;
+  }
+
+  if (readUint8(reader) !== type) return null;
+
+  try {
+    return read(reader);
+  } catch (error) {
+    console.warn('Malformed message:', error);
+    return null;
+  }
+}
+
+/**
+ * Get a byte view of a binary payload
+ * @param {unknown} data - An ArrayBuffer, typed array or Node Buffer
+ * @returns {Uint8Array | null} - The bytes, or null for non-binary payloads
+ */
+function toBytes(data: unknown): Uint8Array | null {
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return null;
+}
+
+/**
+ * Write the version and message type
+ * @param {ByteWriter} writer - The writer
+ * @param {number} type - The message type
+ */
+function writeHeader(writer: ByteWriter, type: number): void {
+  writeUint8(writer, PROTOCOL_VERSION);
+  writeUint8(writer, type);
+}
+
+/**
+ * Write a world position as quantized int16s
+ * @param {ByteWriter} writer - The writer
+ * @param {Vector3} position - The position
+ */
+function writePosition(writer: ByteWriter, position: Vector3): void {
+  writeInt16(writer, Math.round(clampNumber(position.x * POSITION_SCALE, -32768, 32767)));
+  writeInt16(writer, Math.round(clampNumber(position.y * POSITION_SCALE, -32768, 32767)));
+  writeInt16(writer, Math.round(clampNumber(position.z * POSITION_SCALE, -32768, 32767)));
+}
+
+/**
+ * Read a quantized world position
+ * @param {ByteReader} reader - The reader
+ * @returns {Vector3} - The position
+ */
+function readPosition(reader: ByteReader): Vector3 {
+  return {
+    x: readInt16(reader) / POSITION_SCALE,
+    y: readInt16(reader) / POSITION_SCALE,
+    z: readInt16(reader) / POSITION_SCALE
+  };
+}
+
+/**
+ * Write a velocity as quantized int16s
+ * @param {ByteWriter} writer - The writer
+ * @param {Vector3} velocity - The velocity
+ */
+function writeVelocity(writer: ByteWriter, velocity: Vector3): void {
+  writeInt16(writer, Math.round(clampNumber(velocity.x * VELOCITY_SCALE, -32768, 32767)));
+  writeInt16(writer, Math.round(clampNumber(velocity.y * VELOCITY_SCALE, -32768, 32767)));
+  writeInt16(writer, Math.round(clampNumber(velocity.z * VELOCITY_SCALE, -32768, 32767)));
+}
+
+/**
+ * Read a quantized velocity
+ * @param {ByteReader} reader - The reader
+ * @returns {Vector3} - The velocity
+ */
+function readVelocity(reader: ByteReader): Vector3 {
+  return {
+    x: readInt16(reader) / VELOCITY_SCALE,
+    y: readInt16(reader) / VELOCITY_SCALE,
+    z: readInt16(reader) / VELOCITY_SCALE
+  };
+}
+
+/**
+ * Write Euler angles packed into uint16s (angles are wrapped to -PI..PI)
+ * @param {ByteWriter} writer - The writer
+ * @param {Vector3} rotation - The rotation in radians
+ */
+function writeAngles(writer: ByteWriter, rotation: Vector3): void {
+  writeUint16(writer, packAngle(rotation.x));
+  writeUint16(writer, packAngle(rotation.y));
+  writeUint16(writer, packAngle(rotation.z));
+}
+
+/**
+ * Read packed Euler angles
+ * @param {ByteReader} reader - The reader
+ * @returns {Vector3} - The rotation in radians (-PI..PI)
+ */
+function readAngles(reader: ByteReader): Vector3 {
+  return {
+    x: unpackAngle(readUint16(reader)),
+    y: unpackAngle(readUint16(reader)),
+    z: unpackAngle(readUint16(reader))
+  };
+}
+
+/**
+ * Pack an angle into a uint16
+ * @param {number} angle - The angle in radians
+ * @returns {number} - The packed angle
+ */
+function packAngle(angle: number): number {
+  const turns = (isFinite(angle) ? angle : 0) / (Math.PI * 2);
+  const fraction = turns - Math.floor(turns);
+  return Math.round(fraction * ANGLE_STEPS) % ANGLE_STEPS;
+}
+
+/**
+ * Unpack a uint16 angle
+ * @param {number} packed - The packed angle
+ * @returns {number} - The angle in radians (-PI..PI)
+ */
+function unpackAngle(packed: number): number {
+  const steps = packed >= ANGLE_STEPS / 2 ? packed - ANGLE_STEPS : packed;
+  return steps / ANGLE_STEPS * Math.PI * 2;
+}
+
+/**
+ * Round a value to a fixed number of steps per unit
+ * @param {number} value - The value
+ * @param {number} scale - Steps per unit
+ * @returns {number} - The rounded value
+ */
+function quantize(value: number, scale: number): number {
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * Clamp a number to a range, treating non-numbers as zero
+ * @param {number} value - The value to clamp
+ * @param {number} min - Lower bound
+ * @param {number} max - Upper bound
+ * @returns {number} - The clamped value
+ */
+function clampNumber(value: number, min: number, max: number): number {
+  if (typeof value !== 'number' || !isFinite(value)) return 0;
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Map a signed integer to an unsigned one so small negatives stay small
+ * @param {number} value - The signed integer
+ * @returns {number} - The zigzag-encoded value
+ */
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+/**
+ * Reverse zigzag encoding
+ * @param {number} value - The zigzag-encoded value
+ * @returns {number} - The signed integer
+ */
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+/**
+ * Create a growable byte writer
+ * @param {number} capacity - Initial capacity in bytes
+ * @returns {ByteWriter} - The writer
+ */
+function createWriter(capacity: number): ByteWriter {
+  const bytes = new Uint8Array(capacity);
+  return { bytes, view: new DataView(bytes.buffer), length: 0 };
+}
+
+/**
+ * Make room for more bytes
+ * @param {ByteWriter} writer - The writer
+ * @param {number} size - Bytes about to be written
+ */
+function reserve(writer: ByteWriter, size: number): void {
+  if (writer.length + size <= writer.bytes.length) return;
+
+  let capacity = writer.bytes.length * 2;
+  while (capacity < writer.length + size) capacity *= 2;
+
+  const bytes = new Uint8Array(capacity);
+  bytes.set(writer.bytes.subarray(0, writer.length));
+  writer.bytes = bytes;
+  writer.view = new DataView(bytes.buffer);
+}
+
+/**
+ * Get the written bytes
+ * @param {ByteWriter} writer - The writer
+ * @returns {Uint8Array} - A copy trimmed to the written length
+ */
+function finish(writer: ByteWriter): Uint8Array {
+  return writer.bytes.slice(0, writer.length);
+}
+
+// Fixed-size big-endian writes
+function writeUint8(writer: ByteWriter, value: number): void {
+  reserve(writer, 1);
+  writer.view.setUint8(writer.length, value);
+  writer.length += 1;
+}
+
+function writeInt8(writer: ByteWriter, value: number): void {
+  reserve(writer, 1);
+  writer.view.setInt8(writer.length, value);
+  writer.length += 1;
+}
+
+function writeUint16(writer: ByteWriter, value: number): void {
+  reserve(writer, 2);
+  writer.view.setUint16(writer.length, value);
+  writer.length += 2;
+}
+
+function writeInt16(writer: ByteWriter, value: number): void {
+  reserve(writer, 2);
+  writer.view.setInt16(writer.length, value);
+  writer.length += 2;
+}
+
+function writeFloat64(writer: ByteWriter, value: number): void {
+  reserve(writer, 8);
+  writer.view.setFloat64(writer.length, value);
+  writer.length += 8;
+}
+
+/**
+ * Write an unsigned integer as a LEB128 varint
+ * @param {ByteWriter} writer - The writer
+ * @param {number} value - A non-negative integer
+ */
+function writeVarint(writer: ByteWriter, value: number): void {
+  let remaining = Math.max(0, Math.floor(value));
+  while (remaining >= 0x80) {
+    writeUint8(writer, (remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  writeUint8(writer, remaining);
+}
+
+/**
+ * Write a length-prefixed UTF-8 string
+ * @param {ByteWriter} writer - The writer
+ * @param {string} value - The string
+ */
+function writeString(writer: ByteWriter, value: string): void {
+  const bytes = new TextEncoder().encode(value);
+  writeVarint(writer, bytes.length);
+  reserve(writer, bytes.length);
+  writer.bytes.set(bytes, writer.length);
+  writer.length += bytes.length;
+}
+
+// Fixed-size big-endian reads
+function readUint8(reader: ByteReader): number {
+  const value = reader.view.getUint8(reader.offset);
+  reader.offset += 1;
+  return value;
+}
+
+function readInt8(reader: ByteReader): number {
+  const value = reader.view.getInt8(reader.offset);
+  reader.offset += 1;
+  return value;
+}
+
+function readUint16(reader: ByteReader): number {
+  const value = reader.view.getUint16(reader.offset);
+  reader.offset += 2;
+  return value;
+}
+
+function readInt16(reader: ByteReader): number {
+  const value = reader.view.getInt16(reader.offset);
+  reader.offset += 2;
+  return value;
+}
+
+function readFloat64(reader: ByteReader): number {
+  const value = reader.view.getFloat64(reader.offset);
+  reader.offset += 8;
+  return value;
+}
+
+/**
+ * Read a LEB128 varint
+ * @param {ByteReader} reader - The reader
+ * @returns {number} - The unsigned integer
+ */
+function readVarint(reader: ByteReader): number {
+  let result = 0;
+  let multiplier = 1;
+
+  for (let i = 0; i < 8; i++) {
+    const byte = readUint8(reader);
+    result += (byte & 0x7f) * multiplier;
+    if (byte < 0x80) return result;
+    multiplier *= 0x80;
+  }
+
+  throw new Error('Varint too long');
+}
+
+/**
+ * Read a length-prefixed UTF-8 string
+ * @param {ByteReader} reader - The reader
+ * @returns {string} - The string
+ */
+function readString(reader: ByteReader): string {
+  const length = readVarint(reader);
+  if (reader.offset + length > reader.view.byteLength) {
+    throw new Error('String out of bounds');
+  }
+
+  const bytes = new Uint8Array(reader.view.buffer, reader.view.byteOffset + reader.offset, length);
+  reader.offset += length;
+  return new TextDecoder().decode(bytes);
+}
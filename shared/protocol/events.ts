@@ -0,0 +1,106 @@
+/**
+ * Socket.IO event maps - typed for both ends of the connection.
+ * High-frequency events carry either the JSON payload or its binary
+ * encoding from binary.ts.
+ */
+import {
+  PlayerInput,
+  PlayerData,
+  StateSnapshot,
+  LaserData,
+  LaserShot,
+  HitData,
+  HitRejection,
+  LaserImpact,
+  MissileLaunch,
+  MissileDestroyed,
+  FlareDeploy,
+  PlayerHitEvent,
+  PlayerDiedEvent,
+  PlayerRespawnEvent,
+  ScoreUpdate,
+  ChatMessage,
+  RoomSummary,
+  RoomOptions,
+  RoomError,
+  WeaponId,
+  MatchState,
+  MatchEnd,
+  FlagState,
+  FlagUpdate,
+  ZoneUpdate,
+  RaceCourse,
+  RaceProgress,
+  LapComplete,
+  GhostLap,
+  PickupState,
+  PickupUpdate,
+  AccountSession,
+  AccountCredentials,
+  AccountError,
+  Profile,
+  ProfileUpdate,
+  ResumeTicket,
+  SessionResumed
+} from './types.js';
+
+// A binary message as sent (Uint8Array) or received (ArrayBuffer in browsers, Buffer in Node)
+export type BinaryPayload = ArrayBuffer | Uint8Array;
+
+export interface ServerToClientEvents {
+  'game:state': (snapshot: StateSnapshot | BinaryPayload) => void;
+  'player:joined': (player: PlayerData) => void;
+  'player:left': (data: { id: string }) => void;
+  'player:hit': (data: PlayerHitEvent) => void;
+  'player:died': (data: PlayerDiedEvent) => void;
+  'player:respawn': (data: PlayerRespawnEvent) => void;
+  'laser:shot': (shot: LaserShot | BinaryPayload) => void;
+  'laser:impact': (data: LaserImpact) => void;
+  'laser:rejected': (data: HitRejection) => void;
+  'missile:launched': (missile: MissileLaunch) => void;
+  'missile:destroyed': (data: MissileDestroyed) => void;
+  'flare:deployed': (flare: FlareDeploy) => void;
+  'score:update': (data: ScoreUpdate) => void;
+  'chat:message': (message: ChatMessage) => void;
+  'room:list': (rooms: RoomSummary[]) => void;
+  'room:joined': (room: RoomSummary) => void;
+  'room:left': () => void;
+  'room:error': (error: RoomError) => void;
+  'match:phase': (match: MatchState) => void;
+  'match:end': (result: MatchEnd) => void;
+  'flag:state': (flags: FlagState[]) => void;
+  'flag:update': (update: FlagUpdate) => void;
+  'zone:state': (update: ZoneUpdate) => void;
+  'race:course': (course: RaceCourse) => void;
+  'race:progress': (progress: RaceProgress) => void;
+  'race:lap': (lap: LapComplete) => void;
+  'race:ghost': (ghost: GhostLap) => void;
+  'pickup:state': (pickups: PickupState[]) => void;
+  'pickup:update': (update: PickupUpdate) => void;
+  'account:session': (session: AccountSession) => void;
+  'account:profile': (profile: Profile) => void;
+  'account:error': (error: AccountError) => void;
+  'session:ticket': (ticket: ResumeTicket) => void;
+  'session:resumed': (resumed: SessionResumed) => void;
+  'session:expired': () => void;
+  'pong': () => void;
+}
+
+export interface ClientToServerEvents {
+  'player:join': () => void;
+  'player:input': (inputs: PlayerInput[] | BinaryPayload) => void;
+  'snapshot:ack': (sequence: number) => void;
+  'weapon:select': (weapon: WeaponId) => void;
+  'laser:fire': (data: LaserData) => void;
+  'laser:hit': (data: HitData) => void;
+  'flare:deploy': () => void;
+  'chat:message': (message: string) => void;
+  'room:list': () => void;
+  'room:create': (options: RoomOptions) => void;
+  'room:join': (roomId: string) => void;
+  'room:leave': () => void;
+  'account:register': (credentials: AccountCredentials) => void;
+  'profile:update': (update: ProfileUpdate) => void;
+  'session:resume': (token: string) => void;
+  'ping': () => void;
+}
@@ -0,0 +1,496 @@
+/**
+ * Protocol types - the shapes of everything the client and server exchange
+ */
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface PlayerInput {
+  seq: number;       // Monotonic sequence number assigned by the client
+  dt: number;        // Frame duration in seconds
+  throttle: number;  // Forward/backward axis (-1..1)
+  strafe: number;    // Left/right axis (-1..1)
+  vertical: number;  // Up/down axis (-1..1)
+  yaw: number;       // Yaw change for this frame (radians)
+  pitch: number;     // Pitch change for this frame (radians)
+  roll: number;      // Roll change for this frame (radians)
+  boost: boolean;
+}
+
+export type TeamId = 'red' | 'blue';
+
+export type GameModeId =
+  | 'free_for_all'
+  | 'team_deathmatch'
+  | 'capture_the_flag'
+  | 'air_race'
+  | 'king_of_the_hill'
+  | 'team_king_of_the_hill';
+
+// A player as the server reports it
+export type WeaponId = 'rapid_laser' | 'rail_beam' | 'homing_missile' | 'emp_burst';
+
+export type DamageType = 'laser' | 'explosive' | 'collision' | 'environmental';
+
+export type PowerUpType = 'repair' | 'shield_boost' | 'double_damage' | 'overdrive' | 'cloak';
+
+// Server time each timed power-up a car has running wears off
+export type ActivePowerUps = Partial<Record<PowerUpType, number>>;
+
+export interface PlayerData {
+  id: string;
+  username?: string;
+  team?: TeamId;  // Only in team modes
+  position: Vector3;
+  rotation: Vector3;
+  velocity: Vector3;
+  health: number;
+  shield?: number;  // Shield layer on top of health
+  score: number;
+  isAlive: boolean;
+  lastProcessedInput: number; // Last input sequence the server has simulated
+  weapon?: WeaponId;  // Selected weapon
+  ammo?: Partial<Record<WeaponId, number>>;  // Shots left for weapons with limited ammo
+  heat?: number;  // Weapon heat, 0 to MAX_HEAT
+  overheated?: boolean;  // Weapons locked after overheating
+  energy?: number;  // Boost energy, 0 to MAX_ENERGY
+  flares?: number;  // Flares left this life
+  powerUps?: ActivePowerUps;  // Timed power-ups running on the car
+  color?: string;  // Car paint from the player's profile, as a hex string; team modes use team colors
+}
+
+export interface Building {
+  position: Vector3;
+  size: Vector3;
+  type: string;
+  height: number;
+}
+
+export interface BillboardAd {
+  id: string;
+  billboardId: string;
+  name: string;
+  content: string;
+  color: string;
+  startTime: number;
+  endTime: number;
+  position: Vector3;
+  size: {
+    width: number;
+    height: number;
+  };
+}
+
+export interface StateSnapshot {
+  timestamp: number;
+  sequence: number;
+  baseline: number;  // Snapshot this delta applies to (0 for keyframes)
+  keyframe: boolean;
+  players: Record<string, Partial<PlayerData>>;  // Only the fields that changed
+  removedPlayers: string[];
+  ads?: Record<string, BillboardAd>;  // Billboard ads that are new or replaced
+  removedAds?: string[];
+  clearedFields?: Record<string, (keyof PlayerData)[]>;  // Optional player fields no longer set since the baseline
+  cityLayout?: Building[];  // Only sent when joining
+}
+
+// A laser the client wants to fire
+export interface LaserData {
+  id: number;  // The shooter's own number for the shot, echoed in its hit claim
+  position: Vector3;
+  rotation: Vector3;
+  targetId?: string;  // Locked target, for missiles
+}
+
+// A shot fired by any player, with whichever weapon they had selected
+export interface LaserShot {
+  id: number;  // The number the shooter gave the shot
+  playerId: string;
+  weapon: WeaponId;
+  position: Vector3;
+  rotation: Vector3;
+}
+
+// A client's claim that its laser hit another player
+export interface HitData {
+  shotId: number;  // The shot that hit, as numbered in its LaserData
+  targetId: string;
+  position: Vector3;
+  viewTime?: number; // Server time at which the shooter saw the target
+}
+
+export type HitRejectionReason = 'invalid_target' | 'target_dead' | 'no_shot' | 'miss' | 'blocked' | 'friendly_fire' | 'spawn_protected';
+
+export interface HitRejection {
+  targetId: string;
+  reason: HitRejectionReason;
+}
+
+export interface LaserImpact {
+  position: Vector3;
+  targetId: string;
+  shieldDamage: number;  // Damage the target's shield absorbed
+  hullDamage: number;  // Damage that reached the target's hull
+}
+
+// A homing missile the server launched at a locked target
+export interface MissileLaunch {
+  id: string;
+  playerId: string;
+  targetId: string;
+  position: Vector3;
+  direction: Vector3;
+}
+
+export type MissileEndReason = 'hit' | 'flare' | 'building' | 'expired';
+
+export interface MissileDestroyed {
+  id: string;
+  position: Vector3;
+  reason: MissileEndReason;
+}
+
+// Flares a player dropped, and the missiles they pulled away
+export interface FlareDeploy {
+  id: string;
+  playerId: string;
+  position: Vector3;
+  decoyed: string[];
+}
+
+export interface PlayerHitEvent {
+  health: number;
+  shield: number;
+  fromPlayer: string;
+  fromDirection: Vector3;
+  damageType: DamageType;
+  shieldDamage: number;
+  hullDamage: number;
+}
+
+// A death as the kill feed shows it
+export interface PlayerDiedEvent {
+  playerId: string;
+  killedBy: string | null;  // Who gets the kill; null when nobody does, e.g. a crash nobody caused
+  assistedBy: string[];     // Other players who did enough damage shortly before
+  damageType: DamageType;   // What dealt the final blow
+  weapon?: WeaponId;        // Weapon that dealt the final blow, if one did
+  respawnTime: number;      // When the car comes back (server time)
+}
+
+// Where the server put a car that came back
+export interface PlayerRespawnEvent {
+  position: Vector3;
+  rotation: Vector3;
+  spawnProtectedUntil: number;  // The car can't be hurt until then (server time), unless it fires
+}
+
+export interface ScoreUpdate {
+  playerId: string;
+  score: number;
+}
+
+export interface ChatMessage {
+  timestamp: number;
+  playerId: string;
+  playerName: string;
+  message: string;
+}
+
+// A room as listed in the lobby
+export interface RoomSummary {
+  id: string;
+  name: string;
+  mode: GameModeId;
+  citySeed: number;
+  playerCount: number;
+  maxPlayers: number;
+}
+
+// Settings for a new room; the server fills in anything left out
+export interface RoomOptions {
+  name?: string;
+  mode?: GameModeId;
+  citySeed?: number;
+  timeLimit?: number;   // Length of a match (seconds)
+  scoreLimit?: number;  // Score that ends a match early
+  pickups?: boolean;    // Set to false for a room without power-up pickups
+}
+
+// Sent on joining the game; a client that loses its connection hands the
+// token back after reconnecting to take over the same car
+export interface ResumeTicket {
+  token: string;
+  playerId: string;  // The car's player ID, which stays the same across reconnects
+}
+
+// The server gave a reconnected client its car back
+export interface SessionResumed {
+  room: RoomSummary;
+  playerId: string;
+  isAlive: boolean;            // The car may have been destroyed while we were away
+  respawnTime: number;         // When a wreck respawns (server time)
+  spawnProtectedUntil: number; // Server time
+}
+
+export type RoomErrorReason = 'not_found' | 'full' | 'too_many_rooms';
+
+export interface RoomError {
+  roomId?: string;
+  reason: RoomErrorReason;
+}
+
+// Credentials sent with the Socket.IO handshake; without any the server makes a guest account
+export interface AccountAuth {
+  token?: string;     // Session token from an earlier connection
+  username?: string;  // Or log in with a username and password
+  password?: string;
+}
+
+// Username and password that turn a guest account into a full one
+export interface AccountCredentials {
+  username: string;
+  password: string;
+}
+
+// Stats that add up as a player plays; accounts keep them per day and in total
+export interface StatCounters {
+  kills: number;
+  deaths: number;
+  assists: number;
+  shotsFired: number;
+  shotsHit: number;       // Shots that hurt someone (a burst or missile counts once)
+  damageDealt: number;    // Shield and hull damage done to other players
+  distanceFlown: number;  // Meters
+  timeAlive: number;      // Milliseconds
+  matchesPlayed: number;
+  matchesWon: number;
+}
+
+// Totals kept on an account across every room and match
+export interface LifetimeStats extends StatCounters {
+  bestLapTime?: number;  // Fastest Air Race lap (ms); left out until the player finishes one
+}
+
+// A finished match in a player's history
+export interface MatchRecord extends MatchStats {
+  mode: GameModeId;
+  endedAt: number;
+  won: boolean;
+  kills: number;
+  deaths: number;
+  assists: number;
+}
+
+// An account as its owner sees it
+export interface Profile {
+  accountId: string;
+  username?: string;   // Only once registered; guests are known by their token
+  displayName: string;
+  carColor?: string;   // Hex string; the default paint when left out
+  stats: LifetimeStats;
+  recentMatches: MatchRecord[];  // Newest first
+  createdAt: number;
+}
+
+// Sent when the handshake logs a socket in; the client keeps the token to log back in
+export interface AccountSession {
+  token: string;
+  profile: Profile;
+}
+
+// Profile fields a player can change
+export interface ProfileUpdate {
+  displayName?: string;
+  carColor?: string;
+}
+
+export type AccountErrorReason =
+  | 'invalid_token'
+  | 'invalid_credentials'
+  | 'already_registered'
+  | 'username_taken'
+  | 'invalid_username'
+  | 'invalid_password'
+  | 'invalid_display_name'
+  | 'invalid_color'
+  | 'too_many_guests'
+  | 'server_error';
+
+export interface AccountError {
+  reason: AccountErrorReason;
+}
+
+// Leaderboards cover today or the last seven days (UTC), or every day since the account was made
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all_time';
+
+export type LeaderboardStat =
+  | 'kills'
+  | 'assists'
+  | 'damageDealt'
+  | 'accuracy'       // shotsHit / shotsFired, for players who fired enough shots
+  | 'distanceFlown'
+  | 'timeAlive'
+  | 'matchesWon'
+  | 'bestLapTime';   // Lowest first
+
+export interface LeaderboardEntry {
+  rank: number;
+  accountId: string;
+  displayName: string;
+  value: number;
+}
+
+// Served by GET /api/leaderboards/:period?stat=...&limit=...
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  stat: LeaderboardStat;
+  since: number | null;  // Start of the period; null for all time
+  entries: LeaderboardEntry[];
+}
+
+export type MatchPhase = 'warmup' | 'countdown' | 'live' | 'overtime' | 'results';
+
+// Where a room's match is in its lifecycle
+export interface MatchState {
+  mode: GameModeId;
+  phase: MatchPhase;
+  phaseEndTime: number | null;  // Server time the phase ends; null while warming up
+  timeLimit: number;            // Length of the live phase (ms)
+  scoreLimit: number;
+  minPlayers: number;           // Players needed to leave warmup
+}
+
+export interface TeamStanding {
+  team: TeamId;
+  score: number;
+}
+
+// A player's line on the scoreboard
+export interface PlayerStanding {
+  playerId: string;
+  team?: TeamId;
+  kills: number;
+  deaths: number;
+  assists: number;
+  captures?: number;  // Only in Capture the Flag
+  points?: number;    // Only in King of the Hill
+  stats?: MatchStats; // Filled in by the room from the car's stats
+}
+
+// What a player did in one match, on top of their kills, deaths and assists
+export interface MatchStats {
+  shotsFired: number;
+  shotsHit: number;
+  damageDealt: number;
+  distanceFlown: number;  // Meters
+  timeAlive: number;      // Milliseconds
+  bestLapTime?: number;   // Fastest lap (ms), in races
+}
+
+// Final standings of a match, best first
+export interface MatchEnd {
+  mode: GameModeId;
+  winner: string | null;  // Winning team or player, or null for a draw
+  teams: TeamStanding[];
+  players: PlayerStanding[];
+}
+
+export type FlagStatus = 'home' | 'carried' | 'dropped';
+
+// Where a team's flag is and who has it
+export interface FlagState {
+  team: TeamId;
+  status: FlagStatus;
+  base: Vector3;       // Rooftop the flag returns to
+  position: Vector3;   // Current position (the carrier's while carried)
+  carrierId?: string;  // Only while carried
+}
+
+export type FlagAction = 'taken' | 'dropped' | 'returned' | 'captured';
+
+// Something happened to a flag
+export interface FlagUpdate {
+  flag: FlagState;
+  action: FlagAction;
+  playerId?: string;  // Who took, dropped, returned or captured it
+}
+
+// A King of the Hill control zone: a cylinder standing on the ground
+export interface ZoneState {
+  id: string;
+  position: Vector3;       // Center of the zone's base
+  radius: number;
+  height: number;
+  holder: string | null;   // Team or player holding the zone, or null
+  contested: boolean;      // More than one team or player inside
+  moveTime: number;        // Server time the zone moves somewhere else
+}
+
+export interface ZoneUpdate {
+  zones: ZoneState[];
+  scores: Record<string, number>;  // Points per team or player
+}
+
+// A ring racers must fly through
+export interface Checkpoint {
+  position: Vector3;  // Center of the ring
+  forward: Vector3;   // Direction racers fly through it
+  radius: number;
+}
+
+// The rings of a race, in order; the first is the start/finish line
+export interface RaceCourse {
+  checkpoints: Checkpoint[];
+}
+
+// A racer's progress, sent to them after every ring
+export interface RaceProgress {
+  lap: number;                 // Laps started so far
+  nextCheckpoint: number;
+  lapStartTime: number | null; // Server time the lap started, or null when not on a lap
+  split: number | null;        // Time into the lap at the ring just passed (ms)
+  bestSplit: number | null;    // Same split on the racer's best lap
+}
+
+export interface LapComplete {
+  playerId: string;
+  lap: number;
+  time: number;      // Lap time (ms)
+  splits: number[];  // Time into the lap at each ring after the start (ms)
+  best: boolean;     // Whether this is the racer's best lap
+}
+
+// Where a racer was at a point of a lap
+export interface GhostSample {
+  time: number;  // Time into the lap (ms)
+  position: Vector3;
+  rotation: Vector3;
+}
+
+// A racer's best lap, for replaying as a ghost
+export interface GhostLap {
+  time: number;  // Lap time (ms)
+  samples: GhostSample[];
+}
+
+export type PickupLocation = 'rooftop' | 'street';
+
+// A power-up pickup at one of the room's spawn points
+export interface PickupState {
+  id: string;
+  type: PowerUpType;
+  location: PickupLocation;
+  position: Vector3;
+  available: boolean;
+  respawnTime: number | null;  // Server time a taken pickup comes back
+}
+
+// A pickup was taken or came back
+export interface PickupUpdate {
+  pickup: PickupState;
+  playerId?: string;  // Who took it
+}
@@ -0,0 +1,336 @@
+/**
+ * Runtime validation - checks received packets against the protocol types
+ * before either side acts on them
+ */
+import {
+  Vector3,
+  PlayerInput,
+  PlayerData,
+  Building,
+  BillboardAd,
+  StateSnapshot,
+  LaserData,
+  LaserShot,
+  HitData,
+  RoomOptions,
+  AccountAuth,
+  AccountCredentials,
+  ProfileUpdate,
+  TeamId,
+  GameModeId,
+  WeaponId,
+  LeaderboardPeriod,
+  LeaderboardStat
+} from './types.js';
+
+export type Validator<T> = (value: unknown) => value is T;
+
+type Shape<T> = { [K in keyof T]: Validator<T[K]> };
+
+// Packet limits
+const MAX_INPUT_BATCH = 120; // Input frames per player:input message
+const MAX_ID_LENGTH = 64; // Player and entity IDs
+const MAX_CHAT_LENGTH = 200; // Characters per chat message
+const MAX_ROOM_NAME_LENGTH = 32; // Characters in a room name
+const MIN_TIME_LIMIT = 60; // Shortest match a room may ask for (seconds)
+const MAX_TIME_LIMIT = 60 * 60; // Longest match a room may ask for (seconds)
+const MAX_SCORE_LIMIT = 1000;
+const MAX_TOKEN_LENGTH = 128; // Account session tokens
+const MAX_PASSWORD_LENGTH = 128;
+const MAX_DISPLAY_NAME_LENGTH = 32; // The account store applies the stricter limits
+const MAX_SHOT_ID = 0xffffffff; // Numbers a client may give its shots
+
+/**
+ * Check for a finite number
+ * @param {unknown} value - The value to check
+ * @returns {boolean} - Whether the value is a finite number
+ */
+export function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+/**
+ * Check for an integer
+ * @param {unknown} value - The value to check
+ * @returns {boolean} - Whether the value is an integer
+ */
+export function isInteger(value: unknown): value is number {
+  return isNumber(value) && Math.floor(value) === value;
+}
+
+/**
+ * Build a validator for integers in a range
+ * @param {number} min - Smallest accepted value
+ * @param {number} max - Largest accepted value
+ * @returns {Validator<number>} - The validator
+ */
+export function integerBetween(min: number, max: number): Validator<number> {
+  return (value: unknown): value is number => isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Check for a boolean
+ * @param {unknown} value - The value to check
+ * @returns {boolean} - Whether the value is a boolean
+ */
+export function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+/**
+ * Build a validator for strings up to a length
+ * @param {number} maxLength - Longest accepted string
+ * @returns {Validator<string>} - The validator
+ */
+export function stringOf(maxLength: number): Validator<string> {
+  return (value: unknown): value is string => typeof value === 'string' && value.length <= maxLength;
+}
+
+/**
+ * Build a validator for strings matching a pattern
+ * @param {RegExp} pattern - The pattern, anchored at both ends
+ * @returns {Validator<string>} - The validator
+ */
+export function matching(pattern: RegExp): Validator<string> {
+  return (value: unknown): value is string => typeof value === 'string' && pattern.test(value);
+}
+
+/**
+ * Build a validator for one of a fixed set of strings
+ * @param {T[]} values - The accepted strings
+ * @returns {Validator<T>} - The validator
+ */
+export function oneOf<T extends string>(values: T[]): Validator<T> {
+  return (value: unknown): value is T => typeof value === 'string' && values.indexOf(value as T) !== -1;
+}
+
+/**
+ * Build a validator that also accepts undefined
+ * @param {Validator<T>} validator - Validator for the value when present
+ * @returns {Validator<T | undefined>} - The validator
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value: unknown): value is T | undefined => value === undefined || validator(value);
+}
+
+/**
+ * Build a validator for arrays
+ * @param {Validator<T>} validator - Validator for each element
+ * @param {number} maxLength - Longest accepted array
+ * @returns {Validator<T[]>} - The validator
+ */
+export function arrayOf<T>(validator: Validator<T>, maxLength: number = Infinity): Validator<T[]> {
+  return (value: unknown): value is T[] =>
+    Array.isArray(value) && value.length <= maxLength && value.every(item => validator(item));
+}
+
+/**
+ * Build a validator for string-keyed maps
+ * @param {Validator<T>} validator - Validator for each value
+ * @returns {Validator<Record<string, T>>} - The validator
+ */
+export function recordOf<T>(validator: Validator<T>): Validator<Record<string, T>> {
+  return (value: unknown): value is Record<string, T> => {
+    if (!isPlainObject(value)) return false;
+    return Object.keys(value).every(key => validator(value[key]));
+  };
+}
+
+/**
+ * Build a validator for objects with known fields. Unknown fields are allowed.
+ * @param {Shape<T>} shape - A validator for each field
+ * @returns {Validator<T>} - The validator
+ */
+export function objectOf<T>(shape: Shape<T>): Validator<T> {
+  const fields = shape as unknown as Record<string, Validator<unknown>>;
+
+  return (value: unknown): value is T => {
+    if (!isPlainObject(value)) return false;
+    return Object.keys(fields).every(key => fields[key](value[key]));
+  };
+}
+
+/**
+ * Check for a non-null, non-array object
+ * @param {unknown} value - The value to check
+ * @returns {boolean} - Whether the value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const isId = stringOf(MAX_ID_LENGTH);
+
+export const isHexColor = matching(/^#[0-9a-fA-F]{6}$/);
+
+export const isTeamId = oneOf<TeamId>(['red', 'blue']);
+
+export const isGameModeId = oneOf<GameModeId>([
+  'free_for_all',
+  'team_deathmatch',
+  'capture_the_flag',
+  'air_race',
+  'king_of_the_hill',
+  'team_king_of_the_hill'
+]);
+
+export const isWeaponId = oneOf<WeaponId>(['rapid_laser', 'rail_beam', 'homing_missile', 'emp_burst']);
+
+export const isVector3 = objectOf<Vector3>({
+  x: isNumber,
+  y: isNumber,
+  z: isNumber
+});
+
+export const isPlayerInput = objectOf<PlayerInput>({
+  seq: isInteger,
+  dt: isNumber,
+  throttle: isNumber,
+  strafe: isNumber,
+  vertical: isNumber,
+  yaw: isNumber,
+  pitch: isNumber,
+  roll: isNumber,
+  boost: isBoolean
+});
+
+export const isPlayerInputBatch = arrayOf(isPlayerInput, MAX_INPUT_BATCH);
+
+export const isSnapshotAck = isInteger;
+
+const isShotId = integerBetween(0, MAX_SHOT_ID);
+
+export const isLaserData = objectOf<LaserData>({
+  id: isShotId,
+  position: isVector3,
+  rotation: isVector3,
+  targetId: optional(isId)
+});
+
+export const isHitData = objectOf<HitData>({
+  shotId: isShotId,
+  targetId: isId,
+  position: isVector3,
+  viewTime: optional(isNumber)
+});
+
+export const isChatText = stringOf(MAX_CHAT_LENGTH);
+
+export const isPlayerDelta = objectOf<Partial<PlayerData>>({
+  id: optional(isId),
+  username: optional(stringOf(MAX_ID_LENGTH)),
+  team: optional(isTeamId),
+  position: optional(isVector3),
+  rotation: optional(isVector3),
+  velocity: optional(isVector3),
+  health: optional(isNumber),
+  shield: optional(isNumber),
+  score: optional(isNumber),
+  isAlive: optional(isBoolean),
+  lastProcessedInput: optional(isInteger),
+  weapon: optional(isWeaponId),
+  ammo: optional(recordOf(isInteger)),
+  heat: optional(isNumber),
+  overheated: optional(isBoolean),
+  energy: optional(isNumber),
+  flares: optional(isInteger),
+  powerUps: optional(recordOf(isNumber)),
+  color: optional(isHexColor)
+});
+
+export const isBuilding = objectOf<Building>({
+  position: isVector3,
+  size: isVector3,
+  type: stringOf(MAX_ID_LENGTH),
+  height: isNumber
+});
+
+export const isBillboardAd = objectOf<BillboardAd>({
+  id: isId,
+  billboardId: isId,
+  name: stringOf(MAX_CHAT_LENGTH),
+  content: stringOf(MAX_CHAT_LENGTH),
+  color: stringOf(MAX_ID_LENGTH),
+  startTime: isNumber,
+  endTime: isNumber,
+  position: isVector3,
+  size: objectOf<BillboardAd['size']>({ width: isNumber, height: isNumber })
+});
+
+// Player fields a delta can clear
+const isOptionalPlayerField = oneOf<keyof PlayerData>([
+  'username',
+  'team',
+  'shield',
+  'weapon',
+  'ammo',
+  'heat',
+  'overheated',
+  'energy',
+  'flares',
+  'powerUps',
+  'color'
+]);
+
+export const isStateSnapshot = objectOf<StateSnapshot>({
+  timestamp: isNumber,
+  sequence: isInteger,
+  baseline: isInteger,
+  keyframe: isBoolean,
+  players: recordOf(isPlayerDelta),
+  removedPlayers: arrayOf(isId),
+  ads: optional(recordOf(isBillboardAd)),
+  removedAds: optional(arrayOf(isId)),
+  clearedFields: optional(recordOf(arrayOf(isOptionalPlayerField))),
+  cityLayout: optional(arrayOf(isBuilding))
+});
+
+export const isLaserShot = objectOf<LaserShot>({
+  id: isShotId,
+  playerId: isId,
+  weapon: isWeaponId,
+  position: isVector3,
+  rotation: isVector3
+});
+
+export const isRoomId = isId;
+
+export const isRoomOptions = objectOf<RoomOptions>({
+  name: optional(stringOf(MAX_ROOM_NAME_LENGTH)),
+  mode: optional(isGameModeId),
+  citySeed: optional(isInteger),
+  timeLimit: optional(integerBetween(MIN_TIME_LIMIT, MAX_TIME_LIMIT)),
+  scoreLimit: optional(integerBetween(1, MAX_SCORE_LIMIT)),
+  pickups: optional(isBoolean)
+});
+
+export const isAccountAuth = objectOf<AccountAuth>({
+  token: optional(stringOf(MAX_TOKEN_LENGTH)),
+  username: optional(stringOf(MAX_ID_LENGTH)),
+  password: optional(stringOf(MAX_PASSWORD_LENGTH))
+});
+
+export const isAccountCredentials = objectOf<AccountCredentials>({
+  username: stringOf(MAX_ID_LENGTH),
+  password: stringOf(MAX_PASSWORD_LENGTH)
+});
+
+export const isProfileUpdate = objectOf<ProfileUpdate>({
+  displayName: optional(stringOf(MAX_DISPLAY_NAME_LENGTH)),
+  carColor: optional(isHexColor)
+});
+
+export const isResumeToken = stringOf(MAX_TOKEN_LENGTH);
+
+export const isLeaderboardPeriod = oneOf<LeaderboardPeriod>(['daily', 'weekly', 'all_time']);
+
+export const isLeaderboardStat = oneOf<LeaderboardStat>([
+  'kills',
+  'assists',
+  'damageDealt',
+  'accuracy',
+  'distanceFlown',
+  'timeAlive',
+  'matchesWon',
+  'bestLapTime'
+]);
@@ -0,0 +1,106 @@
+/**
+ * City generation - a seeded generator so the client draws the same
+ * buildings the server collides against
+ */
+import { Building } from '../protocol/types.js';
+
+// City grid
+export const CITY_GRID_SIZE = 10; // Cells from the center to the edge
+export const CITY_CELL_SIZE = 100;
+export const ROAD_INTERVAL = 3; // Every third row and column of cells is a road
+export const DEFAULT_CITY_SEED = 2077;
+
+// Building dimensions
+const MIN_BUILDING_WIDTH = 20;
+const MAX_BUILDING_WIDTH = 50;
+const MIN_BUILDING_HEIGHT = 50;
+const MAX_BUILDING_HEIGHT = 200;
+const CELL_JITTER = 0.5; // Fraction of a cell a building may drift from its center
+
+/**
+ * Create a seeded pseudo-random generator (Park-Miller). Every step is exact
+ * in double precision, so all JavaScript engines produce the same sequence.
+ * @param {number} seed - The seed
+ * @returns {() => number} - A function returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  const modulus = 2147483647;
+  let state = Math.abs(Math.floor(seed)) % modulus || 1;
+
+  return () => {
+    state = (state * 16807) % modulus;
+    return (state - 1) / (modulus - 1);
+  };
+}
+
+/**
+ * Check whether a grid cell is a road
+ * @param {number} cell - Cell index along either axis
+ * @returns {boolean} - Whether the cell is a road
+ */
+export function isRoadCell(cell: number): boolean {
+  return cell % ROAD_INTERVAL === 0;
+}
+
+/**
+ * Generate the city layout for a seed
+ * @param {number} seed - The city seed
+ * @returns {Building[]} - The buildings, identical for the same seed
+ */
+export function generateCityLayout(seed: number = DEFAULT_CITY_SEED): Building[] {
+  const buildings: Building[] = [];
+  const random = createRandom(seed);
+
+  // Generate buildings on a grid
+  for (let x = -CITY_GRID_SIZE; x <= CITY_GRID_SIZE; x++) {
+    for (let z = -CITY_GRID_SIZE; z <= CITY_GRID_SIZE; z++) {
+      // Leave cells free for roads
+      if (isRoadCell(x) || isRoadCell(z)) continue;
+
+      const width = MIN_BUILDING_WIDTH + random() * (MAX_BUILDING_WIDTH - MIN_BUILDING_WIDTH);
+      const depth = MIN_BUILDING_WIDTH + random() * (MAX_BUILDING_WIDTH - MIN_BUILDING_WIDTH);
+      const height = MIN_BUILDING_HEIGHT + random() * (MAX_BUILDING_HEIGHT - MIN_BUILDING_HEIGHT);
+
+      // Position in cell with some variation
+      const posX = x * CITY_CELL_SIZE + (random() - 0.5) * CITY_CELL_SIZE * CELL_JITTER;
+      const posZ = z * CITY_CELL_SIZE + (random() - 0.5) * CITY_CELL_SIZE * CELL_JITTER;
+
+      buildings.push({
+        position: {
+          x: posX,
+          y: height / 2, // Position is at the center of the building
+          z: posZ
+        },
+        size: {
+          x: width,
+          y: height,
+          z: depth
+        },
+        type: 'building',
+        height
+      });
+    }
+  }
+
+  return buildings;
+}
+
+/**
+ * Check whether two layouts describe the same buildings
+ * @param {Building[]} a - First layout
+ * @param {Building[]} b - Second layout
+ * @returns {boolean} - Whether the layouts match
+ */
+export function layoutsMatch(a: Building[], b: Building[]): boolean {
+  if (a.length !== b.length) return false;
+
+  return a.every((building, i) => {
+    const other = b[i];
+    return building.position.x === other.position.x &&
+      building.position.y === other.position.y &&
+      building.position.z === other.position.z &&
+      building.size.x === other.size.x &&
+      building.size.y === other.size.y &&
+      building.size.z === other.size.z;
+  });
+}